@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "HolidayCalendar" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "ruleSet" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HolidayCalendar_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HolidayCalendar_name_key" ON "HolidayCalendar"("name");
+
+-- Seed the default US calendar and attach existing holidays to it
+INSERT INTO "HolidayCalendar" ("id", "name", "ruleSet", "isDefault", "updatedAt")
+VALUES ('00000000-0000-4000-8000-000000000001', 'US', 'US', true, CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "Holiday" ADD COLUMN "calendarId" TEXT;
+UPDATE "Holiday" SET "calendarId" = '00000000-0000-4000-8000-000000000001';
+ALTER TABLE "Holiday" ALTER COLUMN "calendarId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "Holiday_date_key";
+
+-- DropIndex
+DROP INDEX "Holiday_year_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Holiday_calendarId_date_key" ON "Holiday"("calendarId", "date");
+
+-- CreateIndex
+CREATE INDEX "Holiday_calendarId_year_idx" ON "Holiday"("calendarId", "year");
+
+-- AddForeignKey
+ALTER TABLE "Holiday" ADD CONSTRAINT "Holiday_calendarId_fkey" FOREIGN KEY ("calendarId") REFERENCES "HolidayCalendar"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "holidayCalendarId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "User_holidayCalendarId_idx" ON "User"("holidayCalendarId");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_holidayCalendarId_fkey" FOREIGN KEY ("holidayCalendarId") REFERENCES "HolidayCalendar"("id") ON DELETE SET NULL ON UPDATE CASCADE;
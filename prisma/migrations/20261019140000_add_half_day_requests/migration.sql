@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "HalfDay" AS ENUM ('AM', 'PM');
+
+-- AlterTable
+ALTER TABLE "TimeOffRequest" ADD COLUMN     "startHalf" "HalfDay",
+ADD COLUMN     "endHalf" "HalfDay";
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "BalanceUnit" AS ENUM ('DAYS', 'HOURS');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "balanceUnit" "BalanceUnit" NOT NULL DEFAULT 'DAYS',
+ADD COLUMN     "standardHoursPerDay" DOUBLE PRECISION NOT NULL DEFAULT 8;
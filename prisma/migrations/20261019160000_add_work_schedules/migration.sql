@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "WorkSchedule" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "effectiveFrom" DATE NOT NULL,
+    "weekdays" INTEGER[],
+    "hoursByWeekday" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WorkSchedule_userId_idx" ON "WorkSchedule"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkSchedule_userId_effectiveFrom_key" ON "WorkSchedule"("userId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "WorkSchedule" ADD CONSTRAINT "WorkSchedule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,71 @@
+-- CreateEnum
+CREATE TYPE "AccrualBasis" AS ENUM ('ANNUAL', 'MONTHLY', 'HOURS_WORKED');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "hireDate" DATE;
+
+-- CreateTable
+CREATE TABLE "AccrualPolicy" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "TimeOffType" NOT NULL,
+    "basis" "AccrualBasis" NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "unit" "BalanceUnit" NOT NULL DEFAULT 'DAYS',
+    "perHours" DOUBLE PRECISION,
+    "annualCap" DOUBLE PRECISION,
+    "effectiveFrom" DATE NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AccrualPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Accrual" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "policyId" TEXT NOT NULL,
+    "type" "TimeOffType" NOT NULL,
+    "year" INTEGER NOT NULL,
+    "period" TEXT NOT NULL,
+    "days" DOUBLE PRECISION NOT NULL,
+    "hoursWorked" DOUBLE PRECISION,
+    "prorated" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Accrual_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_UserAccrualPolicies" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_UserAccrualPolicies_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccrualPolicy_name_key" ON "AccrualPolicy"("name");
+
+-- CreateIndex
+CREATE INDEX "Accrual_userId_year_idx" ON "Accrual"("userId", "year");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Accrual_userId_policyId_period_key" ON "Accrual"("userId", "policyId", "period");
+
+-- CreateIndex
+CREATE INDEX "_UserAccrualPolicies_B_index" ON "_UserAccrualPolicies"("B");
+
+-- AddForeignKey
+ALTER TABLE "Accrual" ADD CONSTRAINT "Accrual_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Accrual" ADD CONSTRAINT "Accrual_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "AccrualPolicy"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_UserAccrualPolicies" ADD CONSTRAINT "_UserAccrualPolicies_A_fkey" FOREIGN KEY ("A") REFERENCES "AccrualPolicy"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_UserAccrualPolicies" ADD CONSTRAINT "_UserAccrualPolicies_B_fkey" FOREIGN KEY ("B") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
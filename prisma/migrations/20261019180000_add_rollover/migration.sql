@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "TimeOffBalance" ADD COLUMN     "carriedOverDays" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "carryoverExpiresAt" DATE,
+ADD COLUMN     "rolledOverAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "RolloverPolicy" (
+    "id" TEXT NOT NULL,
+    "type" "TimeOffType" NOT NULL,
+    "annualAllowance" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "carryoverCap" DOUBLE PRECISION,
+    "expiryMonth" INTEGER,
+    "expiryDay" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RolloverPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RolloverPolicy_type_key" ON "RolloverPolicy"("type");
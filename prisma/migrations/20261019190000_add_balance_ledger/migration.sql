@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "BalanceTransactionKind" AS ENUM ('GRANT', 'ACCRUAL', 'DEDUCTION', 'RESTORATION', 'OVERTIME_CREDIT', 'CARRYOVER', 'FORFEITURE', 'ADJUSTMENT');
+
+-- CreateTable
+CREATE TABLE "BalanceTransaction" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "type" "TimeOffType" NOT NULL,
+    "kind" "BalanceTransactionKind" NOT NULL,
+    "days" DOUBLE PRECISION NOT NULL,
+    "requestId" TEXT,
+    "overtimeRequestId" TEXT,
+    "accrualId" TEXT,
+    "actorId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BalanceTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BalanceTransaction_userId_year_type_createdAt_idx" ON "BalanceTransaction"("userId", "year", "type", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "BalanceTransaction_requestId_idx" ON "BalanceTransaction"("requestId");
+
+-- AddForeignKey
+ALTER TABLE "BalanceTransaction" ADD CONSTRAINT "BalanceTransaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: open each existing balance with what can still be used and what has been used.
+-- Remaining days win over a stale total, so nobody's available days change.
+UPDATE "TimeOffBalance" SET "totalDays" = "remainingDays" + "usedDays"
+WHERE "totalDays" <> "remainingDays" + "usedDays";
+
+INSERT INTO "BalanceTransaction" ("id", "userId", "year", "type", "kind", "days", "reason", "createdAt")
+SELECT gen_random_uuid()::text, "userId", "year", "type", 'GRANT', "totalDays", 'Opening balance', "createdAt"
+FROM "TimeOffBalance"
+WHERE "totalDays" <> 0;
+
+INSERT INTO "BalanceTransaction" ("id", "userId", "year", "type", "kind", "days", "reason", "createdAt")
+SELECT gen_random_uuid()::text, "userId", "year", "type", 'DEDUCTION', -"usedDays", 'Opening balance', "createdAt"
+FROM "TimeOffBalance"
+WHERE "usedDays" <> 0;
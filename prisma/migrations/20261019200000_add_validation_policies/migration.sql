@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ValidationPolicy" (
+    "id" TEXT NOT NULL,
+    "type" "TimeOffType" NOT NULL,
+    "role" "UserRole",
+    "minNoticeDays" INTEGER NOT NULL DEFAULT 0,
+    "maxConsecutiveDays" INTEGER NOT NULL DEFAULT 30,
+    "maxRequestsPerYear" INTEGER NOT NULL DEFAULT 20,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ValidationPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ValidationPolicy_type_role_key" ON "ValidationPolicy"("type", "role");
+
+-- NULLs are distinct in the index above, so keep one role-less policy per type
+CREATE UNIQUE INDEX "ValidationPolicy_type_default_key" ON "ValidationPolicy"("type") WHERE "role" IS NULL;
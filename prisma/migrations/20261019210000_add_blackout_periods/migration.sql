@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "BlackoutPeriod" (
+    "id" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE NOT NULL,
+    "types" "TimeOffType"[],
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BlackoutPeriod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BlackoutException" (
+    "id" TEXT NOT NULL,
+    "blackoutPeriodId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "requestId" TEXT,
+    "approvedById" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BlackoutException_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BlackoutPeriod_startDate_endDate_idx" ON "BlackoutPeriod"("startDate", "endDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BlackoutException_blackoutPeriodId_userId_key" ON "BlackoutException"("blackoutPeriodId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "BlackoutException" ADD CONSTRAINT "BlackoutException_blackoutPeriodId_fkey" FOREIGN KEY ("blackoutPeriodId") REFERENCES "BlackoutPeriod"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BlackoutException" ADD CONSTRAINT "BlackoutException_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
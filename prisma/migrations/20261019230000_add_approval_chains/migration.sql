@@ -0,0 +1,44 @@
+-- AlterEnum
+ALTER TYPE "RequestStatus" ADD VALUE 'PARTIALLY_APPROVED';
+
+-- CreateEnum
+CREATE TYPE "ApprovalStepRole" AS ENUM ('MANAGER', 'ADMIN');
+
+-- CreateEnum
+CREATE TYPE "ApprovalStepStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "ApprovalChain" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "TimeOffType" NOT NULL,
+    "overDays" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "steps" "ApprovalStepRole"[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApprovalChain_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RequestApproval" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "step" INTEGER NOT NULL,
+    "role" "ApprovalStepRole" NOT NULL,
+    "status" "ApprovalStepStatus" NOT NULL DEFAULT 'PENDING',
+    "approverId" TEXT,
+    "comment" TEXT,
+    "decidedAt" TIMESTAMP(3),
+
+    CONSTRAINT "RequestApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApprovalChain_type_overDays_key" ON "ApprovalChain"("type", "overDays");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RequestApproval_requestId_step_key" ON "RequestApproval"("requestId", "step");
+
+-- AddForeignKey
+ALTER TABLE "RequestApproval" ADD CONSTRAINT "RequestApproval_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "TimeOffRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
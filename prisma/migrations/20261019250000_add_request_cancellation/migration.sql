@@ -0,0 +1,7 @@
+-- AlterEnum
+ALTER TYPE "RequestStatus" ADD VALUE 'CANCELLATION_REQUESTED';
+ALTER TYPE "RequestStatus" ADD VALUE 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "TimeOffRequest" ADD COLUMN     "cancellationReason" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3);
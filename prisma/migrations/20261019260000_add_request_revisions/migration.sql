@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "TimeOffRequestRevision" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "type" "TimeOffType" NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "workingDays" DOUBLE PRECISION NOT NULL,
+    "startHalf" "HalfDay",
+    "endHalf" "HalfDay",
+    "reason" TEXT,
+    "status" "RequestStatus" NOT NULL,
+    "editedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TimeOffRequestRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TimeOffRequestRevision_requestId_revision_key" ON "TimeOffRequestRevision"("requestId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "TimeOffRequestRevision" ADD CONSTRAINT "TimeOffRequestRevision_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "TimeOffRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
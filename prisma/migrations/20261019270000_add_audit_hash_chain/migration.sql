@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN "sequence" SERIAL NOT NULL,
+ADD COLUMN "previousHash" TEXT,
+ADD COLUMN "hash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditLog_sequence_key" ON "AuditLog"("sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditLog_hash_key" ON "AuditLog"("hash");
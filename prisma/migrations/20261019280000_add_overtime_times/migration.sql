@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "overtime_requests" ADD COLUMN "startTime" TEXT,
+ADD COLUMN "endTime" TEXT;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "OvertimeCompensation" AS ENUM ('COMP_TIME', 'PAYOUT');
+
+-- AlterTable
+ALTER TABLE "overtime_requests" ADD COLUMN "compensation" "OvertimeCompensation",
+ADD COLUMN "rate" DOUBLE PRECISION,
+ADD COLUMN "creditType" "TimeOffType",
+ADD COLUMN "creditedDays" DOUBLE PRECISION,
+ADD COLUMN "payoutHours" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "OvertimePolicy" (
+    "id" TEXT NOT NULL,
+    "compensation" "OvertimeCompensation" NOT NULL DEFAULT 'COMP_TIME',
+    "creditType" "TimeOffType" NOT NULL DEFAULT 'VACATION',
+    "weekdayRate" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "weekendRate" DOUBLE PRECISION NOT NULL DEFAULT 1.5,
+    "holidayRate" DOUBLE PRECISION NOT NULL DEFAULT 1.5,
+    "monthlyCapDays" DOUBLE PRECISION,
+    "yearlyCapDays" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OvertimePolicy_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "OvertimePolicy" ADD COLUMN "windowLastDaysOfMonth" INTEGER,
+ADD COLUMN "windowFirstDaysOfNextMonth" INTEGER,
+ADD COLUMN "maxHoursPerEntry" DOUBLE PRECISION,
+ADD COLUMN "maxHoursPerMonth" DOUBLE PRECISION,
+ADD COLUMN "notesRequiredAboveHours" DOUBLE PRECISION;
@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "OvertimePolicy" ADD COLUMN "compTimeExpiryDays" INTEGER;
+
+-- CreateTable
+CREATE TABLE "CompTimeGrant" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "overtimeRequestId" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "type" "TimeOffType" NOT NULL,
+    "days" DOUBLE PRECISION NOT NULL,
+    "remainingDays" DOUBLE PRECISION NOT NULL,
+    "grantedOn" DATE NOT NULL,
+    "expiresOn" DATE,
+    "expiredDays" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "expiredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CompTimeGrant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CompTimeUsage" (
+    "id" TEXT NOT NULL,
+    "grantId" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "days" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CompTimeUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CompTimeGrant_overtimeRequestId_key" ON "CompTimeGrant"("overtimeRequestId");
+
+-- CreateIndex
+CREATE INDEX "CompTimeGrant_userId_year_type_idx" ON "CompTimeGrant"("userId", "year", "type");
+
+-- CreateIndex
+CREATE INDEX "CompTimeGrant_expiresOn_idx" ON "CompTimeGrant"("expiresOn");
+
+-- CreateIndex
+CREATE INDEX "CompTimeUsage_grantId_idx" ON "CompTimeUsage"("grantId");
+
+-- CreateIndex
+CREATE INDEX "CompTimeUsage_requestId_idx" ON "CompTimeUsage"("requestId");
+
+-- AddForeignKey
+ALTER TABLE "CompTimeGrant" ADD CONSTRAINT "CompTimeGrant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CompTimeUsage" ADD CONSTRAINT "CompTimeUsage_grantId_fkey" FOREIGN KEY ("grantId") REFERENCES "CompTimeGrant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
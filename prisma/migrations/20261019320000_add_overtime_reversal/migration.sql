@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "overtime_requests" ADD COLUMN "reversedAt" TIMESTAMP(3),
+ADD COLUMN "reversedById" TEXT,
+ADD COLUMN "reversalReason" TEXT;
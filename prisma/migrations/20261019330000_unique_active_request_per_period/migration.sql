@@ -0,0 +1,9 @@
+-- DropIndex
+DROP INDEX "TimeOffRequest_userId_startDate_endDate_type_key";
+
+-- CreateIndex
+CREATE INDEX "TimeOffRequest_userId_startDate_endDate_type_idx" ON "TimeOffRequest"("userId", "startDate", "endDate", "type");
+
+-- Cancelled and rejected requests no longer hold their dates
+CREATE UNIQUE INDEX "TimeOffRequest_active_period_key" ON "TimeOffRequest"("userId", "startDate", "endDate", "type")
+WHERE "status" NOT IN ('CANCELLED', 'REJECTED');
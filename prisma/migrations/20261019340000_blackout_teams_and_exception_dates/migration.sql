@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "BlackoutPeriod" ADD COLUMN     "teamId" TEXT;
+
+-- AlterTable
+ALTER TABLE "BlackoutException" ADD COLUMN     "startDate" DATE,
+ADD COLUMN     "endDate" DATE;
+
+-- Existing exceptions keep covering the request they were approved for, or else the whole blackout
+UPDATE "BlackoutException" e
+   SET "startDate" = r."startDate"::date, "endDate" = r."endDate"::date
+  FROM "TimeOffRequest" r
+ WHERE r.id = e."requestId";
+
+UPDATE "BlackoutException" e
+   SET "startDate" = b."startDate", "endDate" = b."endDate"
+  FROM "BlackoutPeriod" b
+ WHERE b.id = e."blackoutPeriodId" AND e."startDate" IS NULL;
+
+ALTER TABLE "BlackoutException" ALTER COLUMN "startDate" SET NOT NULL,
+ALTER COLUMN "endDate" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "BlackoutException_blackoutPeriodId_userId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BlackoutException_blackoutPeriodId_userId_startDate_endDate_key" ON "BlackoutException"("blackoutPeriodId", "userId", "startDate", "endDate");
+
+-- CreateIndex
+CREATE INDEX "BlackoutPeriod_teamId_idx" ON "BlackoutPeriod"("teamId");
+
+-- AddForeignKey
+ALTER TABLE "BlackoutPeriod" ADD CONSTRAINT "BlackoutPeriod_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
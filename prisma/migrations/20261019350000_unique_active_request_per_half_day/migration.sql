@@ -0,0 +1,11 @@
+-- DropIndex
+DROP INDEX "TimeOffRequest_active_period_key";
+
+-- Morning and afternoon halves of the same day are separate requests; the
+-- halves are mapped to numbers as enum-to-text casts can't be indexed
+CREATE UNIQUE INDEX "TimeOffRequest_active_period_key" ON "TimeOffRequest"(
+    "userId", "startDate", "endDate", "type",
+    (CASE "startHalf" WHEN 'AM' THEN 1 WHEN 'PM' THEN 2 ELSE 0 END),
+    (CASE "endHalf" WHEN 'AM' THEN 1 WHEN 'PM' THEN 2 ELSE 0 END)
+)
+WHERE "status" NOT IN ('CANCELLED', 'REJECTED');
@@ -0,0 +1,2 @@
+-- Entries the system writes on its own, e.g. scheduled accruals, have no actor
+ALTER TABLE "AuditLog" ALTER COLUMN "userId" DROP NOT NULL;
@@ -0,0 +1,35 @@
+import { PrismaClient } from '@prisma/client';
+import { describeAuditChainBreak, verifyAuditChain } from '../src/lib/audit-chain';
+
+// Walks the audit log hash chain and exits with 1 at the first broken link.
+// Usage: npm run verify-audit [-- "postgresql://..."]
+const databaseUrl = process.argv[2] || process.env.DATABASE_URL;
+
+if (!databaseUrl) {
+  console.error('ERROR: No DATABASE_URL provided. Please specify as an environment variable or command line argument.');
+  process.exit(1);
+}
+
+const prisma = new PrismaClient({ datasources: { db: { url: databaseUrl } } });
+
+async function main() {
+  const report = await verifyAuditChain(prisma);
+  if (report.unchained > 0) {
+    console.log(`${report.unchained} entries predate the hash chain and were not checked.`);
+  }
+  if (report.broken) {
+    console.error(describeAuditChainBreak(report.broken));
+    process.exitCode = 1;
+    return;
+  }
+  console.log(`All ${report.checked} chained audit entries are intact.`);
+}
+
+main()
+  .catch((e) => {
+    console.error('Error verifying audit chain:', e);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,336 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+
+type AccrualBasis = 'ANNUAL' | 'MONTHLY' | 'HOURS_WORKED';
+
+interface AccrualPolicy {
+  id: string;
+  name: string;
+  type: string;
+  basis: AccrualBasis;
+  rate: number;
+  unit: 'DAYS' | 'HOURS';
+  perHours: number | null;
+  annualCap: number | null;
+  effectiveFrom: string;
+  active: boolean;
+  userIds: string[];
+}
+
+interface PostedAccrual {
+  userId: string;
+  policyName: string;
+  period: string;
+  days: number;
+  prorated: boolean;
+}
+
+const BASIS_LABELS: Record<AccrualBasis, string> = {
+  ANNUAL: 'Once a year',
+  MONTHLY: 'Every month',
+  HOURS_WORKED: 'Per hours worked',
+};
+
+const emptyPolicy = {
+  name: '',
+  type: 'VACATION',
+  basis: 'MONTHLY' as AccrualBasis,
+  rate: '',
+  unit: 'DAYS' as 'DAYS' | 'HOURS',
+  perHours: '',
+  annualCap: '',
+  effectiveFrom: `${new Date().getFullYear()}-01-01`,
+};
+
+const describeRate = (policy: AccrualPolicy) => {
+  const unit = policy.unit === 'HOURS' ? 'hour' : 'day';
+  const amount = `${policy.rate} ${unit}${policy.rate === 1 ? '' : 's'}`;
+  if (policy.basis === 'HOURS_WORKED') return `${amount} per ${policy.perHours} hours worked`;
+  return `${amount} ${policy.basis === 'ANNUAL' ? 'per year' : 'per month'}`;
+};
+
+export default function AccrualsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [policies, setPolicies] = useState<AccrualPolicy[]>([]);
+  const [newPolicy, setNewPolicy] = useState(emptyPolicy);
+  const [running, setRunning] = useState(false);
+  const [posted, setPosted] = useState<PostedAccrual[] | null>(null);
+  const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const loadPolicies = useCallback(async () => {
+    const res = await fetch('/api/admin/accrual-policies');
+    if (res.ok) {
+      setPolicies(await res.json());
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') router.push('/login');
+    if (status === 'authenticated' && session?.user?.role !== 'ADMIN') router.push('/dashboard');
+    if (status === 'authenticated' && session?.user?.role === 'ADMIN') {
+      loadPolicies();
+    }
+  }, [session, status, router, loadPolicies]);
+
+  const showToast = (type: 'success' | 'error', message: string) => {
+    setToast({ type, message });
+    setTimeout(() => setToast(null), 2500);
+  };
+
+  const createPolicy = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const res = await fetch('/api/admin/accrual-policies', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name: newPolicy.name,
+        type: newPolicy.type,
+        basis: newPolicy.basis,
+        rate: Number(newPolicy.rate),
+        unit: newPolicy.unit,
+        perHours: newPolicy.basis === 'HOURS_WORKED' ? Number(newPolicy.perHours) : null,
+        annualCap: newPolicy.annualCap ? Number(newPolicy.annualCap) : null,
+        effectiveFrom: newPolicy.effectiveFrom,
+      }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      showToast('error', data.error || 'Failed to create policy');
+      return;
+    }
+    setNewPolicy(emptyPolicy);
+    showToast('success', `Created ${data.name}`);
+    await loadPolicies();
+  };
+
+  const toggleActive = async (policy: AccrualPolicy) => {
+    const res = await fetch(`/api/admin/accrual-policies/${policy.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ active: !policy.active }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      showToast('error', data.error || 'Failed to update policy');
+      return;
+    }
+    await loadPolicies();
+  };
+
+  const deletePolicy = async (policy: AccrualPolicy) => {
+    if (!confirm(`Delete ${policy.name}?`)) return;
+    const res = await fetch(`/api/admin/accrual-policies/${policy.id}`, { method: 'DELETE' });
+    const data = await res.json();
+    if (!res.ok) {
+      showToast('error', data.error || 'Failed to delete policy');
+      return;
+    }
+    showToast('success', `Deleted ${policy.name}`);
+    await loadPolicies();
+  };
+
+  const runNow = async () => {
+    setRunning(true);
+    try {
+      const res = await fetch('/api/admin/accruals/run', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        showToast('error', data.error || 'Failed to run accruals');
+        return;
+      }
+      setPosted(data.posted);
+      showToast('success', `Posted ${data.posted.length} accrual${data.posted.length === 1 ? '' : 's'}`);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (status === 'loading') return <div className="p-6">Loading…</div>;
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-2xl font-bold">Accrual Policies</h1>
+        <button onClick={() => router.push('/admin')} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+          Back to Admin
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Policies add time off to the balances of the employees they are assigned to. Monthly and hours-worked
+        accruals post after each month ends; annual grants post at the start of the year. The first period after
+        a hire date is prorated. Assign policies from each employee&apos;s page.
+      </p>
+
+      {toast && (
+        <div className={`mb-4 px-4 py-2 rounded ${toast.type === 'success' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>{toast.message}</div>
+      )}
+
+      <table className="min-w-full divide-y divide-gray-200 mb-6">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Policy</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Accrues</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Yearly cap</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Employees</th>
+            <th className="px-4 py-2" />
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {policies.map(policy => (
+            <tr key={policy.id} className={policy.active ? '' : 'text-gray-400'}>
+              <td className="px-4 py-2 text-sm">
+                {policy.name}
+                <span className="ml-2 text-xs text-gray-500">{policy.type} · from {policy.effectiveFrom}</span>
+              </td>
+              <td className="px-4 py-2 text-sm">{describeRate(policy)}</td>
+              <td className="px-4 py-2 text-sm">
+                {policy.annualCap ? `${policy.annualCap} ${policy.unit === 'HOURS' ? 'hours' : 'days'}` : '—'}
+              </td>
+              <td className="px-4 py-2 text-sm">{policy.userIds.length}</td>
+              <td className="px-4 py-2 text-sm text-right whitespace-nowrap space-x-2">
+                <button onClick={() => toggleActive(policy)} className="text-indigo-600 hover:text-indigo-800">
+                  {policy.active ? 'Deactivate' : 'Activate'}
+                </button>
+                <button onClick={() => deletePolicy(policy)} className="text-red-600 hover:text-red-800">Delete</button>
+              </td>
+            </tr>
+          ))}
+          {policies.length === 0 && (
+            <tr>
+              <td colSpan={5} className="px-4 py-4 text-sm text-gray-500 text-center">No accrual policies yet</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <form onSubmit={createPolicy} className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end mb-8">
+        <div className="col-span-2">
+          <label className="block text-sm font-medium text-gray-700">Name</label>
+          <input
+            type="text"
+            required
+            className="mt-1 block w-full border border-gray-300 rounded-md p-2"
+            value={newPolicy.name}
+            onChange={(e) => setNewPolicy({ ...newPolicy, name: e.target.value })}
+            placeholder="Standard vacation"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Type</label>
+          <select
+            className="mt-1 block w-full border border-gray-300 rounded-md p-2"
+            value={newPolicy.type}
+            onChange={(e) => setNewPolicy({ ...newPolicy, type: e.target.value })}
+          >
+            <option value="VACATION">Vacation</option>
+            <option value="SICK">Sick</option>
+            <option value="PAID_LEAVE">Paid Leave</option>
+            <option value="PERSONAL">Personal</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Accrues</label>
+          <select
+            className="mt-1 block w-full border border-gray-300 rounded-md p-2"
+            value={newPolicy.basis}
+            onChange={(e) => setNewPolicy({ ...newPolicy, basis: e.target.value as AccrualBasis })}
+          >
+            {Object.entries(BASIS_LABELS).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Amount</label>
+          <input
+            type="number"
+            required
+            min="0"
+            step="0.01"
+            className="mt-1 block w-full border border-gray-300 rounded-md p-2"
+            value={newPolicy.rate}
+            onChange={(e) => setNewPolicy({ ...newPolicy, rate: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Unit</label>
+          <select
+            className="mt-1 block w-full border border-gray-300 rounded-md p-2"
+            value={newPolicy.unit}
+            onChange={(e) => setNewPolicy({ ...newPolicy, unit: e.target.value as 'DAYS' | 'HOURS' })}
+          >
+            <option value="DAYS">Days</option>
+            <option value="HOURS">Hours</option>
+          </select>
+        </div>
+        {newPolicy.basis === 'HOURS_WORKED' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700">For every N hours worked</label>
+            <input
+              type="number"
+              required
+              min="1"
+              className="mt-1 block w-full border border-gray-300 rounded-md p-2"
+              value={newPolicy.perHours}
+              onChange={(e) => setNewPolicy({ ...newPolicy, perHours: e.target.value })}
+            />
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Yearly cap (optional)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            className="mt-1 block w-full border border-gray-300 rounded-md p-2"
+            value={newPolicy.annualCap}
+            onChange={(e) => setNewPolicy({ ...newPolicy, annualCap: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Effective from</label>
+          <input
+            type="date"
+            required
+            className="mt-1 block w-full border border-gray-300 rounded-md p-2"
+            value={newPolicy.effectiveFrom}
+            onChange={(e) => setNewPolicy({ ...newPolicy, effectiveFrom: e.target.value })}
+          />
+        </div>
+        <button type="submit" className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700">Add Policy</button>
+      </form>
+
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-xl font-semibold">Posting</h2>
+        <button
+          onClick={runNow}
+          disabled={running}
+          className="px-4 py-2 bg-emerald-600 text-white rounded hover:bg-emerald-700 disabled:opacity-50"
+        >
+          {running ? 'Running…' : 'Run Accruals Now'}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-3">
+        Accruals are posted automatically on the first of each month. Running them by hand only posts periods
+        that have not been posted yet.
+      </p>
+      {posted && (
+        posted.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing was due.</p>
+        ) : (
+          <ul className="text-sm list-disc list-inside">
+            {posted.map(entry => (
+              <li key={`${entry.userId}-${entry.policyName}-${entry.period}`}>
+                {entry.policyName} {entry.period}: {entry.days} day(s){entry.prorated ? ' (prorated)' : ''}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,355 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+
+interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface AuditEntry {
+  id: string;
+  userId: string | null;
+  actorName: string | null;
+  actorEmail: string | null;
+  action: string;
+  event: string;
+  entityType: string;
+  entityId: string;
+  details: unknown;
+  changes: AuditChange[];
+  createdAt: string;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+interface UserOption {
+  id: string;
+  name: string;
+  email: string;
+}
+
+const PAGE_SIZE = 50;
+
+const emptyFilters = { userId: '', action: '', entityType: '', entityId: '', from: '', to: '' };
+
+type Filters = typeof emptyFilters;
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
+// Dates are picked as whole days, so the range runs from the start of the first to the end of the last
+const toQuery = (filters: Filters) => {
+  const params = new URLSearchParams();
+  if (filters.userId) params.set('userId', filters.userId);
+  if (filters.action) params.set('action', filters.action);
+  if (filters.entityType) params.set('entityType', filters.entityType);
+  if (filters.entityId) params.set('entityId', filters.entityId);
+  if (filters.from) params.set('startDate', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('endDate', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params;
+};
+
+export default function AuditLogPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [form, setForm] = useState<Filters>(emptyFilters);
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [page, setPage] = useState(1);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const showToast = (type: 'success' | 'error', message: string) => {
+    setToast({ type, message });
+    setTimeout(() => setToast(null), 4000);
+  };
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    const params = toQuery(filters);
+    params.set('page', String(page));
+    params.set('limit', String(PAGE_SIZE));
+    const res = await fetch(`/api/admin/audit?${params}`);
+    const data = await res.json();
+    setLoading(false);
+    if (!res.ok) {
+      showToast('error', data.details?.[0]?.message || data.error || 'Failed to load the audit log');
+      return;
+    }
+    setEntries(data.logs);
+    setPagination(data.pagination);
+  }, [filters, page]);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') router.push('/login');
+    if (status === 'authenticated' && session?.user?.role !== 'ADMIN') router.push('/dashboard');
+  }, [session, status, router]);
+
+  useEffect(() => {
+    if (status === 'authenticated' && session?.user?.role === 'ADMIN') {
+      loadEntries();
+    }
+  }, [session, status, loadEntries]);
+
+  useEffect(() => {
+    if (status === 'authenticated' && session?.user?.role === 'ADMIN') {
+      fetch('/api/admin/users')
+        .then(res => (res.ok ? res.json() : { users: [] }))
+        .then(data => setUsers(data.users || []));
+    }
+  }, [session, status]);
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters({ ...form, action: form.action.trim(), entityId: form.entityId.trim() });
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setForm(emptyFilters);
+    setFilters(emptyFilters);
+    setPage(1);
+  };
+
+  const exportLog = async (format: 'csv' | 'json') => {
+    const params = toQuery(filters);
+    params.set('format', format);
+    const res = await fetch(`/api/admin/audit/export?${params}`);
+    if (!res.ok) {
+      const data = await res.json();
+      showToast('error', data.error || 'Failed to export the audit log');
+      return;
+    }
+    const url = URL.createObjectURL(await res.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `audit-log-${new Date().toISOString().split('T')[0]}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const verifyChain = async () => {
+    const res = await fetch('/api/admin/audit/verify');
+    const data = await res.json();
+    if (!res.ok) {
+      showToast('error', data.error || 'Failed to verify the audit log');
+      return;
+    }
+    showToast(data.valid ? 'success' : 'error', data.message);
+  };
+
+  if (status === 'loading') return <div className="p-6">Loading…</div>;
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-2xl font-bold">Audit Log</h1>
+        <div className="space-x-2">
+          <button onClick={verifyChain} className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700">
+            Verify Integrity
+          </button>
+          <button onClick={() => exportLog('csv')} className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700">
+            Export CSV
+          </button>
+          <button onClick={() => exportLog('json')} className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700">
+            Export JSON
+          </button>
+          <button onClick={() => router.push('/admin')} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+            Back to Admin
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Every change made through the app is recorded here. Exports include all entries matching the filters and are
+        themselves recorded.
+      </p>
+
+      {toast && (
+        <div className={`mb-4 px-4 py-2 rounded ${toast.type === 'success' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>{toast.message}</div>
+      )}
+
+      <form onSubmit={applyFilters} className="flex flex-wrap items-end gap-3 mb-6">
+        <label className="text-sm text-gray-700">
+          Changed by
+          <select
+            className="block mt-1 w-56 border border-gray-300 rounded-md p-1"
+            value={form.userId}
+            onChange={(e) => setForm({ ...form, userId: e.target.value })}
+          >
+            <option value="">Anyone</option>
+            {users.map(user => (
+              <option key={user.id} value={user.id}>{user.name || user.email}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          Action
+          <input
+            className="block mt-1 w-48 border border-gray-300 rounded-md p-1"
+            placeholder="UPDATE or REVISE_REQUEST"
+            value={form.action}
+            onChange={(e) => setForm({ ...form, action: e.target.value })}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Entity
+          <select
+            className="block mt-1 w-32 border border-gray-300 rounded-md p-1"
+            value={form.entityType}
+            onChange={(e) => setForm({ ...form, entityType: e.target.value })}
+          >
+            <option value="">Any</option>
+            <option value="REQUEST">Request</option>
+            <option value="BALANCE">Balance</option>
+            <option value="HOLIDAY">Holiday</option>
+            <option value="USER">User</option>
+            <option value="TEAM">Team</option>
+            <option value="POLICY">Policy</option>
+            <option value="BLACKOUT">Blackout</option>
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          Entity ID
+          <input
+            className="block mt-1 w-72 border border-gray-300 rounded-md p-1"
+            value={form.entityId}
+            onChange={(e) => setForm({ ...form, entityId: e.target.value })}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          From
+          <input
+            type="date"
+            className="block mt-1 border border-gray-300 rounded-md p-1"
+            value={form.from}
+            onChange={(e) => setForm({ ...form, from: e.target.value })}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          To
+          <input
+            type="date"
+            className="block mt-1 border border-gray-300 rounded-md p-1"
+            value={form.to}
+            onChange={(e) => setForm({ ...form, to: e.target.value })}
+          />
+        </label>
+        <button type="submit" className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700">
+          Search
+        </button>
+        <button type="button" onClick={clearFilters} className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300">
+          Clear
+        </button>
+      </form>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">{loading ? 'Loading…' : 'No audit entries match these filters.'}</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 mb-4">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Time</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Changed by</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Action</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Entity</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Changes</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {entries.map(entry => (
+              <Fragment key={entry.id}>
+                <tr>
+                  <td className="px-4 py-2 text-sm whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                  <td className="px-4 py-2 text-sm">
+                    <div>{entry.userId ? entry.actorName || 'Unknown' : 'System'}</div>
+                    <div className="text-xs text-gray-500">{entry.actorEmail}</div>
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    <div className="font-medium">{entry.event}</div>
+                    {entry.event !== entry.action && <div className="text-xs text-gray-500">{entry.action}</div>}
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    <div>{entry.entityType}</div>
+                    <div className="text-xs text-gray-500 font-mono">{entry.entityId}</div>
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    <button
+                      onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                      className="text-indigo-600 hover:text-indigo-800"
+                    >
+                      {entry.changes.length > 0
+                        ? `${entry.changes.length} field${entry.changes.length === 1 ? '' : 's'} changed`
+                        : 'Details'}
+                    </button>
+                  </td>
+                </tr>
+                {expanded === entry.id && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-3 bg-gray-50">
+                      {entry.changes.length > 0 && (
+                        <table className="mb-3 text-sm">
+                          <thead>
+                            <tr>
+                              <th className="pr-6 text-left text-xs font-medium text-gray-600">Field</th>
+                              <th className="pr-6 text-left text-xs font-medium text-gray-600">Before</th>
+                              <th className="text-left text-xs font-medium text-gray-600">After</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {entry.changes.map(change => (
+                              <tr key={change.field}>
+                                <td className="pr-6 align-top font-medium">{change.field}</td>
+                                <td className="pr-6 align-top text-red-700 break-all">{formatValue(change.before)}</td>
+                                <td className="align-top text-green-700 break-all">{formatValue(change.after)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                      <pre className="text-xs text-gray-700 whitespace-pre-wrap break-all">{JSON.stringify(entry.details, null, 2)}</pre>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between text-sm text-gray-700">
+          <span>{pagination.total} entries</span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span>Page {pagination.page} of {pagination.totalPages}</span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pagination.totalPages}
+              className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
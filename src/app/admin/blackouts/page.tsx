@@ -0,0 +1,327 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+
+const TYPES = ['VACATION', 'SICK', 'PAID_LEAVE', 'PERSONAL'] as const;
+type TimeOffType = typeof TYPES[number];
+
+const TYPE_LABELS: Record<TimeOffType, string> = {
+  VACATION: 'Vacation',
+  SICK: 'Sick',
+  PAID_LEAVE: 'Paid Leave',
+  PERSONAL: 'Personal',
+};
+
+interface BlackoutException {
+  id: string;
+  userId: string;
+  userName: string | null;
+  startDate: string;
+  endDate: string;
+  reason: string | null;
+  createdAt: string;
+}
+
+interface Blackout {
+  id: string;
+  label: string;
+  startDate: string;
+  endDate: string;
+  types: TimeOffType[];
+  teamId: string | null;
+  teamName: string | null;
+  exceptions: BlackoutException[];
+}
+
+interface StaffMember {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface Team {
+  id: string;
+  name: string;
+}
+
+interface ExceptionForm {
+  blackoutId: string;
+  userId: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+}
+
+const emptyBlackout = { label: '', startDate: '', endDate: '', types: [] as TimeOffType[], teamId: null as string | null };
+
+const formatRange = (startDate: string, endDate: string) =>
+  startDate === endDate ? startDate : `${startDate} to ${endDate}`;
+
+export default function BlackoutsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [blackouts, setBlackouts] = useState<Blackout[]>([]);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [newBlackout, setNewBlackout] = useState(emptyBlackout);
+  const [exceptionForm, setExceptionForm] = useState<ExceptionForm | null>(null);
+  const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const load = useCallback(async () => {
+    const [blackoutsRes, usersRes, teamsRes] = await Promise.all([
+      fetch('/api/admin/blackouts'),
+      fetch('/api/admin/users'),
+      fetch('/api/admin/teams'),
+    ]);
+    if (blackoutsRes.ok) setBlackouts(await blackoutsRes.json());
+    if (teamsRes.ok) setTeams(await teamsRes.json());
+    if (usersRes.ok) {
+      const data = await usersRes.json();
+      setStaff((data.users || []).map((u: StaffMember) => ({ id: u.id, name: u.name, email: u.email })));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') router.push('/login');
+    if (status === 'authenticated' && session?.user?.role !== 'ADMIN') router.push('/dashboard');
+    if (status === 'authenticated' && session?.user?.role === 'ADMIN') {
+      load();
+    }
+  }, [session, status, router, load]);
+
+  const showToast = (type: 'success' | 'error', message: string) => {
+    setToast({ type, message });
+    setTimeout(() => setToast(null), 2500);
+  };
+
+  const toggleType = (type: TimeOffType) => {
+    setNewBlackout(prev => ({
+      ...prev,
+      types: prev.types.includes(type) ? prev.types.filter(t => t !== type) : [...prev.types, type],
+    }));
+  };
+
+  const createBlackout = async () => {
+    const res = await fetch('/api/admin/blackouts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(newBlackout),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      showToast('error', data.details?.[0]?.message || data.error || 'Failed to add blackout');
+      return;
+    }
+    showToast('success', `Added ${data.label}`);
+    setNewBlackout(emptyBlackout);
+    await load();
+  };
+
+  const deleteBlackout = async (blackout: Blackout) => {
+    if (!confirm(`Remove the ${blackout.label} blackout?`)) return;
+    const res = await fetch(`/api/admin/blackouts/${blackout.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json();
+      showToast('error', data.error || 'Failed to remove blackout');
+      return;
+    }
+    showToast('success', 'Blackout removed');
+    await load();
+  };
+
+  const grantException = async () => {
+    if (!exceptionForm) return;
+    const res = await fetch(`/api/admin/blackouts/${exceptionForm.blackoutId}/exceptions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        userId: exceptionForm.userId,
+        startDate: exceptionForm.startDate,
+        endDate: exceptionForm.endDate,
+        reason: exceptionForm.reason || undefined,
+      }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      showToast('error', data.details?.[0]?.message || data.error || 'Failed to grant exception');
+      return;
+    }
+    showToast('success', 'Exception granted');
+    setExceptionForm(null);
+    await load();
+  };
+
+  const revokeException = async (blackoutId: string, exceptionId: string) => {
+    const res = await fetch(`/api/admin/blackouts/${blackoutId}/exceptions?exceptionId=${exceptionId}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json();
+      showToast('error', data.error || 'Failed to revoke exception');
+      return;
+    }
+    showToast('success', 'Exception revoked');
+    await load();
+  };
+
+  if (status === 'loading') return <div className="p-6">Loading…</div>;
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-2xl font-bold">Blackout Periods</h1>
+        <button onClick={() => router.push('/admin')} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+          Back to Admin
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Requests that include a blackout day are rejected, for everyone or for one team. An exception lets one
+        employee book time off on some days of a blackout; approving a request over a blackout grants one for its dates.
+      </p>
+
+      {toast && (
+        <div className={`mb-4 px-4 py-2 rounded ${toast.type === 'success' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>{toast.message}</div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-3 mb-8">
+        <label className="text-sm text-gray-700">
+          Label
+          <input
+            className="block mt-1 w-48 border border-gray-300 rounded-md p-1"
+            placeholder="Year-end close"
+            value={newBlackout.label}
+            onChange={(e) => setNewBlackout({ ...newBlackout, label: e.target.value })}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          From
+          <input
+            type="date"
+            className="block mt-1 border border-gray-300 rounded-md p-1"
+            value={newBlackout.startDate}
+            onChange={(e) => setNewBlackout({ ...newBlackout, startDate: e.target.value })}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          To
+          <input
+            type="date"
+            className="block mt-1 border border-gray-300 rounded-md p-1"
+            value={newBlackout.endDate}
+            onChange={(e) => setNewBlackout({ ...newBlackout, endDate: e.target.value })}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Team
+          <select
+            className="block mt-1 border border-gray-300 rounded-md p-1"
+            value={newBlackout.teamId ?? ''}
+            onChange={(e) => setNewBlackout({ ...newBlackout, teamId: e.target.value || null })}
+          >
+            <option value="">Everyone</option>
+            {teams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+          </select>
+        </label>
+        <div className="flex flex-wrap gap-3 text-sm text-gray-700">
+          {TYPES.map(type => (
+            <label key={type} className="inline-flex items-center gap-1">
+              <input type="checkbox" checked={newBlackout.types.includes(type)} onChange={() => toggleType(type)} />
+              {TYPE_LABELS[type]}
+            </label>
+          ))}
+        </div>
+        <button onClick={createBlackout} className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700">
+          Add Blackout
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 -mt-6 mb-8">Leave every type unchecked to block all time off.</p>
+
+      {blackouts.length === 0 ? (
+        <p className="text-sm text-gray-500">No blackout periods.</p>
+      ) : (
+        <ul className="space-y-4">
+          {blackouts.map(blackout => (
+            <li key={blackout.id} className="bg-white shadow rounded-lg p-4">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="font-medium text-gray-900">{blackout.label}</div>
+                  <div className="text-sm text-gray-600">
+                    {formatRange(blackout.startDate, blackout.endDate)}
+                    {' · '}
+                    {blackout.types.length === 0 ? 'All types' : blackout.types.map(type => TYPE_LABELS[type]).join(', ')}
+                    {' · '}
+                    {blackout.teamName ?? 'Everyone'}
+                  </div>
+                </div>
+                <div className="space-x-3 text-sm">
+                  <button
+                    onClick={() => setExceptionForm({
+                      blackoutId: blackout.id,
+                      userId: staff[0]?.id ?? '',
+                      startDate: blackout.startDate,
+                      endDate: blackout.endDate,
+                      reason: '',
+                    })}
+                    className="text-indigo-600 hover:text-indigo-800"
+                  >
+                    Add Exception
+                  </button>
+                  <button onClick={() => deleteBlackout(blackout)} className="text-red-600 hover:text-red-800">Delete</button>
+                </div>
+              </div>
+
+              {exceptionForm?.blackoutId === blackout.id && (
+                <div className="flex flex-wrap items-end gap-3 mt-3">
+                  <select
+                    className="border border-gray-300 rounded-md p-1 text-sm"
+                    value={exceptionForm.userId}
+                    onChange={(e) => setExceptionForm({ ...exceptionForm, userId: e.target.value })}
+                  >
+                    {staff.map(member => <option key={member.id} value={member.id}>{member.name || member.email}</option>)}
+                  </select>
+                  <input
+                    type="date"
+                    className="border border-gray-300 rounded-md p-1 text-sm"
+                    value={exceptionForm.startDate}
+                    onChange={(e) => setExceptionForm({ ...exceptionForm, startDate: e.target.value })}
+                  />
+                  <input
+                    type="date"
+                    className="border border-gray-300 rounded-md p-1 text-sm"
+                    value={exceptionForm.endDate}
+                    onChange={(e) => setExceptionForm({ ...exceptionForm, endDate: e.target.value })}
+                  />
+                  <input
+                    className="w-64 border border-gray-300 rounded-md p-1 text-sm"
+                    placeholder="Reason"
+                    value={exceptionForm.reason}
+                    onChange={(e) => setExceptionForm({ ...exceptionForm, reason: e.target.value })}
+                  />
+                  <button onClick={grantException} className="px-3 py-1 bg-indigo-600 text-white rounded text-sm hover:bg-indigo-700">Grant</button>
+                  <button onClick={() => setExceptionForm(null)} className="px-3 py-1 text-sm text-gray-600">Cancel</button>
+                </div>
+              )}
+
+              {blackout.exceptions.length > 0 && (
+                <ul className="mt-3 space-y-1 text-sm text-gray-700">
+                  {blackout.exceptions.map(exception => (
+                    <li key={exception.id} className="flex items-center justify-between">
+                      <span>
+                        Exception for <span className="font-medium">{exception.userName || exception.userId}</span>
+                        {' '}({formatRange(exception.startDate, exception.endDate)})
+                        {exception.reason && <span className="text-gray-500">: {exception.reason}</span>}
+                      </span>
+                      <button onClick={() => revokeException(blackout.id, exception.id)} className="text-red-600 hover:text-red-800">
+                        Revoke
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,40 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isWeekend, isSameDay, addMonths, subMonths } from 'date-fns';
+import { BalanceUnit, DEFAULT_HOURS_PER_DAY, hoursToDays } from '@/lib/work-hours';
 
 interface User {
   id: string;
   name: string;
   email: string;
   role: string;
+  standardHoursPerDay?: number;
+  balanceUnit?: BalanceUnit;
+  hireDate?: string | null;
+  accrualPolicyIds?: string[];
+  managerId?: string | null;
+  teamId?: string | null;
+}
+
+interface TeamOption {
+  id: string;
+  name: string;
+}
+
+interface ManagerOption {
+  id: string;
+  name: string;
+  role: string;
+}
+
+interface AccrualPolicyOption {
+  id: string;
+  name: string;
+  type: string;
+  active: boolean;
 }
 
 interface TimeOffRequest {
@@ -18,10 +43,19 @@ interface TimeOffRequest {
   start_date: string;
   end_date: string;
   type: 'VACATION' | 'SICK' | 'PAID_LEAVE';
-  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  status: 'PENDING' | 'PARTIALLY_APPROVED' | 'APPROVED' | 'REJECTED' | 'CANCELLATION_REQUESTED' | 'CANCELLED';
   reason?: string;
 }
 
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+const REQUESTS_PAGE_SIZE = 10;
+
 interface TimeOffBalance {
   id: string;
   userId: string;
@@ -42,11 +76,36 @@ interface UsedDays {
 interface OvertimeRequest {
   id: string;
   hours: number;
+  hours_per_day?: number;
   request_date: string;
   status: 'PENDING' | 'APPROVED' | 'REJECTED';
   notes?: string;
 }
 
+interface WorkScheduleEntry {
+  id: string;
+  effectiveFrom: string;
+  pattern: {
+    weekdays: number[];
+    hoursByWeekday?: Record<string, number> | null;
+  };
+}
+
+interface LedgerType {
+  type: string;
+  balance: { totalDays: number; usedDays: number; remainingDays: number };
+  entries: Array<{
+    id: string;
+    kind: string;
+    days: number;
+    reason: string | null;
+    createdAt: string;
+    balance: { totalDays: number; usedDays: number; remainingDays: number };
+  }>;
+}
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
 // Helper function to safely format dates
 const formatDate = (dateString: string) => {
   try {
@@ -81,6 +140,11 @@ export default function EmployeePage({ params }: PageProps) {
   const [balance, setBalance] = useState<TimeOffBalance | null>(null);
   const [usedDays, setUsedDays] = useState<UsedDays | null>(null);
   const [requests, setRequests] = useState<TimeOffRequest[]>([]);
+  const [requestsPage, setRequestsPage] = useState(1);
+  const [requestsPagination, setRequestsPagination] = useState<Pagination | null>(null);
+  const [requestFilters, setRequestFilters] = useState<{ status: string; type: string }>({ status: '', type: '' });
+  // Approved requests overlapping the month shown on the calendar
+  const [calendarRequests, setCalendarRequests] = useState<TimeOffRequest[]>([]);
   const [overtimeRequests, setOvertimeRequests] = useState<OvertimeRequest[]>([]);
   const [auditLogs, setAuditLogs] = useState<Array<{ id: string; action: string; entityType: string; entityId: string; details: any; createdAt: string }>>([]);
   const [loading, setLoading] = useState(true);
@@ -88,6 +152,23 @@ export default function EmployeePage({ params }: PageProps) {
   const [success, setSuccess] = useState('');
   const [editMode, setEditMode] = useState(false);
   const [editedBalance, setEditedBalance] = useState<TimeOffBalance | null>(null);
+  const [scheduleHistory, setScheduleHistory] = useState<WorkScheduleEntry[]>([]);
+  const [scheduleForm, setScheduleForm] = useState<{ effectiveFrom: string; weekdays: number[]; hours: Record<number, string> }>({
+    effectiveFrom: new Date().toISOString().split('T')[0],
+    weekdays: [1, 2, 3, 4, 5],
+    hours: {},
+  });
+  const [workHours, setWorkHours] = useState<{ hoursPerDay: number; unit: BalanceUnit }>({
+    hoursPerDay: DEFAULT_HOURS_PER_DAY,
+    unit: 'DAYS',
+  });
+  const [accrualPolicies, setAccrualPolicies] = useState<AccrualPolicyOption[]>([]);
+  const [accrualForm, setAccrualForm] = useState<{ hireDate: string; policyIds: string[] }>({ hireDate: '', policyIds: [] });
+  const [ledger, setLedger] = useState<LedgerType[]>([]);
+  const [managers, setManagers] = useState<ManagerOption[]>([]);
+  const [managerId, setManagerId] = useState('');
+  const [teams, setTeams] = useState<TeamOption[]>([]);
+  const [teamId, setTeamId] = useState('');
   const [currentMonth, setCurrentMonth] = useState(new Date());
 
   useEffect(() => {
@@ -100,6 +181,60 @@ export default function EmployeePage({ params }: PageProps) {
     }
   }, [userId, year, session, status]);
 
+  const fetchRequests = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({
+        userId,
+        year: String(year),
+        page: String(requestsPage),
+        limit: String(REQUESTS_PAGE_SIZE),
+      });
+      if (requestFilters.status) params.set('status', requestFilters.status);
+      if (requestFilters.type) params.set('type', requestFilters.type);
+
+      const response = await fetch(`/api/admin/requests?${params}`);
+      if (response.ok) {
+        const data: { requests: TimeOffRequest[]; pagination: Pagination } = await response.json();
+        setRequests(data.requests);
+        setRequestsPagination(data.pagination);
+      }
+    } catch (err) {
+      console.error('Failed to fetch time off requests', err);
+    }
+  }, [userId, year, requestsPage, requestFilters]);
+
+  const fetchCalendarRequests = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({
+        userId,
+        status: 'APPROVED',
+        startDate: startOfMonth(currentMonth).toISOString(),
+        endDate: endOfMonth(currentMonth).toISOString(),
+        sortOrder: 'asc',
+        limit: '100',
+      });
+      const response = await fetch(`/api/admin/requests?${params}`);
+      if (response.ok) {
+        const data: { requests: TimeOffRequest[] } = await response.json();
+        setCalendarRequests(data.requests);
+      }
+    } catch (err) {
+      console.error('Failed to fetch calendar requests', err);
+    }
+  }, [userId, currentMonth]);
+
+  useEffect(() => {
+    if (status === 'authenticated' && session?.user?.role === 'ADMIN') {
+      fetchRequests();
+    }
+  }, [fetchRequests, session, status]);
+
+  useEffect(() => {
+    if (status === 'authenticated' && session?.user?.role === 'ADMIN') {
+      fetchCalendarRequests();
+    }
+  }, [fetchCalendarRequests, session, status]);
+
   const fetchUserData = async () => {
     try {
       setLoading(true);
@@ -112,6 +247,16 @@ export default function EmployeePage({ params }: PageProps) {
       }
       const userData = await userResponse.json();
       setUser(userData);
+      setWorkHours({
+        hoursPerDay: userData.standardHoursPerDay ?? DEFAULT_HOURS_PER_DAY,
+        unit: userData.balanceUnit ?? 'DAYS',
+      });
+      setAccrualForm({
+        hireDate: userData.hireDate ?? '',
+        policyIds: userData.accrualPolicyIds ?? [],
+      });
+      setManagerId(userData.managerId ?? '');
+      setTeamId(userData.teamId ?? '');
       
       // Fetch time off balance
       const balanceResponse = await fetch(`/api/admin/balance/${userId}?year=${year}`);
@@ -130,13 +275,6 @@ export default function EmployeePage({ params }: PageProps) {
         setUsedDays(usedDaysData);
       }
       
-      // Fetch time off requests
-      const requestsResponse = await fetch(`/api/admin/requests?userId=${userId}&year=${year}`);
-      if (requestsResponse.ok) {
-        const requestsData = await requestsResponse.json();
-        setRequests(requestsData);
-      }
-
       // Fetch overtime requests (user perspective)
       const overtimeRes = await fetch('/api/overtime/requests');
       if (overtimeRes.ok) {
@@ -145,11 +283,54 @@ export default function EmployeePage({ params }: PageProps) {
         setOvertimeRequests(mine);
       }
 
+      // Fetch work schedule history
+      const scheduleRes = await fetch(`/api/admin/users/${userId}/work-schedule`);
+      if (scheduleRes.ok) {
+        const scheduleData = await scheduleRes.json();
+        setScheduleHistory(scheduleData.history || []);
+        const current = scheduleData.history?.[0];
+        if (current) {
+          setScheduleForm(prev => ({
+            ...prev,
+            weekdays: current.pattern.weekdays,
+            hours: Object.fromEntries(
+              Object.entries(current.pattern.hoursByWeekday || {}).map(([day, hours]) => [day, String(hours)])
+            ),
+          }));
+        }
+      }
+
+      // Fetch accrual policies
+      const policiesRes = await fetch('/api/admin/accrual-policies');
+      if (policiesRes.ok) {
+        setAccrualPolicies(await policiesRes.json());
+      }
+
+      // Fetch the people this employee can report to
+      const usersRes = await fetch('/api/admin/users');
+      if (usersRes.ok) {
+        const usersData = await usersRes.json();
+        setManagers((usersData.users || []).filter((u: ManagerOption) => u.id !== userId && u.role !== 'EMPLOYEE'));
+      }
+
+      // Fetch teams
+      const teamsRes = await fetch('/api/admin/teams');
+      if (teamsRes.ok) {
+        setTeams(await teamsRes.json());
+      }
+
+      // Fetch balance history
+      const ledgerRes = await fetch(`/api/admin/users/${userId}/ledger?year=${year}`);
+      if (ledgerRes.ok) {
+        const ledgerData = await ledgerRes.json();
+        setLedger(ledgerData.types || []);
+      }
+
       // Fetch recent audit logs
       const auditRes = await fetch(`/api/admin/audit?userId=${userId}&limit=10`);
       if (auditRes.ok) {
-        const logs = await auditRes.json();
-        setAuditLogs(logs);
+        const auditData = await auditRes.json();
+        setAuditLogs(auditData.logs);
       }
     } catch (err) {
       setError('An error occurred while fetching data');
@@ -159,6 +340,161 @@ export default function EmployeePage({ params }: PageProps) {
     }
   };
 
+  const toggleScheduleDay = (day: number) => {
+    setScheduleForm(prev => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(day)
+        ? prev.weekdays.filter(d => d !== day)
+        : [...prev.weekdays, day].sort((a, b) => a - b),
+    }));
+  };
+
+  const saveWorkSchedule = async () => {
+    try {
+      setError('');
+      setSuccess('');
+
+      // Only send hours for days that are worked and have a value
+      const hoursByWeekday = Object.fromEntries(
+        scheduleForm.weekdays
+          .filter(day => scheduleForm.hours[day])
+          .map(day => [String(day), parseFloat(scheduleForm.hours[day])])
+      );
+
+      const response = await fetch(`/api/admin/users/${userId}/work-schedule`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          effectiveFrom: scheduleForm.effectiveFrom,
+          weekdays: scheduleForm.weekdays,
+          hoursByWeekday: Object.keys(hoursByWeekday).length > 0 ? hoursByWeekday : null,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update work schedule');
+      }
+
+      setSuccess('Work schedule updated successfully');
+      fetchUserData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while updating work schedule');
+      console.error(err);
+    }
+  };
+
+  const saveWorkHours = async () => {
+    try {
+      setError('');
+      setSuccess('');
+
+      const response = await fetch(`/api/admin/users/${userId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          standardHoursPerDay: workHours.hoursPerDay,
+          balanceUnit: workHours.unit,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update work hours');
+      }
+
+      setUser(await response.json());
+      setSuccess('Work hours updated successfully');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while updating work hours');
+      console.error(err);
+    }
+  };
+
+  const saveManager = async () => {
+    try {
+      setError('');
+      setSuccess('');
+
+      const response = await fetch(`/api/admin/users/${userId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ managerId: managerId || null }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update manager');
+      }
+
+      setUser(await response.json());
+      setSuccess('Manager updated successfully');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while updating the manager');
+      console.error(err);
+    }
+  };
+
+  const saveTeam = async () => {
+    try {
+      setError('');
+      setSuccess('');
+
+      const response = await fetch(`/api/admin/users/${userId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ teamId: teamId || null }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update team');
+      }
+
+      setUser(await response.json());
+      setSuccess('Team updated successfully');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while updating the team');
+      console.error(err);
+    }
+  };
+
+  const toggleAccrualPolicy = (policyId: string) => {
+    setAccrualForm(prev => ({
+      ...prev,
+      policyIds: prev.policyIds.includes(policyId)
+        ? prev.policyIds.filter(id => id !== policyId)
+        : [...prev.policyIds, policyId],
+    }));
+  };
+
+  const saveAccruals = async () => {
+    try {
+      setError('');
+      setSuccess('');
+
+      const response = await fetch(`/api/admin/users/${userId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          hireDate: accrualForm.hireDate || null,
+          accrualPolicyIds: accrualForm.policyIds,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update accruals');
+      }
+
+      setUser(await response.json());
+      setSuccess('Accrual settings updated successfully');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while updating accruals');
+      console.error(err);
+    }
+  };
+
   const saveBalance = async () => {
     if (!editedBalance || !userId) return;
     
@@ -203,6 +539,7 @@ export default function EmployeePage({ params }: PageProps) {
     setCurrentMonth(addMonths(currentMonth, 1));
     if (currentMonth.getMonth() === 11 && addMonths(currentMonth, 1).getMonth() === 0) {
       setYear(year + 1);
+      setRequestsPage(1);
     }
   };
 
@@ -210,6 +547,7 @@ export default function EmployeePage({ params }: PageProps) {
     setCurrentMonth(subMonths(currentMonth, 1));
     if (currentMonth.getMonth() === 0 && subMonths(currentMonth, 1).getMonth() === 11) {
       setYear(year - 1);
+      setRequestsPage(1);
     }
   };
 
@@ -220,7 +558,7 @@ export default function EmployeePage({ params }: PageProps) {
   };
 
   const isDayOff = (date: Date) => {
-    for (const request of requests) {
+    for (const request of calendarRequests) {
       if (request.status === 'APPROVED') {
         const startDate = new Date(request.start_date);
         const endDate = new Date(request.end_date);
@@ -257,6 +595,8 @@ export default function EmployeePage({ params }: PageProps) {
       if (response.ok) {
         // Refresh the requests and balance
         fetchUserData();
+        fetchRequests();
+        fetchCalendarRequests();
       } else {
         const error = await response.json();
         console.error('Error deleting time off:', error);
@@ -415,6 +755,260 @@ export default function EmployeePage({ params }: PageProps) {
                 )}
               </div>
             </div>
+
+            {/* Work Hours */}
+            <div className="mt-6 flex flex-wrap items-end gap-4">
+              <div>
+                <label htmlFor="hoursPerDay" className="block text-sm font-medium text-gray-700">
+                  Hours per Day
+                </label>
+                <input
+                  id="hoursPerDay"
+                  type="number"
+                  min="0.5"
+                  max="24"
+                  step="0.5"
+                  value={workHours.hoursPerDay}
+                  onChange={(e) => setWorkHours({ ...workHours, hoursPerDay: parseFloat(e.target.value) })}
+                  className="mt-1 block w-32 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="balanceUnit" className="block text-sm font-medium text-gray-700">
+                  Show Balances In
+                </label>
+                <select
+                  id="balanceUnit"
+                  value={workHours.unit}
+                  onChange={(e) => setWorkHours({ ...workHours, unit: e.target.value as BalanceUnit })}
+                  className="mt-1 block w-32 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  <option value="DAYS">Days</option>
+                  <option value="HOURS">Hours</option>
+                </select>
+              </div>
+              <button
+                onClick={saveWorkHours}
+                className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700"
+              >
+                Save Work Hours
+              </button>
+            </div>
+
+            {/* Manager */}
+            <div className="mt-6 flex flex-wrap items-end gap-4">
+              <div>
+                <label htmlFor="managerId" className="block text-sm font-medium text-gray-700">
+                  Reports To
+                </label>
+                <select
+                  id="managerId"
+                  value={managerId}
+                  onChange={(e) => setManagerId(e.target.value)}
+                  className="mt-1 block w-64 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  <option value="">No manager</option>
+                  {managers.map(manager => (
+                    <option key={manager.id} value={manager.id}>{manager.name}</option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={saveManager}
+                className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700"
+              >
+                Save Manager
+              </button>
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              The manager can approve and reject this employee&apos;s requests. Admins always can.
+            </p>
+
+            {/* Team */}
+            <div className="mt-6 flex flex-wrap items-end gap-4">
+              <div>
+                <label htmlFor="teamId" className="block text-sm font-medium text-gray-700">
+                  Team
+                </label>
+                <select
+                  id="teamId"
+                  value={teamId}
+                  onChange={(e) => setTeamId(e.target.value)}
+                  className="mt-1 block w-64 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  <option value="">No team</option>
+                  {teams.map(team => (
+                    <option key={team.id} value={team.id}>{team.name}</option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={saveTeam}
+                className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700"
+              >
+                Save Team
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Work Schedule */}
+        <div className="bg-white shadow rounded-lg mb-8">
+          <div className="px-4 py-5 sm:p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Work Schedule</h2>
+            <div className="grid grid-cols-7 gap-2 mb-4">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <div key={label} className="text-center">
+                  <label className="flex flex-col items-center text-sm font-medium text-gray-700">
+                    {label}
+                    <input
+                      type="checkbox"
+                      checked={scheduleForm.weekdays.includes(day)}
+                      onChange={() => toggleScheduleDay(day)}
+                      className="mt-1"
+                    />
+                  </label>
+                  {scheduleForm.weekdays.includes(day) && (
+                    <input
+                      type="number"
+                      min="0.5"
+                      max="24"
+                      step="0.5"
+                      placeholder={String(workHours.hoursPerDay)}
+                      aria-label={`Hours on ${label}`}
+                      value={scheduleForm.hours[day] ?? ''}
+                      onChange={(e) => setScheduleForm(prev => ({ ...prev, hours: { ...prev.hours, [day]: e.target.value } }))}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-end gap-4">
+              <div>
+                <label htmlFor="scheduleEffectiveFrom" className="block text-sm font-medium text-gray-700">
+                  Effective From
+                </label>
+                <input
+                  id="scheduleEffectiveFrom"
+                  type="date"
+                  value={scheduleForm.effectiveFrom}
+                  onChange={(e) => setScheduleForm(prev => ({ ...prev, effectiveFrom: e.target.value }))}
+                  className="mt-1 block rounded-md border-gray-300 shadow-sm sm:text-sm"
+                />
+              </div>
+              <button
+                onClick={saveWorkSchedule}
+                disabled={scheduleForm.weekdays.length === 0}
+                className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+              >
+                Save Schedule
+              </button>
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              Earlier patterns are kept, so requests before the effective date are still counted under the old schedule.
+            </p>
+
+            {scheduleHistory.length > 0 ? (
+              <ul className="mt-4 divide-y divide-gray-200 text-sm text-gray-700">
+                {scheduleHistory.map(entry => (
+                  <li key={entry.id} className="py-2">
+                    From {formatDate(`${entry.effectiveFrom}T00:00:00`)}:{' '}
+                    {entry.pattern.weekdays.map(day => {
+                      const hours = entry.pattern.hoursByWeekday?.[day];
+                      return hours ? `${WEEKDAY_LABELS[day]} (${hours}h)` : WEEKDAY_LABELS[day];
+                    }).join(', ')}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="mt-4 text-sm text-gray-500">No custom schedule; works Monday to Friday.</p>
+            )}
+          </div>
+        </div>
+
+        {/* Accruals */}
+        <div className="bg-white shadow rounded-lg mb-8">
+          <div className="px-4 py-5 sm:p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Accruals</h2>
+            <div className="flex flex-wrap items-end gap-4">
+              <div>
+                <label htmlFor="hireDate" className="block text-sm font-medium text-gray-700">
+                  Hire Date
+                </label>
+                <input
+                  id="hireDate"
+                  type="date"
+                  value={accrualForm.hireDate}
+                  onChange={(e) => setAccrualForm({ ...accrualForm, hireDate: e.target.value })}
+                  className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+              </div>
+              <div className="flex flex-wrap gap-3">
+                {accrualPolicies.map(policy => (
+                  <label key={policy.id} className="inline-flex items-center gap-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={accrualForm.policyIds.includes(policy.id)}
+                      onChange={() => toggleAccrualPolicy(policy.id)}
+                    />
+                    {policy.name}
+                    {!policy.active && <span className="text-xs text-gray-400">(inactive)</span>}
+                  </label>
+                ))}
+              </div>
+              <button
+                onClick={saveAccruals}
+                className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700"
+              >
+                Save Accruals
+              </button>
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              Accruals for the month of the hire date are prorated. Nothing accrues before the hire date.
+            </p>
+          </div>
+        </div>
+
+        {/* Balance History */}
+        <div className="bg-white shadow rounded-lg mb-8">
+          <div className="px-4 py-5 sm:p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Balance History - {year}</h2>
+            {ledger.length === 0 ? (
+              <p className="text-sm text-gray-500">No balance changes recorded for this year.</p>
+            ) : (
+              ledger.map(entry => (
+                <div key={entry.type} className="mb-6 last:mb-0">
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">
+                    {entry.type.replace('_', ' ')} — {entry.balance.remainingDays} of {entry.balance.totalDays} days remaining
+                  </h3>
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Date</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Change</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Reason</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">Days</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">Remaining</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {entry.entries.map(line => (
+                        <tr key={line.id}>
+                          <td className="px-4 py-2 text-sm text-gray-900">{formatDate(line.createdAt)}</td>
+                          <td className="px-4 py-2 text-sm text-gray-900">{line.kind.replace('_', ' ')}</td>
+                          <td className="px-4 py-2 text-sm text-gray-600">{line.reason || '—'}</td>
+                          <td className={`px-4 py-2 text-sm text-right ${line.days < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                            {line.days > 0 ? `+${line.days}` : line.days}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-right text-gray-900">{line.balance.remainingDays}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))
+            )}
           </div>
         </div>
 
@@ -457,7 +1051,7 @@ export default function EmployeePage({ params }: PageProps) {
               {days.map((day) => {
                 const dayOff = isDayOff(day);
                 const typeColor = getTypeColor(dayOff);
-                const request = requests.find(req => {
+                const request = calendarRequests.find(req => {
                   const startDate = new Date(req.start_date);
                   const endDate = new Date(req.end_date);
                   return day >= startDate && day <= endDate && req.status === 'APPROVED';
@@ -497,9 +1091,39 @@ export default function EmployeePage({ params }: PageProps) {
         {/* Time Off Requests */}
         <div className="bg-white shadow overflow-hidden sm:rounded-lg">
           <div className="px-4 py-5 sm:p-6">
-            <h2 className="text-lg font-medium text-gray-900 mb-4">
-              Time Off Requests
-            </h2>
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-medium text-gray-900">
+                Time Off Requests - {year}
+              </h2>
+              <div className="flex space-x-2">
+                <select
+                  aria-label="Filter by status"
+                  value={requestFilters.status}
+                  onChange={(e) => { setRequestFilters({ ...requestFilters, status: e.target.value }); setRequestsPage(1); }}
+                  className="px-2 py-1 border border-gray-300 rounded text-sm text-gray-800"
+                >
+                  <option value="">All Statuses</option>
+                  <option value="PENDING">Pending</option>
+                  <option value="PARTIALLY_APPROVED">Partially Approved</option>
+                  <option value="APPROVED">Approved</option>
+                  <option value="REJECTED">Rejected</option>
+                  <option value="CANCELLATION_REQUESTED">Cancellation Requested</option>
+                  <option value="CANCELLED">Cancelled</option>
+                </select>
+                <select
+                  aria-label="Filter by type"
+                  value={requestFilters.type}
+                  onChange={(e) => { setRequestFilters({ ...requestFilters, type: e.target.value }); setRequestsPage(1); }}
+                  className="px-2 py-1 border border-gray-300 rounded text-sm text-gray-800"
+                >
+                  <option value="">All Types</option>
+                  <option value="VACATION">Vacation</option>
+                  <option value="SICK">Sick</option>
+                  <option value="PAID_LEAVE">Paid Leave</option>
+                  <option value="PERSONAL">Personal</option>
+                </select>
+              </div>
+            </div>
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-200">
@@ -535,10 +1159,16 @@ export default function EmployeePage({ params }: PageProps) {
                                 ? 'bg-green-100 text-green-800'
                                 : request.status === 'REJECTED'
                                 ? 'bg-red-100 text-red-800'
+                                : request.status === 'PARTIALLY_APPROVED'
+                                ? 'bg-blue-100 text-blue-800'
+                                : request.status === 'CANCELLATION_REQUESTED'
+                                ? 'bg-orange-100 text-orange-800'
+                                : request.status === 'CANCELLED'
+                                ? 'bg-gray-100 text-gray-700'
                                 : 'bg-yellow-100 text-yellow-800'
                             }`}
                           >
-                            {request.status}
+                            {request.status.replace('_', ' ')}
                           </span>
                         </td>
                         <td className="px-6 py-4 text-sm text-gray-800 max-w-xs truncate" title={request.reason}>
@@ -556,6 +1186,28 @@ export default function EmployeePage({ params }: PageProps) {
                 </tbody>
               </table>
             </div>
+            {requestsPagination && requestsPagination.totalPages > 1 && (
+              <div className="flex items-center justify-between mt-4 text-sm text-gray-700">
+                <span>{requestsPagination.total} requests</span>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setRequestsPage(requestsPage - 1)}
+                    disabled={requestsPage <= 1}
+                    className="px-3 py-1 bg-gray-300 rounded hover:bg-gray-400 text-gray-800 disabled:opacity-50"
+                  >
+                    Previous
+                  </button>
+                  <span>Page {requestsPagination.page} of {requestsPagination.totalPages}</span>
+                  <button
+                    onClick={() => setRequestsPage(requestsPage + 1)}
+                    disabled={requestsPage >= requestsPagination.totalPages}
+                    className="px-3 py-1 bg-gray-300 rounded hover:bg-gray-400 text-gray-800 disabled:opacity-50"
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
@@ -580,7 +1232,7 @@ export default function EmployeePage({ params }: PageProps) {
                       <tr key={r.id}>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">{formatDate(r.request_date)}</td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">{r.hours}</td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">{(r.hours / 8).toFixed(2)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">{hoursToDays(r.hours, r.hours_per_day ?? user?.standardHoursPerDay ?? DEFAULT_HOURS_PER_DAY).toFixed(2)}</td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
                             r.status === 'APPROVED' ? 'bg-green-100 text-green-800' : r.status === 'REJECTED' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
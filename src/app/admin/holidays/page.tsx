@@ -0,0 +1,413 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+
+interface HolidayRow {
+  id?: string;
+  date: string;
+  name: string;
+  observed: boolean;
+}
+
+interface CalendarOption {
+  id: string;
+  name: string;
+  ruleSet: string | null;
+  isDefault: boolean;
+  userCount: number;
+}
+
+interface StaffMember {
+  id: string;
+  name: string;
+  email: string;
+  holidayCalendarId: string | null;
+}
+
+const RULE_SETS: Record<string, string> = {
+  US: 'United States',
+  MX: 'Mexico',
+  ES: 'Spain',
+};
+
+interface StaleRequest {
+  id: string;
+  userName: string | null;
+  type: string;
+  status: string;
+  startDate: string;
+  endDate: string;
+  workingDays: number;
+  recalculatedWorkingDays: number;
+}
+
+const formatHolidayDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+export default function HolidaysPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [calendars, setCalendars] = useState<CalendarOption[]>([]);
+  const [calendarId, setCalendarId] = useState<string>('');
+  const [newCalendar, setNewCalendar] = useState({ name: '', ruleSet: '' });
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [holidays, setHolidays] = useState<HolidayRow[]>([]);
+  const [customized, setCustomized] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [newHoliday, setNewHoliday] = useState({ date: '', name: '' });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [staleRequests, setStaleRequests] = useState<StaleRequest[]>([]);
+  const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const load = useCallback(async (targetYear: number) => {
+    setLoading(true);
+    const query = calendarId ? `&calendarId=${calendarId}` : '';
+    const res = await fetch(`/api/admin/holidays?year=${targetYear}${query}`);
+    if (res.ok) {
+      const data = await res.json();
+      setHolidays(data.holidays || []);
+      setCustomized(!!data.customized);
+      if (!calendarId && data.calendarId) setCalendarId(data.calendarId);
+    }
+    setLoading(false);
+  }, [calendarId]);
+
+  const loadCalendars = useCallback(async () => {
+    const [calendarsRes, usersRes] = await Promise.all([
+      fetch('/api/admin/holiday-calendars'),
+      fetch('/api/admin/users'),
+    ]);
+    if (calendarsRes.ok) {
+      setCalendars(await calendarsRes.json());
+    }
+    if (usersRes.ok) {
+      const data = await usersRes.json();
+      setStaff((data.users || []).map((u: StaffMember) => ({
+        id: u.id,
+        name: u.name,
+        email: u.email,
+        holidayCalendarId: u.holidayCalendarId ?? null,
+      })));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') router.push('/login');
+    if (session?.user?.role !== 'ADMIN') router.push('/dashboard');
+    if (status === 'authenticated') {
+      loadCalendars();
+    }
+  }, [session, status, router, loadCalendars]);
+
+  useEffect(() => {
+    if (status === 'authenticated' && session?.user?.role === 'ADMIN') {
+      load(year);
+    }
+  }, [session, status, year, load]);
+
+  const showToast = (type: 'success' | 'error', message: string) => {
+    setToast({ type, message });
+    setTimeout(() => setToast(null), 2500);
+  };
+
+  const handleResult = async (res: Response, successMessage: string) => {
+    const data = await res.json();
+    if (!res.ok) {
+      showToast('error', data.error || 'Request failed');
+      return;
+    }
+    setStaleRequests(data.staleRequests || []);
+    showToast('success', successMessage);
+    await load(year);
+  };
+
+  const customize = async () => {
+    const res = await fetch('/api/admin/holidays/customize', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ year, calendarId: calendarId || undefined }),
+    });
+    await handleResult(res, `Holidays for ${year} are now editable`);
+  };
+
+  const addHoliday = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const res = await fetch('/api/admin/holidays', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...newHoliday, calendarId: calendarId || undefined }),
+    });
+    if (res.ok) setNewHoliday({ date: '', name: '' });
+    await handleResult(res, 'Holiday added');
+  };
+
+  const renameHoliday = async (id: string) => {
+    const res = await fetch(`/api/admin/holidays/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: editingName }),
+    });
+    setEditingId(null);
+    await handleResult(res, 'Holiday renamed');
+  };
+
+  const removeHoliday = async (holiday: HolidayRow) => {
+    if (!holiday.id || !confirm(`Remove ${holiday.name} (${holiday.date})?`)) return;
+    const res = await fetch(`/api/admin/holidays/${holiday.id}`, { method: 'DELETE' });
+    await handleResult(res, 'Holiday removed');
+  };
+
+  const createCalendar = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const res = await fetch('/api/admin/holiday-calendars', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: newCalendar.name, ruleSet: newCalendar.ruleSet || null }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      showToast('error', data.error || 'Failed to create calendar');
+      return;
+    }
+    setNewCalendar({ name: '', ruleSet: '' });
+    showToast('success', `Calendar ${data.name} created`);
+    await loadCalendars();
+    setCalendarId(data.id);
+  };
+
+  const assignCalendar = async (userId: string, holidayCalendarId: string) => {
+    const res = await fetch(`/api/admin/users/${userId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ holidayCalendarId: holidayCalendarId || null }),
+    });
+    if (!res.ok) {
+      const data = await res.json();
+      showToast('error', data.error || 'Failed to assign calendar');
+      return;
+    }
+    showToast('success', 'Calendar assigned');
+    await loadCalendars();
+  };
+
+  const defaultCalendar = calendars.find(c => c.isDefault);
+
+  if (status === 'loading') return <div className="p-6">Loading…</div>;
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-2xl font-bold">Company Holidays</h1>
+        <button onClick={() => router.push('/admin')} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+          Back to Admin
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Holidays are excluded from working-day counts. Years that have not been customized use the built-in rules
+        (US federal holidays, Good Friday, Christmas Eve and New Year&apos;s Eve, with weekend holidays observed on the nearest weekday).
+      </p>
+
+      {toast && (
+        <div className={`mb-4 px-4 py-2 rounded ${toast.type === 'success' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>{toast.message}</div>
+      )}
+
+      {staleRequests.length > 0 && (
+        <div className="mb-6 bg-yellow-50 border-l-4 border-yellow-400 p-4">
+          <p className="text-sm font-medium text-yellow-800 mb-2">
+            {staleRequests.length} pending or approved request{staleRequests.length === 1 ? '' : 's'} now count a different number of working days:
+          </p>
+          <ul className="text-sm text-yellow-800 list-disc list-inside">
+            {staleRequests.map(r => (
+              <li key={r.id}>
+                {r.userName || 'Unknown'}: {r.type} {r.startDate.split('T')[0]} – {r.endDate.split('T')[0]} ({r.status.toLowerCase()}),
+                stored {r.workingDays} day(s), now {r.recalculatedWorkingDays}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {calendars.length > 0 && (
+        <div className="flex items-center space-x-2 mb-4">
+          <label className="text-sm font-medium text-gray-700">Calendar</label>
+          <select
+            className="border border-gray-300 rounded-md p-2"
+            value={calendarId}
+            onChange={(e) => setCalendarId(e.target.value)}
+          >
+            {calendars.map(c => (
+              <option key={c.id} value={c.id}>
+                {c.name}{c.isDefault ? ' (default)' : ''} – {c.userCount} user{c.userCount === 1 ? '' : 's'}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="flex items-center space-x-3 mb-4">
+        <button onClick={() => setYear(year - 1)} className="px-3 py-1 border border-gray-300 rounded">‹</button>
+        <span className="text-lg font-semibold">{year}</span>
+        <button onClick={() => setYear(year + 1)} className="px-3 py-1 border border-gray-300 rounded">›</button>
+        {!customized && !loading && (
+          <button onClick={customize} className="ml-auto px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700">
+            Customize {year}
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="p-6">Loading…</div>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 mb-6">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Date</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Name</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {holidays.map(holiday => (
+              <tr key={holiday.id || holiday.date}>
+                <td className="px-4 py-2 text-sm text-gray-900 whitespace-nowrap">{formatHolidayDate(holiday.date)}</td>
+                <td className="px-4 py-2 text-sm text-gray-900">
+                  {editingId === holiday.id ? (
+                    <input
+                      className="border border-gray-300 rounded p-1 w-full"
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                    />
+                  ) : (
+                    <>
+                      {holiday.name}
+                      {holiday.observed && <span className="ml-2 text-xs text-gray-500">(observed)</span>}
+                    </>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-sm text-right whitespace-nowrap space-x-2">
+                  {customized && holiday.id && (editingId === holiday.id ? (
+                    <>
+                      <button onClick={() => renameHoliday(holiday.id!)} className="text-indigo-600 hover:text-indigo-800">Save</button>
+                      <button onClick={() => setEditingId(null)} className="text-gray-600 hover:text-gray-800">Cancel</button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => { setEditingId(holiday.id!); setEditingName(holiday.name); }}
+                        className="text-indigo-600 hover:text-indigo-800"
+                      >
+                        Rename
+                      </button>
+                      <button onClick={() => removeHoliday(holiday)} className="text-red-600 hover:text-red-800">Remove</button>
+                    </>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <form onSubmit={addHoliday} className="flex items-end space-x-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Date</label>
+          <input
+            type="date"
+            required
+            className="mt-1 block border border-gray-300 rounded-md p-2"
+            value={newHoliday.date}
+            onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+          />
+        </div>
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700">Name</label>
+          <input
+            type="text"
+            required
+            className="mt-1 block w-full border border-gray-300 rounded-md p-2"
+            value={newHoliday.name}
+            onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+            placeholder="Company shutdown"
+          />
+        </div>
+        <button type="submit" className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700">Add Holiday</button>
+      </form>
+      <p className="text-xs text-gray-500 mt-2">
+        Adding a holiday to a year that has not been customized copies that year&apos;s built-in holidays first.
+        Removing every holiday from a year reverts it to the built-in rules.
+      </p>
+
+      <h2 className="text-xl font-semibold mt-10 mb-3">Locations</h2>
+      <form onSubmit={createCalendar} className="flex items-end space-x-2 mb-6">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700">New calendar name</label>
+          <input
+            type="text"
+            required
+            className="mt-1 block w-full border border-gray-300 rounded-md p-2"
+            value={newCalendar.name}
+            onChange={(e) => setNewCalendar({ ...newCalendar, name: e.target.value })}
+            placeholder="Mexico"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Start from</label>
+          <select
+            className="mt-1 block border border-gray-300 rounded-md p-2"
+            value={newCalendar.ruleSet}
+            onChange={(e) => setNewCalendar({ ...newCalendar, ruleSet: e.target.value })}
+          >
+            <option value="">No built-in holidays</option>
+            {Object.entries(RULE_SETS).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <button type="submit" className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700">Add Calendar</button>
+      </form>
+
+      {calendars.length > 0 && staff.length > 0 && (
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Employee</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Holiday calendar</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {staff.map(member => (
+              <tr key={member.id}>
+                <td className="px-4 py-2 text-sm text-gray-900">
+                  {member.name}
+                  <span className="ml-2 text-xs text-gray-500">{member.email}</span>
+                </td>
+                <td className="px-4 py-2 text-sm">
+                  <select
+                    className="border border-gray-300 rounded-md p-1"
+                    value={member.holidayCalendarId || ''}
+                    onChange={(e) => assignCalendar(member.id, e.target.value)}
+                  >
+                    <option value="">Default{defaultCalendar ? ` (${defaultCalendar.name})` : ''}</option>
+                    {calendars.filter(c => !c.isDefault).map(c => (
+                      <option key={c.id} value={c.id}>{c.name}</option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
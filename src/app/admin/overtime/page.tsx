@@ -0,0 +1,366 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+
+interface OvertimeListing {
+  id: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  hours: number;
+  requestDate: string;
+  status: string;
+  notes: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  compensation: string | null;
+  rate: number | null;
+  creditType: string | null;
+  creditedDays: number | null;
+  payoutHours: number | null;
+  reversedAt: string | null;
+  reversalReason: string | null;
+}
+
+interface MonthTotals {
+  month: number;
+  approvedHours: number;
+  pendingHours: number;
+  creditedDays: number;
+  payoutHours: number;
+}
+
+interface EmployeeSummary {
+  userId: string;
+  userName: string;
+  months: MonthTotals[];
+  totals: Omit<MonthTotals, 'month'>;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+interface UserOption {
+  id: string;
+  name: string;
+  email: string;
+}
+
+const PAGE_SIZE = 50;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const STATUS_STYLES: Record<string, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  APPROVED: 'bg-green-100 text-green-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  CANCELLED: 'bg-gray-100 text-gray-800',
+};
+
+const emptyFilters = { status: '', userId: '', year: String(new Date().getFullYear()), month: '' };
+
+type Filters = typeof emptyFilters;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export default function OvertimeAdminPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [form, setForm] = useState<Filters>(emptyFilters);
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [page, setPage] = useState(1);
+  const [requests, setRequests] = useState<OvertimeListing[]>([]);
+  const [summary, setSummary] = useState<EmployeeSummary[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const showToast = (type: 'success' | 'error', message: string) => {
+    setToast({ type, message });
+    setTimeout(() => setToast(null), 4000);
+  };
+
+  const loadOvertime = useCallback(async () => {
+    setLoading(true);
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => value && params.set(key, value));
+    params.set('page', String(page));
+    params.set('limit', String(PAGE_SIZE));
+    const res = await fetch(`/api/admin/overtime?${params}`);
+    const data = await res.json();
+    setLoading(false);
+    if (!res.ok) {
+      showToast('error', data.details?.[0]?.message || data.error || 'Failed to load overtime');
+      return;
+    }
+    setRequests(data.requests);
+    setSummary(data.summary);
+    setPagination(data.pagination);
+  }, [filters, page]);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') router.push('/login');
+    if (status === 'authenticated' && session?.user?.role !== 'ADMIN') router.push('/dashboard');
+  }, [session, status, router]);
+
+  useEffect(() => {
+    if (status === 'authenticated' && session?.user?.role === 'ADMIN') {
+      loadOvertime();
+    }
+  }, [session, status, loadOvertime]);
+
+  useEffect(() => {
+    if (status === 'authenticated' && session?.user?.role === 'ADMIN') {
+      fetch('/api/admin/users')
+        .then(res => (res.ok ? res.json() : { users: [] }))
+        .then(data => setUsers(data.users || []));
+    }
+  }, [session, status]);
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(form);
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setForm(emptyFilters);
+    setFilters(emptyFilters);
+    setPage(1);
+  };
+
+  const reverseApproval = async (request: OvertimeListing) => {
+    const reason = prompt(
+      `Reverse the approval of ${request.hours} hours for ${request.userName}? Credited comp time is taken back, ` +
+      'even if it has been used. Reason:'
+    );
+    if (!reason?.trim()) return;
+
+    const res = await fetch(`/api/admin/overtime/${request.id}/reverse`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      showToast('error', data.details?.[0]?.message || data.error || 'Failed to reverse the approval');
+      return;
+    }
+    showToast('success', `Approval reversed; ${data.revokedDays} days taken back`);
+    loadOvertime();
+  };
+
+  if (status === 'loading') return <div className="p-6">Loading…</div>;
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-2xl font-bold">Overtime</h1>
+        <div className="space-x-2">
+          <button onClick={() => router.push('/admin/settings/overtime')} className="px-4 py-2 bg-orange-600 text-white rounded hover:bg-orange-700">
+            Overtime Policy
+          </button>
+          <button onClick={() => router.push('/admin')} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+            Back to Admin
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Overtime in every status, by the month it was worked. Reversing an approval cancels the request and takes back
+        the comp time it credited, less any that has expired; payouts it recorded no longer count.
+      </p>
+
+      {toast && (
+        <div className={`mb-4 px-4 py-2 rounded ${toast.type === 'success' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>{toast.message}</div>
+      )}
+
+      <form onSubmit={applyFilters} className="flex flex-wrap items-end gap-3 mb-6">
+        <label className="text-sm text-gray-700">
+          Employee
+          <select
+            className="block mt-1 w-56 border border-gray-300 rounded-md p-1"
+            value={form.userId}
+            onChange={(e) => setForm({ ...form, userId: e.target.value })}
+          >
+            <option value="">Everyone</option>
+            {users.map(user => (
+              <option key={user.id} value={user.id}>{user.name || user.email}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          Status
+          <select
+            className="block mt-1 w-36 border border-gray-300 rounded-md p-1"
+            value={form.status}
+            onChange={(e) => setForm({ ...form, status: e.target.value })}
+          >
+            <option value="">Any</option>
+            <option value="PENDING">Pending</option>
+            <option value="APPROVED">Approved</option>
+            <option value="REJECTED">Rejected</option>
+            <option value="CANCELLED">Reversed</option>
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          Year
+          <input
+            type="number"
+            min="2000"
+            max="2100"
+            className="block mt-1 w-24 border border-gray-300 rounded-md p-1"
+            value={form.year}
+            onChange={(e) => setForm({ ...form, year: e.target.value })}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Month
+          <select
+            className="block mt-1 w-28 border border-gray-300 rounded-md p-1"
+            value={form.month}
+            onChange={(e) => setForm({ ...form, month: e.target.value })}
+          >
+            <option value="">All</option>
+            {MONTHS.map((name, index) => <option key={name} value={index + 1}>{name}</option>)}
+          </select>
+        </label>
+        <button type="submit" className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700">
+          Search
+        </button>
+        <button type="button" onClick={clearFilters} className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300">
+          Clear
+        </button>
+      </form>
+
+      <h2 className="text-lg font-semibold mb-2">Monthly Summary</h2>
+      {summary.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-8">{loading ? 'Loading…' : 'No overtime for this period.'}</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 mb-8">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Employee</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Month</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">Approved Hours</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">Pending Hours</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">Credited Days</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">Payout Hours</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200 text-sm">
+            {summary.map(employee => [
+              ...employee.months.map((month, index) => (
+                <tr key={`${employee.userId}-${month.month}`}>
+                  <td className="px-4 py-2">{index === 0 ? employee.userName : ''}</td>
+                  <td className="px-4 py-2">{MONTHS[month.month - 1]}</td>
+                  <td className="px-4 py-2 text-right">{round(month.approvedHours)}</td>
+                  <td className="px-4 py-2 text-right">{round(month.pendingHours)}</td>
+                  <td className="px-4 py-2 text-right">{round(month.creditedDays)}</td>
+                  <td className="px-4 py-2 text-right">{round(month.payoutHours)}</td>
+                </tr>
+              )),
+              <tr key={`${employee.userId}-total`} className="bg-gray-50 font-medium">
+                <td className="px-4 py-2" />
+                <td className="px-4 py-2">Total</td>
+                <td className="px-4 py-2 text-right">{round(employee.totals.approvedHours)}</td>
+                <td className="px-4 py-2 text-right">{round(employee.totals.pendingHours)}</td>
+                <td className="px-4 py-2 text-right">{round(employee.totals.creditedDays)}</td>
+                <td className="px-4 py-2 text-right">{round(employee.totals.payoutHours)}</td>
+              </tr>,
+            ])}
+          </tbody>
+        </table>
+      )}
+
+      <h2 className="text-lg font-semibold mb-2">Requests</h2>
+      {requests.length === 0 ? (
+        <p className="text-sm text-gray-500">{loading ? 'Loading…' : 'No overtime matches these filters.'}</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 mb-4">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Employee</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Date Worked</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">Hours</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Status</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Compensation</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Notes</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200 text-sm">
+            {requests.map(request => (
+              <tr key={request.id}>
+                <td className="px-4 py-2">
+                  <div>{request.userName}</div>
+                  <div className="text-xs text-gray-500">{request.userEmail}</div>
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap">
+                  {request.requestDate}
+                  {request.startTime && request.endTime && (
+                    <div className="text-xs text-gray-500">{request.startTime}–{request.endTime}</div>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-right">{request.hours}</td>
+                <td className="px-4 py-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[request.status] ?? ''}`}>
+                    {request.reversedAt ? 'REVERSED' : request.status}
+                  </span>
+                  {request.reversalReason && <div className="text-xs text-gray-500 mt-1">{request.reversalReason}</div>}
+                </td>
+                <td className="px-4 py-2">
+                  {request.compensation === 'PAYOUT' && `${request.payoutHours} hours paid at ${request.rate}x`}
+                  {request.compensation === 'COMP_TIME' && (
+                    <>
+                      {request.creditedDays} {request.creditType?.toLowerCase().replace('_', ' ')} days at {request.rate}x
+                      {!!request.payoutHours && <div className="text-xs text-gray-500">+{request.payoutHours} hours paid above the cap</div>}
+                    </>
+                  )}
+                  {!request.compensation && '—'}
+                </td>
+                <td className="px-4 py-2 text-gray-600">{request.notes || '—'}</td>
+                <td className="px-4 py-2 text-right">
+                  {request.status === 'APPROVED' && (
+                    <button onClick={() => reverseApproval(request)} className="text-red-600 hover:text-red-800">
+                      Reverse
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between text-sm text-gray-700">
+          <span>{pagination.total} requests</span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span>Page {pagination.page} of {pagination.totalPages}</span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pagination.totalPages}
+              className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
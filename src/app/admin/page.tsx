@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
+import { DEFAULT_HOURS_PER_DAY, hoursToDays } from '@/lib/work-hours';
 
 interface User {
   id: string;
@@ -31,6 +32,7 @@ interface OvertimeRequest {
   notes?: string;
   user_name?: string;
   user_email?: string;
+  hours_per_day?: number;
 }
 
 // Add this helper function to safely format dates
@@ -337,6 +339,78 @@ export default function AdminPage() {
               <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M2.94 6.34a2 2 0 0 1 2-1.84h10.12a2 2 0 0 1 2 1.84L10 10.88 2.94 6.34Z"/><path d="M2.75 7.9V14a2 2 0 0 0 2 2h10.5a2 2 0 0 0 2-2V7.9l-7.14 4.41a1.5 1.5 0 0 1-1.52 0L2.75 7.9Z"/></svg>
               Email Settings
             </button>
+            <button
+              onClick={() => router.push('/admin/holidays')}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded hover:bg-emerald-700 transition-colors"
+              title="Company holidays"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="currentColor"><path d="M7 2v2H5a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2V6a2 2 0 0 0-2-2h-2V2h-2v2H9V2H7Zm-2 8h14v10H5V10Zm2 2v2h2v-2H7Zm4 0v2h2v-2h-2Z"/></svg>
+              Holidays
+            </button>
+            <button
+              onClick={() => router.push('/admin/accruals')}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded hover:bg-teal-700 transition-colors"
+              title="Accrual policies"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="currentColor"><path d="M4 20h16v2H4v-2Zm1-3h3v2H5v-2Zm5-5h3v7h-3v-7Zm5-5h3v12h-3V7Z"/></svg>
+              Accruals
+            </button>
+            <button
+              onClick={() => router.push('/admin/rollover')}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-amber-600 text-white rounded hover:bg-amber-700 transition-colors"
+              title="Year-end rollover"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="currentColor"><path d="M12 4V1L8 5l4 4V6a6 6 0 0 1 6 6 5.9 5.9 0 0 1-.7 2.8l1.46 1.46A8 8 0 0 0 12 4Zm0 14a6 6 0 0 1-6-6 5.9 5.9 0 0 1 .7-2.8L5.24 7.74A8 8 0 0 0 12 20v3l4-4-4-4v3Z"/></svg>
+              Rollover
+            </button>
+            <button
+              onClick={() => router.push('/admin/blackouts')}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-gray-800 text-white rounded hover:bg-gray-900 transition-colors"
+              title="Blackout periods"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="currentColor"><path d="M12 2a10 10 0 1 0 0 20 10 10 0 0 0 0-20ZM4 12a8 8 0 0 1 12.9-6.32L5.68 16.9A7.96 7.96 0 0 1 4 12Zm8 8a7.96 7.96 0 0 1-4.9-1.68L18.32 7.1A8 8 0 0 1 12 20Z"/></svg>
+              Blackouts
+            </button>
+            <button
+              onClick={() => router.push('/admin/settings/policies')}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-violet-600 text-white rounded hover:bg-violet-700 transition-colors"
+              title="Request policies"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="currentColor"><path d="M12 2 4 5v6c0 5.25 3.4 10.15 8 11.5 4.6-1.35 8-6.25 8-11.5V5l-8-3Zm-1.5 14.5-4-4 1.4-1.4 2.6 2.6 5.6-5.6 1.4 1.4-7 7Z"/></svg>
+              Policies
+            </button>
+            <button
+              onClick={() => router.push('/admin/overtime')}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-orange-600 text-white rounded hover:bg-orange-700 transition-colors"
+              title="Overtime history and policy"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="currentColor"><path d="M12 2a10 10 0 1 0 0 20 10 10 0 0 0 0-20Zm1 10.41V6h-2v7.24l5.03 3.02 1.03-1.71L13 12.41Z"/></svg>
+              Overtime
+            </button>
+            <button
+              onClick={() => router.push('/admin/settings/approvals')}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-sky-600 text-white rounded hover:bg-sky-700 transition-colors"
+              title="Approval chains"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="currentColor"><path d="M4 4h6v6H4V4Zm10 0h6v6h-6V4ZM4 14h6v6H4v-6Zm13 0h-2v3h-3v2h3v3h2v-3h3v-2h-3v-3ZM7 10h2v4H7v-4Zm3-4h4v2h-4V6Z"/></svg>
+              Approvals
+            </button>
+            <button
+              onClick={() => router.push('/admin/teams')}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-cyan-700 text-white rounded hover:bg-cyan-800 transition-colors"
+              title="Teams and staffing limits"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="currentColor"><path d="M16 11a3 3 0 1 0 0-6 3 3 0 0 0 0 6Zm-8 0a3 3 0 1 0 0-6 3 3 0 0 0 0 6Zm0 2c-2.33 0-7 1.17-7 3.5V19h14v-2.5C15 14.17 10.33 13 8 13Zm8 0c-.29 0-.62.02-.97.05A4.22 4.22 0 0 1 17 16.5V19h6v-2.5c0-2.33-4.67-3.5-7-3.5Z"/></svg>
+              Teams
+            </button>
+            <button
+              onClick={() => router.push('/admin/audit')}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-slate-700 text-white rounded hover:bg-slate-800 transition-colors"
+              title="Audit log"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="currentColor"><path d="M6 2h9l5 5v13a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2Zm8 1.5V8h4.5L14 3.5ZM8 12v2h8v-2H8Zm0 4v2h5v-2H8Z"/></svg>
+              Audit Log
+            </button>
             <button
               onClick={() => router.push('/admin/requests')}
               className="inline-flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors"
@@ -553,7 +627,7 @@ export default function AdminPage() {
                         {request.hours}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                        {(request.hours / 8).toFixed(2)}
+                        {hoursToDays(request.hours, request.hours_per_day ?? DEFAULT_HOURS_PER_DAY).toFixed(2)}
                       </td>
                       <td className="px-6 py-4 text-sm text-gray-700 max-w-xs truncate" title={request.notes}>
                         {request.notes || '-'}
@@ -3,6 +3,13 @@
 import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
+import { getHolidaysForYear } from '@/lib/holidays';
+import { DEFAULT_HOURS_PER_DAY, hoursToDays } from '@/lib/work-hours';
+import { APPROVAL_STEP_LABELS, ApprovalStep, describeApprovalProgress } from '@/lib/approval-chains';
+
+interface ApprovalStepView extends ApprovalStep {
+  approverName: string | null;
+}
 
 interface TimeOffRequest {
   id: string;
@@ -12,8 +19,12 @@ interface TimeOffRequest {
   start_date: string;
   end_date: string;
   type: 'VACATION' | 'SICK' | 'PAID_LEAVE';
-  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  status: 'PENDING' | 'PARTIALLY_APPROVED' | 'APPROVED' | 'REJECTED' | 'CANCELLATION_REQUESTED' | 'CANCELLED';
   reason?: string;
+  cancellation_reason?: string | null;
+  start_half?: 'AM' | 'PM' | null;
+  end_half?: 'AM' | 'PM' | null;
+  approval_steps?: ApprovalStepView[];
 }
 
 interface OvertimeRequest {
@@ -26,8 +37,18 @@ interface OvertimeRequest {
   year: number;
   status: 'PENDING' | 'APPROVED' | 'REJECTED';
   notes?: string;
+  hours_per_day?: number;
 }
 
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+const PAGE_SIZE = 25;
+
 // Helper function to safely format dates
 const formatDate = (dateString: string) => {
   try {
@@ -47,9 +68,22 @@ const formatDate = (dateString: string) => {
   }
 };
 
+// Good Friday moves every year, so compute it for the current year
+const getGoodFridayLabel = (): string => {
+  const goodFriday = getHolidaysForYear(new Date().getFullYear()).find(h => h.name === 'Good Friday');
+  if (!goodFriday) return 'date varies by year';
+  return new Date(`${goodFriday.date}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
 export default function AllRequestsPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
+  const goodFridayLabel = getGoodFridayLabel();
   const [requests, setRequests] = useState<TimeOffRequest[]>([]);
   const [overtimeRequests, setOvertimeRequests] = useState<OvertimeRequest[]>([]);
   const [loading, setLoading] = useState(true);
@@ -57,31 +91,55 @@ export default function AllRequestsPage() {
   const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
   const [currentYear, setCurrentYear] = useState(new Date().getFullYear());
   const [statusFilter, setStatusFilter] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [searchInput, setSearchInput] = useState('');
+  const [page, setPage] = useState(1);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
   const [processingRequests, setProcessingRequests] = useState<Set<string>>(new Set());
+  // Ticked rows for bulk actions
+  const [selectedRequests, setSelectedRequests] = useState<Set<string>>(new Set());
+  const [selectedOvertime, setSelectedOvertime] = useState<Set<string>>(new Set());
+  const [bulkProcessing, setBulkProcessing] = useState(false);
+  // Managers review their reports here; admins review everyone
+  const isAdmin = session?.user?.role === 'ADMIN';
+  const isReviewer = isAdmin || session?.user?.role === 'MANAGER';
 
   useEffect(() => {
     if (status === 'unauthenticated') {
       router.push('/login');
-    } else if (session?.user?.role !== 'ADMIN') {
+    } else if (session?.user?.role !== 'ADMIN' && session?.user?.role !== 'MANAGER') {
       router.push('/dashboard');
     } else if (status === 'authenticated') {
       fetchRequests();
-      fetchOvertime();
+      fetchOvertime(session?.user?.role === 'MANAGER');
     }
-  }, [session, status, router, currentYear, statusFilter]);
+  }, [session, status, router, currentYear, statusFilter, typeFilter, search, page]);
 
-  const fetchRequests = async () => {
+  const fetchRequests = async (showLoading = true) => {
     try {
-      setLoading(true);
-      let url = `/api/admin/requests?year=${currentYear}`;
-      if (statusFilter) {
-        url += `&status=${statusFilter}`;
-      }
+      if (showLoading) setLoading(true);
+      const params = new URLSearchParams({
+        year: String(currentYear),
+        page: String(page),
+        limit: String(PAGE_SIZE),
+      });
+      if (statusFilter) params.set('status', statusFilter);
+      if (typeFilter) params.set('type', typeFilter);
+      if (search) params.set('search', search);
       
-      const response = await fetch(url);
+      const response = await fetch(`/api/admin/requests?${params}`);
       if (response.ok) {
-        const data = await response.json();
-        setRequests(data);
+        const data: { requests: TimeOffRequest[]; pagination: Pagination } = await response.json();
+        // Step back when the last rows of the final page were acted on
+        if (data.requests.length === 0 && page > 1) {
+          setPage(Math.max(1, data.pagination.totalPages));
+          return;
+        }
+        setRequests(data.requests);
+        setPagination(data.pagination);
+        // Forget ticked rows that are no longer listed
+        setSelectedRequests(prev => new Set(data.requests.filter(r => prev.has(r.id)).map(r => r.id)));
         setError(''); // Clear any previous errors
       } else {
         const errorText = await response.text();
@@ -95,9 +153,9 @@ export default function AllRequestsPage() {
     }
   };
 
-  const fetchOvertime = async () => {
+  const fetchOvertime = async (reportsOnly: boolean) => {
     try {
-      const res = await fetch('/api/overtime/requests');
+      const res = await fetch(reportsOnly ? '/api/overtime/requests?scope=reports' : '/api/overtime/requests');
       if (res.ok) {
         const data = await res.json();
         setOvertimeRequests(data);
@@ -122,20 +180,46 @@ export default function AllRequestsPage() {
     );
 
     try {
-      const response = await fetch(`/api/time-off/requests/${requestId}`, {
+      const patchStatus = (extra: Record<string, unknown> = {}) => fetch(`/api/time-off/requests/${requestId}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ status: newStatus, ...extra }),
       });
+      let response = await patchStatus();
+      const overrides: Record<string, unknown> = {};
 
-      if (!response.ok) {
+      // Admins can override blackouts, which is recorded as an exception, and
+      // any approver can go over a team's staffing limit
+      while (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to update request status');
+        let reason: string | null = null;
+        if (errorData.code === 'BLACKOUT_DATE' && isAdmin && !overrides.overrideBlackout) {
+          reason = window.prompt(`${errorData.error}\n\nApprove as an exception? Enter a reason to continue.`);
+          overrides.overrideBlackout = true;
+        } else if (errorData.code === 'STAFFING_LIMIT' && !overrides.overrideStaffing) {
+          reason = window.prompt(`${errorData.error}\n\nApprove anyway? Enter a reason to continue.`);
+          overrides.overrideStaffing = true;
+        }
+        if (!reason) {
+          throw new Error(errorData.error || 'Failed to update request status');
+        }
+        response = await patchStatus({ ...overrides, overrideReason: reason });
+      }
+
+      // A step of a longer approval chain leaves the request partially approved
+      const updated = await response.json();
+      if (updated.status === 'PARTIALLY_APPROVED' || requests.find(r => r.id === requestId)?.approval_steps?.length) {
+        await fetchRequests(false);
       }
 
       // Clear any previous errors on success
       setError('');
-      setToast({ type: 'success', message: `Request ${newStatus.toLowerCase()} successfully` });
+      setToast({
+        type: 'success',
+        message: updated.status === 'PARTIALLY_APPROVED'
+          ? 'Step approved; the request moves to the next approver'
+          : `Request ${newStatus.toLowerCase()} successfully`
+      });
       setTimeout(() => setToast(null), 2500);
       
       // Show success message briefly
@@ -164,10 +248,38 @@ export default function AllRequestsPage() {
     }
   };
 
+  // Signing off a cancellation gives the employee their days back
+  const decideCancellation = async (requestId: string, approve: boolean) => {
+    setProcessingRequests(prev => new Set(prev).add(requestId));
+    try {
+      const response = await fetch(`/api/time-off/requests/${requestId}/cancel`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ approve }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update cancellation');
+      }
+      setRequests(prev => prev.map(r => r.id === requestId ? { ...r, status: data.status } : r));
+      setError('');
+      setToast({ type: 'success', message: approve ? 'Request cancelled and days restored' : 'Request kept as approved' });
+      setTimeout(() => setToast(null), 2500);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while updating the cancellation');
+    } finally {
+      setProcessingRequests(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(requestId);
+        return newSet;
+      });
+    }
+  };
+
   const updateOvertimeStatus = async (requestId: string, newStatus: 'APPROVED' | 'REJECTED') => {
     if (newStatus === 'APPROVED') {
       const req = overtimeRequests.find(r => r.id === requestId);
-      const days = req ? (req.hours / 8).toFixed(2) : undefined;
+      const days = req ? hoursToDays(req.hours, req.hours_per_day ?? DEFAULT_HOURS_PER_DAY).toFixed(2) : undefined;
       const ok = typeof window !== 'undefined' ? window.confirm(`Approve this overtime? This will add ${days ?? '?'} day(s) to VACATION.`) : true;
       if (!ok) return;
     }
@@ -188,7 +300,7 @@ export default function AllRequestsPage() {
       setToast({ type: 'success', message: `Overtime ${newStatus.toLowerCase()} successfully` });
       setTimeout(() => setToast(null), 2500);
       await fetchRequests(); // refresh balances-related view if needed
-      await fetchOvertime();
+      await fetchOvertime(!isAdmin);
     } catch (err) {
       setOvertimeRequests(original);
       console.error('Error updating overtime status', err);
@@ -197,11 +309,104 @@ export default function AllRequestsPage() {
     }
   };
 
+  const toggleSelected = (setSelected: typeof setSelectedRequests, id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Each request is handled on its own, so some can fail while the rest go through
+  const applyBulkAction = async (requestType: 'TIME_OFF' | 'OVERTIME', action: 'APPROVE' | 'REJECT' | 'DELETE') => {
+    const selected = requestType === 'TIME_OFF' ? selectedRequests : selectedOvertime;
+    const setSelected = requestType === 'TIME_OFF' ? setSelectedRequests : setSelectedOvertime;
+    const requestIds = [...selected];
+    if (requestIds.length === 0) return;
+
+    if (action === 'DELETE' && !window.confirm(`Delete ${requestIds.length} request(s)? Any days they hold are given back.`)) {
+      return;
+    }
+    let reason: string | undefined;
+    if (action === 'REJECT' && requestType === 'TIME_OFF') {
+      const answer = window.prompt(`Reject ${requestIds.length} request(s)? Enter a reason (optional).`);
+      if (answer === null) return;
+      reason = answer || undefined;
+    }
+
+    setBulkProcessing(true);
+    try {
+      const response = await fetch('/api/admin/requests/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requestIds, action, requestType, ...(reason ? { reason } : {}) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to apply bulk action');
+      }
+
+      const failures: { id: string; error: string }[] = data.results.filter((result: { success: boolean }) => !result.success);
+      await fetchRequests(false);
+      await fetchOvertime(!isAdmin);
+      // Leave the failed rows ticked so they can be retried or handled one by one
+      setSelected(new Set(failures.map(failure => failure.id)));
+      setError(failures.length > 0
+        ? `${failures.length} request(s) could not be processed:\n${failures.map(failure => `${failure.id.slice(0, 8)}: ${failure.error}`).join('\n')}`
+        : '');
+      setToast({ type: data.succeeded > 0 ? 'success' : 'error', message: `${data.succeeded} of ${requestIds.length} request(s) processed` });
+      setTimeout(() => setToast(null), 2500);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while applying the bulk action');
+    } finally {
+      setBulkProcessing(false);
+    }
+  };
+
+  const renderBulkBar = (requestType: 'TIME_OFF' | 'OVERTIME', count: number) => count > 0 && (
+    <div className="flex items-center gap-4 px-6 py-3 bg-indigo-50 border-b border-indigo-100 text-sm">
+      <span className="font-medium text-indigo-900">{count} selected</span>
+      <button
+        onClick={() => applyBulkAction(requestType, 'APPROVE')}
+        disabled={bulkProcessing}
+        className="text-green-700 hover:text-green-900 disabled:text-gray-400"
+      >
+        Approve
+      </button>
+      <button
+        onClick={() => applyBulkAction(requestType, 'REJECT')}
+        disabled={bulkProcessing}
+        className="text-red-600 hover:text-red-900 disabled:text-gray-400"
+      >
+        Reject
+      </button>
+      {isAdmin && (
+        <button
+          onClick={() => applyBulkAction(requestType, 'DELETE')}
+          disabled={bulkProcessing}
+          className="text-gray-700 hover:text-gray-900 disabled:text-gray-400"
+        >
+          Delete
+        </button>
+      )}
+      <button
+        onClick={() => (requestType === 'TIME_OFF' ? setSelectedRequests : setSelectedOvertime)(new Set())}
+        className="ml-auto text-gray-500 hover:text-gray-700"
+      >
+        Clear
+      </button>
+    </div>
+  );
+
   if (status === 'loading' || loading) {
     return <div className="flex justify-center items-center h-screen">Loading...</div>;
   }
 
-  if (session?.user?.role !== 'ADMIN') {
+  if (!isReviewer) {
     return null;
   }
 
@@ -212,16 +417,16 @@ export default function AllRequestsPage() {
           <h1 className="text-3xl font-bold text-gray-900">Time Off Requests</h1>
           <div className="flex space-x-4">
             <button
-              onClick={() => router.push('/admin')}
+              onClick={() => router.push(isAdmin ? '/admin' : '/dashboard')}
               className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700"
             >
-              Back to Admin
+              {isAdmin ? 'Back to Admin' : 'Back to Dashboard'}
             </button>
           </div>
         </div>
 
         {error && (
-          <div className={`border px-4 py-3 rounded mb-4 ${
+          <div className={`border px-4 py-3 rounded mb-4 whitespace-pre-line ${
             error.includes('successfully') 
               ? 'bg-green-100 border-green-400 text-green-700'
               : 'bg-red-100 border-red-400 text-red-700'
@@ -230,17 +435,23 @@ export default function AllRequestsPage() {
           </div>
         )}
 
+        {toast && (
+          <div className={`mb-4 px-4 py-2 rounded ${toast.type === 'success' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+            {toast.message}
+          </div>
+        )}
+
         {/* Filters */}
         <div className="bg-white shadow sm:rounded-lg mb-8">
           <div className="px-4 py-5 sm:p-6">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
               <div>
                 <label htmlFor="year" className="block text-sm font-medium text-gray-700">Year</label>
                 <select
                   id="year"
                   className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
                   value={currentYear}
-                  onChange={(e) => setCurrentYear(parseInt(e.target.value))}
+                  onChange={(e) => { setCurrentYear(parseInt(e.target.value)); setPage(1); }}
                 >
                   {Array.from({ length: 5 }, (_, i) => currentYear - 2 + i).map((year) => (
                     <option key={year} value={year}>
@@ -255,14 +466,49 @@ export default function AllRequestsPage() {
                   id="status"
                   className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
                   value={statusFilter || ''}
-                  onChange={(e) => setStatusFilter(e.target.value || null)}
+                  onChange={(e) => { setStatusFilter(e.target.value || null); setPage(1); }}
                 >
                   <option value="">All Statuses</option>
                   <option value="PENDING">Pending</option>
+                  <option value="PARTIALLY_APPROVED">Partially Approved</option>
                   <option value="APPROVED">Approved</option>
                   <option value="REJECTED">Rejected</option>
+                  <option value="CANCELLATION_REQUESTED">Cancellation Requested</option>
+                  <option value="CANCELLED">Cancelled</option>
                 </select>
               </div>
+              <div>
+                <label htmlFor="type" className="block text-sm font-medium text-gray-700">Type</label>
+                <select
+                  id="type"
+                  className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                  value={typeFilter || ''}
+                  onChange={(e) => { setTypeFilter(e.target.value || null); setPage(1); }}
+                >
+                  <option value="">All Types</option>
+                  <option value="VACATION">Vacation</option>
+                  <option value="SICK">Sick</option>
+                  <option value="PAID_LEAVE">Paid Leave</option>
+                  <option value="PERSONAL">Personal</option>
+                </select>
+              </div>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  setSearch(searchInput.trim());
+                  setPage(1);
+                }}
+              >
+                <label htmlFor="search" className="block text-sm font-medium text-gray-700">Employee</label>
+                <input
+                  id="search"
+                  type="search"
+                  placeholder="Name or email, then Enter"
+                  className="mt-1 block w-full px-3 py-2 text-base border border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                />
+              </form>
             </div>
           </div>
         </div>
@@ -283,17 +529,28 @@ export default function AllRequestsPage() {
                   </p>
                   <ul className="text-sm text-blue-700 mt-1 list-disc list-inside pl-2">
                     <li>All federal holidays</li>
-                    <li>Good Friday (April 18, 2025)</li>
+                    <li>Good Friday ({goodFridayLabel})</li>
                     <li>Christmas Eve (December 24)</li>
+                    <li>New Year&apos;s Eve (December 31)</li>
+                    <li>Observed days when a holiday falls on a weekend</li>
                   </ul>
                 </div>
               </div>
             </div>
           </div>
+          {renderBulkBar('TIME_OFF', selectedRequests.size)}
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
                 <tr>
+                  <th className="pl-6 py-3">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all requests"
+                      checked={requests.length > 0 && requests.every(r => selectedRequests.has(r.id))}
+                      onChange={(e) => setSelectedRequests(e.target.checked ? new Set(requests.map(r => r.id)) : new Set())}
+                    />
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
                     Employee
                   </th>
@@ -318,6 +575,14 @@ export default function AllRequestsPage() {
                 {requests.length > 0 ? (
                   requests.map((request) => (
                     <tr key={request.id}>
+                      <td className="pl-6 py-4">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select request from ${request.user_name}`}
+                          checked={selectedRequests.has(request.id)}
+                          onChange={() => toggleSelected(setSelectedRequests, request.id)}
+                        />
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm font-medium text-gray-900">{request.user_name}</div>
                         <div className="text-sm text-gray-500">{request.user_email}</div>
@@ -326,7 +591,7 @@ export default function AllRequestsPage() {
                         {request.type.replace('_', ' ')}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
-                        {formatDate(request.start_date)} - {formatDate(request.end_date)}
+                        {formatDate(request.start_date)}{request.start_half ? ` (${request.start_half})` : ''} - {formatDate(request.end_date)}{request.end_half ? ` (${request.end_half})` : ''}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span
@@ -335,17 +600,38 @@ export default function AllRequestsPage() {
                               ? 'bg-green-100 text-green-800'
                               : request.status === 'REJECTED'
                               ? 'bg-red-100 text-red-800'
+                              : request.status === 'PARTIALLY_APPROVED'
+                              ? 'bg-blue-100 text-blue-800'
+                              : request.status === 'CANCELLATION_REQUESTED'
+                              ? 'bg-orange-100 text-orange-800'
+                              : request.status === 'CANCELLED'
+                              ? 'bg-gray-100 text-gray-700'
                               : 'bg-yellow-100 text-yellow-800'
                           }`}
                         >
-                          {request.status}
+                          {request.status.replace('_', ' ')}
                         </span>
+                        {request.approval_steps && request.approval_steps.length > 0 && (
+                          <div className="mt-1 text-xs text-gray-500">
+                            <div>{describeApprovalProgress(request.approval_steps)}</div>
+                            {request.approval_steps.map(step => (
+                              <div key={step.step}>
+                                {step.step}. {APPROVAL_STEP_LABELS[step.role]}: {step.status === 'PENDING' ? 'waiting' : `${step.status.toLowerCase()}${step.approverName ? ` by ${step.approverName}` : ''}`}
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 text-sm text-gray-700 max-w-xs truncate" title={request.reason}>
                         {request.reason || '-'}
+                        {request.cancellation_reason && (
+                          <div className="text-xs text-orange-700 truncate" title={request.cancellation_reason}>
+                            Cancellation: {request.cancellation_reason}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                        {request.status === 'PENDING' && (
+                        {(request.status === 'PENDING' || request.status === 'PARTIALLY_APPROVED') && (
                           <>
                             <button
                               onClick={() => updateRequestStatus(request.id, 'APPROVED')}
@@ -371,7 +657,25 @@ export default function AllRequestsPage() {
                             </button>
                           </>
                         )}
-                        {request.status !== 'PENDING' && (
+                        {request.status === 'CANCELLATION_REQUESTED' && (
+                          <>
+                            <button
+                              onClick={() => decideCancellation(request.id, true)}
+                              disabled={processingRequests.has(request.id)}
+                              className="mr-4 text-orange-600 hover:text-orange-900 disabled:text-gray-400"
+                            >
+                              Approve Cancellation
+                            </button>
+                            <button
+                              onClick={() => decideCancellation(request.id, false)}
+                              disabled={processingRequests.has(request.id)}
+                              className="mr-4 text-gray-600 hover:text-gray-900 disabled:text-gray-400"
+                            >
+                              Keep Approved
+                            </button>
+                          </>
+                        )}
+                        {request.status !== 'PENDING' && request.status !== 'PARTIALLY_APPROVED' && isAdmin && (
                           <button
                             onClick={() => router.push(`/admin/employee/${request.user_id}`)}
                             className="text-indigo-600 hover:text-indigo-900"
@@ -384,7 +688,7 @@ export default function AllRequestsPage() {
                   ))
                 ) : (
                   <tr>
-                    <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                    <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
                       No time off requests found with the selected filters.
                     </td>
                   </tr>
@@ -392,6 +696,30 @@ export default function AllRequestsPage() {
               </tbody>
             </table>
           </div>
+          {pagination && pagination.total > 0 && (
+            <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200 text-sm text-gray-700">
+              <span>
+                Showing {(pagination.page - 1) * pagination.limit + 1}–{Math.min(pagination.page * pagination.limit, pagination.total)} of {pagination.total}
+              </span>
+              <div className="space-x-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Previous
+                </button>
+                <span>Page {pagination.page} of {pagination.totalPages}</span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pagination.totalPages}
+                  className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Overtime Requests Table */}
@@ -400,10 +728,19 @@ export default function AllRequestsPage() {
             <h2 className="text-xl font-semibold mb-2">Overtime Requests</h2>
             <p className="text-sm text-gray-600 mb-4">Approve to add equivalent vacation days (hours ÷ 8) to the employee's balance.</p>
           </div>
+          {renderBulkBar('OVERTIME', selectedOvertime.size)}
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
                 <tr>
+                  <th className="pl-6 py-3">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all overtime requests"
+                      checked={overtimeRequests.length > 0 && overtimeRequests.every(r => selectedOvertime.has(r.id))}
+                      onChange={(e) => setSelectedOvertime(e.target.checked ? new Set(overtimeRequests.map(r => r.id)) : new Set())}
+                    />
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Date</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Hours</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Equivalent Days</th>
@@ -416,9 +753,17 @@ export default function AllRequestsPage() {
                 {overtimeRequests.length > 0 ? (
                   overtimeRequests.map((r) => (
                     <tr key={r.id}>
+                      <td className="pl-6 py-4">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select overtime request for ${r.request_date}`}
+                          checked={selectedOvertime.has(r.id)}
+                          onChange={() => toggleSelected(setSelectedOvertime, r.id)}
+                        />
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{r.request_date}</td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{r.hours}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{(r.hours / 8).toFixed(2)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{hoursToDays(r.hours, r.hours_per_day ?? DEFAULT_HOURS_PER_DAY).toFixed(2)}</td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
                           r.status === 'APPROVED' ? 'bg-green-100 text-green-800' : r.status === 'REJECTED' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
@@ -453,7 +798,7 @@ export default function AllRequestsPage() {
                   ))
                 ) : (
                   <tr>
-                    <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">No overtime requests found.</td>
+                    <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">No overtime requests found.</td>
                   </tr>
                 )}
               </tbody>
@@ -0,0 +1,300 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+
+const TYPES = ['VACATION', 'SICK', 'PAID_LEAVE', 'PERSONAL'] as const;
+type TimeOffType = typeof TYPES[number];
+
+const TYPE_LABELS: Record<TimeOffType, string> = {
+  VACATION: 'Vacation',
+  SICK: 'Sick',
+  PAID_LEAVE: 'Paid Leave',
+  PERSONAL: 'Personal',
+};
+
+interface PolicyForm {
+  enabled: boolean;
+  annualAllowance: string;
+  carryoverCap: string;
+  // MM-DD, blank when carried days never expire
+  expiresOn: string;
+}
+
+interface RolloverEntry {
+  type: TimeOffType;
+  unusedDays: number;
+  carriedDays: number;
+  forfeitedDays: number;
+  allowance: number;
+  newTotalDays: number;
+  expiresOn: string | null;
+  alreadyRolledOver: boolean;
+}
+
+interface RolloverReport {
+  fromYear: number;
+  toYear: number;
+  dryRun: boolean;
+  users: Array<{ userId: string; name: string | null; email: string; entries: RolloverEntry[] }>;
+}
+
+const emptyForm = (): Record<TimeOffType, PolicyForm> =>
+  Object.fromEntries(
+    TYPES.map(type => [type, { enabled: false, annualAllowance: '', carryoverCap: '', expiresOn: '' }])
+  ) as Record<TimeOffType, PolicyForm>;
+
+export default function RolloverPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [forms, setForms] = useState<Record<TimeOffType, PolicyForm>>(emptyForm);
+  const [fromYear, setFromYear] = useState(new Date().getFullYear());
+  const [report, setReport] = useState<RolloverReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const loadPolicies = useCallback(async () => {
+    const res = await fetch('/api/admin/rollover-policies');
+    if (!res.ok) return;
+    const policies: Array<{ type: TimeOffType; annualAllowance: number; carryoverCap: number | null; expiryMonth: number | null; expiryDay: number | null }> = await res.json();
+    const next = emptyForm();
+    for (const policy of policies) {
+      next[policy.type] = {
+        enabled: true,
+        annualAllowance: String(policy.annualAllowance),
+        carryoverCap: policy.carryoverCap === null ? '' : String(policy.carryoverCap),
+        expiresOn: policy.expiryMonth && policy.expiryDay
+          ? `${String(policy.expiryMonth).padStart(2, '0')}-${String(policy.expiryDay).padStart(2, '0')}`
+          : '',
+      };
+    }
+    setForms(next);
+  }, []);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') router.push('/login');
+    if (status === 'authenticated' && session?.user?.role !== 'ADMIN') router.push('/dashboard');
+    if (status === 'authenticated' && session?.user?.role === 'ADMIN') {
+      loadPolicies();
+    }
+  }, [session, status, router, loadPolicies]);
+
+  const showToast = (type: 'success' | 'error', message: string) => {
+    setToast({ type, message });
+    setTimeout(() => setToast(null), 2500);
+  };
+
+  const updateForm = (type: TimeOffType, changes: Partial<PolicyForm>) => {
+    setForms(prev => ({ ...prev, [type]: { ...prev[type], ...changes } }));
+  };
+
+  const savePolicy = async (type: TimeOffType) => {
+    const form = forms[type];
+    let res: Response;
+    if (!form.enabled) {
+      res = await fetch(`/api/admin/rollover-policies/${type}`, { method: 'DELETE' });
+      // Nothing to remove
+      if (res.status === 404) {
+        showToast('success', `${TYPE_LABELS[type]} has no rollover`);
+        return;
+      }
+    } else {
+      const [month, day] = form.expiresOn.split('-').map(Number);
+      res = await fetch('/api/admin/rollover-policies', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type,
+          annualAllowance: Number(form.annualAllowance || 0),
+          carryoverCap: form.carryoverCap === '' ? null : Number(form.carryoverCap),
+          expiryMonth: form.expiresOn ? month : null,
+          expiryDay: form.expiresOn ? day : null,
+        }),
+      });
+    }
+    const data = await res.json();
+    if (!res.ok) {
+      showToast('error', data.error || 'Failed to save policy');
+      return;
+    }
+    showToast('success', `Saved ${TYPE_LABELS[type]} rollover`);
+    await loadPolicies();
+  };
+
+  const run = async (dryRun: boolean) => {
+    if (!dryRun && !confirm(`Roll ${fromYear} balances into ${fromYear + 1}? Forfeited days cannot be restored automatically.`)) {
+      return;
+    }
+    setBusy(true);
+    try {
+      const res = await fetch('/api/admin/rollover', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fromYear, dryRun }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        showToast('error', data.error || 'Rollover failed');
+        return;
+      }
+      setReport(data);
+      if (!dryRun) showToast('success', `Rolled ${fromYear} into ${fromYear + 1}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (status === 'loading') return <div className="p-6">Loading…</div>;
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-2xl font-bold">Year-End Rollover</h1>
+        <button onClick={() => router.push('/admin')} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+          Back to Admin
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Rollover creates next year&apos;s balances from these policies. Unused days up to the cap carry over and are used
+        first; days above the cap are forfeited. Carried days still unused on their expiry date are forfeited too.
+        Types without a policy are not rolled over.
+      </p>
+
+      {toast && (
+        <div className={`mb-4 px-4 py-2 rounded ${toast.type === 'success' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>{toast.message}</div>
+      )}
+
+      <table className="min-w-full divide-y divide-gray-200 mb-8">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Type</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">New year allowance</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Carryover cap</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Carried days expire (MM-DD)</th>
+            <th className="px-4 py-2" />
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {TYPES.map(type => {
+            const form = forms[type];
+            return (
+              <tr key={type}>
+                <td className="px-4 py-2 text-sm">
+                  <label className="inline-flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={form.enabled}
+                      onChange={(e) => updateForm(type, { enabled: e.target.checked })}
+                    />
+                    {TYPE_LABELS[type]}
+                  </label>
+                </td>
+                <td className="px-4 py-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    disabled={!form.enabled}
+                    className="w-24 border border-gray-300 rounded-md p-1"
+                    value={form.annualAllowance}
+                    onChange={(e) => updateForm(type, { annualAllowance: e.target.value })}
+                  />
+                </td>
+                <td className="px-4 py-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    disabled={!form.enabled}
+                    placeholder="No cap"
+                    className="w-24 border border-gray-300 rounded-md p-1"
+                    value={form.carryoverCap}
+                    onChange={(e) => updateForm(type, { carryoverCap: e.target.value })}
+                  />
+                </td>
+                <td className="px-4 py-2">
+                  <input
+                    type="text"
+                    pattern="\d{2}-\d{2}"
+                    disabled={!form.enabled}
+                    placeholder="Never"
+                    className="w-24 border border-gray-300 rounded-md p-1"
+                    value={form.expiresOn}
+                    onChange={(e) => updateForm(type, { expiresOn: e.target.value })}
+                  />
+                </td>
+                <td className="px-4 py-2 text-right">
+                  <button onClick={() => savePolicy(type)} className="text-indigo-600 hover:text-indigo-800 text-sm">Save</button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className="flex items-center space-x-3 mb-4">
+        <label className="text-sm font-medium text-gray-700">Roll over</label>
+        <button onClick={() => setFromYear(fromYear - 1)} className="px-3 py-1 border border-gray-300 rounded">‹</button>
+        <span className="text-lg font-semibold">{fromYear} → {fromYear + 1}</span>
+        <button onClick={() => setFromYear(fromYear + 1)} className="px-3 py-1 border border-gray-300 rounded">›</button>
+        <button
+          onClick={() => run(true)}
+          disabled={busy}
+          className="ml-auto px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+        >
+          Preview
+        </button>
+        <button
+          onClick={() => run(false)}
+          disabled={busy || !report || report.fromYear !== fromYear}
+          title={!report || report.fromYear !== fromYear ? 'Preview first' : undefined}
+          className="px-4 py-2 bg-rose-600 text-white rounded hover:bg-rose-700 disabled:opacity-50"
+        >
+          Commit Rollover
+        </button>
+      </div>
+
+      {report && (
+        <>
+          <p className="text-sm text-gray-600 mb-2">
+            {report.dryRun ? 'Preview only; nothing has been changed.' : 'Rollover committed.'}
+          </p>
+          {report.users.length === 0 ? (
+            <p className="text-sm text-gray-500">No rollover policies are set up.</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Employee</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Type</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">Unused</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">Carried</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">Forfeited</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">{report.toYear} total</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Expires</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {report.users.flatMap(user => user.entries.map((entry, index) => (
+                  <tr key={`${user.userId}-${entry.type}`} className={entry.alreadyRolledOver ? 'text-gray-400' : ''}>
+                    <td className="px-4 py-2 text-sm">{index === 0 ? (user.name || user.email) : ''}</td>
+                    <td className="px-4 py-2 text-sm">
+                      {TYPE_LABELS[entry.type]}
+                      {entry.alreadyRolledOver && <span className="ml-2 text-xs">(rolled over)</span>}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right">{entry.unusedDays}</td>
+                    <td className="px-4 py-2 text-sm text-right">{entry.carriedDays}</td>
+                    <td className={`px-4 py-2 text-sm text-right ${entry.forfeitedDays > 0 ? 'text-red-600' : ''}`}>{entry.forfeitedDays}</td>
+                    <td className="px-4 py-2 text-sm text-right">{entry.newTotalDays}</td>
+                    <td className="px-4 py-2 text-sm">{entry.expiresOn ?? '—'}</td>
+                  </tr>
+                )))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { APPROVAL_STEP_LABELS, ApprovalStepRole } from '@/lib/approval-chains';
+
+const TYPES = ['VACATION', 'SICK', 'PAID_LEAVE', 'PERSONAL'] as const;
+type TimeOffType = typeof TYPES[number];
+
+const TYPE_LABELS: Record<TimeOffType, string> = {
+  VACATION: 'Vacation',
+  SICK: 'Sick',
+  PAID_LEAVE: 'Paid Leave',
+  PERSONAL: 'Personal',
+};
+
+const STEP_ROLES: ApprovalStepRole[] = ['MANAGER', 'ADMIN'];
+
+interface ApprovalChain {
+  id: string;
+  name: string;
+  type: TimeOffType;
+  overDays: number;
+  steps: ApprovalStepRole[];
+}
+
+interface ChainForm {
+  name: string;
+  type: TimeOffType;
+  overDays: string;
+  steps: ApprovalStepRole[];
+}
+
+const emptyForm: ChainForm = {
+  name: '',
+  type: 'PAID_LEAVE',
+  overDays: '0',
+  steps: ['MANAGER', 'ADMIN'],
+};
+
+export default function ApprovalChainsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [chains, setChains] = useState<ApprovalChain[]>([]);
+  const [form, setForm] = useState<ChainForm>(emptyForm);
+  const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const loadChains = useCallback(async () => {
+    const res = await fetch('/api/admin/approval-chains');
+    if (res.ok) setChains(await res.json());
+  }, []);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') router.push('/login');
+    if (status === 'authenticated' && session?.user?.role !== 'ADMIN') router.push('/dashboard');
+    if (status === 'authenticated' && session?.user?.role === 'ADMIN') {
+      loadChains();
+    }
+  }, [session, status, router, loadChains]);
+
+  const showToast = (type: 'success' | 'error', message: string) => {
+    setToast({ type, message });
+    setTimeout(() => setToast(null), 2500);
+  };
+
+  const setStep = (index: number, role: ApprovalStepRole) => {
+    setForm(prev => ({ ...prev, steps: prev.steps.map((step, i) => (i === index ? role : step)) }));
+  };
+
+  const editChain = (chain: ApprovalChain) => {
+    setForm({ name: chain.name, type: chain.type, overDays: String(chain.overDays), steps: chain.steps });
+  };
+
+  const saveChain = async () => {
+    const res = await fetch('/api/admin/approval-chains', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name: form.name,
+        type: form.type,
+        overDays: Number(form.overDays),
+        steps: form.steps,
+      }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      showToast('error', data.details?.[0]?.message || data.error || 'Failed to save chain');
+      return;
+    }
+    showToast('success', `Saved ${data.name}`);
+    setForm(emptyForm);
+    await loadChains();
+  };
+
+  const deleteChain = async (chain: ApprovalChain) => {
+    if (!confirm(`Remove the ${chain.name} approval chain?`)) return;
+    const res = await fetch(`/api/admin/approval-chains/${chain.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json();
+      showToast('error', data.error || 'Failed to delete chain');
+      return;
+    }
+    showToast('success', 'Approval chain removed');
+    await loadChains();
+  };
+
+  if (status === 'loading') return <div className="p-6">Loading…</div>;
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-2xl font-bold">Approval Chains</h1>
+        <button onClick={() => router.push('/admin')} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+          Back to Admin
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Requests longer than the threshold need each step to sign off in order before they are approved and the balance
+        is deducted. When several chains match, the one with the highest threshold applies. Requests without a chain
+        need a single approval from the employee&apos;s manager or an admin. Admins can sign off any step.
+      </p>
+
+      {toast && (
+        <div className={`mb-4 px-4 py-2 rounded ${toast.type === 'success' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>{toast.message}</div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-3 mb-8">
+        <label className="text-sm text-gray-700">
+          Name
+          <input
+            className="block mt-1 w-48 border border-gray-300 rounded-md p-1"
+            placeholder="Long paid leave"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Type
+          <select
+            className="block mt-1 border border-gray-300 rounded-md p-1"
+            value={form.type}
+            onChange={(e) => setForm({ ...form, type: e.target.value as TimeOffType })}
+          >
+            {TYPES.map(type => <option key={type} value={type}>{TYPE_LABELS[type]}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          Longer than (days)
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            className="block mt-1 w-24 border border-gray-300 rounded-md p-1"
+            value={form.overDays}
+            onChange={(e) => setForm({ ...form, overDays: e.target.value })}
+          />
+        </label>
+        {form.steps.map((step, index) => (
+          <label key={index} className="text-sm text-gray-700">
+            Step {index + 1}
+            <select
+              className="block mt-1 border border-gray-300 rounded-md p-1"
+              value={step}
+              onChange={(e) => setStep(index, e.target.value as ApprovalStepRole)}
+            >
+              {STEP_ROLES.map(role => <option key={role} value={role}>{APPROVAL_STEP_LABELS[role]}</option>)}
+            </select>
+          </label>
+        ))}
+        <div className="flex gap-2 text-sm">
+          <button
+            onClick={() => setForm({ ...form, steps: [...form.steps, 'ADMIN'] })}
+            disabled={form.steps.length >= 5}
+            className="text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+          >
+            Add step
+          </button>
+          <button
+            onClick={() => setForm({ ...form, steps: form.steps.slice(0, -1) })}
+            disabled={form.steps.length <= 1}
+            className="text-red-600 hover:text-red-800 disabled:opacity-50"
+          >
+            Remove step
+          </button>
+        </div>
+        <button onClick={saveChain} className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700">
+          Save Chain
+        </button>
+      </div>
+
+      {chains.length === 0 ? (
+        <p className="text-sm text-gray-500">No approval chains yet.</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Name</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Type</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">Longer than</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Steps</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {chains.map(chain => (
+              <tr key={chain.id}>
+                <td className="px-4 py-2 text-sm">{chain.name}</td>
+                <td className="px-4 py-2 text-sm">{TYPE_LABELS[chain.type]}</td>
+                <td className="px-4 py-2 text-sm text-right">{chain.overDays} days</td>
+                <td className="px-4 py-2 text-sm">{chain.steps.map(step => APPROVAL_STEP_LABELS[step]).join(' → ')}</td>
+                <td className="px-4 py-2 text-sm text-right space-x-3">
+                  <button onClick={() => editChain(chain)} className="text-indigo-600 hover:text-indigo-800">Edit</button>
+                  <button onClick={() => deleteChain(chain)} className="text-red-600 hover:text-red-800">Delete</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+
+const TYPES = ['VACATION', 'SICK', 'PAID_LEAVE', 'PERSONAL'] as const;
+type TimeOffType = typeof TYPES[number];
+
+const TYPE_LABELS: Record<TimeOffType, string> = {
+  VACATION: 'Vacation',
+  SICK: 'Sick',
+  PAID_LEAVE: 'Paid Leave',
+  PERSONAL: 'Personal',
+};
+
+type Compensation = 'COMP_TIME' | 'PAYOUT';
+
+interface OvertimePolicy {
+  id: string | null;
+  compensation: Compensation;
+  creditType: TimeOffType;
+  weekdayRate: number;
+  weekendRate: number;
+  holidayRate: number;
+  monthlyCapDays: number | null;
+  yearlyCapDays: number | null;
+  compTimeExpiryDays: number | null;
+  windowLastDaysOfMonth: number | null;
+  windowFirstDaysOfNextMonth: number | null;
+  maxHoursPerEntry: number | null;
+  maxHoursPerMonth: number | null;
+  notesRequiredAboveHours: number | null;
+}
+
+const LIMIT_FIELDS = [
+  'windowLastDaysOfMonth',
+  'windowFirstDaysOfNextMonth',
+  'maxHoursPerEntry',
+  'maxHoursPerMonth',
+  'notesRequiredAboveHours',
+] as const;
+type LimitField = typeof LIMIT_FIELDS[number];
+
+interface PolicyForm extends Record<LimitField, string> {
+  compensation: Compensation;
+  creditType: TimeOffType;
+  weekdayRate: string;
+  weekendRate: string;
+  holidayRate: string;
+  // Blank for no cap
+  monthlyCapDays: string;
+  yearlyCapDays: string;
+  // Blank for comp time that never expires
+  compTimeExpiryDays: string;
+}
+
+const toForm = (policy: OvertimePolicy): PolicyForm => ({
+  compensation: policy.compensation,
+  creditType: policy.creditType,
+  weekdayRate: String(policy.weekdayRate),
+  weekendRate: String(policy.weekendRate),
+  holidayRate: String(policy.holidayRate),
+  monthlyCapDays: policy.monthlyCapDays === null ? '' : String(policy.monthlyCapDays),
+  yearlyCapDays: policy.yearlyCapDays === null ? '' : String(policy.yearlyCapDays),
+  compTimeExpiryDays: policy.compTimeExpiryDays === null ? '' : String(policy.compTimeExpiryDays),
+  ...Object.fromEntries(
+    LIMIT_FIELDS.map(field => [field, policy[field] === null ? '' : String(policy[field])])
+  ) as Record<LimitField, string>,
+});
+
+export default function OvertimePolicyPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [form, setForm] = useState<PolicyForm | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const loadPolicy = useCallback(async () => {
+    const res = await fetch('/api/admin/overtime/policy');
+    if (!res.ok) return;
+    const policy: OvertimePolicy = await res.json();
+    setForm(toForm(policy));
+    setSaved(!!policy.id);
+  }, []);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') router.push('/login');
+    if (status === 'authenticated' && session?.user?.role !== 'ADMIN') router.push('/dashboard');
+    if (status === 'authenticated' && session?.user?.role === 'ADMIN') {
+      loadPolicy();
+    }
+  }, [session, status, router, loadPolicy]);
+
+  const showToast = (type: 'success' | 'error', message: string) => {
+    setToast({ type, message });
+    setTimeout(() => setToast(null), 2500);
+  };
+
+  const savePolicy = async () => {
+    if (!form) return;
+    const res = await fetch('/api/admin/overtime/policy', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        compensation: form.compensation,
+        creditType: form.creditType,
+        weekdayRate: Number(form.weekdayRate),
+        weekendRate: Number(form.weekendRate),
+        holidayRate: Number(form.holidayRate),
+        monthlyCapDays: form.monthlyCapDays === '' ? null : Number(form.monthlyCapDays),
+        yearlyCapDays: form.yearlyCapDays === '' ? null : Number(form.yearlyCapDays),
+        compTimeExpiryDays: form.compTimeExpiryDays === '' ? null : Number(form.compTimeExpiryDays),
+        ...Object.fromEntries(
+          LIMIT_FIELDS.map(field => [field, form[field] === '' ? null : Number(form[field])])
+        ),
+      }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      showToast('error', data.details?.[0]?.message || data.error || 'Failed to save policy');
+      return;
+    }
+    showToast('success', 'Saved overtime policy');
+    setForm(toForm(data));
+    setSaved(true);
+  };
+
+  if (status === 'loading' || !form) return <div className="p-6">Loading…</div>;
+
+  const rateInput = (label: string, field: 'weekdayRate' | 'weekendRate' | 'holidayRate') => (
+    <label className="text-sm text-gray-700">
+      {label}
+      <input
+        type="number"
+        min="1"
+        max="5"
+        step="0.25"
+        className="block mt-1 w-24 border border-gray-300 rounded-md p-1"
+        value={form[field]}
+        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+      />
+    </label>
+  );
+
+  // Blank means no limit
+  const limitInput = (label: string, field: LimitField, step: string) => (
+    <label className="text-sm text-gray-700">
+      {label}
+      <input
+        type="number"
+        min="0"
+        step={step}
+        placeholder="No limit"
+        className="block mt-1 w-28 border border-gray-300 rounded-md p-1"
+        value={form[field]}
+        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+      />
+    </label>
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-2xl font-bold">Overtime Policy</h1>
+        <button onClick={() => router.push('/admin')} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+          Back to Admin
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        How approved overtime is compensated. Hours are multiplied by the rate for the day worked; weekends are the
+        days off in each employee&apos;s work schedule. Comp time is converted at the employee&apos;s working-day length,
+        and hours beyond a cap are recorded for payout. Comp time with an expiry is used before other days and
+        forfeited if still unused when it expires. Changes apply to overtime approved from now on.
+        {!saved && ' No policy has been saved yet, so overtime is credited as vacation at the plain rate.'}
+      </p>
+
+      {toast && (
+        <div className={`mb-4 px-4 py-2 rounded ${toast.type === 'success' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>{toast.message}</div>
+      )}
+
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-sm text-gray-700">
+            Compensation
+            <select
+              className="block mt-1 border border-gray-300 rounded-md p-1"
+              value={form.compensation}
+              onChange={(e) => setForm({ ...form, compensation: e.target.value as Compensation })}
+            >
+              <option value="COMP_TIME">Comp time</option>
+              <option value="PAYOUT">Payout</option>
+            </select>
+          </label>
+          {form.compensation === 'COMP_TIME' && (
+            <label className="text-sm text-gray-700">
+              Credit to
+              <select
+                className="block mt-1 border border-gray-300 rounded-md p-1"
+                value={form.creditType}
+                onChange={(e) => setForm({ ...form, creditType: e.target.value as TimeOffType })}
+              >
+                {TYPES.map(type => <option key={type} value={type}>{TYPE_LABELS[type]}</option>)}
+              </select>
+            </label>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          {rateInput('Working day rate', 'weekdayRate')}
+          {rateInput('Weekend rate', 'weekendRate')}
+          {rateInput('Holiday rate', 'holidayRate')}
+        </div>
+
+        {form.compensation === 'COMP_TIME' && (
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="text-sm text-gray-700">
+              Monthly cap (days)
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                placeholder="No cap"
+                className="block mt-1 w-28 border border-gray-300 rounded-md p-1"
+                value={form.monthlyCapDays}
+                onChange={(e) => setForm({ ...form, monthlyCapDays: e.target.value })}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Yearly cap (days)
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                placeholder="No cap"
+                className="block mt-1 w-28 border border-gray-300 rounded-md p-1"
+                value={form.yearlyCapDays}
+                onChange={(e) => setForm({ ...form, yearlyCapDays: e.target.value })}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Expires after (days)
+              <input
+                type="number"
+                min="1"
+                step="1"
+                placeholder="Never"
+                className="block mt-1 w-28 border border-gray-300 rounded-md p-1"
+                value={form.compTimeExpiryDays}
+                onChange={(e) => setForm({ ...form, compTimeExpiryDays: e.target.value })}
+              />
+            </label>
+          </div>
+        )}
+
+        <div>
+          <h2 className="text-lg font-semibold mb-1">Submission rules</h2>
+          <p className="text-sm text-gray-600 mb-3">
+            Limits on what employees can log. With a window set, overtime for a month can only be submitted in its
+            last days or the first days of the next month.
+          </p>
+          <div className="flex flex-wrap items-end gap-3">
+            {limitInput('Last days of month', 'windowLastDaysOfMonth', '1')}
+            {limitInput('First days of next month', 'windowFirstDaysOfNextMonth', '1')}
+            {limitInput('Max hours per entry', 'maxHoursPerEntry', '0.5')}
+            {limitInput('Max hours per month', 'maxHoursPerMonth', '0.5')}
+            {limitInput('Notes required over (hours)', 'notesRequiredAboveHours', '0.5')}
+          </div>
+        </div>
+
+        <button onClick={savePolicy} className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700">
+          Save Policy
+        </button>
+      </div>
+    </div>
+  );
+}
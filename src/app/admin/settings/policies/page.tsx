@@ -0,0 +1,226 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+
+const TYPES = ['VACATION', 'SICK', 'PAID_LEAVE', 'PERSONAL'] as const;
+type TimeOffType = typeof TYPES[number];
+
+const TYPE_LABELS: Record<TimeOffType, string> = {
+  VACATION: 'Vacation',
+  SICK: 'Sick',
+  PAID_LEAVE: 'Paid Leave',
+  PERSONAL: 'Personal',
+};
+
+const ROLES = ['EMPLOYEE', 'MANAGER', 'ADMIN'] as const;
+type Role = typeof ROLES[number];
+
+interface ValidationPolicy {
+  id: string;
+  type: TimeOffType;
+  role: Role | null;
+  minNoticeDays: number;
+  maxConsecutiveDays: number;
+  maxRequestsPerYear: number;
+}
+
+interface PolicyForm {
+  type: TimeOffType;
+  // Blank applies to every role
+  role: Role | '';
+  minNoticeDays: string;
+  maxConsecutiveDays: string;
+  maxRequestsPerYear: string;
+}
+
+const emptyForm: PolicyForm = {
+  type: 'VACATION',
+  role: '',
+  minNoticeDays: '0',
+  maxConsecutiveDays: '30',
+  maxRequestsPerYear: '20',
+};
+
+export default function ValidationPoliciesPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [policies, setPolicies] = useState<ValidationPolicy[]>([]);
+  const [form, setForm] = useState<PolicyForm>(emptyForm);
+  const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const loadPolicies = useCallback(async () => {
+    const res = await fetch('/api/admin/validation-policies');
+    if (res.ok) setPolicies(await res.json());
+  }, []);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') router.push('/login');
+    if (status === 'authenticated' && session?.user?.role !== 'ADMIN') router.push('/dashboard');
+    if (status === 'authenticated' && session?.user?.role === 'ADMIN') {
+      loadPolicies();
+    }
+  }, [session, status, router, loadPolicies]);
+
+  const showToast = (type: 'success' | 'error', message: string) => {
+    setToast({ type, message });
+    setTimeout(() => setToast(null), 2500);
+  };
+
+  const editPolicy = (policy: ValidationPolicy) => {
+    setForm({
+      type: policy.type,
+      role: policy.role ?? '',
+      minNoticeDays: String(policy.minNoticeDays),
+      maxConsecutiveDays: String(policy.maxConsecutiveDays),
+      maxRequestsPerYear: String(policy.maxRequestsPerYear),
+    });
+  };
+
+  const savePolicy = async () => {
+    const res = await fetch('/api/admin/validation-policies', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        type: form.type,
+        role: form.role || null,
+        minNoticeDays: Number(form.minNoticeDays),
+        maxConsecutiveDays: Number(form.maxConsecutiveDays),
+        maxRequestsPerYear: Number(form.maxRequestsPerYear),
+      }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      showToast('error', data.details?.[0]?.message || data.error || 'Failed to save policy');
+      return;
+    }
+    showToast('success', `Saved ${TYPE_LABELS[form.type]} policy`);
+    setForm(emptyForm);
+    await loadPolicies();
+  };
+
+  const deletePolicy = async (policy: ValidationPolicy) => {
+    if (!confirm(`Remove the ${TYPE_LABELS[policy.type]} policy${policy.role ? ` for ${policy.role.toLowerCase()}s` : ''}?`)) {
+      return;
+    }
+    const res = await fetch(`/api/admin/validation-policies/${policy.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json();
+      showToast('error', data.error || 'Failed to delete policy');
+      return;
+    }
+    showToast('success', 'Policy removed');
+    await loadPolicies();
+  };
+
+  if (status === 'loading') return <div className="p-6">Loading…</div>;
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-2xl font-bold">Request Policies</h1>
+        <button onClick={() => router.push('/admin')} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+          Back to Admin
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Limits applied when employees request time off. A policy for a specific role replaces the general policy for
+        that type. Types without a policy have no notice, length or request limits.
+      </p>
+
+      {toast && (
+        <div className={`mb-4 px-4 py-2 rounded ${toast.type === 'success' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>{toast.message}</div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-3 mb-8">
+        <label className="text-sm text-gray-700">
+          Type
+          <select
+            className="block mt-1 border border-gray-300 rounded-md p-1"
+            value={form.type}
+            onChange={(e) => setForm({ ...form, type: e.target.value as TimeOffType })}
+          >
+            {TYPES.map(type => <option key={type} value={type}>{TYPE_LABELS[type]}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          Role
+          <select
+            className="block mt-1 border border-gray-300 rounded-md p-1"
+            value={form.role}
+            onChange={(e) => setForm({ ...form, role: e.target.value as Role | '' })}
+          >
+            <option value="">All roles</option>
+            {ROLES.map(role => <option key={role} value={role}>{role.charAt(0) + role.slice(1).toLowerCase()}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          Notice (days)
+          <input
+            type="number"
+            min="0"
+            className="block mt-1 w-24 border border-gray-300 rounded-md p-1"
+            value={form.minNoticeDays}
+            onChange={(e) => setForm({ ...form, minNoticeDays: e.target.value })}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Max length (days)
+          <input
+            type="number"
+            min="1"
+            className="block mt-1 w-24 border border-gray-300 rounded-md p-1"
+            value={form.maxConsecutiveDays}
+            onChange={(e) => setForm({ ...form, maxConsecutiveDays: e.target.value })}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Requests per year
+          <input
+            type="number"
+            min="1"
+            className="block mt-1 w-24 border border-gray-300 rounded-md p-1"
+            value={form.maxRequestsPerYear}
+            onChange={(e) => setForm({ ...form, maxRequestsPerYear: e.target.value })}
+          />
+        </label>
+        <button onClick={savePolicy} className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700">
+          Save Policy
+        </button>
+      </div>
+
+      {policies.length === 0 ? (
+        <p className="text-sm text-gray-500">No policies yet.</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Type</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Role</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">Notice</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">Max length</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">Requests / year</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {policies.map(policy => (
+              <tr key={policy.id}>
+                <td className="px-4 py-2 text-sm">{TYPE_LABELS[policy.type]}</td>
+                <td className="px-4 py-2 text-sm">{policy.role ? policy.role.charAt(0) + policy.role.slice(1).toLowerCase() : 'All roles'}</td>
+                <td className="px-4 py-2 text-sm text-right">{policy.minNoticeDays}</td>
+                <td className="px-4 py-2 text-sm text-right">{policy.maxConsecutiveDays}</td>
+                <td className="px-4 py-2 text-sm text-right">{policy.maxRequestsPerYear}</td>
+                <td className="px-4 py-2 text-sm text-right space-x-3">
+                  <button onClick={() => editPolicy(policy)} className="text-indigo-600 hover:text-indigo-800">Edit</button>
+                  <button onClick={() => deletePolicy(policy)} className="text-red-600 hover:text-red-800">Delete</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+
+interface Team {
+  id: string;
+  name: string;
+  maxOff: number | null;
+  memberCount: number;
+}
+
+interface CalendarDay {
+  date: string;
+  off: { requestId: string; userName: string | null; type: string; status: string }[];
+}
+
+const emptyTeam = { name: '', maxOff: '' };
+
+export default function TeamsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [newTeam, setNewTeam] = useState(emptyTeam);
+  const [limits, setLimits] = useState<Record<string, string>>({});
+  const [calendarTeam, setCalendarTeam] = useState<Team | null>(null);
+  const [calendar, setCalendar] = useState<CalendarDay[]>([]);
+  const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const loadTeams = useCallback(async () => {
+    const res = await fetch('/api/admin/teams');
+    if (res.ok) {
+      const data: Team[] = await res.json();
+      setTeams(data);
+      setLimits(Object.fromEntries(data.map(team => [team.id, team.maxOff === null ? '' : String(team.maxOff)])));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') router.push('/login');
+    if (status === 'authenticated' && session?.user?.role !== 'ADMIN') router.push('/dashboard');
+    if (status === 'authenticated' && session?.user?.role === 'ADMIN') {
+      loadTeams();
+    }
+  }, [session, status, router, loadTeams]);
+
+  const showToast = (type: 'success' | 'error', message: string) => {
+    setToast({ type, message });
+    setTimeout(() => setToast(null), 2500);
+  };
+
+  const createTeam = async () => {
+    const res = await fetch('/api/admin/teams', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: newTeam.name, maxOff: newTeam.maxOff ? Number(newTeam.maxOff) : null }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      showToast('error', data.details?.[0]?.message || data.error || 'Failed to create team');
+      return;
+    }
+    showToast('success', `Created ${data.name}`);
+    setNewTeam(emptyTeam);
+    await loadTeams();
+  };
+
+  const saveLimit = async (team: Team) => {
+    const value = limits[team.id];
+    const res = await fetch(`/api/admin/teams/${team.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ maxOff: value ? Number(value) : null }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      showToast('error', data.details?.[0]?.message || data.error || 'Failed to update team');
+      return;
+    }
+    showToast('success', `Updated ${team.name}`);
+    await loadTeams();
+  };
+
+  const deleteTeam = async (team: Team) => {
+    if (!confirm(`Remove ${team.name}? Its members will be left without a team.`)) return;
+    const res = await fetch(`/api/admin/teams/${team.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json();
+      showToast('error', data.error || 'Failed to delete team');
+      return;
+    }
+    showToast('success', 'Team removed');
+    if (calendarTeam?.id === team.id) setCalendarTeam(null);
+    await loadTeams();
+  };
+
+  const showCalendar = async (team: Team) => {
+    const res = await fetch(`/api/time-off/team-calendar?teamId=${team.id}`);
+    const data = await res.json();
+    if (!res.ok) {
+      showToast('error', data.error || 'Failed to load team calendar');
+      return;
+    }
+    setCalendarTeam(team);
+    setCalendar(data.days);
+  };
+
+  if (status === 'loading') return <div className="p-6">Loading…</div>;
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-2xl font-bold">Teams</h1>
+        <button onClick={() => router.push('/admin')} className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700">
+          Back to Admin
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Assign people to a team from their employee page. A staffing limit caps how many members can be off on the same
+        weekday: requests that go over it are flagged when submitted and need an override to be approved.
+      </p>
+
+      {toast && (
+        <div className={`mb-4 px-4 py-2 rounded ${toast.type === 'success' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>{toast.message}</div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-3 mb-8">
+        <label className="text-sm text-gray-700">
+          Name
+          <input
+            className="block mt-1 w-56 border border-gray-300 rounded-md p-1"
+            placeholder="Support"
+            value={newTeam.name}
+            onChange={(e) => setNewTeam({ ...newTeam, name: e.target.value })}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Max off at once
+          <input
+            type="number"
+            min="1"
+            className="block mt-1 w-24 border border-gray-300 rounded-md p-1"
+            placeholder="No limit"
+            value={newTeam.maxOff}
+            onChange={(e) => setNewTeam({ ...newTeam, maxOff: e.target.value })}
+          />
+        </label>
+        <button onClick={createTeam} className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700">
+          Add Team
+        </button>
+      </div>
+
+      {teams.length === 0 ? (
+        <p className="text-sm text-gray-500">No teams yet.</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 mb-8">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Name</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">Members</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Max off at once</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {teams.map(team => (
+              <tr key={team.id}>
+                <td className="px-4 py-2 text-sm">{team.name}</td>
+                <td className="px-4 py-2 text-sm text-right">{team.memberCount}</td>
+                <td className="px-4 py-2 text-sm">
+                  <input
+                    type="number"
+                    min="1"
+                    className="w-20 border border-gray-300 rounded-md p-1"
+                    placeholder="No limit"
+                    value={limits[team.id] ?? ''}
+                    onChange={(e) => setLimits({ ...limits, [team.id]: e.target.value })}
+                  />
+                  <button onClick={() => saveLimit(team)} className="ml-2 text-indigo-600 hover:text-indigo-800">Save</button>
+                </td>
+                <td className="px-4 py-2 text-sm text-right space-x-3">
+                  <button onClick={() => showCalendar(team)} className="text-indigo-600 hover:text-indigo-800">Calendar</button>
+                  <button onClick={() => deleteTeam(team)} className="text-red-600 hover:text-red-800">Delete</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {calendarTeam && (
+        <div>
+          <h2 className="text-lg font-semibold mb-2">{calendarTeam.name}: next two weeks</h2>
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded">
+            {calendar.map(day => {
+              const approved = day.off.filter(entry => entry.status === 'APPROVED' || entry.status === 'CANCELLATION_REQUESTED').length;
+              const overLimit = calendarTeam.maxOff !== null && approved > calendarTeam.maxOff;
+              return (
+                <li key={day.date} className={`px-4 py-2 text-sm flex gap-4 ${overLimit ? 'bg-red-50' : ''}`}>
+                  <span className="w-28 font-medium">{day.date}</span>
+                  <span className="text-gray-700">
+                    {day.off.length === 0
+                      ? <span className="text-gray-400">Everyone in</span>
+                      : day.off.map(entry => `${entry.userName ?? 'Unknown'}${entry.status === 'PENDING' || entry.status === 'PARTIALLY_APPROVED' ? ' (pending)' : ''}`).join(', ')}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
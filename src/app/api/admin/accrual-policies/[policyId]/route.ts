@@ -0,0 +1,116 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { UpdateAccrualPolicySchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { policyId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Accrual policies not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(UpdateAccrualPolicySchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { effectiveFrom, ...changes } = validation.data;
+
+  try {
+    const existing = await prisma!.accrualPolicy.findUnique({ where: { id: params.policyId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Accrual policy not found' }, { status: 404 });
+    }
+    const basis = changes.basis ?? existing.basis;
+    const perHours = changes.perHours !== undefined ? changes.perHours : existing.perHours;
+    if (basis === 'HOURS_WORKED' && !perHours) {
+      return createErrorResponse('Hours-worked policies need the number of hours per accrual', 'VALIDATION_ERROR', 400);
+    }
+
+    // Changes apply to periods posted from now on; earlier accruals are kept
+    const policy = await prisma!.$transaction(async (tx) => {
+      const updated = await tx.accrualPolicy.update({
+        where: { id: existing.id },
+        data: {
+          ...changes,
+          perHours: basis === 'HOURS_WORKED' ? perHours : null,
+          ...(effectiveFrom !== undefined ? { effectiveFrom: new Date(`${effectiveFrom}T00:00:00.000Z`) } : {}),
+        },
+      });
+
+      await new AuditLogger(tx).log(session.user.id, 'UPDATE', 'POLICY', updated.id, {
+        action: 'UPDATE_ACCRUAL_POLICY',
+        previous: existing,
+        current: updated,
+      });
+      return updated;
+    });
+
+    return NextResponse.json(policy);
+  } catch (e) {
+    if ((e as { code?: string })?.code === 'P2002') {
+      return NextResponse.json({ error: `An accrual policy named ${changes.name} already exists` }, { status: 409 });
+    }
+    console.error('Error updating accrual policy:', e);
+    return NextResponse.json({ error: 'Failed to update accrual policy' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { policyId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Accrual policies not supported in this environment' }, { status: 400 });
+  }
+
+  try {
+    const existing = await prisma!.accrualPolicy.findUnique({
+      where: { id: params.policyId },
+      include: { _count: { select: { accruals: true } } },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'Accrual policy not found' }, { status: 404 });
+    }
+    // Posted accruals keep pointing at their policy
+    if (existing._count.accruals > 0) {
+      return NextResponse.json(
+        { error: 'This policy has posted accruals; deactivate it instead' },
+        { status: 409 }
+      );
+    }
+
+    await prisma!.$transaction(async (tx) => {
+      await tx.accrualPolicy.delete({ where: { id: existing.id } });
+
+      await new AuditLogger(tx).log(session.user.id, 'DELETE', 'POLICY', existing.id, {
+        action: 'DELETE_ACCRUAL_POLICY',
+        name: existing.name,
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error('Error deleting accrual policy:', e);
+    return NextResponse.json({ error: 'Failed to delete accrual policy' }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { accrualService } from '@/lib/services/accrual-service';
+import { CreateAccrualPolicySchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await accrualService.listPolicies());
+  } catch (e) {
+    console.error('Error fetching accrual policies:', e);
+    return NextResponse.json({ error: 'Failed to fetch accrual policies' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Accrual policies not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(CreateAccrualPolicySchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { effectiveFrom, perHours, annualCap, ...rest } = validation.data;
+
+  try {
+    const policy = await prisma!.$transaction(async (tx) => {
+      const created = await tx.accrualPolicy.create({
+        data: {
+          ...rest,
+          perHours: rest.basis === 'HOURS_WORKED' ? perHours : null,
+          annualCap: annualCap ?? null,
+          effectiveFrom: new Date(`${effectiveFrom}T00:00:00.000Z`),
+        },
+      });
+
+      await new AuditLogger(tx).log(session.user.id, 'CREATE', 'POLICY', created.id, {
+        action: 'CREATE_ACCRUAL_POLICY',
+        name: created.name,
+        type: created.type,
+        basis: created.basis,
+        rate: created.rate,
+        unit: created.unit,
+        perHours: created.perHours,
+        annualCap: created.annualCap,
+        effectiveFrom,
+      });
+      return created;
+    });
+
+    return NextResponse.json(policy, { status: 201 });
+  } catch (e) {
+    if ((e as { code?: string })?.code === 'P2002') {
+      return NextResponse.json({ error: `An accrual policy named ${rest.name} already exists` }, { status: 409 });
+    }
+    console.error('Error creating accrual policy:', e);
+    return NextResponse.json({ error: 'Failed to create accrual policy' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { accrualService } from '@/lib/services/accrual-service';
+
+/**
+ * Posts any accruals that are due now. Safe to run repeatedly; periods
+ * already posted are skipped.
+ */
+export async function POST() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Accruals not supported in this environment' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await accrualService.runAccruals());
+  } catch (e) {
+    console.error('Error running accruals:', e);
+    return NextResponse.json({ error: 'Failed to run accruals' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { chainId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Approval chains not supported in this environment' }, { status: 400 });
+  }
+
+  try {
+    const existing = await prisma!.approvalChain.findUnique({ where: { id: params.chainId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Approval chain not found' }, { status: 404 });
+    }
+
+    await prisma!.$transaction(async (tx) => {
+      await tx.approvalChain.delete({ where: { id: existing.id } });
+
+      await new AuditLogger(tx).log(session.user.id, 'DELETE', 'POLICY', existing.id, {
+        action: 'DELETE_APPROVAL_CHAIN',
+        name: existing.name,
+        type: existing.type,
+        overDays: existing.overDays,
+        steps: existing.steps,
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error('Error deleting approval chain:', e);
+    return NextResponse.json({ error: 'Failed to delete approval chain' }, { status: 500 });
+  }
+}
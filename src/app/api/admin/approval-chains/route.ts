@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { approvalService } from '@/lib/services/approval-service';
+import { ApprovalChainSchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await approvalService.listChains());
+  } catch (e) {
+    console.error('Error fetching approval chains:', e);
+    return NextResponse.json({ error: 'Failed to fetch approval chains' }, { status: 500 });
+  }
+}
+
+/**
+ * Creates or replaces the approval chain for a time-off type and threshold.
+ * Requests already submitted keep the steps they were created with.
+ */
+export async function PUT(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Approval chains not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(ApprovalChainSchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { name, type, overDays, steps } = validation.data;
+
+  try {
+    const existing = await prisma!.approvalChain.findUnique({ where: { type_overDays: { type, overDays } } });
+    const chain = await prisma!.$transaction(async (tx) => {
+      const saved = await tx.approvalChain.upsert({
+        where: { type_overDays: { type, overDays } },
+        create: { name, type, overDays, steps },
+        update: { name, steps },
+      });
+
+      await new AuditLogger(tx).log(session.user.id, existing ? 'UPDATE' : 'CREATE', 'POLICY', saved.id, {
+        action: 'SET_APPROVAL_CHAIN',
+        name,
+        type,
+        overDays,
+        previousSteps: existing?.steps ?? null,
+        steps,
+      });
+      return saved;
+    });
+
+    return NextResponse.json(chain);
+  } catch (e) {
+    console.error('Error saving approval chain:', e);
+    return NextResponse.json({ error: 'Failed to save approval chain' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { AUDIT_EXPORT_LIMIT, auditEvent, auditLogsToCsv, diffAuditDetails } from '@/lib/audit-explorer';
+import { auditService } from '@/lib/services/audit-service';
+import { AuditExportSchema } from '@/lib/validators/schemas';
+import { validateQueryParams, createErrorResponse } from '@/lib/validators/middleware';
+
+/**
+ * Downloads the audit entries matching the same filters as the explorer, as
+ * CSV or JSON. Exports are themselves recorded in the audit log.
+ */
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Audit export not supported in this environment' }, { status: 400 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const validation = validateQueryParams(AuditExportSchema, searchParams);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const filter = validation.data;
+  const format = filter.format;
+
+  try {
+    const { entries, total } = await auditService.search(filter, { skip: 0, take: AUDIT_EXPORT_LIMIT });
+    if (total > AUDIT_EXPORT_LIMIT) {
+      return createErrorResponse(
+        `${total} entries match. Narrow the filters to export at most ${AUDIT_EXPORT_LIMIT}.`,
+        'EXPORT_TOO_LARGE',
+        400
+      );
+    }
+
+    await new AuditLogger(prisma!).log(session.user.id, 'CREATE', 'USER', session.user.id, {
+      action: 'EXPORT_AUDIT_LOG',
+      format,
+      filters: Object.fromEntries(searchParams.entries()),
+      count: entries.length,
+    });
+
+    const filename = `audit-log-${new Date().toISOString().split('T')[0]}.${format}`;
+    const body = format === 'csv'
+      ? auditLogsToCsv(entries)
+      : JSON.stringify(entries.map(entry => ({
+          ...entry,
+          event: auditEvent(entry.action, entry.details),
+          changes: diffAuditDetails(entry.details),
+        })), null, 2);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (e) {
+    console.error('Error exporting audit logs:', e);
+    return NextResponse.json({ error: 'Failed to export audit logs' }, { status: 500 });
+  }
+}
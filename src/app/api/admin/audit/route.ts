@@ -2,41 +2,55 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import db, { prisma, isPrismaEnabled } from '@/lib/db';
+import { auditEvent, diffAuditDetails } from '@/lib/audit-explorer';
+import { describePage, pageWindow } from '@/lib/pagination';
+import { auditService } from '@/lib/services/audit-service';
+import { AuditLogFilterSchema } from '@/lib/validators/schemas';
+import { validateQueryParams, createErrorResponse } from '@/lib/validators/middleware';
 
+/**
+ * Searches the audit log by actor, action, entity and date range. Each entry
+ * comes with the field changes its details describe.
+ */
 export async function GET(request: Request) {
   const session = await getServerSession(authOptions);
   if (!session?.user || session.user.role !== 'ADMIN') {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId') || undefined;
-    const limit = Number(searchParams.get('limit') || '10');
+  const { searchParams } = new URL(request.url);
+  const validation = validateQueryParams(AuditLogFilterSchema, searchParams);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const filter = validation.data;
 
+  try {
     if (process.env.VERCEL || (isPrismaEnabled && prisma)) {
-      const logs = await prisma!.auditLog.findMany({
-        where: {
-          ...(userId ? { userId } : {}),
-        },
-        orderBy: { createdAt: 'desc' },
-        take: Math.min(limit, 100),
+      const { entries, total } = await auditService.search(filter, pageWindow(filter.page, filter.limit));
+      return NextResponse.json({
+        logs: entries.map(entry => ({
+          ...entry,
+          event: auditEvent(entry.action, entry.details),
+          changes: diffAuditDetails(entry.details),
+        })),
+        pagination: describePage(total, filter.page, filter.limit),
       });
-      return NextResponse.json(logs);
     }
 
     if (db) {
+      // The SQLite fallback only filters by actor
       let rows: any[] = [];
-      if (userId) {
+      if (filter.userId) {
         rows = (db as any)
           .prepare('SELECT * FROM audit_logs WHERE user_id = ? ORDER BY created_at DESC LIMIT ?')
-          .all(userId, Math.min(limit, 100));
+          .all(filter.userId, filter.limit);
       } else {
         rows = (db as any)
           .prepare('SELECT * FROM audit_logs ORDER BY created_at DESC LIMIT ?')
-          .all(Math.min(limit, 100));
+          .all(filter.limit);
       }
-      return NextResponse.json(rows);
+      return NextResponse.json({ logs: rows, pagination: describePage(rows.length, 1, filter.limit) });
     }
 
     return NextResponse.json({ error: 'No database connection available' }, { status: 500 });
@@ -45,5 +59,3 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: 'Failed to fetch audit logs' }, { status: 500 });
   }
 }
-
-
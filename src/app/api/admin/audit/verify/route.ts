@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { describeAuditChainBreak } from '@/lib/audit-chain';
+import { auditService } from '@/lib/services/audit-service';
+
+/**
+ * Checks that no audit entry has been changed, removed or inserted since it
+ * was written
+ */
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const report = await auditService.verifyChain();
+    if (!report) {
+      return NextResponse.json({ error: 'Audit verification not supported in this environment' }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      ...report,
+      message: report.broken
+        ? describeAuditChainBreak(report.broken)
+        : `All ${report.checked} chained audit entries are intact.`,
+    });
+  } catch (e) {
+    console.error('Error verifying audit chain:', e);
+    return NextResponse.json({ error: 'Failed to verify audit chain' }, { status: 500 });
+  }
+}
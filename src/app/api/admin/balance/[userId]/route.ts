@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth';
 import db, { dbOperations, prisma, isPrismaEnabled } from '@/lib/db';
 import { AuditLogger } from '@/lib/audit';
 import { randomUUID } from 'crypto';
+import { BalanceLedger } from '@/lib/balance-ledger';
 
 // Define TimeOffBalance type for legacy SQLite
 interface LegacyTimeOffBalance {
@@ -117,14 +118,31 @@ export async function GET(
           { type: 'SICK', totalDays: 8 },
           { type: 'PAID_LEAVE', totalDays: 0 },
           { type: 'PERSONAL', totalDays: 3 }
-        ];
+        ] as const;
         
-        for (const defaultBalance of defaultBalances) {
-          await prisma.$executeRaw`
-            INSERT INTO "TimeOffBalance" ("id", "userId", "year", "type", "totalDays", "usedDays", "remainingDays", "createdAt", "updatedAt")
-            VALUES (${randomUUID()}, ${userId}, ${year}, ${defaultBalance.type}::"TimeOffType", ${defaultBalance.totalDays}, 0, ${defaultBalance.totalDays}, NOW(), NOW())
-          `;
-        }
+        // Another request may be creating them too: only the balances this
+        // one creates get their allowance granted
+        await prisma.$transaction(async (tx) => {
+          const ledger = new BalanceLedger(tx);
+          for (const defaultBalance of defaultBalances) {
+            const { count } = await tx.timeOffBalance.createMany({
+              data: [{ userId, year, type: defaultBalance.type, totalDays: 0, remainingDays: 0 }],
+              skipDuplicates: true,
+            });
+            if (count === 0 || defaultBalance.totalDays === 0) {
+              continue;
+            }
+            await ledger.record({
+              userId,
+              year,
+              type: defaultBalance.type,
+              kind: 'GRANT',
+              days: defaultBalance.totalDays,
+              actorId: session.user.id,
+              reason: 'Default allowance',
+            });
+          }
+        });
       }
       
       return NextResponse.json(response);
@@ -234,38 +252,35 @@ export async function PUT(
         { type: 'SICK', totalDays: sickDays },
         { type: 'PAID_LEAVE', totalDays: paidLeave },
         { type: 'PERSONAL', totalDays: personalDays }
-      ];
+      ] as const;
       
-      // Update or create each balance record using raw queries for compatibility
-      for (const update of balanceUpdates) {
-        // Check if balance exists
-        const existing = await prisma.$queryRaw<ModernTimeOffBalance[]>`
-          SELECT * FROM "TimeOffBalance" 
-          WHERE "userId" = ${userId} AND "year" = ${currentYear} AND "type" = ${update.type}::"TimeOffType"
-          LIMIT 1
-        `;
+      // The allowance changes and their audit entry are saved together
+      await prisma.$transaction(async (tx) => {
+        // Record the difference from the current allowance so the ledger keeps its history
+        const ledger = new BalanceLedger(tx);
+        for (const update of balanceUpdates) {
+          const existing = await tx.timeOffBalance.findFirst({
+            where: { userId, year: currentYear, type: update.type }
+          });
+          const change = update.totalDays - (existing?.totalDays ?? 0);
+        
+          if (existing && change === 0) {
+            continue;
+          }
         
-        if (existing.length > 0) {
-          // Update existing balance
-          await prisma.$executeRaw`
-            UPDATE "TimeOffBalance" 
-            SET "totalDays" = ${update.totalDays}, 
-                "remainingDays" = ${update.totalDays} - "usedDays",
-                "updatedAt" = NOW()
-            WHERE "userId" = ${userId} AND "year" = ${currentYear} AND "type" = ${update.type}::"TimeOffType"
-          `;
-        } else {
-          // Create new balance
-          await prisma.$executeRaw`
-            INSERT INTO "TimeOffBalance" ("id", "userId", "year", "type", "totalDays", "usedDays", "remainingDays", "createdAt", "updatedAt")
-            VALUES (${randomUUID()}, ${userId}, ${currentYear}, ${update.type}::"TimeOffType", ${update.totalDays}, 0, ${update.totalDays}, NOW(), NOW())
-          `;
+          await ledger.record({
+            userId,
+            year: currentYear,
+            type: update.type,
+            kind: existing ? 'ADJUSTMENT' : 'GRANT',
+            days: change,
+            actorId: session.user.id,
+            reason: existing ? 'Allowance changed by an administrator' : 'Allowance set by an administrator',
+          });
         }
-      }
       
-      // Audit log manual balance edit
-      try {
-        const logger = new AuditLogger(prisma);
+        // Audit log manual balance edit
+        const logger = new AuditLogger(tx);
         await logger.log(
           session.user.id,
           'UPDATE',
@@ -273,9 +288,7 @@ export async function PUT(
           `${userId}-${currentYear}`,
           { vacationDays, sickDays, paidLeave, personalDays }
         );
-      } catch (e) {
-        console.error('Failed to write audit log for balance update:', e);
-      }
+      });
       
       // Return the updated balance in the expected format
       const updatedBalance: AdminBalanceResponse = {
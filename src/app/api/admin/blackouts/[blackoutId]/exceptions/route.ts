@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { toDateKey } from '@/lib/holidays';
+import { TimeOffError } from '@/lib/errors/time-off';
+import { blackoutService } from '@/lib/services/blackout-service';
+import { BlackoutExceptionSchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+/**
+ * Grants an employee an exception to a blackout, covering the days of one of
+ * their requests or the dates given
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { blackoutId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Blackout periods not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(BlackoutExceptionSchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { userId, requestId, startDate, endDate, reason } = validation.data;
+
+  try {
+    const user = await prisma!.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const exception = await blackoutService.grantException(params.blackoutId, userId, session.user.id, {
+      requestId,
+      startDate,
+      endDate,
+      reason,
+    });
+    if (!exception) {
+      return NextResponse.json({ error: 'Blackout period not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(exception, { status: 201 });
+  } catch (e) {
+    if (e instanceof TimeOffError) {
+      return NextResponse.json({ error: e.message, code: e.code }, { status: e.status });
+    }
+    console.error('Error granting blackout exception:', e);
+    return NextResponse.json({ error: 'Failed to grant blackout exception' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { blackoutId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Blackout periods not supported in this environment' }, { status: 400 });
+  }
+
+  const exceptionId = new URL(request.url).searchParams.get('exceptionId');
+  if (!exceptionId) {
+    return NextResponse.json({ error: 'exceptionId is required' }, { status: 400 });
+  }
+
+  try {
+    const existing = await prisma!.blackoutException.findUnique({ where: { id: exceptionId } });
+    if (!existing || existing.blackoutPeriodId !== params.blackoutId) {
+      return NextResponse.json({ error: 'Blackout exception not found' }, { status: 404 });
+    }
+
+    // Requests approved under the exception stay approved
+    await prisma!.$transaction(async (tx) => {
+      await tx.blackoutException.delete({ where: { id: existing.id } });
+
+      await new AuditLogger(tx).log(session.user.id, 'DELETE', 'BLACKOUT', existing.id, {
+        action: 'REVOKE_BLACKOUT_EXCEPTION',
+        blackoutId: params.blackoutId,
+        userId: existing.userId,
+        startDate: toDateKey(existing.startDate),
+        endDate: toDateKey(existing.endDate),
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error('Error revoking blackout exception:', e);
+    return NextResponse.json({ error: 'Failed to revoke blackout exception' }, { status: 500 });
+  }
+}
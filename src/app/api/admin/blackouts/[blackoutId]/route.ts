@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { toDateKey } from '@/lib/holidays';
+import { UpdateBlackoutPeriodSchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { blackoutId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Blackout periods not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(UpdateBlackoutPeriodSchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { startDate, endDate, ...changes } = validation.data;
+
+  try {
+    const existing = await prisma!.blackoutPeriod.findUnique({ where: { id: params.blackoutId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Blackout period not found' }, { status: 404 });
+    }
+    // Only one end of the range may be changing
+    if ((endDate ?? toDateKey(existing.endDate)) < (startDate ?? toDateKey(existing.startDate))) {
+      return createErrorResponse('End date must be on or after start date', 'VALIDATION_ERROR', 400);
+    }
+    if (changes.teamId && !(await prisma!.team.findUnique({ where: { id: changes.teamId }, select: { id: true } }))) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+
+    const blackout = await prisma!.$transaction(async (tx) => {
+      const updated = await tx.blackoutPeriod.update({
+        where: { id: existing.id },
+        data: {
+          ...changes,
+          ...(startDate !== undefined ? { startDate: new Date(`${startDate}T00:00:00.000Z`) } : {}),
+          ...(endDate !== undefined ? { endDate: new Date(`${endDate}T00:00:00.000Z`) } : {}),
+        },
+      });
+
+      await new AuditLogger(tx).log(session.user.id, 'UPDATE', 'BLACKOUT', updated.id, {
+        action: 'UPDATE_BLACKOUT',
+        previous: existing,
+        current: updated,
+      });
+      return updated;
+    });
+
+    return NextResponse.json(blackout);
+  } catch (e) {
+    console.error('Error updating blackout period:', e);
+    return NextResponse.json({ error: 'Failed to update blackout period' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { blackoutId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Blackout periods not supported in this environment' }, { status: 400 });
+  }
+
+  try {
+    const existing = await prisma!.blackoutPeriod.findUnique({ where: { id: params.blackoutId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Blackout period not found' }, { status: 404 });
+    }
+
+    // Exceptions go with it; requests already approved are unaffected
+    await prisma!.$transaction(async (tx) => {
+      await tx.blackoutPeriod.delete({ where: { id: existing.id } });
+
+      await new AuditLogger(tx).log(session.user.id, 'DELETE', 'BLACKOUT', existing.id, {
+        action: 'DELETE_BLACKOUT',
+        label: existing.label,
+        startDate: toDateKey(existing.startDate),
+        endDate: toDateKey(existing.endDate),
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error('Error deleting blackout period:', e);
+    return NextResponse.json({ error: 'Failed to delete blackout period' }, { status: 500 });
+  }
+}
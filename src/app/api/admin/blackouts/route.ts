@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { blackoutService } from '@/lib/services/blackout-service';
+import { CreateBlackoutPeriodSchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await blackoutService.listBlackouts());
+  } catch (e) {
+    console.error('Error fetching blackout periods:', e);
+    return NextResponse.json({ error: 'Failed to fetch blackout periods' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Blackout periods not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(CreateBlackoutPeriodSchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { label, startDate, endDate, types, teamId } = validation.data;
+
+  try {
+    if (teamId && !(await prisma!.team.findUnique({ where: { id: teamId }, select: { id: true } }))) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+
+    const blackout = await prisma!.$transaction(async (tx) => {
+      const created = await tx.blackoutPeriod.create({
+        data: {
+          label,
+          startDate: new Date(`${startDate}T00:00:00.000Z`),
+          endDate: new Date(`${endDate}T00:00:00.000Z`),
+          types,
+          teamId,
+          createdById: session.user.id,
+        },
+      });
+
+      await new AuditLogger(tx).log(session.user.id, 'CREATE', 'BLACKOUT', created.id, {
+        action: 'CREATE_BLACKOUT',
+        label,
+        startDate,
+        endDate,
+        types,
+        teamId,
+      });
+      return created;
+    });
+
+    return NextResponse.json(blackout, { status: 201 });
+  } catch (e) {
+    console.error('Error creating blackout period:', e);
+    return NextResponse.json({ error: 'Failed to create blackout period' }, { status: 500 });
+  }
+}
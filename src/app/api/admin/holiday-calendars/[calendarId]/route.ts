@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { HolidayCalendarSchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { calendarId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Holiday management not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(HolidayCalendarSchema.partial(), body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { name, ruleSet, isDefault } = validation.data;
+
+  try {
+    const existing = await prisma!.holidayCalendar.findUnique({ where: { id: params.calendarId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Holiday calendar not found' }, { status: 404 });
+    }
+    if (existing.isDefault && isDefault === false) {
+      return NextResponse.json({ error: 'Make another calendar the default instead' }, { status: 400 });
+    }
+
+    const calendar = await prisma!.$transaction(async (tx) => {
+      if (isDefault && !existing.isDefault) {
+        await tx.holidayCalendar.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+      }
+      const updated = await tx.holidayCalendar.update({
+        where: { id: existing.id },
+        data: {
+          ...(name !== undefined ? { name } : {}),
+          ...(ruleSet !== undefined ? { ruleSet } : {}),
+          ...(isDefault !== undefined ? { isDefault } : {}),
+        },
+      });
+
+      await new AuditLogger(tx).log(session.user.id, 'UPDATE', 'HOLIDAY', updated.id, {
+        action: 'UPDATE_CALENDAR',
+        previous: { name: existing.name, ruleSet: existing.ruleSet, isDefault: existing.isDefault },
+        current: { name: updated.name, ruleSet: updated.ruleSet, isDefault: updated.isDefault },
+      });
+      return updated;
+    });
+
+    return NextResponse.json(calendar);
+  } catch (e) {
+    if ((e as { code?: string })?.code === 'P2002') {
+      return NextResponse.json({ error: `A holiday calendar named ${name} already exists` }, { status: 409 });
+    }
+    console.error('Error updating holiday calendar:', e);
+    return NextResponse.json({ error: 'Failed to update holiday calendar' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { calendarId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Holiday management not supported in this environment' }, { status: 400 });
+  }
+
+  try {
+    const existing = await prisma!.holidayCalendar.findUnique({ where: { id: params.calendarId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Holiday calendar not found' }, { status: 404 });
+    }
+    if (existing.isDefault) {
+      return NextResponse.json({ error: 'The default holiday calendar cannot be deleted' }, { status: 400 });
+    }
+
+    // Assigned users fall back to the default calendar (onDelete: SetNull)
+    await prisma!.$transaction(async (tx) => {
+      await tx.holidayCalendar.delete({ where: { id: existing.id } });
+
+      await new AuditLogger(tx).log(session.user.id, 'DELETE', 'HOLIDAY', existing.id, {
+        action: 'DELETE_CALENDAR',
+        name: existing.name,
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error('Error deleting holiday calendar:', e);
+    return NextResponse.json({ error: 'Failed to delete holiday calendar' }, { status: 500 });
+  }
+}
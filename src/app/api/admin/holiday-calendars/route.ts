@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { holidayService } from '@/lib/services/holiday-service';
+import { HolidayCalendarSchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await holidayService.listCalendars());
+  } catch (e) {
+    console.error('Error fetching holiday calendars:', e);
+    return NextResponse.json({ error: 'Failed to fetch holiday calendars' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Holiday management not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(HolidayCalendarSchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { name, ruleSet, isDefault } = validation.data;
+
+  try {
+    const calendar = await prisma!.$transaction(async (tx) => {
+      if (isDefault) {
+        await tx.holidayCalendar.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+      }
+      const created = await tx.holidayCalendar.create({
+        data: { name, ruleSet: ruleSet ?? null, isDefault: isDefault ?? false },
+      });
+
+      await new AuditLogger(tx).log(session.user.id, 'CREATE', 'HOLIDAY', created.id, {
+        action: 'CREATE_CALENDAR',
+        name,
+        ruleSet: created.ruleSet,
+      });
+      return created;
+    });
+
+    return NextResponse.json(calendar);
+  } catch (e) {
+    if ((e as { code?: string })?.code === 'P2002') {
+      return NextResponse.json({ error: `A holiday calendar named ${name} already exists` }, { status: 409 });
+    }
+    console.error('Error creating holiday calendar:', e);
+    return NextResponse.json({ error: 'Failed to create holiday calendar' }, { status: 500 });
+  }
+}
@@ -0,0 +1,117 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { toDateKey } from '@/lib/holidays';
+import { holidayService } from '@/lib/services/holiday-service';
+import { UpdateHolidaySchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { holidayId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Holiday management not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(UpdateHolidaySchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { date, name, observed } = validation.data;
+
+  try {
+    const existing = await prisma!.holiday.findUnique({ where: { id: params.holidayId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Holiday not found' }, { status: 404 });
+    }
+
+    const previousDate = toDateKey(existing.date);
+    if (date && Number(date.slice(0, 4)) !== existing.year) {
+      return NextResponse.json({ error: 'A holiday cannot be moved to a different year' }, { status: 400 });
+    }
+
+    const holiday = await prisma!.$transaction(async (tx) => {
+      const updated = await tx.holiday.update({
+        where: { id: existing.id },
+        data: {
+          ...(date ? { date: new Date(`${date}T00:00:00.000Z`) } : {}),
+          ...(name !== undefined ? { name } : {}),
+          ...(observed !== undefined ? { observed } : {}),
+        },
+      });
+
+      await new AuditLogger(tx).log(session.user.id, 'UPDATE', 'HOLIDAY', updated.id, {
+        previous: { date: previousDate, name: existing.name },
+        current: { date: toDateKey(updated.date), name: updated.name },
+      });
+      return updated;
+    });
+
+    // Renaming doesn't change any counts; moving affects both the old and new day
+    const staleRequests = date && date !== previousDate
+      ? await holidayService.findStaleRequests([previousDate, date], existing.calendarId)
+      : [];
+
+    return NextResponse.json({
+      holiday: { id: holiday.id, date: toDateKey(holiday.date), name: holiday.name, observed: holiday.observed },
+      staleRequests,
+    });
+  } catch (e) {
+    if ((e as { code?: string })?.code === 'P2002') {
+      return NextResponse.json({ error: `A holiday already exists on ${date}` }, { status: 409 });
+    }
+    console.error('Error updating holiday:', e);
+    return NextResponse.json({ error: 'Failed to update holiday' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { holidayId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Holiday management not supported in this environment' }, { status: 400 });
+  }
+
+  try {
+    const existing = await prisma!.holiday.findUnique({ where: { id: params.holidayId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Holiday not found' }, { status: 404 });
+    }
+
+    const date = toDateKey(existing.date);
+    await prisma!.$transaction(async (tx) => {
+      await tx.holiday.delete({ where: { id: existing.id } });
+
+      await new AuditLogger(tx).log(session.user.id, 'DELETE', 'HOLIDAY', existing.id, {
+        calendarId: existing.calendarId,
+        date,
+        name: existing.name,
+      });
+    });
+
+    const staleRequests = await holidayService.findStaleRequests([date], existing.calendarId);
+    return NextResponse.json({ success: true, staleRequests });
+  } catch (e) {
+    console.error('Error deleting holiday:', e);
+    return NextResponse.json({ error: 'Failed to delete holiday' }, { status: 500 });
+  }
+}
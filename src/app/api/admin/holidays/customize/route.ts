@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { holidayService } from '@/lib/services/holiday-service';
+
+// Copies the built-in holidays for a year into the database so admins can edit them
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Holiday management not supported in this environment' }, { status: 400 });
+  }
+
+  try {
+    const { year, calendarId } = await request.json();
+    if (!Number.isInteger(year)) {
+      return NextResponse.json({ error: 'year is required' }, { status: 400 });
+    }
+
+    const before = await holidayService.getYear(year, calendarId);
+    const resolvedCalendarId = await prisma!.$transaction(async (tx) => {
+      const customizedId = await holidayService.customizeYear(year, calendarId, tx);
+      if (customizedId && !before.customized) {
+        await new AuditLogger(tx).log(session.user.id, 'CREATE', 'HOLIDAY', customizedId, {
+          action: 'CUSTOMIZE_YEAR',
+          year,
+        });
+      }
+      return customizedId;
+    });
+    if (!resolvedCalendarId) {
+      return NextResponse.json({ error: 'Holiday calendar not found' }, { status: 404 });
+    }
+    return NextResponse.json(await holidayService.getYear(year, resolvedCalendarId));
+  } catch (e) {
+    console.error('Error customizing holiday year:', e);
+    return NextResponse.json({ error: 'Failed to customize holidays' }, { status: 500 });
+  }
+}
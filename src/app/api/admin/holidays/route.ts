@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { holidayService } from '@/lib/services/holiday-service';
+import { CreateHolidaySchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const year = parseInt(searchParams.get('year') || String(new Date().getFullYear()), 10);
+  const calendarId = searchParams.get('calendarId');
+  if (isNaN(year)) {
+    return NextResponse.json({ error: 'Invalid year' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await holidayService.getYear(year, calendarId));
+  } catch (e) {
+    console.error('Error fetching holidays:', e);
+    return NextResponse.json({ error: 'Failed to fetch holidays' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Holiday management not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(CreateHolidaySchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { date, name, observed, calendarId } = validation.data;
+  const year = Number(date.slice(0, 4));
+
+  try {
+    // Start from the built-in holidays so adding one day doesn't drop the rest of the year
+    const created = await prisma!.$transaction(async (tx) => {
+      const resolvedCalendarId = await holidayService.customizeYear(year, calendarId, tx);
+      if (!resolvedCalendarId) {
+        return null;
+      }
+
+      const holiday = await tx.holiday.create({
+        data: {
+          calendarId: resolvedCalendarId,
+          date: new Date(`${date}T00:00:00.000Z`),
+          year,
+          name,
+          observed: observed ?? false,
+        },
+      });
+
+      await new AuditLogger(tx).log(session.user.id, 'CREATE', 'HOLIDAY', holiday.id, { calendarId: resolvedCalendarId, date, name });
+      return { holiday, resolvedCalendarId };
+    });
+    if (!created) {
+      return NextResponse.json({ error: 'Holiday calendar not found' }, { status: 404 });
+    }
+    const { holiday, resolvedCalendarId } = created;
+
+    const staleRequests = await holidayService.findStaleRequests([date], resolvedCalendarId);
+    return NextResponse.json({ holiday: { id: holiday.id, date, name, observed: holiday.observed }, staleRequests });
+  } catch (e) {
+    if ((e as { code?: string })?.code === 'P2002') {
+      return NextResponse.json({ error: `A holiday already exists on ${date}` }, { status: 409 });
+    }
+    console.error('Error creating holiday:', e);
+    return NextResponse.json({ error: 'Failed to create holiday' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { TimeOffError } from '@/lib/errors/time-off';
+import { overtimeService } from '@/lib/services/overtime-service';
+import { ReverseOvertimeSchema, TimeOffRequestIdSchema } from '@/lib/validators/schemas';
+import { validateRequest, validatePathParams, createErrorResponse } from '@/lib/validators/middleware';
+
+/**
+ * Reverses an approved overtime request and claws back the comp time it
+ * credited. Days already used or expired are not given back, so the balance
+ * can go negative.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { requestId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const idValidation = validatePathParams(TimeOffRequestIdSchema, { id: params.requestId });
+  if (!idValidation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, idValidation.errors);
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(ReverseOvertimeSchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+
+  try {
+    const reversed = await overtimeService.reverseApproval(params.requestId, session.user.id, validation.data.reason);
+    return NextResponse.json(reversed);
+  } catch (e) {
+    if (e instanceof TimeOffError) {
+      return NextResponse.json({ error: e.message, code: e.code }, { status: e.status });
+    }
+    console.error('Error reversing overtime approval:', e);
+    return NextResponse.json({ error: 'Failed to reverse overtime approval' }, { status: 500 });
+  }
+}
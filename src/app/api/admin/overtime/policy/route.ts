@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { overtimeService } from '@/lib/services/overtime-service';
+import { OvertimePolicySchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await overtimeService.getPolicy());
+  } catch (e) {
+    console.error('Error fetching overtime policy:', e);
+    return NextResponse.json({ error: 'Failed to fetch overtime policy' }, { status: 500 });
+  }
+}
+
+/**
+ * Sets how approved overtime is compensated and what can be submitted.
+ * Overtime already approved keeps the credit it was given.
+ */
+export async function PUT(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Overtime policies not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(OvertimePolicySchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const data = {
+    ...validation.data,
+    monthlyCapDays: validation.data.monthlyCapDays ?? null,
+    yearlyCapDays: validation.data.yearlyCapDays ?? null,
+    compTimeExpiryDays: validation.data.compTimeExpiryDays ?? null,
+    windowLastDaysOfMonth: validation.data.windowLastDaysOfMonth ?? null,
+    windowFirstDaysOfNextMonth: validation.data.windowFirstDaysOfNextMonth ?? null,
+    maxHoursPerEntry: validation.data.maxHoursPerEntry ?? null,
+    maxHoursPerMonth: validation.data.maxHoursPerMonth ?? null,
+    notesRequiredAboveHours: validation.data.notesRequiredAboveHours ?? null,
+  };
+
+  try {
+    const existing = await overtimeService.getPolicy();
+    await prisma!.$transaction(async (tx) => {
+      const policy = existing.id
+        ? await tx.overtimePolicy.update({ where: { id: existing.id }, data })
+        : await tx.overtimePolicy.create({ data });
+
+      await new AuditLogger(tx).log(session.user.id, existing.id ? 'UPDATE' : 'CREATE', 'POLICY', policy.id, {
+        action: 'SET_OVERTIME_POLICY',
+        previous: existing.id
+          ? {
+              compensation: existing.compensation,
+              creditType: existing.creditType,
+              weekdayRate: existing.weekdayRate,
+              weekendRate: existing.weekendRate,
+              holidayRate: existing.holidayRate,
+              monthlyCapDays: existing.monthlyCapDays,
+              yearlyCapDays: existing.yearlyCapDays,
+              compTimeExpiryDays: existing.compTimeExpiryDays,
+              windowLastDaysOfMonth: existing.windowLastDaysOfMonth,
+              windowFirstDaysOfNextMonth: existing.windowFirstDaysOfNextMonth,
+              maxHoursPerEntry: existing.maxHoursPerEntry,
+              maxHoursPerMonth: existing.maxHoursPerMonth,
+              notesRequiredAboveHours: existing.notesRequiredAboveHours,
+            }
+          : null,
+        current: data,
+      });
+    });
+
+    return NextResponse.json(await overtimeService.getPolicy());
+  } catch (e) {
+    console.error('Error saving overtime policy:', e);
+    return NextResponse.json({ error: 'Failed to save overtime policy' }, { status: 500 });
+  }
+}
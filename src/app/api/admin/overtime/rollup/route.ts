@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import db, { prisma, isPrismaEnabled } from '@/lib/db';
+import { DEFAULT_HOURS_PER_DAY } from '@/lib/work-hours';
 
 export async function GET(request: Request) {
   const session = await getServerSession(authOptions);
@@ -14,39 +15,46 @@ export async function GET(request: Request) {
     const year = Number(searchParams.get('year') || new Date().getFullYear());
     const userId = searchParams.get('userId') || undefined;
 
-    // Prisma / Postgres
+    // Prisma / Postgres; overtime approved before conversion policies has no
+    // recorded credit and counts at the plain rate
     if (process.env.VERCEL || (isPrismaEnabled && prisma)) {
       if (!prisma) return NextResponse.json([]);
       if (userId) {
-        const rows = await prisma.$queryRaw<{ days: number }[]>`
-          SELECT COALESCE(SUM(hours) / 8.0, 0) AS days
-          FROM overtime_requests
-          WHERE status = 'APPROVED' AND year = ${year} AND "userId" = ${userId}::uuid
+        const rows = await prisma.$queryRaw<{ days: number; payoutHours: number }[]>`
+          SELECT COALESCE(SUM(COALESCE(o."creditedDays", o.hours / u."standardHoursPerDay")), 0) AS days,
+                 COALESCE(SUM(o."payoutHours"), 0) AS "payoutHours"
+          FROM overtime_requests o
+          JOIN "User" u ON o."userId"::text = u.id
+          WHERE o.status = 'APPROVED' AND o.year = ${year} AND o."userId" = ${userId}::uuid
         `;
         const days = rows[0]?.days ? Number(rows[0].days) : 0;
-        return NextResponse.json({ userId, days });
+        const payoutHours = rows[0]?.payoutHours ? Number(rows[0].payoutHours) : 0;
+        return NextResponse.json({ userId, days, payoutHours });
       } else {
-        const rows = await prisma.$queryRaw<{ userId: string; days: number }[]>`
-          SELECT "userId", COALESCE(SUM(hours) / 8.0, 0) AS days
-          FROM overtime_requests
-          WHERE status = 'APPROVED' AND year = ${year}
-          GROUP BY "userId"
+        const rows = await prisma.$queryRaw<{ userId: string; days: number; payoutHours: number }[]>`
+          SELECT o."userId",
+                 COALESCE(SUM(COALESCE(o."creditedDays", o.hours / u."standardHoursPerDay")), 0) AS days,
+                 COALESCE(SUM(o."payoutHours"), 0) AS "payoutHours"
+          FROM overtime_requests o
+          JOIN "User" u ON o."userId"::text = u.id
+          WHERE o.status = 'APPROVED' AND o.year = ${year}
+          GROUP BY o."userId"
         `;
         return NextResponse.json(rows);
       }
     }
 
-    // SQLite fallback
+    // SQLite fallback; users there have no working-day setting, so use the default
     if (db) {
       if (userId) {
         const row = (db as any)
-          .prepare('SELECT COALESCE(SUM(hours) / 8.0, 0) AS days FROM overtime_requests WHERE status = ? AND year = ? AND userId = ?')
-          .get('APPROVED', year, userId) as { days: number } | undefined;
+          .prepare('SELECT COALESCE(SUM(hours) / ?, 0) AS days FROM overtime_requests WHERE status = ? AND year = ? AND userId = ?')
+          .get(DEFAULT_HOURS_PER_DAY, 'APPROVED', year, userId) as { days: number } | undefined;
         return NextResponse.json({ userId, days: row?.days || 0 });
       } else {
         const rows = (db as any)
-          .prepare('SELECT userId as userId, COALESCE(SUM(hours) / 8.0, 0) AS days FROM overtime_requests WHERE status = ? AND year = ? GROUP BY userId')
-          .all('APPROVED', year) as Array<{ userId: string; days: number }>;
+          .prepare('SELECT userId as userId, COALESCE(SUM(hours) / ?, 0) AS days FROM overtime_requests WHERE status = ? AND year = ? GROUP BY userId')
+          .all(DEFAULT_HOURS_PER_DAY, 'APPROVED', year) as Array<{ userId: string; days: number }>;
         return NextResponse.json(rows);
       }
     }
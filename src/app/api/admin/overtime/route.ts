@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { describePage, pageWindow } from '@/lib/pagination';
+import { overtimeService } from '@/lib/services/overtime-service';
+import { OvertimeFilterSchema } from '@/lib/validators/schemas';
+import { validateQueryParams, createErrorResponse } from '@/lib/validators/middleware';
+
+/**
+ * Overtime in every status, filtered by status, employee and month worked,
+ * with each employee's monthly totals for the same employee and period
+ */
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const validation = validateQueryParams(OvertimeFilterSchema, searchParams);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  // A single year at a time, the current one unless asked otherwise
+  const filter = { ...validation.data, year: validation.data.year ?? new Date().getFullYear() };
+
+  try {
+    const [{ requests, total }, summary] = await Promise.all([
+      overtimeService.search(filter, pageWindow(filter.page, filter.limit)),
+      overtimeService.monthlySummary({ userId: filter.userId, year: filter.year, month: filter.month }),
+    ]);
+    return NextResponse.json({
+      year: filter.year,
+      requests,
+      pagination: describePage(total, filter.page, filter.limit),
+      summary,
+    });
+  } catch (e) {
+    console.error('Error fetching overtime:', e);
+    return NextResponse.json({ error: 'Failed to fetch overtime' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { bulkActionService } from '@/lib/services/bulk-action-service';
+import { BulkActionSchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+/**
+ * Approves, rejects or deletes many time off or overtime requests at once.
+ * Every request is handled on its own; the response lists the outcome of each.
+ */
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || (session.user.role !== 'ADMIN' && session.user.role !== 'MANAGER')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Bulk actions not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(BulkActionSchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { requestIds, action, requestType, reason } = validation.data;
+
+  if (action === 'DELETE' && session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Only admins can delete requests' }, { status: 403 });
+  }
+
+  try {
+    const results = requestType === 'OVERTIME'
+      ? await bulkActionService.applyToOvertime(requestIds, action, session.user)
+      : await bulkActionService.applyToTimeOff(requestIds, action, session.user, reason);
+    const succeeded = results.filter(result => result.success).length;
+
+    return NextResponse.json({
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    });
+  } catch (e) {
+    console.error('Error applying bulk action:', e);
+    return NextResponse.json({ error: 'Failed to apply bulk action' }, { status: 500 });
+  }
+}
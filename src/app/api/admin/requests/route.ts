@@ -2,20 +2,38 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import db, { prisma, isPrismaEnabled } from '@/lib/db';
+import { reportingService } from '@/lib/services/reporting-service';
+import { approvalService } from '@/lib/services/approval-service';
+import { buildRequestOrderBy, buildRequestWhere } from '@/lib/request-search';
+import { describePage, pageWindow, wantsPagination } from '@/lib/pagination';
+import { TimeOffRequestFilterSchema } from '@/lib/validators/schemas';
+import { validateQueryParams, createErrorResponse } from '@/lib/validators/middleware';
 
+/**
+ * Lists time off requests for reviewers. Filters, sorting and paging come
+ * from the query string; pass page or limit to get a page with its total.
+ */
 export async function GET(request: Request) {
   const session = await getServerSession(authOptions);
 
-  if (!session?.user || session.user.role !== 'ADMIN') {
+  if (!session?.user || (session.user.role !== 'ADMIN' && session.user.role !== 'MANAGER')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
+  // Managers only see requests from their reports
+  const isManager = session.user.role === 'MANAGER';
+
+  const { searchParams } = new URL(request.url);
+  const validation = validateQueryParams(TimeOffRequestFilterSchema, searchParams);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const filter = validation.data;
+  const paginate = wantsPagination(searchParams);
+  // Without explicit dates the list covers a single year, as it always has
+  const year = filter.year ?? (filter.startDate || filter.endDate ? undefined : new Date().getFullYear());
+  const { status, userId } = filter;
 
   try {
-    const { searchParams } = new URL(request.url);
-    const year = parseInt(searchParams.get('year') || new Date().getFullYear().toString());
-    const status = searchParams.get('status') || null;
-    const userId = searchParams.get('userId');
-    
     console.log("Fetching admin requests for year:", year, "status:", status, "userId:", userId);
     console.log("DATABASE_URL:", process.env.DATABASE_URL);
     console.log("isPrismaEnabled:", isPrismaEnabled);
@@ -26,48 +44,37 @@ export async function GET(request: Request) {
     if (process.env.VERCEL || (isPrismaEnabled && prisma)) {
       console.log("Using Prisma to fetch time off requests");
       
-      const whereClause: any = {
-        OR: [
-          {
-            startDate: {
-              gte: new Date(`${year}-01-01`),
-              lte: new Date(`${year}-12-31`),
-            },
-          },
-          {
-            endDate: {
-              gte: new Date(`${year}-01-01`),
-              lte: new Date(`${year}-12-31`),
-            },
-          },
-        ],
-      };
-      
-      if (status) {
-        whereClause.status = status;
-      }
-      
-      if (userId) {
-        whereClause.userId = userId;
+      const where = buildRequestWhere({ ...filter, year });
+
+      if (isManager) {
+        const reportIds = await reportingService.getReportIds(session.user.id);
+        if (userId && !reportIds.includes(userId)) {
+          return NextResponse.json(paginate ? { requests: [], pagination: describePage(0, filter.page, filter.limit) } : []);
+        }
+        where.userId = userId || { in: reportIds };
       }
-      
-      const requests = await prisma?.timeOffRequest.findMany({
-        where: whereClause,
-        include: {
-          user: {
-            select: {
-              name: true,
-              email: true,
+
+      const [requests, total] = await Promise.all([
+        prisma!.timeOffRequest.findMany({
+          where,
+          include: {
+            user: {
+              select: {
+                name: true,
+                email: true,
+              },
             },
           },
-        },
-        orderBy: {
-          startDate: 'desc',
-        },
-      });
+          orderBy: buildRequestOrderBy(filter),
+          ...(paginate ? pageWindow(filter.page, filter.limit) : {}),
+        }),
+        paginate ? prisma!.timeOffRequest.count({ where }) : Promise.resolve(0),
+      ]);
+      
+      const progress = await approvalService.getProgress(requests.map(req => req.id));
       
       // Transform the response to match the expected format
-      const formattedRequests = requests?.map(req => ({
+      const formattedRequests = requests.map(req => ({
         id: req.id,
         user_id: req.userId,
         start_date: req.startDate.toISOString(),
@@ -76,14 +83,28 @@ export async function GET(request: Request) {
         status: req.status,
         reason: req.reason,
         working_days: req.workingDays,
+        start_half: req.startHalf,
+        end_half: req.endHalf,
+        cancellation_reason: req.cancellationReason,
         user_name: req.user.name,
-        user_email: req.user.email
+        user_email: req.user.email,
+        approval_steps: progress[req.id] ?? []
       }));
       
+      if (paginate) {
+        return NextResponse.json({
+          requests: formattedRequests,
+          pagination: describePage(total, filter.page, filter.limit),
+        });
+      }
       return NextResponse.json(formattedRequests);
       
     } else if (db) {
       console.log("Using SQLite to fetch time off requests");
+      if (isManager) {
+        // Reporting lines are only stored in Postgres
+        return NextResponse.json([]);
+      }
       // Use SQLite in development
       let query = `
         SELECT r.*, u.name as user_name, u.email as user_email 
@@ -92,7 +113,8 @@ export async function GET(request: Request) {
         WHERE (strftime('%Y', r.start_date) = ? OR strftime('%Y', r.end_date) = ?)
       `;
       
-      const params = [year.toString(), year.toString()];
+      const sqliteYear = (year ?? new Date().getFullYear()).toString();
+      const params = [sqliteYear, sqliteYear];
       
       if (status) {
         query += ` AND r.status = ?`;
@@ -108,6 +130,13 @@ export async function GET(request: Request) {
       
       const requests = db.prepare(query).all(...params);
       
+      if (paginate) {
+        const { skip, take } = pageWindow(filter.page, filter.limit);
+        return NextResponse.json({
+          requests: requests.slice(skip, skip + take),
+          pagination: describePage(requests.length, filter.page, filter.limit),
+        });
+      }
       return NextResponse.json(requests);
     } else {
       throw new Error("No database connection available");
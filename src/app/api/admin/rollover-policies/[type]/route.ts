@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { TimeOffTypeSchema } from '@/lib/validators/schemas';
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { type: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Rollover policies not supported in this environment' }, { status: 400 });
+  }
+
+  const parsed = TimeOffTypeSchema.safeParse(params.type);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid time off type' }, { status: 400 });
+  }
+
+  try {
+    const existing = await prisma!.rolloverPolicy.findUnique({ where: { type: parsed.data } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Rollover policy not found' }, { status: 404 });
+    }
+
+    // Balances already rolled over keep their carried days and expiry
+    await prisma!.$transaction(async (tx) => {
+      await tx.rolloverPolicy.delete({ where: { id: existing.id } });
+
+      await new AuditLogger(tx).log(session.user.id, 'DELETE', 'POLICY', existing.id, {
+        action: 'DELETE_ROLLOVER_POLICY',
+        type: existing.type,
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error('Error deleting rollover policy:', e);
+    return NextResponse.json({ error: 'Failed to delete rollover policy' }, { status: 500 });
+  }
+}
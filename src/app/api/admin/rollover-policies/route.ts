@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { rolloverService } from '@/lib/services/rollover-service';
+import { RolloverPolicySchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await rolloverService.listPolicies());
+  } catch (e) {
+    console.error('Error fetching rollover policies:', e);
+    return NextResponse.json({ error: 'Failed to fetch rollover policies' }, { status: 500 });
+  }
+}
+
+/**
+ * Creates or replaces the rollover policy for a time-off type
+ */
+export async function PUT(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Rollover policies not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(RolloverPolicySchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { type, ...rule } = validation.data;
+  const data = {
+    annualAllowance: rule.annualAllowance,
+    carryoverCap: rule.carryoverCap ?? null,
+    expiryMonth: rule.expiryMonth ?? null,
+    expiryDay: rule.expiryDay ?? null,
+  };
+
+  try {
+    const existing = await prisma!.rolloverPolicy.findUnique({ where: { type } });
+    const policy = await prisma!.$transaction(async (tx) => {
+      const saved = await tx.rolloverPolicy.upsert({
+        where: { type },
+        create: { type, ...data },
+        update: data,
+      });
+
+      await new AuditLogger(tx).log(session.user.id, existing ? 'UPDATE' : 'CREATE', 'POLICY', saved.id, {
+        action: 'SET_ROLLOVER_POLICY',
+        type,
+        previous: existing
+          ? {
+              annualAllowance: existing.annualAllowance,
+              carryoverCap: existing.carryoverCap,
+              expiryMonth: existing.expiryMonth,
+              expiryDay: existing.expiryDay,
+            }
+          : null,
+        current: data,
+      });
+      return saved;
+    });
+
+    return NextResponse.json(policy);
+  } catch (e) {
+    console.error('Error saving rollover policy:', e);
+    return NextResponse.json({ error: 'Failed to save rollover policy' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { rolloverService } from '@/lib/services/rollover-service';
+import { RolloverRunSchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+/**
+ * Rolls one year's unused days into the next. Returns a preview unless
+ * `dryRun: false` is sent.
+ */
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Year-end rollover not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(RolloverRunSchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { fromYear, dryRun } = validation.data;
+
+  try {
+    const report = dryRun
+      ? await rolloverService.previewRollover(fromYear)
+      : await rolloverService.commitRollover(fromYear, session.user.id);
+    return NextResponse.json(report);
+  } catch (e) {
+    console.error('Error running year-end rollover:', e);
+    return NextResponse.json({ error: 'Failed to run year-end rollover' }, { status: 500 });
+  }
+}
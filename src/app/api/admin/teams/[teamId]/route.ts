@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { UpdateTeamSchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { teamId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Teams not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(UpdateTeamSchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+
+  try {
+    const existing = await prisma!.team.findUnique({ where: { id: params.teamId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+
+    // Approved requests already over a new limit stay approved
+    const team = await prisma!.$transaction(async (tx) => {
+      const updated = await tx.team.update({ where: { id: existing.id }, data: validation.data });
+
+      await new AuditLogger(tx).log(session.user.id, 'UPDATE', 'TEAM', updated.id, {
+        action: 'UPDATE_TEAM',
+        previous: { name: existing.name, maxOff: existing.maxOff },
+        current: { name: updated.name, maxOff: updated.maxOff },
+      });
+      return updated;
+    });
+
+    return NextResponse.json(team);
+  } catch (e) {
+    if ((e as { code?: string })?.code === 'P2002') {
+      return NextResponse.json({ error: 'A team with this name already exists' }, { status: 409 });
+    }
+    console.error('Error updating team:', e);
+    return NextResponse.json({ error: 'Failed to update team' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { teamId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Teams not supported in this environment' }, { status: 400 });
+  }
+
+  try {
+    const existing = await prisma!.team.findUnique({ where: { id: params.teamId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+
+    // Members are left without a team
+    await prisma!.$transaction(async (tx) => {
+      await tx.team.delete({ where: { id: existing.id } });
+
+      await new AuditLogger(tx).log(session.user.id, 'DELETE', 'TEAM', existing.id, {
+        action: 'DELETE_TEAM',
+        name: existing.name,
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error('Error deleting team:', e);
+    return NextResponse.json({ error: 'Failed to delete team' }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { teamService } from '@/lib/services/team-service';
+import { TeamSchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await teamService.listTeams());
+  } catch (e) {
+    console.error('Error fetching teams:', e);
+    return NextResponse.json({ error: 'Failed to fetch teams' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Teams not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(TeamSchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { name, maxOff } = validation.data;
+
+  try {
+    const team = await prisma!.$transaction(async (tx) => {
+      const created = await tx.team.create({ data: { name, maxOff: maxOff ?? null } });
+
+      await new AuditLogger(tx).log(session.user.id, 'CREATE', 'TEAM', created.id, {
+        action: 'CREATE_TEAM',
+        name,
+        maxOff: created.maxOff,
+      });
+      return created;
+    });
+
+    return NextResponse.json(team, { status: 201 });
+  } catch (e) {
+    if ((e as { code?: string })?.code === 'P2002') {
+      return NextResponse.json({ error: 'A team with this name already exists' }, { status: 409 });
+    }
+    console.error('Error creating team:', e);
+    return NextResponse.json({ error: 'Failed to create team' }, { status: 500 });
+  }
+}
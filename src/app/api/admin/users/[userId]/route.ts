@@ -2,12 +2,24 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import db, { dbOperations, prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { UserSettingsSchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+import { BalanceUnit, DEFAULT_HOURS_PER_DAY } from '@/lib/work-hours';
+import { reportingService } from '@/lib/services/reporting-service';
 
 interface User {
   id: string;
   name: string;
   email: string;
   role: string;
+  holidayCalendarId?: string | null;
+  standardHoursPerDay?: number;
+  balanceUnit?: BalanceUnit;
+  hireDate?: Date | null;
+  accrualPolicies?: { id: string }[];
+  managerId?: string | null;
+  teamId?: string | null;
 }
 
 export async function GET(
@@ -39,7 +51,14 @@ export async function GET(
           id: true,
           name: true,
           email: true,
-          role: true
+          role: true,
+          holidayCalendarId: true,
+          standardHoursPerDay: true,
+          balanceUnit: true,
+          hireDate: true,
+          accrualPolicies: { select: { id: true } },
+          managerId: true,
+          teamId: true
         }
       });
     } else if (db && dbOperations.getUserById) {
@@ -57,13 +76,183 @@ export async function GET(
       id: user.id,
       name: user.name,
       email: user.email,
-      role: user.role
+      role: user.role,
+      holidayCalendarId: user.holidayCalendarId ?? null,
+      standardHoursPerDay: user.standardHoursPerDay ?? DEFAULT_HOURS_PER_DAY,
+      balanceUnit: user.balanceUnit ?? 'DAYS',
+      hireDate: user.hireDate ? user.hireDate.toISOString().split('T')[0] : null,
+      accrualPolicyIds: user.accrualPolicies?.map(policy => policy.id) ?? [],
+      managerId: user.managerId ?? null,
+      teamId: user.teamId ?? null
     });
   } catch (error) {
     console.error('Error fetching user:', error);
     return NextResponse.json({ error: `Failed to fetch user: ${error}` }, { status: 500 });
   }
-} 
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { userId: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'User settings not supported in this environment' }, { status: 400 });
+  }
+
+  const userId = params.userId;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(UserSettingsSchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { holidayCalendarId, standardHoursPerDay, balanceUnit, hireDate, accrualPolicyIds, managerId, teamId } = validation.data;
+
+  try {
+    if (holidayCalendarId) {
+      const calendar = await prisma!.holidayCalendar.findUnique({ where: { id: holidayCalendarId } });
+      if (!calendar) {
+        return NextResponse.json({ error: 'Holiday calendar not found' }, { status: 404 });
+      }
+    }
+
+    if (accrualPolicyIds?.length) {
+      const found = await prisma!.accrualPolicy.count({ where: { id: { in: accrualPolicyIds } } });
+      if (found !== new Set(accrualPolicyIds).size) {
+        return NextResponse.json({ error: 'Accrual policy not found' }, { status: 404 });
+      }
+    }
+
+    if (managerId) {
+      const manager = await prisma!.user.findUnique({ where: { id: managerId }, select: { role: true } });
+      if (!manager) {
+        return NextResponse.json({ error: 'Manager not found' }, { status: 404 });
+      }
+      if (manager.role === 'EMPLOYEE') {
+        return NextResponse.json({ error: 'Manager must have the manager or admin role' }, { status: 400 });
+      }
+      if (await reportingService.wouldCreateCycle(userId, managerId)) {
+        return NextResponse.json({ error: 'A user cannot report to themselves or to one of their reports' }, { status: 400 });
+      }
+    }
+
+    if (teamId) {
+      const team = await prisma!.team.findUnique({ where: { id: teamId } });
+      if (!team) {
+        return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+      }
+    }
+
+    const existing = await prisma!.user.findUnique({
+      where: { id: userId },
+      select: {
+        holidayCalendarId: true,
+        standardHoursPerDay: true,
+        balanceUnit: true,
+        hireDate: true,
+        accrualPolicies: { select: { id: true } },
+        managerId: true,
+        teamId: true,
+      },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const user = await prisma!.$transaction(async (tx) => {
+      const updated = await tx.user.update({
+        where: { id: userId },
+        data: {
+          holidayCalendarId,
+          standardHoursPerDay,
+          balanceUnit,
+          hireDate: hireDate === undefined ? undefined : hireDate && new Date(`${hireDate}T00:00:00.000Z`),
+          accrualPolicies: accrualPolicyIds && { set: accrualPolicyIds.map(id => ({ id })) },
+          managerId,
+          teamId,
+        },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          role: true,
+          holidayCalendarId: true,
+          standardHoursPerDay: true,
+          balanceUnit: true,
+          hireDate: true,
+          accrualPolicies: { select: { id: true } },
+          managerId: true,
+          teamId: true,
+        },
+      });
+
+      const logger = new AuditLogger(tx);
+      if (holidayCalendarId !== undefined) {
+        await logger.log(session.user.id, 'UPDATE', 'HOLIDAY', userId, {
+          action: 'ASSIGN_CALENDAR',
+          previousCalendarId: existing.holidayCalendarId,
+          holidayCalendarId,
+        });
+      }
+      if (standardHoursPerDay !== undefined || balanceUnit !== undefined) {
+        await logger.log(session.user.id, 'UPDATE', 'USER', userId, {
+          action: 'UPDATE_WORK_HOURS',
+          previousHoursPerDay: existing.standardHoursPerDay,
+          standardHoursPerDay: updated.standardHoursPerDay,
+          previousBalanceUnit: existing.balanceUnit,
+          balanceUnit: updated.balanceUnit,
+        });
+      }
+      if (hireDate !== undefined || accrualPolicyIds !== undefined) {
+        await logger.log(session.user.id, 'UPDATE', 'USER', userId, {
+          action: 'UPDATE_ACCRUALS',
+          previousHireDate: existing.hireDate,
+          hireDate: updated.hireDate,
+          previousPolicyIds: existing.accrualPolicies.map(policy => policy.id),
+          accrualPolicyIds: updated.accrualPolicies.map(policy => policy.id),
+        });
+      }
+
+      if (managerId !== undefined && managerId !== existing.managerId) {
+        await logger.log(session.user.id, 'UPDATE', 'USER', userId, {
+          action: 'ASSIGN_MANAGER',
+          previousManagerId: existing.managerId,
+          managerId: updated.managerId,
+        });
+      }
+
+      if (teamId !== undefined && teamId !== existing.teamId) {
+        await logger.log(session.user.id, 'UPDATE', 'USER', userId, {
+          action: 'ASSIGN_TEAM',
+          previousTeamId: existing.teamId,
+          teamId: updated.teamId,
+        });
+      }
+      return updated;
+    });
+
+    const { accrualPolicies, ...rest } = user;
+    return NextResponse.json({
+      ...rest,
+      hireDate: user.hireDate ? user.hireDate.toISOString().split('T')[0] : null,
+      accrualPolicyIds: accrualPolicies.map(policy => policy.id),
+    });
+  } catch (error) {
+    console.error('Error updating user:', error);
+    return NextResponse.json({ error: `Failed to update user: ${error}` }, { status: 500 });
+  }
+}
 
 export async function DELETE(
   request: Request,
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { workScheduleService } from '@/lib/services/work-schedule-service';
+import { WorkScheduleSchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+import { STANDARD_WORK_PATTERN } from '@/lib/work-schedule';
+
+export async function GET(
+  request: Request,
+  { params }: { params: { userId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const history = await workScheduleService.getHistory(params.userId);
+    return NextResponse.json({ defaultPattern: STANDARD_WORK_PATTERN, history });
+  } catch (e) {
+    console.error('Error fetching work schedule:', e);
+    return NextResponse.json({ error: 'Failed to fetch work schedule' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { userId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Work schedules not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(WorkScheduleSchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { effectiveFrom, weekdays, hoursByWeekday } = validation.data;
+
+  try {
+    const user = await prisma!.user.findUnique({ where: { id: params.userId }, select: { id: true } });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const entry = await prisma!.$transaction(async (tx) => {
+      const saved = await workScheduleService.setPattern(params.userId, effectiveFrom, {
+        weekdays,
+        hoursByWeekday: hoursByWeekday ?? null,
+      }, tx);
+
+      await new AuditLogger(tx).log(session.user.id, 'UPDATE', 'USER', params.userId, {
+        action: 'SET_WORK_SCHEDULE',
+        effectiveFrom,
+        weekdays: saved.pattern.weekdays,
+        hoursByWeekday: saved.pattern.hoursByWeekday,
+      });
+      return saved;
+    });
+
+    return NextResponse.json(entry, { status: 201 });
+  } catch (e) {
+    console.error('Error updating work schedule:', e);
+    return NextResponse.json({ error: 'Failed to update work schedule' }, { status: 500 });
+  }
+}
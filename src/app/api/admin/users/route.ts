@@ -60,6 +60,9 @@ export async function GET(request: Request) {
           email: true,
           name: true,
           role: true,
+          holidayCalendarId: true,
+          standardHoursPerDay: true,
+          balanceUnit: true,
           createdAt: true,
           updatedAt: true,
           timeOffBalances: {
@@ -102,6 +105,9 @@ export async function GET(request: Request) {
             email: user.email,
             name: user.name,
             role: user.role as 'ADMIN' | 'EMPLOYEE',
+            holidayCalendarId: user.holidayCalendarId,
+            standardHoursPerDay: user.standardHoursPerDay,
+            balanceUnit: user.balanceUnit,
             createdAt: user.createdAt,
             updatedAt: user.updatedAt,
             balance: balanceMap,
@@ -217,6 +223,16 @@ export async function POST(request: Request) {
                 remainingDays: 5
               }
             ]
+          },
+          balanceTransactions: {
+            create: ([['VACATION', 22], ['SICK', 8], ['PERSONAL', 5]] as const).map(([type, days]) => ({
+              year: currentYear,
+              type,
+              kind: 'GRANT' as const,
+              days,
+              actorId: session.user.id,
+              reason: 'Opening balance'
+            }))
           }
         },
         select: {
@@ -3,6 +3,8 @@ import { NextResponse } from 'next/server';
 import { authOptions } from '@/lib/auth';
 import db, { prisma, isPrismaEnabled } from '@/lib/db';
 import { calculateWorkingDays } from '@/lib/date-utils';
+import { holidayService } from '@/lib/services/holiday-service';
+import { workScheduleService } from '@/lib/services/work-schedule-service';
 
 interface ValidationResult {
   userId: string;
@@ -31,7 +33,7 @@ export async function GET() {
     if (process.env.VERCEL || isPrismaEnabled) {
       // Get all approved time off requests with Prisma
       requests = await prisma?.timeOffRequest.findMany({
-        where: { status: 'APPROVED' },
+        where: { status: { in: ['APPROVED', 'CANCELLATION_REQUESTED'] } },
         include: { user: true },
         orderBy: { startDate: 'asc' }
       });
@@ -78,6 +80,11 @@ export async function GET() {
       
       if (!user) continue;
 
+      // Count working days against the user's own holiday calendar and work schedule
+      const calendar = await holidayService.getCalendar(
+        process.env.VERCEL || isPrismaEnabled ? (user as { holidayCalendarId?: string | null }).holidayCalendarId : null
+      );
+      const schedule = await workScheduleService.getScheduleForUser(userId);
       const issues: ValidationResult['issues'] = [];
       
       // Sort requests by start date
@@ -125,7 +132,12 @@ export async function GET() {
         startDate.setHours(0, 0, 0, 0);
         endDate.setHours(23, 59, 59, 999);
         
-        const calculatedDays = calculateWorkingDays(startDate, endDate);
+        const calculatedDays = calculateWorkingDays(startDate, endDate, {
+          calendar,
+          schedule,
+          startHalf: request.startHalf,
+          endHalf: request.endHalf
+        });
         const storedDays = process.env.VERCEL || isPrismaEnabled 
           ? request.workingDays 
           : request.working_days;
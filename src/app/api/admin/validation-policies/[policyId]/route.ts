@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { policyId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Validation policies not supported in this environment' }, { status: 400 });
+  }
+
+  try {
+    const existing = await prisma!.validationPolicy.findUnique({ where: { id: params.policyId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Validation policy not found' }, { status: 404 });
+    }
+
+    await prisma!.$transaction(async (tx) => {
+      await tx.validationPolicy.delete({ where: { id: existing.id } });
+
+      await new AuditLogger(tx).log(session.user.id, 'DELETE', 'POLICY', existing.id, {
+        action: 'DELETE_VALIDATION_POLICY',
+        type: existing.type,
+        role: existing.role,
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error('Error deleting validation policy:', e);
+    return NextResponse.json({ error: 'Failed to delete validation policy' }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { validationPolicyService } from '@/lib/services/validation-policy-service';
+import { ValidationPolicySchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await validationPolicyService.listPolicies());
+  } catch (e) {
+    console.error('Error fetching validation policies:', e);
+    return NextResponse.json({ error: 'Failed to fetch validation policies' }, { status: 500 });
+  }
+}
+
+/**
+ * Creates or replaces the validation policy for a time-off type and role
+ */
+export async function PUT(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Validation policies not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(ValidationPolicySchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { type, role = null, ...limits } = validation.data;
+
+  try {
+    // The compound key allows a null role, which upsert cannot match on
+    const existing = await prisma!.validationPolicy.findFirst({ where: { type, role } });
+    const policy = await prisma!.$transaction(async (tx) => {
+      const saved = existing
+        ? await tx.validationPolicy.update({ where: { id: existing.id }, data: limits })
+        : await tx.validationPolicy.create({ data: { type, role, ...limits } });
+
+      await new AuditLogger(tx).log(session.user.id, existing ? 'UPDATE' : 'CREATE', 'POLICY', saved.id, {
+        action: 'SET_VALIDATION_POLICY',
+        type,
+        role,
+        previous: existing
+          ? {
+              minNoticeDays: existing.minNoticeDays,
+              maxConsecutiveDays: existing.maxConsecutiveDays,
+              maxRequestsPerYear: existing.maxRequestsPerYear,
+            }
+          : null,
+        current: limits,
+      });
+      return saved;
+    });
+
+    return NextResponse.json(policy);
+  } catch (e) {
+    if ((e as { code?: string })?.code === 'P2002') {
+      return NextResponse.json({ error: 'A policy for this type and role already exists' }, { status: 409 });
+    }
+    console.error('Error saving validation policy:', e);
+    return NextResponse.json({ error: 'Failed to save validation policy' }, { status: 500 });
+  }
+}
@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma, isPrismaEnabled } from '@/lib/db';
+import { workScheduleService } from '@/lib/services/work-schedule-service';
+import { standardWorkSchedule } from '@/lib/work-schedule';
 
 export async function GET(request: Request) {
   const session = await getServerSession(authOptions);
@@ -27,22 +29,28 @@ export async function GET(request: Request) {
 
     const rows = await prisma!.timeOffRequest.findMany({
       where: {
-        status: 'APPROVED',
+        status: { in: ['APPROVED', 'CANCELLATION_REQUESTED'] },
         startDate: { lte: end },
         endDate: { gte: start },
       },
-      include: { user: { select: { id: true, name: true, email: true } } },
+      include: { user: { select: { name: true, email: true, standardHoursPerDay: true } } },
       orderBy: { startDate: 'asc' },
     });
 
-    const result = rows.map(r => ({
-      userId: r.userId,
-      name: (r as any).user?.name,
-      email: (r as any).user?.email,
-      type: r.type,
-      startDate: r.startDate,
-      endDate: r.endDate,
-    }));
+    // Skip people who were not scheduled to work that day anyway
+    const schedules = await workScheduleService.getSchedulesForUsers([...new Set(rows.map(r => r.userId))]);
+    const result = rows
+      .filter(r => schedules.get(r.userId)?.isWorkingDay(start) ?? true)
+      .map(r => ({
+        userId: r.userId,
+        name: r.user.name,
+        email: r.user.email,
+        type: r.type,
+        startDate: r.startDate,
+        endDate: r.endDate,
+        // Scheduled hours missed that day
+        hours: (schedules.get(r.userId) ?? standardWorkSchedule).getHours(start, r.user.standardHoursPerDay),
+      }));
 
     return NextResponse.json(result);
   } catch (e) {
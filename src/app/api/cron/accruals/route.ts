@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { accrualService } from '@/lib/services/accrual-service';
+
+/**
+ * Scheduled accrual posting (see vercel.json). Vercel sends the
+ * CRON_SECRET as a bearer token.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await accrualService.runAccruals();
+    console.log(`Posted ${result.posted.length} accruals as of ${result.asOf}`);
+    return NextResponse.json(result);
+  } catch (e) {
+    console.error('Error running scheduled accruals:', e);
+    return NextResponse.json({ error: 'Failed to run accruals' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { rolloverService } from '@/lib/services/rollover-service';
+
+/**
+ * Daily job (see vercel.json) that forfeits carried days past their use-by date
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const expired = await rolloverService.expireCarryover();
+    console.log(`Expired carryover on ${expired.length} balances`);
+    return NextResponse.json({ expired });
+  } catch (e) {
+    console.error('Error expiring carryover:', e);
+    return NextResponse.json({ error: 'Failed to expire carryover' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { compTimeService } from '@/lib/services/comp-time-service';
+
+/**
+ * Daily job (see vercel.json) that forfeits comp time past its expiry date
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const expired = await compTimeService.expire();
+    console.log(`Expired ${expired.length} comp-time grants`);
+    return NextResponse.json({ expired });
+  } catch (e) {
+    console.error('Error expiring comp time:', e);
+    return NextResponse.json({ error: 'Failed to expire comp time' }, { status: 500 });
+  }
+}
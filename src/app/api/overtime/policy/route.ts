@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { overtimeService } from '@/lib/services/overtime-service';
+
+/**
+ * The overtime submission rules, so employees can see them before logging
+ */
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const policy = await overtimeService.getPolicy();
+    return NextResponse.json({
+      windowLastDaysOfMonth: policy.windowLastDaysOfMonth,
+      windowFirstDaysOfNextMonth: policy.windowFirstDaysOfNextMonth,
+      maxHoursPerEntry: policy.maxHoursPerEntry,
+      maxHoursPerMonth: policy.maxHoursPerMonth,
+      notesRequiredAboveHours: policy.notesRequiredAboveHours,
+    });
+  } catch (e) {
+    console.error('Error fetching overtime policy:', e);
+    return NextResponse.json({ error: 'Failed to fetch overtime policy' }, { status: 500 });
+  }
+}
@@ -4,6 +4,10 @@ import { authOptions } from '@/lib/auth';
 import db, { prisma, isPrismaEnabled, dbOperations } from '@/lib/db';
 import { AuditLogger } from '@/lib/audit';
 import { sendRequestStatusNotification } from '@/lib/email';
+import { reportingService } from '@/lib/services/reporting-service';
+import { overtimeService } from '@/lib/services/overtime-service';
+import { OvertimeConversion } from '@/lib/overtime-conversion';
+import { TimeOffError, ValidationError } from '@/lib/errors/time-off';
 
 interface OvertimeRequest {
   id: string;
@@ -31,7 +35,7 @@ export async function PATCH(
 ) {
   const session = await getServerSession(authOptions);
 
-  if (!session?.user || session.user.role !== 'ADMIN') {
+  if (!session?.user || (session.user.role !== 'ADMIN' && session.user.role !== 'MANAGER')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
@@ -45,6 +49,7 @@ export async function PATCH(
     }
 
     let overtimeRequest: OvertimeRequest | undefined;
+    let conversion: OvertimeConversion | null = null;
 
     if (process.env.VERCEL || (isPrismaEnabled && prisma)) {
       // Prisma/Postgres path
@@ -64,65 +69,71 @@ export async function PATCH(
     if (!overtimeRequest) {
       return NextResponse.json({ error: 'Overtime request not found or not pending' }, { status: 404 });
     }
+      if (!(await reportingService.canReview(session.user, overtimeRequest.user_id))) {
+        return NextResponse.json({ error: 'Unauthorized to update this request' }, { status: 403 });
+      }
 
-      // Update status
-      await prisma.$executeRawUnsafe(
-        `UPDATE overtime_requests SET status = $1, "updatedAt" = now() WHERE id = $2::uuid`,
-        status,
-        requestId
-      );
-
-      // If approved, add vacation days (hours/8) to TimeOffBalance for current year and VACATION
-      if (status === 'APPROVED') {
-        const daysToAdd = overtimeRequest.hours / 8;
-        // Update then create fallback to avoid compound unique typings
-        const existing = await prisma.timeOffBalance.findFirst({
-          where: { userId: overtimeRequest.user_id, year: overtimeRequest.year, type: 'VACATION' }
-        });
-        if (existing) {
-          await prisma.timeOffBalance.update({
-            where: { id: existing.id },
-            data: {
-              totalDays: { increment: daysToAdd },
-              remainingDays: { increment: daysToAdd }
-            }
-          });
-        } else {
-          await prisma.timeOffBalance.create({
-            data: {
-              userId: overtimeRequest.user_id,
-              year: overtimeRequest.year,
-              type: 'VACATION',
-              totalDays: daysToAdd,
-              usedDays: 0,
-              remainingDays: daysToAdd
-            }
-          });
+      // Update status and credit the overtime together
+      const reviewer = session.user.id;
+      const pending = overtimeRequest;
+      conversion = await prisma.$transaction(async (tx) => {
+        // Only one reviewer can settle a request
+        const updated = await tx.$executeRawUnsafe(
+          `UPDATE overtime_requests SET status = $1, "updatedAt" = now() WHERE id = $2::uuid AND status = 'PENDING'`,
+          status,
+          requestId
+        );
+        if (updated === 0) {
+          throw new ValidationError('Overtime request is not pending');
         }
-      }
 
-      // Audit log
-      try {
-        const logger = new AuditLogger(prisma);
+        // If approved, compensate under the overtime policy
+        const credited = status === 'APPROVED'
+          ? await overtimeService.creditApproved(tx, {
+              id: requestId,
+              userId: pending.user_id,
+              hours: pending.hours,
+              requestDate: pending.request_date,
+              month: pending.month,
+              year: pending.year,
+            }, reviewer)
+          : null;
+
+        // Audit log
+        const logger = new AuditLogger(tx);
         await logger.log(
-          session.user.id,
+          reviewer,
           'UPDATE',
           'REQUEST',
           requestId,
-          { action: 'OVERTIME_STATUS', newStatus: status }
+          credited
+            ? {
+                action: 'OVERTIME_STATUS',
+                newStatus: status,
+                compensation: credited.compensation,
+                rate: credited.rate,
+                creditedDays: credited.creditedDays,
+                payoutHours: credited.payoutHours,
+              }
+            : { action: 'OVERTIME_STATUS', newStatus: status }
         );
-        if (status === 'APPROVED') {
+        if (credited?.creditType && credited.creditedDays > 0) {
           await logger.log(
-            session.user.id,
+            reviewer,
             'UPDATE',
             'BALANCE',
-            `${overtimeRequest.user_id}-${overtimeRequest.year}-VACATION`,
-            { action: 'OVERTIME_APPROVED_ADD_DAYS', daysAdded: overtimeRequest.hours / 8 }
+            `${pending.user_id}-${pending.year}-${credited.creditType}`,
+            {
+              action: 'OVERTIME_APPROVED_ADD_DAYS',
+              daysAdded: credited.creditedDays,
+              hours: pending.hours,
+              rate: credited.rate,
+              hoursPerDay: credited.hoursPerDay,
+            }
           );
         }
-      } catch (e) {
-        console.error('Failed to write audit log for overtime PATCH:', e);
-      }
+        return credited;
+      });
     } else {
       // SQLite path (local dev)
       // Get the specific overtime request by ID
@@ -137,6 +148,9 @@ export async function PATCH(
         return NextResponse.json({ error: 'Overtime request not found or not pending' }, { status: 404 });
       }
       overtimeRequest = sqliteRequest;
+      if (!(await reportingService.canReview(session.user, overtimeRequest.user_id))) {
+        return NextResponse.json({ error: 'Unauthorized to update this request' }, { status: 403 });
+      }
 
     // Update the status
       if (!dbOperations) {
@@ -180,8 +194,11 @@ export async function PATCH(
       console.error('Failed to send status notification email:', emailError);
     }
 
-    return NextResponse.json({ id: requestId, status });
+    return NextResponse.json({ id: requestId, status, conversion });
   } catch (error) {
+    if (error instanceof TimeOffError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
     console.error('Error updating overtime request:', error);
     return NextResponse.json({ error: 'Failed to update overtime request' }, { status: 500 });
   }
@@ -5,6 +5,20 @@ import { dbOperations } from '@/lib/db';
 import { randomUUID } from 'crypto';
 import { sendOvertimeRequestNotification } from '@/lib/email';
 import db, { prisma, isPrismaEnabled } from '@/lib/db';
+import { reportingService } from '@/lib/services/reporting-service';
+import { overtimeService } from '@/lib/services/overtime-service';
+import { validateRequest } from '@/lib/validators/middleware';
+import { SubmitOvertimeRequestSchema } from '@/lib/validators/schemas';
+import { createErrorResponse, ERROR_CODES } from '@/lib/utils/error-handling';
+import {
+  checkOvertimeDate,
+  findDuplicateOvertimeEntry,
+  hoursBetween,
+  localDateKey,
+  OvertimeEntry,
+  overtimeLookbackDays,
+  overtimePeriod,
+} from '@/lib/overtime-entries';
 
 interface TimeOffBalance {
   id: string;
@@ -22,41 +36,51 @@ interface User {
   role: string;
 }
 
+interface SqliteOvertimeRow {
+  id: string;
+  hours: number;
+  requestDate: string;
+}
+
 interface AdminUser {
   id: string;
   email: string;
   name: string;
 }
 
-// Check if the current date is in the last week of the month
-function isLastWeekOfMonth() {
-  const today = new Date();
-  const lastDayOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0);
-  const daysUntilEndOfMonth = lastDayOfMonth.getDate() - today.getDate();
-  
-  // Consider the last 7 days of the month as the last week
-  return daysUntilEndOfMonth < 7;
-}
-
-export async function GET() {
+export async function GET(request: Request) {
   const session = await getServerSession(authOptions);
 
   if (!session?.user) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
+  // Managers see their own requests unless they ask for their reports' pending ones
+  const { searchParams } = new URL(request.url);
+  const reviewingReports = session.user.role === 'MANAGER' && searchParams.get('scope') === 'reports';
+
   try {
     // Prefer Prisma on Vercel/production if available
     if (process.env.VERCEL || (isPrismaEnabled && prisma)) {
       try {
-        if (session.user.role === 'ADMIN') {
+        if (reviewingReports) {
+          const reportIds = await reportingService.getReportIds(session.user.id);
+          const rows = await prisma!.$queryRaw<unknown[]>`
+            SELECT o.*, u.name as user_name, u."standardHoursPerDay" as hours_per_day
+             FROM overtime_requests o
+            JOIN "User" u ON o."userId"::text = u.id
+             WHERE o.status = 'PENDING' AND u.id = ANY(${reportIds})
+            ORDER BY o."createdAt" DESC
+          `;
+          return NextResponse.json(rows);
+        } else if (session.user.role === 'ADMIN') {
           // Pending only for admin view
           if (!prisma) {
             console.warn('Prisma expected but not available in GET /overtime/requests');
             throw new Error('Prisma client unavailable');
           }
           const rows = await prisma.$queryRaw<any[]>`
-            SELECT o.*, u.name as user_name
+            SELECT o.*, u.name as user_name, u."standardHoursPerDay" as hours_per_day
              FROM overtime_requests o
             JOIN "User" u ON o."userId"::text = u.id
              WHERE o.status = 'PENDING'
@@ -70,10 +94,11 @@ export async function GET() {
           }
           console.log('Overtime GET: user branch (Prisma)');
           const rows = await prisma.$queryRaw<any[]>`
-            SELECT *
-             FROM overtime_requests
-            WHERE "userId" = ${session.user.id}::uuid
-            ORDER BY "createdAt" DESC
+            SELECT o.*, u."standardHoursPerDay" as hours_per_day
+             FROM overtime_requests o
+            JOIN "User" u ON o."userId"::text = u.id
+            WHERE o."userId" = ${session.user.id}::uuid
+            ORDER BY o."createdAt" DESC
           `;
           return NextResponse.json(rows);
         }
@@ -87,7 +112,10 @@ export async function GET() {
     if (dbOperations) {
       const sqliteOps = dbOperations as any;
       let requests;
-      if (session.user.role === 'ADMIN') {
+      if (reviewingReports) {
+        // Reporting lines are only stored in Postgres
+        requests = [];
+      } else if (session.user.role === 'ADMIN') {
         requests = sqliteOps.getOvertimeRequestsByStatus.all('PENDING');
       } else {
         requests = sqliteOps.getUserOvertimeRequests.all(session.user.id);
@@ -111,11 +139,22 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(SubmitOvertimeRequestSchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', ERROR_CODES.VALIDATION_ERROR, 400, validation.errors);
+  }
+  const { notes, userId, startTime, endTime } = validation.data;
+
   try {
     let stage = 'parse-request';
-    const data = await request.json();
-    const { hours, notes, userId } = data;
-    
+
     // Use userId from request or fall back to session user id
     const userIdToUse = userId || session.user.id;
 
@@ -123,26 +162,39 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'User ID not found' }, { status: 400 });
     }
 
-    // Validate hours
-    if (typeof hours !== 'number' || hours <= 0) {
-      return NextResponse.json({ error: 'Hours must be a positive number' }, { status: 400 });
+    const today = new Date();
+    const requestId = randomUUID();
+    const requestDate = validation.data.requestDate ?? localDateKey(today);
+    const { month, year } = overtimePeriod(requestDate);
+    const hours = startTime && endTime ? hoursBetween(startTime, endTime) : validation.data.hours!;
+
+    if (hours < 0.5) {
+      return createErrorResponse('Overtime must be at least half an hour', ERROR_CODES.VALIDATION_ERROR, 400);
     }
 
-    /*
-    // Check if it's the last week of the month (constraint removed)
-    if (!isLastWeekOfMonth()) {
-      return NextResponse.json(
-        { error: 'Overtime requests can only be submitted during the last week of the month' },
-        { status: 403 }
+    const lookbackDays = overtimeLookbackDays();
+    const dateProblem = checkOvertimeDate(requestDate, today, lookbackDays);
+    if (dateProblem === 'FUTURE_DATE') {
+      return createErrorResponse('Overtime can only be logged for days already worked', ERROR_CODES.FUTURE_DATE, 400, { requestDate });
+    }
+    if (dateProblem === 'OUTSIDE_LOOKBACK') {
+      return createErrorResponse(
+        `Overtime must be logged within ${lookbackDays} days of the day it was worked`,
+        ERROR_CODES.OUTSIDE_LOOKBACK_WINDOW,
+        400,
+        { requestDate, lookbackDays }
       );
     }
-    */
 
-    const today = new Date();
-    const requestId = randomUUID();
-    const month = today.getMonth() + 1; // Month (1-12)
-    const year = today.getFullYear();
-    const requestDate = today.toISOString().split('T')[0];
+    // Submission window and hour limits from the overtime policy
+    const violations = await overtimeService.checkSubmission(userIdToUse, { requestDate, hours, notes }, today);
+    if (violations.length > 0) {
+      return createErrorResponse(violations[0].message, violations[0].code, 400, { violations });
+    }
+
+    const entry = { requestDate, hours, startTime: startTime ?? null, endTime: endTime ?? null };
+    const duplicateResponse = (duplicate: { id: string }) =>
+      createErrorResponse('This overtime has already been logged', ERROR_CODES.DUPLICATE_REQUEST, 409, { requestId: duplicate.id });
     
     console.log("DATABASE_URL:", process.env.DATABASE_URL);
     console.log("isPrismaEnabled:", isPrismaEnabled);
@@ -170,11 +222,23 @@ export async function POST(request: Request) {
           }, { status: 404 });
         }
         
+        // Rejected entries don't count, so they can be logged again
+        stage = 'check-duplicate';
+        const existing = await prisma.$queryRaw<(OvertimeEntry & { id: string })[]>`
+          SELECT id, hours, "requestDate"::text AS "requestDate", "startTime", "endTime"
+            FROM overtime_requests
+           WHERE "userId" = ${userIdToUse}::uuid AND "requestDate" = ${requestDate}::date AND status IN ('PENDING', 'APPROVED')
+        `;
+        const duplicate = findDuplicateOvertimeEntry(entry, existing);
+        if (duplicate) {
+          return duplicateResponse(duplicate);
+        }
+
         // Create the overtime request with raw SQL (managed by Prisma model/migration in DB)
         stage = 'insert-overtime';
         await prisma.$executeRawUnsafe(
-          `INSERT INTO overtime_requests (id, "userId", hours, "requestDate", month, year, status, notes)
-           VALUES ($1::uuid, $2::uuid, $3, $4::date, $5, $6, $7, $8)`,
+          `INSERT INTO overtime_requests (id, "userId", hours, "requestDate", month, year, status, notes, "startTime", "endTime")
+           VALUES ($1::uuid, $2::uuid, $3, $4::date, $5, $6, $7, $8, $9, $10)`,
           requestId,
           userIdToUse,
           hours,
@@ -182,7 +246,9 @@ export async function POST(request: Request) {
           month,
           year,
           'PENDING',
-          notes || null
+          notes || null,
+          entry.startTime,
+          entry.endTime
         );
         console.log("Successfully created overtime request with Prisma");
       } catch (prismaError: any) {
@@ -193,6 +259,17 @@ export async function POST(request: Request) {
     } else if (db) {
       // Fallback to SQLite in development
       console.log("Using SQLite to create overtime request");
+      // The SQLite table has no start and end times, so entries compare by hours
+      stage = 'sqlite-check-duplicate';
+      const rows = db
+        .prepare(`SELECT id, hours, requestDate FROM overtime_requests WHERE userId = ? AND requestDate = ? AND status IN ('PENDING', 'APPROVED')`)
+        .all(userIdToUse, requestDate) as SqliteOvertimeRow[];
+      const existing = rows.map(row => ({ id: row.id, requestDate: row.requestDate, hours: row.hours, startTime: null, endTime: null }));
+      const duplicate = findDuplicateOvertimeEntry({ ...entry, startTime: null, endTime: null }, existing);
+      if (duplicate) {
+        return duplicateResponse(duplicate);
+      }
+
       stage = 'sqlite-insert';
       (dbOperations as any).createOvertimeRequest.run(
         requestId,
@@ -229,6 +306,9 @@ export async function POST(request: Request) {
         return NextResponse.json({ id: requestId, status: 'PENDING' }, { status: 201 });
       }
       
+      // SQLite users have no working-day setting; the email falls back to the default
+      const hoursPerDay = (user as { standardHoursPerDay?: number }).standardHoursPerDay;
+
       // Get admin email
       const adminEmail = process.env.ADMIN_EMAIL;
       
@@ -238,6 +318,7 @@ export async function POST(request: Request) {
           employeeName: user.name,
           employeeEmail: user.email,
           hours,
+          hoursPerDay,
           requestDate,
           notes: notes || undefined,
           adminEmail,
@@ -256,6 +337,7 @@ export async function POST(request: Request) {
             employeeName: user.name,
             employeeEmail: user.email,
             hours,
+            hoursPerDay,
             requestDate,
             notes: notes || undefined,
             adminEmail: admin.email,
@@ -273,6 +355,7 @@ export async function POST(request: Request) {
             employeeName: user.name,
             employeeEmail: user.email,
             hours,
+            hoursPerDay,
             requestDate,
             notes: notes || undefined,
             adminEmail: admin.email,
@@ -285,7 +368,7 @@ export async function POST(request: Request) {
       console.error(`Failed to send notification email at stage ${stage}:`, emailError);
     }
 
-    return NextResponse.json({ id: requestId, status: 'PENDING' }, { status: 201 });
+    return NextResponse.json({ id: requestId, status: 'PENDING', requestDate, hours }, { status: 201 });
   } catch (error: any) {
     console.error('Error creating overtime request:', error);
     const message = error?.message || String(error);
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { accrualService } from '@/lib/services/accrual-service';
+
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const year = searchParams.get('year');
+
+  try {
+    const history = await accrualService.getHistory(session.user.id, year ? Number(year) : undefined);
+    return NextResponse.json(history);
+  } catch (e) {
+    console.error('Error fetching accrual history:', e);
+    return NextResponse.json({ error: 'Failed to fetch accrual history' }, { status: 500 });
+  }
+}
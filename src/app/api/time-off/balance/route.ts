@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { unifiedBalanceService } from '@/lib/services/unified-balance';
 import { UnifiedTimeOffBalance } from '@/lib/types/unified-balance';
+import { workHoursService } from '@/lib/services/work-hours-service';
 
 export async function GET() {
   try {
@@ -23,6 +24,9 @@ export async function GET() {
       balance = await unifiedBalanceService.createInitialBalance(session.user.id, currentYear);
     }
 
+    // Balances are stored in days; the working-day length lets the frontend show hours
+    const workHours = await workHoursService.getForUser(session.user.id);
+
     // Return in the format expected by frontend (camelCase)
     const response = {
       id: balance.id,
@@ -32,6 +36,8 @@ export async function GET() {
       sickDays: balance.sickDays,
       paidLeave: balance.paidLeave,
       personalDays: balance.personalDays,
+      hoursPerDay: workHours.hoursPerDay,
+      unit: workHours.unit,
     };
 
     return NextResponse.json(response);
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { compTimeService } from '@/lib/services/comp-time-service';
+
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const year = Number(searchParams.get('year') || new Date().getFullYear());
+  if (!Number.isInteger(year)) {
+    return NextResponse.json({ error: 'Invalid year' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await compTimeService.getGrants(session.user.id, year));
+  } catch (e) {
+    console.error('Error fetching comp time:', e);
+    return NextResponse.json({ error: 'Failed to fetch comp time' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { holidayService } from '@/lib/services/holiday-service';
+
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const yearParam = searchParams.get('year');
+  const year = yearParam ? parseInt(yearParam, 10) : new Date().getFullYear();
+  if (isNaN(year) || year < 1900 || year > 2100) {
+    return NextResponse.json({ error: 'Invalid year' }, { status: 400 });
+  }
+
+  // Show the holidays that apply to the signed-in user's location
+  const calendar = await holidayService.getCalendarForUser(session.user.id);
+  return NextResponse.json({ year, holidays: calendar.getHolidays(year) });
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { balanceLedgerService } from '@/lib/services/balance-ledger-service';
+import { TimeOffTypeSchema } from '@/lib/validators/schemas';
+
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const year = Number(searchParams.get('year') || new Date().getFullYear());
+  const type = searchParams.get('type');
+  const parsedType = type ? TimeOffTypeSchema.safeParse(type) : null;
+  if (!Number.isInteger(year) || (parsedType && !parsedType.success)) {
+    return NextResponse.json({ error: 'Invalid year or type' }, { status: 400 });
+  }
+
+  try {
+    const ledger = await balanceLedgerService.getLedger(session.user.id, year, parsedType?.data);
+    return NextResponse.json(ledger);
+  } catch (e) {
+    console.error('Error fetching balance ledger:', e);
+    return NextResponse.json({ error: 'Failed to fetch balance ledger' }, { status: 500 });
+  }
+}
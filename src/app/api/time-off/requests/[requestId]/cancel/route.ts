@@ -0,0 +1,196 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { BalanceLedger, outstandingUsage } from '@/lib/balance-ledger';
+import { reportingService } from '@/lib/services/reporting-service';
+import { revisionService } from '@/lib/services/revision-service';
+import { CancelTimeOffRequestSchema, CancellationDecisionSchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+function formatRequest(request: {
+  id: string;
+  userId: string;
+  startDate: Date;
+  endDate: Date;
+  type: string;
+  status: string;
+  reason: string | null;
+  cancellationReason: string | null;
+  cancelledAt: Date | null;
+}) {
+  return {
+    id: request.id,
+    user_id: request.userId,
+    start_date: request.startDate.toISOString(),
+    end_date: request.endDate.toISOString(),
+    type: request.type,
+    status: request.status,
+    reason: request.reason,
+    cancellation_reason: request.cancellationReason,
+    cancelled_at: request.cancelledAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Cancels the requester's own request. Pending requests are cancelled
+ * straight away; approved ones wait for an approver to sign off.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { requestId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Cancellations not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(CancelTimeOffRequestSchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { reason } = validation.data;
+
+  try {
+    const existing = await prisma!.timeOffRequest.findUnique({ where: { id: params.requestId } });
+    if (!existing || existing.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Time off request not found' }, { status: 404 });
+    }
+
+    // The days of a changed approved request are settled when the change is decided
+    if (await revisionService.findPendingChange(existing)) {
+      return NextResponse.json(
+        { error: 'This request has a change awaiting approval. Cancel it once the change has been decided.' },
+        { status: 400 }
+      );
+    }
+
+    let status: 'CANCELLED' | 'CANCELLATION_REQUESTED';
+    if (existing.status === 'PENDING' || existing.status === 'PARTIALLY_APPROVED') {
+      status = 'CANCELLED';
+    } else if (existing.status === 'APPROVED') {
+      status = 'CANCELLATION_REQUESTED';
+    } else {
+      return NextResponse.json({ error: 'Only pending or approved requests can be cancelled' }, { status: 400 });
+    }
+
+    const updated = await prisma!.$transaction(async (tx) => {
+      const cancelled = await tx.timeOffRequest.update({
+        where: { id: existing.id },
+        data: {
+          status,
+          cancellationReason: reason ?? null,
+          ...(status === 'CANCELLED' ? { cancelledAt: new Date() } : {}),
+        },
+      });
+
+      await new AuditLogger(tx).log(session.user.id, 'UPDATE', 'REQUEST', existing.id, {
+        action: status === 'CANCELLED' ? 'CANCEL_REQUEST' : 'REQUEST_CANCELLATION',
+        previousStatus: existing.status,
+        newStatus: status,
+        reason: reason ?? null,
+      });
+      return cancelled;
+    });
+
+    return NextResponse.json(formatRequest(updated));
+  } catch (e) {
+    console.error('Error cancelling time off request:', e);
+    return NextResponse.json({ error: 'Failed to cancel time off request' }, { status: 500 });
+  }
+}
+
+/**
+ * An approver's answer to a cancellation request. Signing off gives back the
+ * days the request still holds; turning it down leaves it approved.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: { requestId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Cancellations not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(CancellationDecisionSchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const { approve, comment } = validation.data;
+
+  try {
+    const existing = await prisma!.timeOffRequest.findUnique({ where: { id: params.requestId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Time off request not found' }, { status: 404 });
+    }
+    if (!(await reportingService.canReview(session.user, existing.userId))) {
+      return NextResponse.json({ error: 'Unauthorized to update this request' }, { status: 403 });
+    }
+    if (existing.status !== 'CANCELLATION_REQUESTED') {
+      return NextResponse.json({ error: 'Cancellation has not been requested' }, { status: 400 });
+    }
+
+    const updated = await prisma!.$transaction(async (tx) => {
+      if (approve) {
+        // Give back what the request still holds in each balance. Requests
+        // approved before the ledger existed fall back to the current year.
+        const entries = await tx.balanceTransaction.findMany({ where: { requestId: existing.id } });
+        const held = entries.length > 0
+          ? outstandingUsage(entries)
+          : [{ year: new Date().getFullYear(), type: existing.type, days: existing.workingDays }];
+        const ledger = new BalanceLedger(tx);
+        for (const usage of held) {
+          await ledger.record({
+            userId: existing.userId,
+            year: usage.year,
+            type: usage.type,
+            kind: 'RESTORATION',
+            days: usage.days,
+            requestId: existing.id,
+            actorId: session.user.id,
+            reason: 'Approved request cancelled',
+          });
+        }
+      }
+
+      const decided = await tx.timeOffRequest.update({
+        where: { id: existing.id },
+        data: approve ? { status: 'CANCELLED', cancelledAt: new Date() } : { status: 'APPROVED' },
+      });
+      await new AuditLogger(tx).log(session.user.id, 'UPDATE', 'REQUEST', existing.id, {
+        action: approve ? 'APPROVE_CANCELLATION' : 'REJECT_CANCELLATION',
+        previousStatus: existing.status,
+        newStatus: decided.status,
+        comment: comment ?? null,
+      });
+      return decided;
+    });
+
+    return NextResponse.json(formatRequest(updated));
+  } catch (e) {
+    console.error('Error deciding cancellation:', e);
+    return NextResponse.json({ error: 'Failed to update cancellation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,217 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma, isPrismaEnabled } from '@/lib/db';
+import { AuditLogger } from '@/lib/audit';
+import { calculateWorkingDays } from '@/lib/date-utils';
+import { describeBlackoutConflicts } from '@/lib/blackouts';
+import { describeStaffingConflicts } from '@/lib/teams';
+import { RequestVersion, revisedFields } from '@/lib/request-revisions';
+import { holidayService } from '@/lib/services/holiday-service';
+import { workScheduleService } from '@/lib/services/work-schedule-service';
+import { blackoutService } from '@/lib/services/blackout-service';
+import { validationPolicyService } from '@/lib/services/validation-policy-service';
+import { teamService } from '@/lib/services/team-service';
+import { approvalService } from '@/lib/services/approval-service';
+import { reportingService } from '@/lib/services/reporting-service';
+import { revisionService } from '@/lib/services/revision-service';
+import { TimeOffType, ValidationError } from '@/lib/types/time-off';
+import { ReviseTimeOffRequestSchema } from '@/lib/validators/schemas';
+import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+
+/**
+ * Earlier versions of a request, for its requester and reviewers
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { requestId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json([]);
+  }
+
+  try {
+    const existing = await prisma!.timeOffRequest.findUnique({ where: { id: params.requestId } });
+    if (
+      !existing ||
+      (existing.userId !== session.user.id && !(await reportingService.canReview(session.user, existing.userId)))
+    ) {
+      return NextResponse.json({ error: 'Time off request not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(await revisionService.listRevisions(existing.id));
+  } catch (e) {
+    console.error('Error fetching request revisions:', e);
+    return NextResponse.json({ error: 'Failed to fetch request revisions' }, { status: 500 });
+  }
+}
+
+/**
+ * Changes the dates, type or reason of the requester's own request. Pending
+ * requests are edited in place; approved ones go back for approval and keep
+ * their days until the change is decided.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { requestId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!(process.env.VERCEL || (isPrismaEnabled && prisma))) {
+    return NextResponse.json({ error: 'Request changes not supported in this environment' }, { status: 400 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse('Invalid JSON in request body', 'INVALID_JSON', 400);
+  }
+
+  const validation = validateRequest(ReviseTimeOffRequestSchema, body);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const data = validation.data;
+  const type = data.type as TimeOffType;
+
+  try {
+    const existing = await prisma!.timeOffRequest.findUnique({ where: { id: params.requestId } });
+    if (!existing || existing.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Time off request not found' }, { status: 404 });
+    }
+    if (!['PENDING', 'PARTIALLY_APPROVED', 'APPROVED'].includes(existing.status)) {
+      return NextResponse.json({ error: 'Only pending or approved requests can be changed' }, { status: 400 });
+    }
+
+    const startDate = new Date(data.startDate);
+    const endDate = new Date(data.endDate);
+    startDate.setHours(0, 0, 0, 0);
+    endDate.setHours(23, 59, 59, 999);
+    const startHalf = data.startHalf ?? null;
+    const endHalf = data.endHalf ?? null;
+
+    const [calendar, schedule] = await Promise.all([
+      holidayService.getCalendarForUser(existing.userId),
+      workScheduleService.getScheduleForUser(existing.userId),
+    ]);
+    const next: RequestVersion = {
+      type,
+      startDate,
+      endDate,
+      workingDays: calculateWorkingDays(startDate, endDate, { calendar, schedule, startHalf, endHalf }),
+      startHalf,
+      endHalf,
+      reason: data.reason || null,
+    };
+
+    const changed = revisedFields(existing, next);
+    if (changed.length === 0) {
+      return NextResponse.json({ error: 'The request already has these details' }, { status: 400 });
+    }
+
+    // The new dates go through the same checks as a new request
+    const blackouts = await blackoutService.findConflicts(existing.userId, type, startDate, endDate);
+    if (blackouts.length > 0) {
+      return createErrorResponse(
+        describeBlackoutConflicts(blackouts),
+        'BLACKOUT_DATE',
+        400,
+        blackouts.map(blackout => ({
+          field: 'startDate',
+          message: `${blackout.label} runs from ${blackout.startDate} to ${blackout.endDate}`,
+          code: 'BLACKOUT_DATE'
+        }))
+      );
+    }
+
+    const policyErrors = await validationPolicyService.checkRequest(
+      existing.userId,
+      type,
+      startDate,
+      endDate,
+      { calendar, schedule, startHalf, endHalf },
+      existing.id
+    );
+    if (policyErrors.length > 0) {
+      return createErrorResponse(
+        policyErrors[0].message,
+        'POLICY_VIOLATION',
+        400,
+        policyErrors.map(error => ({
+          field: error.field ?? 'dates',
+          message: error.message,
+          code: error.code ?? 'POLICY_VIOLATION'
+        }))
+      );
+    }
+
+    const warnings: ValidationError[] = [];
+    const staffing = await teamService.checkStaffing(existing.userId, startDate, endDate, existing.id);
+    if (staffing && staffing.conflicts.length > 0) {
+      warnings.push({
+        field: 'startDate',
+        message: describeStaffingConflicts(staffing.team.name, staffing.conflicts),
+        code: 'STAFFING_LIMIT'
+      });
+    }
+
+    const steps = await approvalService.getStepsFor(type, next.workingDays);
+    let updated;
+    try {
+      updated = await prisma!.$transaction(async (tx) => {
+        const revised = await revisionService.revise(existing, next, session.user.id, steps, tx);
+        await new AuditLogger(tx).log(session.user.id, 'UPDATE', 'REQUEST', existing.id, {
+          action: 'REVISE_REQUEST',
+          previousStatus: existing.status,
+          changed,
+          before: {
+            type: existing.type,
+            startDate: existing.startDate.toISOString(),
+            endDate: existing.endDate.toISOString(),
+            workingDays: existing.workingDays,
+          },
+          after: {
+            type: next.type,
+            startDate: next.startDate.toISOString(),
+            endDate: next.endDate.toISOString(),
+            workingDays: next.workingDays,
+          },
+        });
+        return revised;
+      });
+    } catch (e) {
+      if ((e as { code?: string })?.code === 'P2002') {
+        return createErrorResponse(
+          `A ${type.toLowerCase().replace('_', ' ')} request for these exact dates already exists.`,
+          'DUPLICATE_REQUEST',
+          409
+        );
+      }
+      throw e;
+    }
+
+    return NextResponse.json({
+      id: updated.id,
+      user_id: updated.userId,
+      start_date: updated.startDate.toISOString(),
+      end_date: updated.endDate.toISOString(),
+      type: updated.type,
+      status: updated.status,
+      reason: updated.reason,
+      working_days: updated.workingDays,
+      start_half: updated.startHalf,
+      end_half: updated.endHalf,
+      warnings,
+    });
+  } catch (e) {
+    console.error('Error changing time off request:', e);
+    return NextResponse.json({ error: 'Failed to change time off request' }, { status: 500 });
+  }
+}
@@ -4,6 +4,12 @@ import { authOptions } from '@/lib/auth';
 import db, { prisma, isPrismaEnabled } from '@/lib/db';
 import { sendTimeOffRequestApprovedEmail, sendTimeOffRequestRejectedEmail } from '@/lib/email';
 import { calculateWorkingDays } from '@/lib/date-utils';
+import { holidayService } from '@/lib/services/holiday-service';
+import { BalanceLedger, outstandingUsage } from '@/lib/balance-ledger';
+import { reportingService } from '@/lib/services/reporting-service';
+import { approvalService, ReviewOutcome } from '@/lib/services/approval-service';
+import { revisionService } from '@/lib/services/revision-service';
+import { BlackoutConflictError, StaffingLimitError, TimeOffError } from '@/lib/errors/time-off';
 
 // Get a specific time off request
 export async function GET(
@@ -34,7 +40,10 @@ export async function GET(
         },
       });
       
-      if (!timeOffRequest || (timeOffRequest.userId !== session.user.id && session.user.role !== 'ADMIN')) {
+      if (
+        !timeOffRequest ||
+        (timeOffRequest.userId !== session.user.id && !(await reportingService.canReview(session.user, timeOffRequest.userId)))
+      ) {
         return NextResponse.json({ error: 'Time off request not found' }, { status: 404 });
       }
       
@@ -46,7 +55,11 @@ export async function GET(
         end_date: timeOffRequest.endDate.toISOString(),
         type: timeOffRequest.type,
         status: timeOffRequest.status,
-        reason: timeOffRequest.reason
+        reason: timeOffRequest.reason,
+        working_days: timeOffRequest.workingDays,
+        start_half: timeOffRequest.startHalf,
+        end_half: timeOffRequest.endHalf,
+        revisions: await revisionService.listRevisions(timeOffRequest.id)
       };
       
       return NextResponse.json(formattedRequest);
@@ -131,277 +144,117 @@ export async function PATCH(
         );
       }
       
-      // Check if the user is the owner of the request or an admin
-      if (existingRequest.userId !== session.user.id && session.user.role !== 'ADMIN') {
+      // Only admins and the requester's manager can change the status
+      if (!(await reportingService.canReview(session.user, existingRequest.userId))) {
         return NextResponse.json(
           { error: 'Unauthorized to update this request' },
           { status: 403 }
         );
       }
 
-      // Process approval - only update balance if we're changing from PENDING to APPROVED
-      if (status === 'APPROVED' && existingRequest.status !== 'APPROVED') {
-        console.log("Approving time off request - checking for overlapping approved requests");
-        
-        // Check if there are any other APPROVED requests for the same user with overlapping dates
-        const overlappingApproved = await prisma?.timeOffRequest.findFirst({
-          where: {
-            userId: existingRequest.userId,
-            status: 'APPROVED',
-            id: { not: requestId }, // Exclude the current request
-            OR: [
-              {
-                // Case 1: Existing request starts within the new request period
-                startDate: {
-                  gte: existingRequest.startDate,
-                  lte: existingRequest.endDate
-                }
-              },
-              {
-                // Case 2: Existing request ends within the new request period
-                endDate: {
-                  gte: existingRequest.startDate,
-                  lte: existingRequest.endDate
-                }
-              },
-              {
-                // Case 3: Existing request completely encompasses the new request
-                AND: [
-                  { startDate: { lte: existingRequest.startDate } },
-                  { endDate: { gte: existingRequest.endDate } }
-                ]
-              }
-            ]
-          }
-        });
-        
-        if (overlappingApproved) {
-          return NextResponse.json(
-            { 
-              error: `Cannot approve this request. There is already an approved ${overlappingApproved.type.toLowerCase().replace('_', ' ')} request from ${overlappingApproved.startDate.toLocaleDateString()} to ${overlappingApproved.endDate.toLocaleDateString()} that overlaps with these dates.`
-            },
-            { status: 400 }
-          );
-        }
-        
-        console.log("No overlapping approved requests found - proceeding with approval");
-        const currentYear = new Date().getFullYear();
-        
-        // Calculate the number of days for this time off request
-        const startDate = new Date(existingRequest.startDate);
-        const endDate = new Date(existingRequest.endDate);
-        const daysRequested = calculateWorkingDays(startDate, endDate);
-        
-        console.log("Request from", startDate, "to", endDate, "equals", daysRequested, "working days");
-        
-        // Validate the calculated days
-        if (isNaN(daysRequested) || daysRequested <= 0) {
-          console.error("Invalid days calculation:", daysRequested);
-          return NextResponse.json(
-            { error: 'Invalid date range or calculation error. Please check the request dates.' },
-            { status: 400 }
-          );
-        }
-        
+      // Cancellations go through the cancel route so the balance is restored
+      if (existingRequest.status === 'CANCELLED' || existingRequest.status === 'CANCELLATION_REQUESTED') {
+        return NextResponse.json(
+          { error: existingRequest.status === 'CANCELLED' ? 'This request has been cancelled' : 'Cancellation has been requested for this request' },
+          { status: 400 }
+        );
+      }
+
+      // Requests on an approval chain move one step at a time; the final
+      // approval is checked and charges the balance
+      if ((status === 'APPROVED' || status === 'REJECTED') && existingRequest.status !== status) {
+        let outcome: ReviewOutcome;
         try {
-          // Use raw SQL to handle both schema types
-          // First, try to find a balance record for this specific type (new schema)
-          if (!prisma) {
-            throw new Error("Prisma client not available");
+          outcome = await approvalService.review(existingRequest, session.user, status, {
+            comment: (status === 'REJECTED' ? body.reason : body.comment) || undefined,
+            overrideBlackout: !!body.overrideBlackout,
+            overrideStaffing: !!body.overrideStaffing,
+            overrideReason: body.overrideReason || undefined,
+          });
+        } catch (error) {
+          if (error instanceof BlackoutConflictError) {
+            return NextResponse.json(
+              { error: error.message, code: error.code, blackouts: error.blackouts },
+              { status: error.status }
+            );
           }
-          
-          const newSchemaBalance = await prisma.$queryRaw<Array<{
-            id: string;
-            totalDays: number;
-            usedDays: number;
-            remainingDays: number;
-          }>>`
-            SELECT id, "totalDays", "usedDays", "remainingDays" 
-            FROM "TimeOffBalance" 
-            WHERE "userId" = ${existingRequest.userId} 
-            AND year = ${currentYear} 
-            AND type = ${existingRequest.type}::"TimeOffType"
-            LIMIT 1
-          `;
-          
-          if (newSchemaBalance && newSchemaBalance.length > 0) {
-            // New schema logic
-            const balance = newSchemaBalance[0];
-            console.log("Using new schema - User balance for", existingRequest.type, ":", balance);
-            
-            if (isNaN(balance.remainingDays) || balance.remainingDays < daysRequested) {
-              console.error("Invalid balance or insufficient days:", balance.remainingDays, "requested:", daysRequested);
-              return NextResponse.json(
-                { error: `Not enough ${existingRequest.type.toLowerCase().replace('_', ' ')} days available. Available: ${balance.remainingDays}, Requested: ${daysRequested}` },
-                { status: 400 }
-              );
-            }
-            
-            const newUsedDays = balance.usedDays + daysRequested;
-            const newRemainingDays = balance.remainingDays - daysRequested;
-            
-            if (isNaN(newUsedDays) || isNaN(newRemainingDays)) {
-              console.error("Calculation resulted in NaN:", balance.usedDays, "+", daysRequested, "or", balance.remainingDays, "-", daysRequested);
-              return NextResponse.json(
-                { error: 'Calculation error when updating balance.' },
-                { status: 500 }
-              );
-            }
-            
-            // Update using raw SQL
-            await prisma.$executeRaw`
-              UPDATE "TimeOffBalance" 
-              SET "usedDays" = ${newUsedDays}, "remainingDays" = ${newRemainingDays}, "updatedAt" = NOW()
-              WHERE id = ${balance.id}
-            `;
-            
-            console.log(`Deducted ${daysRequested} ${existingRequest.type.toLowerCase().replace('_', ' ')} days from balance. New remaining: ${newRemainingDays}, Used: ${newUsedDays}`);
-            
-          } else {
-            // Try old schema format
-            const oldSchemaBalance = await prisma.$queryRaw<Array<{
-              id: string;
-              vacationDays: number;
-              sickDays: number;
-              paidLeave: number;
-              personalDays: number;
-            }>>`
-              SELECT id, "vacationDays", "sickDays", "paidLeave", "personalDays"
-              FROM "TimeOffBalance" 
-              WHERE "userId" = ${existingRequest.userId} 
-              AND year = ${currentYear}
-              LIMIT 1
-            `;
-            
-            if (!oldSchemaBalance || oldSchemaBalance.length === 0) {
-              return NextResponse.json(
-                { error: 'User time off balance not found' },
-                { status: 404 }
+          if (error instanceof StaffingLimitError) {
+            return NextResponse.json(
+              { error: error.message, code: error.code, conflicts: error.conflicts },
+              { status: error.status }
+            );
+          }
+          if (error instanceof TimeOffError) {
+            return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+          }
+          throw error;
+        }
+
+        const reviewedRequest = outcome.request;
+        console.log("Request updated successfully:", reviewedRequest);
+
+        // Let the requester know their request was settled; a turned-down
+        // change leaves the approved version in place
+        if (outcome.final && !(status === 'REJECTED' && outcome.change)) {
+          const user = existingRequest.user;
+
+          try {
+            if (status === 'APPROVED') {
+              await sendTimeOffRequestApprovedEmail(
+                user.email,
+                user.name,
+                existingRequest.startDate.toISOString(),
+                existingRequest.endDate.toISOString(),
+                existingRequest.type
               );
-            }
-            
-            const balance = oldSchemaBalance[0];
-            console.log("Using old schema - User balance:", balance);
-            
-            let availableDays: number;
-            let updateField: string;
-            
-            switch (existingRequest.type) {
-              case 'VACATION':
-                availableDays = balance.vacationDays || 0;
-                updateField = 'vacationDays';
-                break;
-              case 'SICK':
-                availableDays = balance.sickDays || 0;
-                updateField = 'sickDays';
-                break;
-              case 'PAID_LEAVE':
-                availableDays = balance.paidLeave || 0;
-                updateField = 'paidLeave';
-                break;
-              case 'PERSONAL':
-                availableDays = balance.personalDays || 0;
-                updateField = 'personalDays';
-                break;
-              default:
-                return NextResponse.json(
-                  { error: 'Invalid time off type' },
-                  { status: 400 }
-                );
-            }
-            
-            if (isNaN(availableDays) || availableDays < daysRequested) {
-              return NextResponse.json(
-                { error: `Not enough ${existingRequest.type.toLowerCase().replace('_', ' ')} days available. Available: ${availableDays}, Requested: ${daysRequested}` },
-                { status: 400 }
+              console.log("Approval email sent to:", user.email);
+            } else {
+              await sendTimeOffRequestRejectedEmail(
+                user.email,
+                user.name,
+                existingRequest.startDate.toISOString(),
+                existingRequest.endDate.toISOString(),
+                existingRequest.type,
+                body.reason || undefined
               );
+              console.log("Rejection email sent to:", user.email);
             }
-            
-            const newBalance = availableDays - daysRequested;
-            
-            // Update using raw SQL with dynamic field name
-            await prisma.$executeRaw`
-              UPDATE "TimeOffBalance" 
-              SET "${updateField}" = ${newBalance}, "updatedAt" = NOW()
-              WHERE id = ${balance.id}
-            `;
-            
-            console.log(`Deducted ${daysRequested} ${existingRequest.type.toLowerCase().replace('_', ' ')} days from balance. New balance: ${newBalance}`);
+          } catch (emailError) {
+            console.error("Failed to send status notification email:", emailError);
+            // Don't fail the request if email fails
           }
-        } catch (error) {
-          console.error("Error updating balance:", error);
-          return NextResponse.json(
-            { error: 'Failed to update time off balance' },
-            { status: 500 }
-          );
         }
+
+        return NextResponse.json({
+          id: reviewedRequest.id,
+          user_id: reviewedRequest.userId,
+          start_date: reviewedRequest.startDate.toISOString(),
+          end_date: reviewedRequest.endDate.toISOString(),
+          type: reviewedRequest.type,
+          status: reviewedRequest.status,
+          reason: reviewedRequest.reason
+        });
       }
-      
-      // Update the request status
-      const updatedRequest = await prisma?.timeOffRequest.update({
+
+      if (status === 'PENDING' && existingRequest.status !== 'PENDING') {
+        await approvalService.resetChain(requestId);
+      }
+
+      const updatedRequest = await prisma!.timeOffRequest.update({
         where: { id: requestId },
         data: { status },
       });
-      
-      // Get the final updated request with user info for email
-      const finalRequest = await prisma?.timeOffRequest.findUnique({
-        where: { id: requestId },
-        include: {
-          user: {
-            select: {
-              id: true,
-              email: true,
-              name: true,
-            }
-          }
-        }
-      });
-      
-      console.log("Request updated successfully:", finalRequest);
-      
-      // Send email notification if the status is updated by an admin
-      if (session.user.role === 'ADMIN' && existingRequest.status !== status && finalRequest?.user) {
-        const user = finalRequest.user;
-        
-        try {
-          if (status === 'APPROVED') {
-            await sendTimeOffRequestApprovedEmail(
-              user.email,
-              user.name,
-              existingRequest.startDate.toISOString(),
-              existingRequest.endDate.toISOString(),
-              existingRequest.type
-            );
-            console.log("Approval email sent to:", user.email);
-          } else if (status === 'REJECTED') {
-            await sendTimeOffRequestRejectedEmail(
-              user.email,
-              user.name,
-              existingRequest.startDate.toISOString(),
-              existingRequest.endDate.toISOString(),
-              existingRequest.type,
-              body.reason || undefined
-            );
-            console.log("Rejection email sent to:", user.email);
-          }
-        } catch (emailError) {
-          console.error("Failed to send status notification email:", emailError);
-          // Don't fail the request if email fails
-        }
-      }
-      
+
       // Transform to match expected format
-      const formattedRequest = {
-        id: finalRequest?.id,
-        user_id: finalRequest?.userId,
-        start_date: finalRequest?.startDate.toISOString(),
-        end_date: finalRequest?.endDate.toISOString(),
-        type: finalRequest?.type,
-        status: finalRequest?.status,
-        reason: finalRequest?.reason
-      };
-      
-      return NextResponse.json(formattedRequest);
+      return NextResponse.json({
+        id: updatedRequest.id,
+        user_id: updatedRequest.userId,
+        start_date: updatedRequest.startDate.toISOString(),
+        end_date: updatedRequest.endDate.toISOString(),
+        type: updatedRequest.type,
+        status: updatedRequest.status,
+        reason: updatedRequest.reason
+      });
       
     } else if (db) {
       console.log("Using SQLite to update time off request");
@@ -424,8 +277,8 @@ export async function PATCH(
         );
       }
 
-      // Check if the user is the owner of the request or an admin
-      if (existingRequest.user_id !== session.user.id && session.user.role !== 'ADMIN') {
+      // Only admins and the requester's manager can change the status
+      if (!(await reportingService.canReview(session.user, existingRequest.user_id))) {
         return NextResponse.json(
           { error: 'Unauthorized to update this request' },
           { status: 403 }
@@ -478,7 +331,8 @@ export async function PATCH(
         // Calculate the number of days for this time off request
         const startDate = new Date(existingRequest.start_date);
         const endDate = new Date(existingRequest.end_date);
-        const daysRequested = calculateWorkingDays(startDate, endDate);
+        const calendar = await holidayService.getCalendarForUser(existingRequest.user_id);
+        const daysRequested = calculateWorkingDays(startDate, endDate, { calendar });
         
         console.log("Request from", startDate, "to", endDate, "equals", daysRequested, "working days");
         
@@ -636,8 +490,8 @@ export async function PATCH(
       // Get the updated request
       const updatedRequest = db.prepare(checkQuery).get(requestId);
 
-      // Send email notification if the status is updated by an admin
-      if (session.user.role === 'ADMIN' && existingRequest.status !== status) {
+      // Let the requester know their request was reviewed
+      if (existingRequest.status !== status) {
         // Get user details
         const userQuery = `SELECT * FROM users WHERE id = ?`;
         const user = db.prepare(userQuery).get(existingRequest.user_id) as {
@@ -713,50 +567,35 @@ export async function DELETE(
         return NextResponse.json({ error: 'Time off request not found' }, { status: 404 });
       }
 
-      // If the request was approved, we need to restore the balance
-      if (timeOffRequest.status === 'APPROVED') {
-        const currentYear = new Date().getFullYear();
-        const userBalance = await prisma?.timeOffBalance.findFirst({
-          where: {
-            userId: timeOffRequest.userId,
-            year: currentYear
-          }
-        });
-
-        if (userBalance) {
-          // Calculate the number of days to restore
-          const startDate = new Date(timeOffRequest.startDate);
-          const endDate = new Date(timeOffRequest.endDate);
-          const daysToRestore = calculateWorkingDays(startDate, endDate);
-
-          // Restore the appropriate balance based on request type
-          if (timeOffRequest.type === 'VACATION') {
-            await prisma?.timeOffBalance.update({
-              where: { id: userBalance.id },
-              data: { vacationDays: userBalance.vacationDays + daysToRestore }
-            });
-          } else if (timeOffRequest.type === 'SICK') {
-            await prisma?.timeOffBalance.update({
-              where: { id: userBalance.id },
-              data: { sickDays: userBalance.sickDays + daysToRestore }
-            });
-          } else if (timeOffRequest.type === 'PAID_LEAVE') {
-            await prisma?.timeOffBalance.update({
-              where: { id: userBalance.id },
-              data: { paidLeave: userBalance.paidLeave + daysToRestore }
-            });
-          } else if (timeOffRequest.type === 'PERSONAL') {
-            await prisma?.timeOffBalance.update({
-              where: { id: userBalance.id },
-              data: { personalDays: userBalance.personalDays + daysToRestore }
+      await prisma!.$transaction(async (tx) => {
+        // Time off that was granted, including approved time whose
+        // cancellation is still pending, goes back to the balances it holds.
+        // Requests approved before the ledger existed fall back to their
+        // working days in the current year.
+        if (timeOffRequest.status === 'APPROVED' || timeOffRequest.status === 'CANCELLATION_REQUESTED') {
+          const entries = await tx.balanceTransaction.findMany({ where: { requestId } });
+          const held = entries.length > 0
+            ? outstandingUsage(entries)
+            : [{ year: new Date().getFullYear(), type: timeOffRequest.type, days: timeOffRequest.workingDays }];
+          const ledger = new BalanceLedger(tx);
+          for (const usage of held) {
+            await ledger.record({
+              userId: timeOffRequest.userId,
+              year: usage.year,
+              type: usage.type,
+              kind: 'RESTORATION',
+              days: usage.days,
+              requestId,
+              actorId: session.user.id,
+              reason: 'Approved request deleted',
             });
           }
         }
-      }
 
-      // Delete the request
-      await prisma?.timeOffRequest.delete({
-        where: { id: requestId }
+        // Delete the request
+        await tx.timeOffRequest.delete({
+          where: { id: requestId }
+        });
       });
 
     } else if (db) {
@@ -782,7 +621,9 @@ export async function DELETE(
           // Calculate the number of days to restore
           const startDate = new Date(timeOffRequest.start_date);
           const endDate = new Date(timeOffRequest.end_date);
-          const daysToRestore = calculateWorkingDays(startDate, endDate);
+          // SQLite has no holiday calendars or work schedules; use the built-in rules
+          const calendar = await holidayService.getCalendar();
+          const daysToRestore = calculateWorkingDays(startDate, endDate, { calendar });
 
           // Restore the appropriate balance based on request type
           if (timeOffRequest.type === 'VACATION') {
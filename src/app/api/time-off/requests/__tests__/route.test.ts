@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+interface StoredRequest {
+  id: string;
+  userId: string;
+  type: string;
+  startDate: Date;
+  endDate: Date;
+  startHalf: string | null;
+  endHalf: string | null;
+  status: string;
+}
+
+type RequestWhere = Omit<StoredRequest, 'id' | 'status' | 'startHalf' | 'endHalf'> & {
+  status?: { in: string[] };
+};
+type RequestData = Omit<StoredRequest, 'id'>;
+
+const store: StoredRequest[] = [];
+
+const isActive = (request: StoredRequest) => !['CANCELLED', 'REJECTED'].includes(request.status);
+const samePeriod = (a: Omit<RequestWhere, 'status'>, b: StoredRequest) =>
+  a.userId === b.userId &&
+  a.type === b.type &&
+  a.startDate.getTime() === b.startDate.getTime() &&
+  a.endDate.getTime() === b.endDate.getTime();
+const sameHalves = (a: RequestData, b: StoredRequest) =>
+  a.startHalf === b.startHalf && a.endHalf === b.endHalf;
+
+// Stands in for Postgres, including the unique index on active requests
+const mockPrisma = vi.hoisted(() => ({
+  timeOffRequest: {
+    findMany: vi.fn(),
+    create: vi.fn(),
+  },
+  user: {
+    findMany: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/db', () => ({
+  default: null,
+  prisma: mockPrisma,
+  isPrismaEnabled: true,
+  dbOperations: null,
+}));
+vi.mock('next-auth/next', () => ({
+  getServerSession: vi.fn(async () => ({
+    user: { id: 'user-1', name: 'Test User', email: 'test@example.com', role: 'EMPLOYEE' },
+  })),
+}));
+vi.mock('@/lib/auth', () => ({ authOptions: {} }));
+vi.mock('@/lib/email', () => ({
+  sendTimeOffRequestSubmittedEmail: vi.fn(),
+  sendTimeOffRequestAdminNotification: vi.fn(),
+}));
+vi.mock('@/lib/services/holiday-service', () => ({
+  holidayService: { getCalendarForUser: vi.fn(async () => undefined) },
+}));
+vi.mock('@/lib/services/work-schedule-service', () => ({
+  workScheduleService: { getScheduleForUser: vi.fn(async () => undefined) },
+}));
+vi.mock('@/lib/services/validation-policy-service', () => ({
+  validationPolicyService: { checkRequest: vi.fn(async () => []) },
+}));
+vi.mock('@/lib/services/blackout-service', () => ({
+  blackoutService: { findConflicts: vi.fn(async () => []) },
+}));
+vi.mock('@/lib/services/approval-service', () => ({
+  approvalService: { getStepsFor: vi.fn(async () => []) },
+}));
+vi.mock('@/lib/services/team-service', () => ({
+  teamService: { checkStaffing: vi.fn(async () => null) },
+}));
+
+import { POST } from '../route';
+
+const book = (body: Record<string, unknown>) =>
+  POST(new NextRequest('http://localhost/api/time-off/requests', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  }));
+
+describe('POST /api/time-off/requests', () => {
+  beforeEach(() => {
+    store.length = 0;
+    vi.clearAllMocks();
+
+    const matches = (where: RequestWhere) => (request: StoredRequest) =>
+      samePeriod(where, request) &&
+      (!where.status?.in || where.status.in.includes(request.status));
+    mockPrisma.timeOffRequest.findMany.mockImplementation(async ({ where }: { where: RequestWhere }) =>
+      store.filter(matches(where))
+    );
+    mockPrisma.timeOffRequest.create.mockImplementation(async ({ data }: { data: RequestData }) => {
+      if (store.some(request => isActive(request) && samePeriod(data, request) && sameHalves(data, request))) {
+        throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+      }
+      const request = { ...data, id: `request-${store.length + 1}` };
+      store.push(request);
+      return request;
+    });
+    mockPrisma.user.findMany.mockResolvedValue([]);
+  });
+
+  it('should turn down a second active request for the same dates', async () => {
+    const first = await book({ type: 'VACATION', startDate: '2026-11-02', endDate: '2026-11-06' });
+    expect(first.status).toBe(200);
+
+    const second = await book({ type: 'VACATION', startDate: '2026-11-02', endDate: '2026-11-06' });
+    expect(second.status).toBe(400);
+    expect((await second.json()).code).toBe('DUPLICATE_REQUEST');
+  });
+
+  it('should let the same dates be booked again once the request is cancelled', async () => {
+    const first = await book({ type: 'VACATION', startDate: '2026-11-02', endDate: '2026-11-06' });
+    expect(first.status).toBe(200);
+    store[0].status = 'CANCELLED';
+
+    const again = await book({ type: 'VACATION', startDate: '2026-11-02', endDate: '2026-11-06' });
+    expect(again.status).toBe(200);
+    expect(store.filter(isActive)).toHaveLength(1);
+  });
+
+  it('should let the morning and afternoon of the same day be booked separately', async () => {
+    const morning = await book({ type: 'VACATION', startDate: '2026-11-02', endDate: '2026-11-02', startHalf: 'AM' });
+    expect(morning.status).toBe(200);
+
+    const afternoon = await book({ type: 'VACATION', startDate: '2026-11-02', endDate: '2026-11-02', startHalf: 'PM' });
+    expect(afternoon.status).toBe(200);
+    expect(store.filter(isActive)).toHaveLength(2);
+
+    const again = await book({ type: 'VACATION', startDate: '2026-11-02', endDate: '2026-11-02', startHalf: 'AM' });
+    expect(again.status).toBe(400);
+    expect((await again.json()).code).toBe('DUPLICATE_REQUEST');
+  });
+});
@@ -9,9 +9,21 @@ import {
 import db, { prisma, isPrismaEnabled, dbOperations } from '@/lib/db';
 import { v4 as uuidv4 } from 'uuid';
 import Debug from 'debug';
-import { calculateWorkingDays } from '@/lib/date-utils';
-import { CreateTimeOffRequestSchema } from '@/lib/validators/schemas';
-import { validateRequest, createErrorResponse } from '@/lib/validators/middleware';
+import { calculateWorkingDays, isComplementaryHalfDay } from '@/lib/date-utils';
+import { holidayService } from '@/lib/services/holiday-service';
+import { workScheduleService } from '@/lib/services/work-schedule-service';
+import { validationPolicyService } from '@/lib/services/validation-policy-service';
+import { blackoutService } from '@/lib/services/blackout-service';
+import { approvalService } from '@/lib/services/approval-service';
+import { teamService } from '@/lib/services/team-service';
+import { describeBlackoutConflicts } from '@/lib/blackouts';
+import { describeStaffingConflicts } from '@/lib/teams';
+import { ValidationError } from '@/lib/types/time-off';
+import { TimeOffType } from '@/lib/types/time-off';
+import { buildRequestOrderBy, buildRequestWhere } from '@/lib/request-search';
+import { describePage, pageWindow, wantsPagination } from '@/lib/pagination';
+import { CreateTimeOffRequestSchema, TimeOffRequestFilterSchema } from '@/lib/validators/schemas';
+import { validateRequest, validateQueryParams, createErrorResponse } from '@/lib/validators/middleware';
 
 interface TimeOffBalance {
   vacationDays: number;
@@ -19,7 +31,12 @@ interface TimeOffBalance {
   paidLeave: number;
 }
 
-export async function GET() {
+/**
+ * Lists the caller's own requests, or the review queue for admins. Accepts
+ * the same filters as the admin list; pass page or limit to get a page with
+ * its total.
+ */
+export async function GET(request: NextRequest) {
   const session = await getServerSession(authOptions);
 
   if (!session?.user) {
@@ -34,21 +51,42 @@ export async function GET() {
   if (!userId) {
     return createErrorResponse('User ID not found in session', 'MISSING_USER_ID', 400);
   }
+
+  const { searchParams } = new URL(request.url);
+  const validation = validateQueryParams(TimeOffRequestFilterSchema, searchParams);
+  if (!validation.success) {
+    return createErrorResponse('Validation failed', 'VALIDATION_ERROR', 400, validation.errors);
+  }
+  const filter = validation.data;
+  const paginate = wantsPagination(searchParams);
+  let total: number | undefined;
   
   try {
-    let requests;
+    let requests: unknown[] | undefined;
     
     // Use Prisma in production/Vercel environment
     if (process.env.VERCEL || isPrismaEnabled) {
       console.log("Using Prisma to fetch time off requests");
       if (userRole === 'ADMIN') {
-        requests = await prisma?.timeOffRequest.findMany({
-          where: { status: 'PENDING' },
-          include: { user: { select: { name: true, email: true } } }
-        });
+        const where = buildRequestWhere(filter);
+        // Without a status filter admins get the review queue
+        if (!filter.status) {
+          where.status = { in: ['PENDING', 'PARTIALLY_APPROVED', 'CANCELLATION_REQUESTED'] };
+        }
+        const [adminRequests, count] = await Promise.all([
+          prisma!.timeOffRequest.findMany({
+            where,
+            include: { user: { select: { name: true, email: true } } },
+            orderBy: buildRequestOrderBy(filter),
+            ...(paginate ? pageWindow(filter.page, filter.limit) : {}),
+          }),
+          paginate ? prisma!.timeOffRequest.count({ where }) : Promise.resolve(undefined),
+        ]);
+        total = count;
+        const progress = await approvalService.getProgress(adminRequests.map(req => req.id));
         
         // Transform to match the expected format
-        requests = requests?.map(req => ({
+        requests = adminRequests.map(req => ({
           id: req.id,
           user_id: req.userId,
           start_date: req.startDate.toISOString(),
@@ -56,23 +94,42 @@ export async function GET() {
           type: req.type,
           status: req.status,
           reason: req.reason,
+          working_days: req.workingDays,
+          start_half: req.startHalf,
+          end_half: req.endHalf,
+          cancellation_reason: req.cancellationReason,
           user_name: req.user.name,
-          user_email: req.user.email
+          user_email: req.user.email,
+          approval_steps: progress[req.id] ?? []
         }));
       } else {
-        const userRequests = await prisma?.timeOffRequest.findMany({
-          where: { userId }
-        });
+        // Everyone else only ever sees their own requests
+        const where = buildRequestWhere({ ...filter, userId, search: undefined });
+        const [userRequests, count] = await Promise.all([
+          prisma!.timeOffRequest.findMany({
+            where,
+            orderBy: buildRequestOrderBy(filter),
+            ...(paginate ? pageWindow(filter.page, filter.limit) : {}),
+          }),
+          paginate ? prisma!.timeOffRequest.count({ where }) : Promise.resolve(undefined),
+        ]);
+        total = count;
+        const progress = await approvalService.getProgress(userRequests.map(req => req.id));
         
         // Transform to match the expected format
-        requests = userRequests?.map(req => ({
+        requests = userRequests.map(req => ({
           id: req.id,
           user_id: req.userId,
           start_date: req.startDate.toISOString(),
           end_date: req.endDate.toISOString(),
           type: req.type,
           status: req.status,
-          reason: req.reason
+          reason: req.reason,
+          working_days: req.workingDays,
+          start_half: req.startHalf,
+          end_half: req.endHalf,
+          cancellation_reason: req.cancellationReason,
+          approval_steps: progress[req.id] ?? []
         }));
       }
     } else if (db) {
@@ -111,6 +168,15 @@ export async function GET() {
     }
     
     console.log('Time off requests from DB:', JSON.stringify(requests || [], null, 2));
+    if (paginate) {
+      // The SQLite fallback has no paging, so its full list is paged here
+      const list: unknown[] = requests || [];
+      const { skip, take } = pageWindow(filter.page, filter.limit);
+      return NextResponse.json({
+        requests: total === undefined ? list.slice(skip, skip + take) : list,
+        pagination: describePage(total ?? list.length, filter.page, filter.limit),
+      });
+    }
     return new NextResponse(JSON.stringify(requests || []));
   } catch (error) {
     console.error("Error fetching time off requests:", error);
@@ -163,6 +229,8 @@ export async function POST(req: NextRequest) {
     debug('Effective userId:', effectiveUserId);
     
     let id: string;
+    // Problems the approver will have to override, returned with the new request
+    const warnings: ValidationError[] = [];
     
     if (process.env.VERCEL || isPrismaEnabled) {
       debug('Using Prisma to create time off request');
@@ -175,18 +243,23 @@ export async function POST(req: NextRequest) {
       startDateObj.setHours(0, 0, 0, 0);
       endDateObj.setHours(23, 59, 59, 999);
       
-      // Check for existing request with same parameters
-      const existingRequest = await prisma?.timeOffRequest.findFirst({
+      // Check for existing request with same parameters; the other half of
+      // the same day is a different request
+      const samePeriod = await prisma!.timeOffRequest.findMany({
         where: {
           userId: effectiveUserId,
           startDate: startDateObj,
           endDate: endDateObj,
           type: validatedData.type,
           status: {
-            in: ['PENDING', 'APPROVED']  // Don't allow if there's already a pending or approved request
+            in: ['PENDING', 'PARTIALLY_APPROVED', 'APPROVED', 'CANCELLATION_REQUESTED']  // Don't allow if there's already a pending or approved request
           }
         }
       });
+      const existingRequest = samePeriod.find(other => !isComplementaryHalfDay(
+        { startDate: startDateObj, endDate: endDateObj, startHalf: validatedData.startHalf, endHalf: validatedData.endHalf },
+        other
+      ));
       
       if (existingRequest) {
         return createErrorResponse(
@@ -197,7 +270,71 @@ export async function POST(req: NextRequest) {
       }
       
       // Calculate working days
-      const workingDays = calculateWorkingDays(startDateObj, endDateObj);
+      const [calendar, schedule] = await Promise.all([
+        holidayService.getCalendarForUser(effectiveUserId),
+        workScheduleService.getScheduleForUser(effectiveUserId),
+      ]);
+      const workingDays = calculateWorkingDays(startDateObj, endDateObj, {
+        calendar,
+        schedule,
+        startHalf: validatedData.startHalf,
+        endHalf: validatedData.endHalf
+      });
+      
+      // Blackouts can only be lifted by an admin granting an exception
+      const blackouts = await blackoutService.findConflicts(
+        effectiveUserId,
+        validatedData.type as TimeOffType,
+        startDateObj,
+        endDateObj
+      );
+      if (blackouts.length > 0) {
+        return createErrorResponse(
+          describeBlackoutConflicts(blackouts),
+          'BLACKOUT_DATE',
+          400,
+          blackouts.map(blackout => ({
+            field: 'startDate',
+            message: `${blackout.label} runs from ${blackout.startDate} to ${blackout.endDate}`,
+            code: 'BLACKOUT_DATE'
+          }))
+        );
+      }
+      
+      // Apply the notice, length and count limits for this type
+      const policyErrors = await validationPolicyService.checkRequest(
+        effectiveUserId,
+        validatedData.type as TimeOffType,
+        startDateObj,
+        endDateObj,
+        { calendar, schedule, startHalf: validatedData.startHalf, endHalf: validatedData.endHalf }
+      );
+      if (policyErrors.length > 0) {
+        return createErrorResponse(
+          policyErrors[0].message,
+          'POLICY_VIOLATION',
+          400,
+          policyErrors.map(error => ({
+            field: error.field ?? 'dates',
+            message: error.message,
+            code: error.code ?? 'POLICY_VIOLATION'
+          }))
+        );
+      }
+      
+      // Going over the team's staffing limit doesn't block the request, but
+      // approving it will need an override
+      const staffing = await teamService.checkStaffing(effectiveUserId, startDateObj, endDateObj);
+      if (staffing && staffing.conflicts.length > 0) {
+        warnings.push({
+          field: 'startDate',
+          message: describeStaffingConflicts(staffing.team.name, staffing.conflicts),
+          code: 'STAFFING_LIMIT'
+        });
+      }
+      
+      // Long or sensitive requests may need more than one sign-off
+      const approvalSteps = await approvalService.getStepsFor(validatedData.type as TimeOffType, workingDays);
       
       try {
         const request = await prisma?.timeOffRequest.create({
@@ -208,7 +345,12 @@ export async function POST(req: NextRequest) {
             type: validatedData.type,
             status: 'PENDING',
             reason: validatedData.reason || null,
-            workingDays
+            workingDays,
+            startHalf: validatedData.startHalf ?? null,
+            endHalf: validatedData.endHalf ?? null,
+            ...(approvalSteps.length > 0
+              ? { approvals: { create: approvalSteps.map((role, index) => ({ step: index + 1, role })) } }
+              : {})
           },
           include: {
             user: true
@@ -272,7 +414,13 @@ export async function POST(req: NextRequest) {
       }
       
       // Calculate working days
-      const workingDays = calculateWorkingDays(startDateObj, endDateObj);
+      const calendar = await holidayService.getCalendarForUser(effectiveUserId);
+      // The SQLite table has no half-day columns, so half days only show up in working_days
+      const workingDays = calculateWorkingDays(startDateObj, endDateObj, {
+        calendar,
+        startHalf: validatedData.startHalf,
+        endHalf: validatedData.endHalf
+      });
       
       try {
         const statement = db.prepare(`
@@ -377,7 +525,7 @@ export async function POST(req: NextRequest) {
       // Don't fail the request if email fails
     }
     
-    return NextResponse.json({ success: true, id });
+    return NextResponse.json({ success: true, id, warnings });
   } catch (error) {
     console.error("Error creating time off request:", error);
     return createErrorResponse(`Error creating time off request: ${error}`, 'INTERNAL_ERROR', 500);
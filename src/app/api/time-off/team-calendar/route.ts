@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { teamService } from '@/lib/services/team-service';
+import { toDateKey } from '@/lib/holidays';
+
+// Longest range one call can cover, in days
+const MAX_RANGE_DAYS = 92;
+
+/**
+ * Who is off each day of a range for a team. Employees see their own team;
+ * managers and admins can pass any teamId.
+ */
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const fromStr = searchParams.get('from') || toDateKey(new Date());
+  const from = new Date(`${fromStr}T00:00:00.000Z`);
+  const to = new Date(`${searchParams.get('to') || fromStr}T00:00:00.000Z`);
+  if (!searchParams.get('to')) {
+    to.setUTCDate(to.getUTCDate() + 13);
+  }
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return NextResponse.json({ error: 'Invalid date' }, { status: 400 });
+  }
+  if (to < from) {
+    return NextResponse.json({ error: 'End date must be on or after start date' }, { status: 400 });
+  }
+  if ((to.getTime() - from.getTime()) / 86400000 >= MAX_RANGE_DAYS) {
+    return NextResponse.json({ error: `Range cannot exceed ${MAX_RANGE_DAYS} days` }, { status: 400 });
+  }
+
+  try {
+    const ownTeamId = await teamService.getTeamIdForUser(session.user.id);
+    const teamId = searchParams.get('teamId') || ownTeamId;
+    if (!teamId) {
+      return NextResponse.json({ error: 'You are not on a team' }, { status: 404 });
+    }
+    if (teamId !== ownTeamId && session.user.role !== 'ADMIN' && session.user.role !== 'MANAGER') {
+      return NextResponse.json({ error: 'Unauthorized to view this team' }, { status: 403 });
+    }
+
+    const team = await teamService.getTeam(teamId);
+    if (!team) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+
+    const days = await teamService.getTeamCalendar(team.id, from, to);
+    return NextResponse.json({ team, from: toDateKey(from), to: toDateKey(to), days });
+  } catch (e) {
+    console.error('Error fetching team calendar:', e);
+    return NextResponse.json({ error: 'Failed to fetch team calendar' }, { status: 500 });
+  }
+}
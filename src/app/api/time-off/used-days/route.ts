@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma, isPrismaEnabled } from '@/lib/db';
 import { calculateWorkingDays } from '@/lib/date-utils';
+import { holidayService } from '@/lib/services/holiday-service';
+import { workScheduleService } from '@/lib/services/work-schedule-service';
 
 export async function GET(request: NextRequest) {
   try {
@@ -36,7 +38,7 @@ export async function GET(request: NextRequest) {
       const approvedRequests = await prisma.timeOffRequest.findMany({
         where: {
           userId: userId,
-          status: 'APPROVED',
+          status: { in: ['APPROVED', 'CANCELLATION_REQUESTED'] },
           startDate: {
             gte: startOfYear
           },
@@ -47,10 +49,15 @@ export async function GET(request: NextRequest) {
       });
       
       // Calculate used days for each type
+      const [calendar, schedule] = await Promise.all([
+        holidayService.getCalendarForUser(userId),
+        workScheduleService.getScheduleForUser(userId),
+      ]);
       for (const request of approvedRequests) {
         const daysUsed = calculateWorkingDays(
           new Date(request.startDate), 
-          new Date(request.endDate)
+          new Date(request.endDate),
+          { calendar, schedule, startHalf: request.startHalf, endHalf: request.endHalf }
         );
         
         // Use string comparison instead of enum to avoid type errors
@@ -3,13 +3,24 @@
 import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
+import { getHolidaysForYear } from '@/lib/holidays';
+import { BalanceUnit, DEFAULT_HOURS_PER_DAY, daysToHours, hoursToDays } from '@/lib/work-hours';
 import { DashboardErrorBoundary } from '@/components/DashboardErrorBoundary';
+import { ApprovalStep, describeApprovalProgress } from '@/lib/approval-chains';
+import {
+  describeOvertimeSubmissionRule,
+  hoursBetween,
+  localDateKey,
+  OvertimeSubmissionRule,
+} from '@/lib/overtime-entries';
 
 interface TimeOffBalance {
   vacationDays: number;
   sickDays: number;
   paidLeave: number;
   personalDays: number;
+  hoursPerDay?: number;
+  unit?: BalanceUnit;
 }
 
 interface TimeOffRequest {
@@ -18,21 +29,69 @@ interface TimeOffRequest {
   start_date: string;
   end_date: string;
   type: 'VACATION' | 'SICK' | 'PAID_LEAVE' | 'PERSONAL';
-  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  status: 'PENDING' | 'PARTIALLY_APPROVED' | 'APPROVED' | 'REJECTED' | 'CANCELLATION_REQUESTED' | 'CANCELLED';
   reason?: string;
+  start_half?: 'AM' | 'PM' | null;
+  end_half?: 'AM' | 'PM' | null;
+  approval_steps?: ApprovalStep[];
   user_name?: string;
   created_at?: string;
   updated_at?: string;
 }
 
+// An earlier version of a request, as returned with the request's details
+interface RequestRevision {
+  id: string;
+  revision: number;
+  type: string;
+  startDate: string;
+  endDate: string;
+  workingDays: number;
+  startHalf: 'AM' | 'PM' | null;
+  endHalf: 'AM' | 'PM' | null;
+  reason: string | null;
+  status: string;
+  editedByName: string | null;
+  createdAt: string;
+}
+
 interface OvertimeRequest {
   id: string;
   hours: number;
   request_date: string;
   month: number;
   year: number;
-  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  // Cancelled when an admin reverses the approval
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
   notes?: string;
+  startTime?: string | null;
+  endTime?: string | null;
+  // Set once approved, under the overtime policy
+  creditedDays?: number | null;
+  payoutHours?: number | null;
+  hours_per_day?: number;
+  reversalReason?: string | null;
+}
+
+interface AccrualEntry {
+  id: string;
+  policyName: string;
+  type: string;
+  period: string;
+  days: number;
+  prorated: boolean;
+}
+
+// Comp time credited from one approved overtime request
+interface CompTimeGrant {
+  id: string;
+  type: string;
+  days: number;
+  remainingDays: number;
+  grantedOn: string;
+  expiresOn: string | null;
+  expiredDays: number;
+  expiredAt: string | null;
 }
 
 interface UsedDays {
@@ -117,26 +176,61 @@ const formatDateWithValidation = (dateString: string): { display: string; isVali
   }
 };
 
+// Good Friday moves every year, so compute it for the current year
+const getGoodFridayLabel = (): string => {
+  const goodFriday = getHolidaysForYear(new Date().getFullYear()).find(h => h.name === 'Good Friday');
+  if (!goodFriday) return 'date varies by year';
+  return new Date(`${goodFriday.date}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
 export default function DashboardPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
+  const goodFridayLabel = getGoodFridayLabel();
   const [balance, setBalance] = useState<TimeOffBalance | null>(null);
   const [usedDays, setUsedDays] = useState<UsedDays | null>(null);
   const [requests, setRequests] = useState<TimeOffRequest[]>([]);
   const [overtimeRequests, setOvertimeRequests] = useState<OvertimeRequest[]>([]);
+  const [accruals, setAccruals] = useState<AccrualEntry[]>([]);
+  const [compTime, setCompTime] = useState<CompTimeGrant[]>([]);
   const [newRequest, setNewRequest] = useState({
     startDate: '',
     endDate: '',
     type: 'VACATION',
     reason: '',
+    startHalf: '',
+    endHalf: '',
   });
+  // The request being changed through the form, if any
+  const [editingRequest, setEditingRequest] = useState<TimeOffRequest | null>(null);
+  const [history, setHistory] = useState<{ request: TimeOffRequest; revisions: RequestRevision[] } | null>(null);
+  // Balances are stored in days; hourly staff see them converted at their working-day length
+  const hoursPerDay = balance?.hoursPerDay ?? DEFAULT_HOURS_PER_DAY;
+  const showHours = balance?.unit === 'HOURS';
+  const balanceUnitLabel = showHours ? 'hours' : 'days';
+  const toBalanceUnit = (days: number) =>
+    showHours ? Math.round(daysToHours(days, hoursPerDay) * 100) / 100 : days;
+  const isMultiDayRequest =
+    !!newRequest.startDate && !!newRequest.endDate && newRequest.startDate !== newRequest.endDate;
   const [newOvertimeRequest, setNewOvertimeRequest] = useState({
     hours: 0,
     notes: '',
+    requestDate: localDateKey(new Date()),
+    startTime: '',
+    endTime: '',
   });
+  // Hours follow from the times when both are entered
+  const overtimeHours = newOvertimeRequest.startTime && newOvertimeRequest.endTime
+    ? hoursBetween(newOvertimeRequest.startTime, newOvertimeRequest.endTime)
+    : newOvertimeRequest.hours;
   const [overtimeError, setOvertimeError] = useState('');
   const [overtimeToast, setOvertimeToast] = useState<string | null>(null);
-  // const [isLastWeek, setIsLastWeek] = useState(false); // Removed last week constraint
+  const [overtimeRule, setOvertimeRule] = useState<OvertimeSubmissionRule | null>(null);
   const [isSubmittingOvertime, setIsSubmittingOvertime] = useState(false);
 
   useEffect(() => {
@@ -147,19 +241,12 @@ export default function DashboardPage() {
       fetchRequests();
       fetchOvertimeRequests();
       fetchUsedDays();
-      // checkIfLastWeekOfMonth(); // Removed last week constraint
+      fetchAccruals();
+      fetchCompTime();
+      fetchOvertimeRule();
     }
   }, [session, status]);
 
-  /*
-  const checkIfLastWeekOfMonth = () => {
-    const today = new Date();
-    const lastDayOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0);
-    const daysUntilEndOfMonth = lastDayOfMonth.getDate() - today.getDate();
-    setIsLastWeek(daysUntilEndOfMonth < 7);
-  };
-  */
-
   const fetchBalance = async () => {
     const response = await fetch('/api/time-off/balance');
     if (response.ok) {
@@ -201,6 +288,27 @@ export default function DashboardPage() {
     }
   };
 
+  const fetchCompTime = async () => {
+    const response = await fetch(`/api/time-off/comp-time?year=${new Date().getFullYear()}`);
+    if (response.ok) {
+      setCompTime(await response.json());
+    }
+  };
+
+  const fetchOvertimeRule = async () => {
+    const response = await fetch('/api/overtime/policy');
+    if (response.ok) {
+      setOvertimeRule(await response.json());
+    }
+  };
+
+  const fetchAccruals = async () => {
+    const response = await fetch(`/api/time-off/accruals?year=${new Date().getFullYear()}`);
+    if (response.ok) {
+      setAccruals(await response.json());
+    }
+  };
+
   const handleSubmitRequest = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -210,29 +318,53 @@ export default function DashboardPage() {
     }
     
     // Rename fields to match expected API parameters
-    const requestData = {
-      userId: session.user.id,  // Add the userId from the session
+    const requestDetails = {
       startDate: newRequest.startDate,
       endDate: newRequest.endDate,
       type: newRequest.type,
       reason: newRequest.reason,
+      // Half days are only sent when taken; the last-day half only applies to multi-day requests
+      ...(newRequest.startHalf && { startHalf: newRequest.startHalf }),
+      ...(isMultiDayRequest && newRequest.endHalf && { endHalf: newRequest.endHalf }),
+    };
+    const requestData = {
+      userId: session.user.id,  // Add the userId from the session
+      ...requestDetails,
     };
     
     console.log('Submitting request:', requestData);
     
     try {
-      const response = await fetch('/api/time-off/requests', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(requestData),
-      });
+      // Changes to an existing request keep its history instead of creating a new one
+      const response = editingRequest
+        ? await fetch(`/api/time-off/requests/${editingRequest.id}/revisions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(requestDetails),
+          })
+        : await fetch('/api/time-off/requests', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(requestData),
+          });
 
       if (response.ok) {
+        // The request was saved, but its approver will have to override these
+        const { warnings } = await response.json();
+        if (warnings?.length) {
+          alert(`Request submitted with a warning:\n\n${warnings.map((w: { message: string }) => w.message).join('\n')}`);
+        }
+        if (editingRequest?.status === 'APPROVED') {
+          alert('Your change has been sent for approval. Your approved dates stay booked until it is decided.');
+        }
+        setEditingRequest(null);
         setNewRequest({
           startDate: '',
           endDate: '',
           type: 'VACATION',
           reason: '',
+          startHalf: '',
+          endHalf: '',
         });
         fetchRequests();
         fetchBalance();
@@ -254,6 +386,39 @@ export default function DashboardPage() {
     }
   };
 
+  const handleEditRequest = (request: TimeOffRequest) => {
+    setEditingRequest(request);
+    setNewRequest({
+      startDate: request.start_date.split('T')[0],
+      endDate: request.end_date.split('T')[0],
+      type: request.type,
+      reason: request.reason || '',
+      startHalf: request.start_half || '',
+      endHalf: request.end_half || '',
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleDiscardEdit = () => {
+    setEditingRequest(null);
+    setNewRequest({
+      startDate: '',
+      endDate: '',
+      type: 'VACATION',
+      reason: '',
+      startHalf: '',
+      endHalf: '',
+    });
+  };
+
+  const handleShowHistory = async (request: TimeOffRequest) => {
+    const response = await fetch(`/api/time-off/requests/${request.id}`);
+    if (response.ok) {
+      const data = await response.json();
+      setHistory({ request, revisions: data.revisions ?? [] });
+    }
+  };
+
   const handleUpdateRequestStatus = async (requestId: string, status: string) => {
     const response = await fetch(`/api/time-off/requests/${requestId}`, {
       method: 'PATCH',
@@ -264,7 +429,33 @@ export default function DashboardPage() {
     if (response.ok) {
       fetchRequests();
       fetchBalance();
+      fetchCompTime();
+    }
+  };
+
+  // Approved requests need an approver to sign off before their days come back
+  const handleCancelRequest = async (request: TimeOffRequest) => {
+    const reason = window.prompt(
+      request.status === 'APPROVED'
+        ? 'Ask to cancel this approved request? Your approver has to confirm. Enter a reason (optional).'
+        : 'Cancel this request? Enter a reason (optional).'
+    );
+    if (reason === null) return;
+
+    const response = await fetch(`/api/time-off/requests/${request.id}/cancel`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(reason ? { reason } : {}),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      alert(`Failed to cancel request: ${data.error}`);
+      return;
     }
+    if (data.status === 'CANCELLATION_REQUESTED') {
+      alert('Cancellation requested. Your days will be returned once it is approved.');
+    }
+    fetchRequests();
   };
 
   const handleSubmitOvertimeRequest = async (e: React.FormEvent) => {
@@ -280,29 +471,29 @@ export default function DashboardPage() {
       return;
     }
     
-    if (!isLastWeek) {
-      setOvertimeError('Overtime requests can only be submitted during the last week of the month');
+    if (!newOvertimeRequest.startTime !== !newOvertimeRequest.endTime) {
+      setOvertimeError('Enter both a start and an end time, or neither');
       return;
     }
-    
-    if (newOvertimeRequest.hours <= 0) {
+
+    if (!(overtimeHours > 0)) {
       setOvertimeError('Hours must be a positive number');
       return;
     }
     
     try {
-      const confirmMsg = `Submit ${newOvertimeRequest.hours} hour(s) of overtime? This equals ${(newOvertimeRequest.hours / 8).toFixed(2)} day(s).`;
+      const confirmMsg = `Submit ${overtimeHours} hour(s) of overtime worked on ${newOvertimeRequest.requestDate}? This equals ${hoursToDays(overtimeHours, hoursPerDay).toFixed(2)} day(s).`;
       const confirmed = typeof window !== 'undefined' ? window.confirm(confirmMsg) : true;
       if (!confirmed) return;
 
       setIsSubmittingOvertime(true);
       // Add userId to the request data
+      const { startTime, endTime } = newOvertimeRequest;
       const requestData = {
-        ...newOvertimeRequest,
         userId: session.user.id,
-        requestDate: new Date().toISOString().split('T')[0], // Current date in YYYY-MM-DD format
-        month: new Date().getMonth() + 1, // Current month (1-12)
-        year: new Date().getFullYear(), // Current year
+        requestDate: newOvertimeRequest.requestDate,
+        notes: newOvertimeRequest.notes,
+        ...(startTime && endTime ? { startTime, endTime } : { hours: newOvertimeRequest.hours }),
       };
       
       console.log('Submitting overtime request:', requestData);
@@ -317,6 +508,9 @@ export default function DashboardPage() {
         setNewOvertimeRequest({
           hours: 0,
           notes: '',
+          requestDate: localDateKey(new Date()),
+          startTime: '',
+          endTime: '',
         });
         fetchOvertimeRequests();
         setOvertimeToast('Overtime request submitted. Awaiting approval.');
@@ -344,6 +538,7 @@ export default function DashboardPage() {
       if (response.ok) {
         fetchOvertimeRequests();
         fetchBalance();
+        fetchCompTime();
       }
     } catch (err) {
       console.error('Error updating overtime status:', err);
@@ -371,6 +566,14 @@ export default function DashboardPage() {
                   Admin Panel
                 </button>
               )}
+              {session?.user?.role === 'MANAGER' && (
+                <button
+                  onClick={() => router.push('/admin/requests')}
+                  className="ml-4 inline-flex items-center px-4 py-2 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors"
+                >
+                  Team Requests
+                </button>
+              )}
             </h1>
 
             {/* Balance Display */}
@@ -380,20 +583,25 @@ export default function DashboardPage() {
                   <h2 className="text-lg font-medium text-gray-900 mb-4">
                     Time Off Balance Summary
                   </h2>
+                  {showHours && (
+                    <p className="text-sm text-gray-500 -mt-3 mb-4">
+                      Shown in hours ({hoursPerDay} hours per working day)
+                    </p>
+                  )}
                   <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                     {/* Vacation Days */}
                     <div className="bg-blue-50 rounded-lg p-4 border-l-4 border-blue-400">
                       <p className="text-sm font-medium text-gray-700">Vacation Days</p>
                       <div className="flex items-end mt-1">
                         <p className="text-3xl font-semibold text-blue-600">
-                          {balance.vacationDays}
+                          {toBalanceUnit(balance.vacationDays)}
                         </p>
                         <p className="text-sm text-gray-500 ml-2 mb-1">
-                          / {(balance.vacationDays || 0) + (usedDays?.vacationDays || 0)}
+                          / {toBalanceUnit((balance.vacationDays || 0) + (usedDays?.vacationDays || 0))}
                         </p>
                       </div>
                       <p className="text-xs text-gray-500 mt-1">
-                        {usedDays?.vacationDays ? `${usedDays.vacationDays} days used` : 'No days used'}
+                        {usedDays?.vacationDays ? `${toBalanceUnit(usedDays.vacationDays)} ${balanceUnitLabel} used` : 'No days used'}
                       </p>
                     </div>
                     
@@ -402,14 +610,14 @@ export default function DashboardPage() {
                       <p className="text-sm font-medium text-gray-700">Sick Days</p>
                       <div className="flex items-end mt-1">
                         <p className="text-3xl font-semibold text-green-600">
-                          {balance.sickDays}
+                          {toBalanceUnit(balance.sickDays)}
                         </p>
                         <p className="text-sm text-gray-500 ml-2 mb-1">
-                          / {(balance.sickDays || 0) + (usedDays?.sickDays || 0)}
+                          / {toBalanceUnit((balance.sickDays || 0) + (usedDays?.sickDays || 0))}
                         </p>
                       </div>
                       <p className="text-xs text-gray-500 mt-1">
-                        {usedDays?.sickDays ? `${usedDays.sickDays} days used` : 'No days used'}
+                        {usedDays?.sickDays ? `${toBalanceUnit(usedDays.sickDays)} ${balanceUnitLabel} used` : 'No days used'}
                       </p>
                     </div>
                     
@@ -418,14 +626,14 @@ export default function DashboardPage() {
                       <p className="text-sm font-medium text-gray-700">Paid Leave</p>
                       <div className="flex items-end mt-1">
                         <p className="text-3xl font-semibold text-purple-600">
-                          {balance.paidLeave}
+                          {toBalanceUnit(balance.paidLeave)}
                         </p>
                         <p className="text-sm text-gray-500 ml-2 mb-1">
-                          / {(balance.paidLeave || 0) + (usedDays?.paidLeave || 0)}
+                          / {toBalanceUnit((balance.paidLeave || 0) + (usedDays?.paidLeave || 0))}
                         </p>
                       </div>
                       <p className="text-xs text-gray-500 mt-1">
-                        {usedDays?.paidLeave ? `${usedDays.paidLeave} days used` : 'No days used'}
+                        {usedDays?.paidLeave ? `${toBalanceUnit(usedDays.paidLeave)} ${balanceUnitLabel} used` : 'No days used'}
                       </p>
                     </div>
                     
@@ -434,17 +642,47 @@ export default function DashboardPage() {
                       <p className="text-sm font-medium text-gray-700">Personal Days</p>
                       <div className="flex items-end mt-1">
                         <p className="text-3xl font-semibold text-amber-600">
-                          {balance.personalDays || 0}
+                          {toBalanceUnit(balance.personalDays || 0)}
                         </p>
                         <p className="text-sm text-gray-500 ml-2 mb-1">
-                          / {(balance.personalDays || 0) + (usedDays?.personalDays || 0)}
+                          / {toBalanceUnit((balance.personalDays || 0) + (usedDays?.personalDays || 0))}
                         </p>
                       </div>
                       <p className="text-xs text-gray-500 mt-1">
-                        {usedDays?.personalDays ? `${usedDays.personalDays} days used` : 'No days used'}
+                        {usedDays?.personalDays ? `${toBalanceUnit(usedDays.personalDays)} ${balanceUnitLabel} used` : 'No days used'}
                       </p>
                     </div>
                   </div>
+
+                  {/* Comp time from overtime, included in the balances above */}
+                  {compTime.length > 0 && (
+                    <div className="mt-6">
+                      <h3 className="text-sm font-medium text-gray-900">Comp Time from Overtime</h3>
+                      <p className="text-xs text-gray-500 mb-2">
+                        Included in the balances above and used before your other days, soonest expiry first.
+                      </p>
+                      <ul className="divide-y divide-gray-200 text-sm text-gray-700">
+                        {compTime.map((grant) => (
+                          <li key={grant.id} className="py-2 flex justify-between">
+                            <span>
+                              {toBalanceUnit(grant.days)} {balanceUnitLabel} {grant.type.toLowerCase().replace('_', ' ')}
+                              <span className="ml-2 text-xs text-gray-500">credited {formatDate(`${grant.grantedOn}T00:00:00`)}</span>
+                            </span>
+                            {grant.expiredAt ? (
+                              <span className="font-medium text-red-600">
+                                {toBalanceUnit(grant.expiredDays)} {balanceUnitLabel} expired {formatDate(`${grant.expiresOn}T00:00:00`)}
+                              </span>
+                            ) : (
+                              <span className="font-medium">
+                                {toBalanceUnit(grant.remainingDays)} left
+                                {grant.expiresOn ? ` · expires ${formatDate(`${grant.expiresOn}T00:00:00`)}` : ''}
+                              </span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -453,8 +691,14 @@ export default function DashboardPage() {
             <div className="bg-white shadow rounded-lg mb-8">
               <div className="px-4 py-5 sm:p-6">
                 <h2 className="text-lg font-medium text-gray-900 mb-4">
-                  Request Time Off
+                  {editingRequest ? 'Change Request' : 'Request Time Off'}
                 </h2>
+                {editingRequest?.status === 'APPROVED' && (
+                  <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-6 text-sm text-yellow-800">
+                    This request is approved. Your change goes back for approval, and only the difference in days is
+                    charged or returned once it is approved.
+                  </div>
+                )}
                 <div className="bg-blue-50 border-l-4 border-blue-400 p-4 mb-6">
                   <div className="flex">
                     <div className="flex-shrink-0">
@@ -468,8 +712,10 @@ export default function DashboardPage() {
                       </p>
                       <ul className="text-sm text-blue-700 mt-1 list-disc list-inside pl-2">
                         <li>All federal holidays</li>
-                        <li>Good Friday (April 18, 2025)</li>
+                        <li>Good Friday ({goodFridayLabel})</li>
                         <li>Christmas Eve (December 24)</li>
+                        <li>New Year&apos;s Eve (December 31)</li>
+                        <li>Observed days when a holiday falls on a weekend</li>
                       </ul>
                     </div>
                   </div>
@@ -526,6 +772,44 @@ export default function DashboardPage() {
                       </select>
                     </div>
                   </div>
+                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                    <div>
+                      <label htmlFor="startHalf" className="block text-sm font-medium text-gray-700">
+                        {isMultiDayRequest ? 'First Day' : 'Day'}
+                      </label>
+                      <select
+                        id="startHalf"
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+                        value={newRequest.startHalf}
+                        onChange={(e) =>
+                          setNewRequest({ ...newRequest, startHalf: e.target.value })
+                        }
+                      >
+                        <option value="">Full day</option>
+                        <option value="AM">Morning only (AM)</option>
+                        <option value="PM">Afternoon only (PM)</option>
+                      </select>
+                    </div>
+                    {isMultiDayRequest && (
+                      <div>
+                        <label htmlFor="endHalf" className="block text-sm font-medium text-gray-700">
+                          Last Day
+                        </label>
+                        <select
+                          id="endHalf"
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+                          value={newRequest.endHalf}
+                          onChange={(e) =>
+                            setNewRequest({ ...newRequest, endHalf: e.target.value })
+                          }
+                        >
+                          <option value="">Full day</option>
+                          <option value="AM">Morning only (AM)</option>
+                          <option value="PM">Afternoon only (PM)</option>
+                        </select>
+                      </div>
+                    )}
+                  </div>
                   <div>
                     <label htmlFor="reason" className="block text-sm font-medium text-gray-700">
                       Reason
@@ -546,8 +830,17 @@ export default function DashboardPage() {
                       className="inline-flex items-center gap-2 justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
                     >
                       <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 24 24" fill="currentColor"><path d="M5 12h14a1 1 0 0 1 0 2H5a1 1 0 0 1 0-2Zm0-6h14a1 1 0 0 1 0 2H5a1 1 0 0 1 0-2Zm0 12h9a1 1 0 0 1 0 2H5a1 1 0 1 1 0-2Z"/></svg>
-                      Submit Request
+                      {editingRequest ? 'Save Changes' : 'Submit Request'}
                     </button>
+                    {editingRequest && (
+                      <button
+                        type="button"
+                        onClick={handleDiscardEdit}
+                        className="ml-3 py-2 px-4 text-sm font-medium text-gray-700 hover:text-gray-900"
+                      >
+                        Discard Changes
+                      </button>
+                    )}
                   </div>
                 </form>
               </div>
@@ -564,14 +857,69 @@ export default function DashboardPage() {
                     {overtimeError}
                   </div>
                 )}
-                {/* 
-                {!isLastWeek && (
+                {overtimeRule && describeOvertimeSubmissionRule(overtimeRule).length > 0 && (
                   <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-4 py-3 rounded mb-4">
-                    Overtime requests can only be submitted during the last week of the month.
+                    {describeOvertimeSubmissionRule(overtimeRule).map(line => (
+                      <p key={line}>{line}</p>
+                    ))}
                   </div>
                 )}
-                */}
                 <form onSubmit={handleSubmitOvertimeRequest} className="space-y-4">
+                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                    <div>
+                      <label htmlFor="overtimeDate" className="block text-sm font-medium text-gray-700">
+                        Date Worked
+                      </label>
+                      <input
+                        type="date"
+                        id="overtimeDate"
+                        required
+                        max={localDateKey(new Date())}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+                        value={newOvertimeRequest.requestDate}
+                        onChange={(e) =>
+                          setNewOvertimeRequest({
+                            ...newOvertimeRequest,
+                            requestDate: e.target.value,
+                          })
+                        }
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="overtimeStart" className="block text-sm font-medium text-gray-700">
+                        Start Time (optional)
+                      </label>
+                      <input
+                        type="time"
+                        id="overtimeStart"
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+                        value={newOvertimeRequest.startTime}
+                        onChange={(e) =>
+                          setNewOvertimeRequest({
+                            ...newOvertimeRequest,
+                            startTime: e.target.value,
+                          })
+                        }
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="overtimeEnd" className="block text-sm font-medium text-gray-700">
+                        End Time (optional)
+                      </label>
+                      <input
+                        type="time"
+                        id="overtimeEnd"
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+                        value={newOvertimeRequest.endTime}
+                        onChange={(e) =>
+                          setNewOvertimeRequest({
+                            ...newOvertimeRequest,
+                            endTime: e.target.value,
+                          })
+                        }
+                      />
+                    </div>
+                  </div>
                   <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                     <div>
                       <label htmlFor="hours" className="block text-sm font-medium text-gray-700">
@@ -583,8 +931,9 @@ export default function DashboardPage() {
                         min="0.5"
                         step="0.5"
                         required
-                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
-                        value={newOvertimeRequest.hours}
+                        readOnly={!!(newOvertimeRequest.startTime && newOvertimeRequest.endTime)}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 read-only:bg-gray-100"
+                        value={overtimeHours}
                         onChange={(e) =>
                           setNewOvertimeRequest({
                             ...newOvertimeRequest,
@@ -593,7 +942,9 @@ export default function DashboardPage() {
                         }
                       />
                       <p className="mt-1 text-sm text-gray-500">
-                        8 hours of overtime equals 1 vacation day
+                        {newOvertimeRequest.startTime && newOvertimeRequest.endTime
+                          ? 'Worked out from the start and end times'
+                          : 'Compensated under the overtime policy once approved'}
                       </p>
                     </div>
                     <div>
@@ -671,7 +1022,12 @@ export default function DashboardPage() {
                             <tr key={request.id}>
                               <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                                 {dateInfo.isValid ? (
-                                  dateInfo.display
+                                  <>
+                                    {dateInfo.display}
+                                    {request.startTime && request.endTime && (
+                                      <div className="text-xs text-gray-500">{request.startTime}–{request.endTime}</div>
+                                    )}
+                                  </>
                                 ) : (
                                   <div className="text-red-600">
                                     {dateInfo.display}
@@ -685,7 +1041,10 @@ export default function DashboardPage() {
                                 {request.hours}
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                                {(request.hours / 8).toFixed(2)}
+                                {(request.creditedDays ?? hoursToDays(request.hours, request.hours_per_day ?? hoursPerDay)).toFixed(2)}
+                                {!!request.payoutHours && (
+                                  <div className="text-xs text-gray-500">+ {request.payoutHours}h paid out</div>
+                                )}
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap">
                                 <span
@@ -694,11 +1053,16 @@ export default function DashboardPage() {
                                       ? 'bg-green-100 text-green-800'
                                       : request.status === 'REJECTED'
                                       ? 'bg-red-100 text-red-800'
+                                      : request.status === 'CANCELLED'
+                                      ? 'bg-gray-100 text-gray-800'
                                       : 'bg-yellow-100 text-yellow-800'
                                   }`}
                                 >
-                                  {request.status}
+                                  {request.status === 'CANCELLED' ? 'REVERSED' : request.status}
                                 </span>
+                                {request.reversalReason && (
+                                  <div className="text-xs text-gray-500 mt-1">{request.reversalReason}</div>
+                                )}
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
                                 {request.notes || '-'}
@@ -737,6 +1101,30 @@ export default function DashboardPage() {
               </div>
             )}
 
+            {/* Accrual History */}
+            {accruals.length > 0 && (
+              <div className="bg-white shadow rounded-lg mb-8">
+                <div className="px-4 py-5 sm:p-6">
+                  <h2 className="text-lg font-medium text-gray-900 mb-4">
+                    Accrual History
+                  </h2>
+                  <ul className="divide-y divide-gray-200 text-sm text-gray-700">
+                    {accruals.map((accrual) => (
+                      <li key={accrual.id} className="py-2 flex justify-between">
+                        <span>
+                          {accrual.period} · {accrual.policyName}
+                          {accrual.prorated && <span className="ml-2 text-xs text-gray-500">(prorated)</span>}
+                        </span>
+                        <span className="font-medium">
+                          +{toBalanceUnit(accrual.days)} {balanceUnitLabel}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            )}
+
             {/* Requests List */}
             <div className="bg-white shadow rounded-lg">
               <div className="px-4 py-5 sm:p-6">
@@ -759,11 +1147,9 @@ export default function DashboardPage() {
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
                           Reason
                         </th>
-                        {session?.user?.role === 'ADMIN' && (
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
-                            Actions
-                          </th>
-                        )}
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                          Actions
+                        </th>
                       </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
@@ -775,7 +1161,7 @@ export default function DashboardPage() {
                           <tr key={request.id}>
                             <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                               {startDateInfo.isValid && endDateInfo.isValid ? (
-                                `${startDateInfo.display} - ${endDateInfo.display}`
+                                `${startDateInfo.display}${request.start_half ? ` (${request.start_half})` : ''} - ${endDateInfo.display}${request.end_half ? ` (${request.end_half})` : ''}`
                               ) : (
                                 <div className="text-red-600">
                                   <div>Start: {startDateInfo.display}</div>
@@ -799,18 +1185,29 @@ export default function DashboardPage() {
                                     ? 'bg-green-100 text-green-800'
                                     : request.status === 'REJECTED'
                                     ? 'bg-red-100 text-red-800'
+                                    : request.status === 'PARTIALLY_APPROVED'
+                                    ? 'bg-blue-100 text-blue-800'
+                                    : request.status === 'CANCELLATION_REQUESTED'
+                                    ? 'bg-orange-100 text-orange-800'
+                                    : request.status === 'CANCELLED'
+                                    ? 'bg-gray-100 text-gray-700'
                                     : 'bg-yellow-100 text-yellow-800'
                                 }`}
                               >
-                                {request.status}
+                                {request.status.replace('_', ' ')}
                               </span>
+                              {request.approval_steps && request.approval_steps.length > 0 &&
+                                (request.status === 'PENDING' || request.status === 'PARTIALLY_APPROVED') && (
+                                <div className="mt-1 text-xs text-gray-500">
+                                  {describeApprovalProgress(request.approval_steps)}
+                                </div>
+                              )}
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
                               {request.reason || '-'}
                             </td>
-                            {session?.user?.role === 'ADMIN' && (
-                              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                                {request.status === 'PENDING' && (
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                                {session?.user?.role === 'ADMIN' && (request.status === 'PENDING' || request.status === 'PARTIALLY_APPROVED') && (
                                   <>
                                     <button
                                       onClick={() =>
@@ -830,14 +1227,68 @@ export default function DashboardPage() {
                                     </button>
                                   </>
                                 )}
+                                {request.user_id === session?.user?.id &&
+                                  ['PENDING', 'PARTIALLY_APPROVED', 'APPROVED'].includes(request.status) && (
+                                  <>
+                                    <button
+                                      onClick={() => handleEditRequest(request)}
+                                      className="ml-4 text-blue-600 hover:text-blue-900 font-medium"
+                                    >
+                                      Edit
+                                    </button>
+                                    <button
+                                      onClick={() => handleCancelRequest(request)}
+                                      className="ml-4 text-gray-600 hover:text-gray-900 font-medium"
+                                    >
+                                      Cancel
+                                    </button>
+                                  </>
+                                )}
+                                <button
+                                  onClick={() => handleShowHistory(request)}
+                                  className="ml-4 text-gray-500 hover:text-gray-700 font-medium"
+                                >
+                                  History
+                                </button>
                               </td>
-                            )}
                           </tr>
                         );
                       })}
                     </tbody>
                   </table>
                 </div>
+                {history && (
+                  <div className="mt-6 border border-gray-200 rounded p-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="text-sm font-medium text-gray-900">
+                        Earlier versions of this {history.request.type.toLowerCase().replace('_', ' ')} request
+                      </h3>
+                      <button onClick={() => setHistory(null)} className="text-sm text-gray-500 hover:text-gray-700">
+                        Close
+                      </button>
+                    </div>
+                    {history.revisions.length === 0 ? (
+                      <p className="text-sm text-gray-500">This request hasn&apos;t been changed.</p>
+                    ) : (
+                      <ul className="divide-y divide-gray-200 text-sm">
+                        {history.revisions.map(revision => (
+                          <li key={revision.id} className="py-2">
+                            <span className="font-medium">#{revision.revision}</span>{' '}
+                            {revision.type.replace('_', ' ')}: {formatDateWithValidation(revision.startDate).display}
+                            {revision.startHalf ? ` (${revision.startHalf})` : ''} - {formatDateWithValidation(revision.endDate).display}
+                            {revision.endHalf ? ` (${revision.endHalf})` : ''}, {revision.workingDays} days
+                            {revision.reason ? `, "${revision.reason}"` : ''}
+                            <span className="ml-2 text-gray-500">
+                              {revision.status.replace('_', ' ').toLowerCase()} until changed
+                              {revision.editedByName ? ` by ${revision.editedByName}` : ''} on{' '}
+                              {new Date(revision.createdAt).toLocaleDateString()}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           </div>
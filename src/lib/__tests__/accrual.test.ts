@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { calculateAccrual, calculateHoursWorked, getDuePeriods, getPeriodKey } from '../accrual';
+import { createHolidayCalendar } from '../holidays';
+
+describe('Accruals', () => {
+  describe('getDuePeriods', () => {
+    it('should list completed months only', () => {
+      const periods = getDuePeriods('MONTHLY', new Date('2025-11-15'), new Date('2026-02-10'));
+      expect(periods.map(getPeriodKey)).toEqual(['2025-11', '2025-12', '2026-01']);
+    });
+
+    it('should list every year for annual grants, including the current one', () => {
+      const periods = getDuePeriods('ANNUAL', new Date('2025-06-01'), new Date('2026-01-01'));
+      expect(periods.map(getPeriodKey)).toEqual(['2025', '2026']);
+    });
+  });
+
+  describe('calculateAccrual', () => {
+    const monthly = { basis: 'MONTHLY' as const, rate: 1.25, unit: 'DAYS' as const };
+
+    it('should credit the full rate for a whole period', () => {
+      expect(calculateAccrual(monthly, { year: 2026, month: 4 }, { hoursPerDay: 8 }))
+        .toEqual({ days: 1.25, prorated: false });
+    });
+
+    it('should prorate the period containing the hire date', () => {
+      // Hired on April 16th: 15 of 30 days
+      const result = calculateAccrual(monthly, { year: 2026, month: 4 }, {
+        hireDate: new Date('2026-04-16'),
+        hoursPerDay: 8,
+      });
+      expect(result).toEqual({ days: 0.625, prorated: true });
+
+      const annual = calculateAccrual({ basis: 'ANNUAL', rate: 20, unit: 'DAYS' }, { year: 2026 }, {
+        hireDate: new Date('2026-07-02'),
+        hoursPerDay: 8,
+      });
+      expect(annual.days).toBeCloseTo(20 * 183 / 365, 3);
+      expect(annual.prorated).toBe(true);
+    });
+
+    it('should credit nothing before the hire date', () => {
+      const result = calculateAccrual(monthly, { year: 2026, month: 3 }, {
+        hireDate: new Date('2026-04-16'),
+        hoursPerDay: 8,
+      });
+      expect(result).toEqual({ days: 0, prorated: false });
+    });
+
+    it('should credit hours-worked policies in the employee\'s day length', () => {
+      // One hour for every 30 worked, at 8 hours per day
+      const rule = { basis: 'HOURS_WORKED' as const, rate: 1, unit: 'HOURS' as const, perHours: 30 };
+      const result = calculateAccrual(rule, { year: 2026, month: 3 }, { hoursWorked: 160, hoursPerDay: 8 });
+      expect(result.days).toBeCloseTo(160 / 30 / 8, 4);
+    });
+
+    it('should require perHours for hours-worked policies', () => {
+      expect(() => calculateAccrual({ basis: 'HOURS_WORKED', rate: 1, unit: 'HOURS' }, { year: 2026, month: 3 }, {
+        hoursWorked: 160,
+        hoursPerDay: 8,
+      })).toThrow();
+    });
+
+    it('should stop at the annual cap', () => {
+      const capped = { basis: 'MONTHLY' as const, rate: 2, unit: 'DAYS' as const, annualCap: 15 };
+      expect(calculateAccrual(capped, { year: 2026, month: 8 }, { hoursPerDay: 8, accruedThisYear: 14 }).days).toBe(1);
+
+      // A 40-hour cap is 5 days at 8 hours per day
+      const hourly = { basis: 'MONTHLY' as const, rate: 10, unit: 'HOURS' as const, annualCap: 40 };
+      expect(calculateAccrual(hourly, { year: 2026, month: 8 }, { hoursPerDay: 8, accruedThisYear: 4.5 }).days).toBe(0.5);
+      expect(calculateAccrual(hourly, { year: 2026, month: 8 }, { hoursPerDay: 8, accruedThisYear: 5 }).days).toBe(0);
+    });
+  });
+
+  describe('calculateHoursWorked', () => {
+    const noHolidays = createHolidayCalendar([]);
+    const march = { start: new Date('2026-03-01'), end: new Date('2026-03-31'), hoursPerDay: 8, calendar: noHolidays };
+
+    it('should count scheduled hours on working days', () => {
+      // 22 weekdays in March 2026
+      expect(calculateHoursWorked(march)).toBe(176);
+    });
+
+    it('should subtract time off and add overtime', () => {
+      const hours = calculateHoursWorked({
+        ...march,
+        timeOff: [
+          { startDate: new Date('2026-03-09'), endDate: new Date('2026-03-10') },
+          { startDate: new Date('2026-03-12'), endDate: new Date('2026-03-12'), startHalf: 'AM' },
+        ],
+        overtimeHours: 5,
+      });
+      expect(hours).toBe(176 - 16 - 4 + 5);
+    });
+
+    it('should skip holidays', () => {
+      // Presidents' Day, Feb 16th 2026; 20 weekdays in February
+      const hours = calculateHoursWorked({ start: new Date('2026-02-01'), end: new Date('2026-02-28'), hoursPerDay: 8 });
+      expect(hours).toBe(19 * 8);
+    });
+  });
+});
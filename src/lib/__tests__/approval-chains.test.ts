@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ApprovalChainRule,
+  ApprovalStep,
+  canDecideStep,
+  chainStatus,
+  currentApprovalStep,
+  describeApprovalProgress,
+  findApprovalChain,
+} from '../approval-chains';
+
+describe('Approval Chains', () => {
+  const chains: ApprovalChainRule[] = [
+    { type: 'PAID_LEAVE', overDays: 0, steps: ['MANAGER'] },
+    { type: 'PAID_LEAVE', overDays: 5, steps: ['MANAGER', 'ADMIN'] },
+    { type: 'VACATION', overDays: 10, steps: ['ADMIN'] },
+  ];
+
+  const steps = (...statuses: ApprovalStep['status'][]): ApprovalStep[] =>
+    statuses.map((status, index) => ({
+      step: index + 1,
+      role: index === 0 ? 'MANAGER' : 'ADMIN',
+      status,
+      approverId: status === 'PENDING' ? null : 'approver-1',
+    }));
+
+  it('should pick the chain with the highest threshold the request exceeds', () => {
+    expect(findApprovalChain(chains, 'PAID_LEAVE', 3)?.steps).toEqual(['MANAGER']);
+    expect(findApprovalChain(chains, 'PAID_LEAVE', 5)?.steps).toEqual(['MANAGER']);
+    expect(findApprovalChain(chains, 'PAID_LEAVE', 5.5)?.steps).toEqual(['MANAGER', 'ADMIN']);
+  });
+
+  it('should return null when no chain applies', () => {
+    expect(findApprovalChain(chains, 'VACATION', 10)).toBeNull();
+    expect(findApprovalChain(chains, 'SICK', 20)).toBeNull();
+  });
+
+  it('should find the first step still waiting', () => {
+    expect(currentApprovalStep(steps('PENDING', 'PENDING'))?.step).toBe(1);
+    expect(currentApprovalStep(steps('APPROVED', 'PENDING'))?.step).toBe(2);
+    expect(currentApprovalStep(steps('APPROVED', 'APPROVED'))).toBeNull();
+    expect(currentApprovalStep(steps('REJECTED', 'PENDING'))).toBeNull();
+  });
+
+  it('should derive the request status from its steps', () => {
+    expect(chainStatus(steps('PENDING', 'PENDING'))).toBe('PENDING');
+    expect(chainStatus(steps('APPROVED', 'PENDING'))).toBe('PARTIALLY_APPROVED');
+    expect(chainStatus(steps('APPROVED', 'APPROVED'))).toBe('APPROVED');
+    expect(chainStatus(steps('APPROVED', 'REJECTED'))).toBe('REJECTED');
+  });
+
+  it('should let admins decide any step and managers only manager steps for their reports', () => {
+    expect(canDecideStep('ADMIN', { role: 'ADMIN', isManager: false })).toBe(true);
+    expect(canDecideStep('MANAGER', { role: 'ADMIN', isManager: false })).toBe(true);
+    expect(canDecideStep('MANAGER', { role: 'MANAGER', isManager: true })).toBe(true);
+    expect(canDecideStep('MANAGER', { role: 'MANAGER', isManager: false })).toBe(false);
+    expect(canDecideStep('ADMIN', { role: 'MANAGER', isManager: true })).toBe(false);
+  });
+
+  it('should describe where a request is in its chain', () => {
+    expect(describeApprovalProgress(steps('APPROVED', 'PENDING'))).toBe('Step 2 of 2: waiting for HR / Admin');
+    expect(describeApprovalProgress(steps('APPROVED', 'APPROVED'))).toBe('All steps approved');
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { TimeOffRequest } from '@prisma/client';
+
+const { mockPrisma, mockTx, mockRecord, mockHeldBy, mockLog, mockFindConflicts, mockGrantException, mockCheckStaffing } =
+  vi.hoisted(() => {
+    const mockTx = {
+      $queryRaw: vi.fn(),
+      requestApproval: { update: vi.fn() },
+      timeOffBalance: { findUnique: vi.fn() },
+      timeOffRequest: { update: vi.fn() },
+    };
+    return {
+      mockTx,
+      mockPrisma: {
+        requestApproval: { findMany: vi.fn() },
+        timeOffRequest: { findMany: vi.fn() },
+        $transaction: vi.fn(async (fn: (tx: typeof mockTx) => unknown) => fn(mockTx)),
+      },
+      mockRecord: vi.fn(),
+      mockHeldBy: vi.fn(),
+      mockLog: vi.fn(),
+      mockFindConflicts: vi.fn(),
+      mockGrantException: vi.fn(),
+      mockCheckStaffing: vi.fn(),
+    };
+  });
+
+vi.mock('../db', () => ({ prisma: mockPrisma, isPrismaAvailable: () => true }));
+vi.mock('../audit', () => ({
+  AuditLogger: vi.fn().mockImplementation(() => ({ log: mockLog })),
+}));
+vi.mock('../balance-ledger', () => ({
+  BalanceLedger: vi.fn().mockImplementation(() => ({ record: mockRecord, heldBy: mockHeldBy })),
+}));
+vi.mock('../services/revision-service', () => ({
+  revisionService: { findPendingChange: vi.fn(async () => null), restoreApproved: vi.fn() },
+}));
+vi.mock('../services/reporting-service', () => ({
+  reportingService: { canReview: vi.fn(async () => true) },
+}));
+vi.mock('../services/blackout-service', () => ({
+  blackoutService: { findConflicts: mockFindConflicts, grantException: mockGrantException },
+}));
+vi.mock('../services/team-service', () => ({
+  teamService: { checkStaffing: mockCheckStaffing },
+}));
+vi.mock('../services/holiday-service', () => ({
+  holidayService: { getCalendarForUser: vi.fn(async () => undefined) },
+}));
+vi.mock('../services/work-schedule-service', () => ({
+  workScheduleService: { getScheduleForUser: vi.fn(async () => undefined) },
+}));
+
+import { ApprovalService } from '../services/approval-service';
+
+describe('ApprovalService.review', () => {
+  const admin = { id: 'admin-1', role: 'ADMIN' };
+  const request = {
+    id: 'request-1',
+    userId: 'user-1',
+    type: 'VACATION',
+    status: 'PENDING',
+    startDate: new Date('2026-11-02T00:00:00.000Z'),
+    endDate: new Date('2026-11-06T00:00:00.000Z'),
+    startHalf: null,
+    endHalf: null,
+    workingDays: 5,
+    updatedAt: new Date('2026-10-01T09:00:00.000Z'),
+  } as unknown as TimeOffRequest;
+  const blackout = { id: 'blackout-1', label: 'Year end', startDate: '2026-11-02', endDate: '2026-11-03', types: [], teamId: null };
+  let service: ApprovalService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new ApprovalService();
+    mockPrisma.requestApproval.findMany.mockResolvedValue([]);
+    mockPrisma.timeOffRequest.findMany.mockResolvedValue([]);
+    mockFindConflicts.mockResolvedValue([]);
+    mockCheckStaffing.mockResolvedValue(null);
+    mockHeldBy.mockResolvedValue([]);
+    mockTx.$queryRaw.mockResolvedValue([{ status: 'PENDING', updatedAt: request.updatedAt }]);
+    mockTx.timeOffBalance.findUnique.mockResolvedValue({ remainingDays: 20 });
+    mockTx.timeOffRequest.update.mockResolvedValue({ status: 'APPROVED' });
+  });
+
+  it('should charge the balance when approving a request unchanged since it was read', async () => {
+    const outcome = await service.review(request, admin, 'APPROVED');
+
+    expect(outcome).toMatchObject({ request: { status: 'APPROVED' }, final: true, change: null });
+    expect(mockRecord).toHaveBeenCalledWith(expect.objectContaining({ kind: 'DEDUCTION', days: -5 }));
+  });
+
+  it('should leave a request alone when another reviewer settled it first', async () => {
+    mockTx.$queryRaw.mockResolvedValue([{ status: 'APPROVED', updatedAt: new Date() }]);
+
+    await expect(service.review(request, admin, 'APPROVED')).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    expect(mockRecord).not.toHaveBeenCalled();
+    expect(mockTx.timeOffRequest.update).not.toHaveBeenCalled();
+  });
+
+  it('should turn down an approval over a blackout unless an admin overrides it', async () => {
+    mockFindConflicts.mockResolvedValue([blackout]);
+
+    await expect(service.review(request, admin, 'APPROVED')).rejects.toMatchObject({
+      code: 'BLACKOUT_DATE',
+      blackouts: [blackout],
+    });
+    await expect(
+      service.review(request, { id: 'manager-1', role: 'MANAGER' }, 'APPROVED', { overrideBlackout: true })
+    ).rejects.toMatchObject({ code: 'BLACKOUT_DATE' });
+    expect(mockGrantException).not.toHaveBeenCalled();
+  });
+
+  it('should grant a blackout exception with the approval it overrides', async () => {
+    mockFindConflicts.mockResolvedValue([blackout]);
+
+    await service.review(request, admin, 'APPROVED', { overrideBlackout: true, overrideReason: 'Agreed in advance' });
+
+    expect(mockGrantException).toHaveBeenCalledWith(
+      'blackout-1',
+      'user-1',
+      'admin-1',
+      { requestId: 'request-1', reason: 'Agreed in advance' },
+      mockTx
+    );
+  });
+
+  it('should not grant a blackout exception when the balance falls short', async () => {
+    mockFindConflicts.mockResolvedValue([blackout]);
+    mockTx.timeOffBalance.findUnique.mockResolvedValue({ remainingDays: 2 });
+
+    await expect(service.review(request, admin, 'APPROVED', { overrideBlackout: true })).rejects.toMatchObject({
+      code: 'INSUFFICIENT_BALANCE',
+    });
+    expect(mockGrantException).not.toHaveBeenCalled();
+  });
+
+  it('should record a staffing limit override with the approval', async () => {
+    mockCheckStaffing.mockResolvedValue({
+      team: { id: 'team-1', name: 'Support', maxOff: 1 },
+      conflicts: [{ date: '2026-11-02', off: 2, limit: 1 }],
+    });
+
+    await expect(service.review(request, admin, 'APPROVED')).rejects.toMatchObject({ code: 'STAFFING_LIMIT' });
+    await service.review(request, admin, 'APPROVED', { overrideStaffing: true });
+
+    expect(mockLog).toHaveBeenCalledWith('admin-1', 'UPDATE', 'REQUEST', 'request-1', expect.objectContaining({
+      action: 'OVERRIDE_STAFFING_LIMIT',
+      teamId: 'team-1',
+      dates: ['2026-11-02'],
+    }));
+  });
+
+  it('should reject without checking the approval', async () => {
+    mockTx.timeOffRequest.update.mockResolvedValue({ status: 'REJECTED' });
+    mockFindConflicts.mockResolvedValue([blackout]);
+
+    const outcome = await service.review(request, admin, 'REJECTED', { comment: 'Too busy' });
+
+    expect(outcome.request.status).toBe('REJECTED');
+    expect(mockRecord).not.toHaveBeenCalled();
+    expect(mockLog).toHaveBeenCalledWith('admin-1', 'UPDATE', 'REQUEST', 'request-1', expect.objectContaining({
+      action: 'REVIEW',
+      newStatus: 'REJECTED',
+      reason: 'Too busy',
+    }));
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalJson, checkAuditChain, ChainedAuditRow, hashAuditEntry } from '../audit-chain';
+
+const chain = (count: number): ChainedAuditRow[] => {
+  const rows: ChainedAuditRow[] = [];
+  let previousHash: string | null = null;
+  for (let i = 1; i <= count; i++) {
+    const content = {
+      id: `log-${i}`,
+      userId: 'admin-1',
+      action: 'UPDATE',
+      entityType: 'REQUEST',
+      entityId: `req-${i}`,
+      details: { action: 'APPROVE', previousStatus: 'PENDING', newStatus: 'APPROVED' },
+      createdAt: new Date(`2025-01-0${i}T10:00:00.000Z`),
+    };
+    const hash = hashAuditEntry(content, previousHash);
+    rows.push({ ...content, sequence: i, previousHash, hash });
+    previousHash = hash;
+  }
+  return rows;
+};
+
+describe('Audit chain', () => {
+  it('should hash details the same whatever their key order', () => {
+    expect(canonicalJson({ b: 1, a: { d: [{ y: 2, x: 1 }], c: undefined } })).toBe('{"a":{"d":[{"x":1,"y":2}]},"b":1}');
+  });
+
+  it('should accept an intact chain', () => {
+    const rows = chain(3);
+    expect(rows[1].previousHash).toBe(rows[0].hash);
+    expect(checkAuditChain(rows)).toEqual({ valid: true, checked: 3, unchained: 0, lastHash: rows[2].hash, broken: null });
+  });
+
+  it('should report an entry whose content was changed', () => {
+    const rows = chain(3);
+    rows[1].details = { action: 'APPROVE', previousStatus: 'PENDING', newStatus: 'REJECTED' };
+
+    const report = checkAuditChain(rows);
+    expect(report.valid).toBe(false);
+    expect(report.checked).toBe(2);
+    expect(report.broken).toMatchObject({ id: 'log-2', sequence: 2, reason: 'HASH_MISMATCH' });
+  });
+
+  it('should report the entry after one that was removed', () => {
+    const rows = chain(3);
+    rows.splice(1, 1);
+
+    expect(checkAuditChain(rows).broken).toMatchObject({ id: 'log-3', reason: 'BROKEN_LINK' });
+  });
+
+  it('should chain entries the system wrote without an actor', () => {
+    const [row] = chain(1);
+    const system = { ...row, userId: null, hash: hashAuditEntry({ ...row, userId: null }, null) };
+
+    expect(checkAuditChain([system]).valid).toBe(true);
+    expect(checkAuditChain([{ ...system, userId: 'admin-1' }]).broken).toMatchObject({ reason: 'HASH_MISMATCH' });
+  });
+
+  it('should skip entries from before the chain but not unhashed ones after it', () => {
+    const legacy = { ...chain(1)[0], id: 'legacy', sequence: 0, previousHash: null, hash: null };
+    const rows = chain(2);
+
+    expect(checkAuditChain([legacy, ...rows])).toMatchObject({ valid: true, checked: 2, unchained: 1 });
+    expect(checkAuditChain([...rows, { ...legacy, sequence: 3 }]).broken).toMatchObject({ id: 'legacy', reason: 'UNHASHED_ENTRY' });
+  });
+
+  it('should continue from the last batch', () => {
+    const rows = chain(4);
+    const first = checkAuditChain(rows.slice(0, 2));
+
+    expect(checkAuditChain(rows.slice(2), first)).toMatchObject({ valid: true, checked: 4, lastHash: rows[3].hash });
+  });
+});
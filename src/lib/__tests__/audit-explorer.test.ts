@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { auditEvent, auditLogsToCsv, buildAuditWhere, diffAuditDetails } from '../audit-explorer';
+import { AuditLogFilterSchema } from '../validators/schemas';
+
+describe('Audit explorer', () => {
+  it('should match the broad or the specific action, case-insensitively', () => {
+    expect(buildAuditWhere(AuditLogFilterSchema.parse({ action: 'revise_request', entityType: 'REQUEST' }))).toEqual({
+      entityType: 'REQUEST',
+      OR: [
+        { action: 'REVISE_REQUEST' },
+        { details: { path: ['action'], equals: 'REVISE_REQUEST' } },
+      ],
+    });
+  });
+
+  it('should filter on both ends of the date range', () => {
+    expect(buildAuditWhere(AuditLogFilterSchema.parse({
+      startDate: '2025-01-01T00:00:00.000Z',
+      endDate: '2025-01-31T23:59:59.999Z',
+    }))).toEqual({
+      createdAt: { gte: new Date('2025-01-01T00:00:00.000Z'), lte: new Date('2025-01-31T23:59:59.999Z') },
+    });
+  });
+
+  it('should name the specific action when details have one', () => {
+    expect(auditEvent('UPDATE', { action: 'ASSIGN_TEAM' })).toBe('ASSIGN_TEAM');
+    expect(auditEvent('UPDATE', { vacationDays: 20 })).toBe('UPDATE');
+  });
+
+  it('should list changed fields from before and after snapshots', () => {
+    expect(diffAuditDetails({
+      action: 'REVISE_REQUEST',
+      before: { type: 'VACATION', workingDays: 5, startDate: '2025-03-03' },
+      after: { type: 'VACATION', workingDays: 3, startDate: '2025-03-05' },
+    })).toEqual([
+      { field: 'workingDays', before: 5, after: 3 },
+      { field: 'startDate', before: '2025-03-03', after: '2025-03-05' },
+    ]);
+    expect(diffAuditDetails({ previous: { name: 'Old' }, current: { name: 'New', date: '2025-12-26' } })).toEqual([
+      { field: 'name', before: 'Old', after: 'New' },
+      { field: 'date', before: null, after: '2025-12-26' },
+    ]);
+  });
+
+  it('should pair previous fields with their new values', () => {
+    expect(diffAuditDetails({ action: 'CANCEL', previousStatus: 'APPROVED', newStatus: 'CANCELLED' })).toEqual([
+      { field: 'status', before: 'APPROVED', after: 'CANCELLED' },
+    ]);
+    expect(diffAuditDetails({ previousTeamId: null, teamId: 'team-1', previousHoursPerDay: 8 })).toEqual([
+      { field: 'teamId', before: null, after: 'team-1' },
+    ]);
+    expect(diffAuditDetails({ vacationDays: 20 })).toEqual([]);
+  });
+
+  it('should write quoted CSV with a header row', () => {
+    const csv = auditLogsToCsv([{
+      createdAt: new Date('2025-01-02T10:00:00.000Z'),
+      actorName: 'Smith, Ana',
+      actorEmail: 'ana@example.com',
+      action: 'UPDATE',
+      entityType: 'REQUEST',
+      entityId: 'req-1',
+      details: { action: 'CANCEL', previousStatus: 'APPROVED', newStatus: 'CANCELLED' },
+    }]);
+    const [header, row] = csv.trim().split('\n');
+
+    expect(header).toBe('Time,Actor,Actor Email,Action,Event,Entity Type,Entity ID,Changes,Details');
+    expect(row).toBe(
+      '2025-01-02T10:00:00.000Z,"Smith, Ana",ana@example.com,UPDATE,CANCEL,REQUEST,req-1,status: APPROVED → CANCELLED,' +
+      '"{""action"":""CANCEL"",""previousStatus"":""APPROVED"",""newStatus"":""CANCELLED""}"'
+    );
+  });
+
+  it('should stop spreadsheet formulas in exported values', () => {
+    const csv = auditLogsToCsv([{
+      createdAt: new Date('2025-01-02T10:00:00.000Z'),
+      actorName: '=HYPERLINK("x")',
+      actorEmail: null,
+      action: 'CREATE',
+      entityType: 'USER',
+      entityId: 'u-1',
+      details: {},
+    }]);
+
+    expect(csv).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+});
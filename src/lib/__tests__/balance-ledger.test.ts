@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { applyTransaction, deriveBalance, outstandingUsage, withRunningTotals } from '../balance-ledger';
+
+describe('Balance Ledger', () => {
+  it('should add grants and credits to the total', () => {
+    expect(deriveBalance([
+      { kind: 'GRANT', days: 15 },
+      { kind: 'ACCRUAL', days: 1.25 },
+      { kind: 'OVERTIME_CREDIT', days: 0.5 },
+    ])).toEqual({ totalDays: 16.75, usedDays: 0, remainingDays: 16.75 });
+  });
+
+  it('should record deductions and restorations as days used', () => {
+    expect(deriveBalance([
+      { kind: 'GRANT', days: 15 },
+      { kind: 'DEDUCTION', days: -3 },
+      { kind: 'DEDUCTION', days: -0.5 },
+      { kind: 'RESTORATION', days: 3 },
+    ])).toEqual({ totalDays: 15, usedDays: 0.5, remainingDays: 14.5 });
+  });
+
+  it('should take forfeitures and negative adjustments off the total', () => {
+    const totals = applyTransaction({ totalDays: 20, usedDays: 4, remainingDays: 16 }, { kind: 'FORFEITURE', days: -2 });
+    expect(totals).toEqual({ totalDays: 18, usedDays: 4, remainingDays: 14 });
+    expect(applyTransaction(totals, { kind: 'ADJUSTMENT', days: -3 })).toEqual({ totalDays: 15, usedDays: 4, remainingDays: 11 });
+  });
+
+  it('should start from an empty balance', () => {
+    expect(deriveBalance([])).toEqual({ totalDays: 0, usedDays: 0, remainingDays: 0 });
+  });
+
+  it('should pair each entry with the balance after it', () => {
+    const entries = withRunningTotals([
+      { id: 'a', kind: 'GRANT' as const, days: 10 },
+      { id: 'b', kind: 'DEDUCTION' as const, days: -2 },
+      { id: 'c', kind: 'CARRYOVER' as const, days: 3 },
+    ]);
+
+    expect(entries.map(entry => [entry.id, entry.balance.remainingDays])).toEqual([['a', 10], ['b', 8], ['c', 11]]);
+    expect(entries[2].balance).toEqual({ totalDays: 13, usedDays: 2, remainingDays: 11 });
+  });
+
+  it('should find the days a request still holds in each balance', () => {
+    expect(outstandingUsage([
+      { kind: 'DEDUCTION', days: -3, year: 2025, type: 'VACATION' },
+      { kind: 'RESTORATION', days: 3, year: 2025, type: 'VACATION' },
+      { kind: 'DEDUCTION', days: -2.5, year: 2025, type: 'VACATION' },
+      { kind: 'DEDUCTION', days: -1, year: 2026, type: 'VACATION' },
+      { kind: 'ADJUSTMENT', days: 4, year: 2026, type: 'VACATION' },
+    ])).toEqual([
+      { year: 2025, type: 'VACATION', days: 2.5 },
+      { year: 2026, type: 'VACATION', days: 1 },
+    ]);
+  });
+
+  it('should find nothing once a request has been fully restored', () => {
+    expect(outstandingUsage([
+      { kind: 'DEDUCTION', days: -2, year: 2025, type: 'SICK' },
+      { kind: 'RESTORATION', days: 2, year: 2025, type: 'SICK' },
+    ])).toEqual([]);
+  });
+});
@@ -3,7 +3,7 @@ import { BalanceManager } from '../balance-manager';
 import { TransactionManager } from '../db/transaction';
 import { AuditLogger } from '../audit';
 import { PrismaClient } from '@prisma/client';
-import { InsufficientBalanceError, DatabaseError } from '../errors/time-off';
+import { InsufficientBalanceError, DatabaseError, ValidationError } from '../errors/time-off';
 
 // Mock dependencies
 const mockPrisma = {
@@ -119,10 +119,13 @@ describe('BalanceManager', () => {
         timeOffBalance: {
           update: vi.fn().mockResolvedValue(mockUpdatedBalance),
         },
+        balanceTransaction: {
+          create: vi.fn(),
+        },
       };
 
       vi.mocked(mockTransactionManager.execute).mockImplementation(async (callback) => {
-        return callback(mockTransaction);
+        return callback(mockTransaction as unknown as PrismaClient);
       });
 
       vi.mocked(mockPrisma.timeOffBalance.findUnique).mockResolvedValue(mockBalance);
@@ -200,10 +203,13 @@ describe('BalanceManager', () => {
         timeOffBalance: {
           update: vi.fn().mockRejectedValue(new Error('Database connection failed')),
         },
+        balanceTransaction: {
+          create: vi.fn(),
+        },
       };
 
       vi.mocked(mockTransactionManager.execute).mockImplementation(async (callback) => {
-        return callback(mockTransaction);
+        return callback(mockTransaction as unknown as PrismaClient);
       });
 
       await expect(
@@ -241,10 +247,13 @@ describe('BalanceManager', () => {
         timeOffBalance: {
           update: vi.fn().mockResolvedValue(mockUpdatedBalance),
         },
+        balanceTransaction: {
+          create: vi.fn(),
+        },
       };
 
       vi.mocked(mockTransactionManager.execute).mockImplementation(async (callback) => {
-        return callback(mockTransaction);
+        return callback(mockTransaction as unknown as PrismaClient);
       });
 
       vi.mocked(mockPrisma.timeOffBalance.findUnique).mockResolvedValue(mockBalance);
@@ -291,10 +300,13 @@ describe('BalanceManager', () => {
         timeOffBalance: {
           update: vi.fn().mockResolvedValue(mockUpdatedBalance),
         },
+        balanceTransaction: {
+          create: vi.fn(),
+        },
       };
 
       vi.mocked(mockTransactionManager.execute).mockImplementation(async (callback) => {
-        return callback(mockTransaction);
+        return callback(mockTransaction as unknown as PrismaClient);
       });
 
       vi.mocked(mockPrisma.timeOffBalance.findUnique).mockResolvedValue(mockBalance);
@@ -312,5 +324,54 @@ describe('BalanceManager', () => {
 
       process.env = originalEnv;
     });
+
+    it('should deduct a half day', async () => {
+      vi.stubEnv('VERCEL', 'true');
+
+      const mockBalance = {
+        id: 'balance-1',
+        userId: 'user-1',
+        year: 2025,
+        type: 'VACATION' as const,
+        totalDays: 15,
+        usedDays: 5,
+        remainingDays: 10,
+        carriedOverDays: 0,
+        carryoverExpiresAt: null,
+        rolledOverAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      const mockTransaction = {
+        timeOffBalance: {
+          update: vi.fn().mockResolvedValue({ ...mockBalance, usedDays: 5.5, remainingDays: 9.5 }),
+        },
+        balanceTransaction: {
+          create: vi.fn(),
+        },
+      };
+
+      vi.mocked(mockTransactionManager.execute).mockImplementation(async (callback) => {
+        return callback(mockTransaction as unknown as PrismaClient);
+      });
+      vi.mocked(mockPrisma.timeOffBalance.findUnique).mockResolvedValue(mockBalance);
+
+      const result = await balanceManager.deductBalance('user-1', 2025, 'VACATION', 0.5, 'Half day');
+
+      expect(result.remainingDays).toBe(9.5);
+      expect(mockTransaction.timeOffBalance.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { usedDays: 5.5, remainingDays: 9.5 } })
+      );
+
+      vi.unstubAllEnvs();
+    });
+
+    it('should reject amounts that are not in half-day increments', async () => {
+      await expect(
+        balanceManager.deductBalance('user-1', 2025, 'VACATION', 0.3, 'Partial day')
+      ).rejects.toThrow(ValidationError);
+      expect(mockTransactionManager.execute).not.toHaveBeenCalled();
+    });
   });
 });
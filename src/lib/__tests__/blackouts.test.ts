@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeBlackoutConflicts,
+  findBlackoutConflicts,
+  findExceptedBlackouts,
+  getBlackoutDates,
+  BlackoutRule,
+} from '../blackouts';
+
+describe('Blackout Periods', () => {
+  const yearEnd: BlackoutRule = { id: 'b1', label: 'Year-end close', startDate: '2026-12-28', endDate: '2026-12-31', types: [], teamId: null };
+  const launch: BlackoutRule = { id: 'b2', label: 'Launch', startDate: '2026-06-15', endDate: '2026-06-15', types: ['VACATION', 'PERSONAL'], teamId: null };
+  const blackouts = [yearEnd, launch];
+
+  const request = (type: 'VACATION' | 'SICK', start: string, end: string) => ({
+    type,
+    startDate: new Date(`${start}T00:00:00.000Z`),
+    endDate: new Date(`${end}T23:59:59.999Z`),
+  });
+
+  it('should find blackouts that overlap the request', () => {
+    expect(findBlackoutConflicts(blackouts, request('VACATION', '2026-12-24', '2026-12-28'))).toEqual([yearEnd]);
+    expect(findBlackoutConflicts(blackouts, request('VACATION', '2026-06-15', '2026-06-15'))).toEqual([launch]);
+    expect(findBlackoutConflicts(blackouts, request('VACATION', '2026-12-20', '2026-12-27'))).toEqual([]);
+  });
+
+  it('should only block the listed types', () => {
+    expect(findBlackoutConflicts(blackouts, request('SICK', '2026-06-15', '2026-06-15'))).toEqual([]);
+    expect(findBlackoutConflicts(blackouts, request('SICK', '2026-12-30', '2026-12-30'))).toEqual([yearEnd]);
+  });
+
+  it('should skip blackouts the requester has an exception for', () => {
+    expect(findBlackoutConflicts(blackouts, request('VACATION', '2026-12-29', '2026-12-29'), ['b1'])).toEqual([]);
+  });
+
+  it('should only block the team a blackout is for', () => {
+    const release: BlackoutRule = { id: 'b3', label: 'Release', startDate: '2026-09-01', endDate: '2026-09-04', types: [], teamId: 'team-eng' };
+
+    expect(findBlackoutConflicts([release], { ...request('VACATION', '2026-09-02', '2026-09-02'), teamId: 'team-eng' })).toEqual([release]);
+    expect(findBlackoutConflicts([release], { ...request('VACATION', '2026-09-02', '2026-09-02'), teamId: 'team-ops' })).toEqual([]);
+    expect(findBlackoutConflicts([release], request('VACATION', '2026-09-02', '2026-09-02'))).toEqual([]);
+    expect(findBlackoutConflicts([yearEnd], { ...request('VACATION', '2026-12-29', '2026-12-29'), teamId: 'team-eng' })).toEqual([yearEnd]);
+  });
+
+  it('should only except the blackout days an exception covers', () => {
+    const exceptions = [{ blackoutId: 'b1', startDate: '2026-12-28', endDate: '2026-12-29' }];
+
+    expect(findExceptedBlackouts(blackouts, request('VACATION', '2026-12-28', '2026-12-29'), exceptions)).toEqual(['b1']);
+    // Days outside the blackout don't need covering
+    expect(findExceptedBlackouts(blackouts, request('VACATION', '2026-12-24', '2026-12-28'), exceptions)).toEqual(['b1']);
+    expect(findExceptedBlackouts(blackouts, request('VACATION', '2026-12-29', '2026-12-30'), exceptions)).toEqual([]);
+    expect(findExceptedBlackouts(blackouts, request('VACATION', '2026-06-15', '2026-06-15'), exceptions)).toEqual([]);
+  });
+
+  it('should list every blackout day for a type', () => {
+    expect(getBlackoutDates(blackouts, 'SICK').map(date => date.toISOString().slice(0, 10)))
+      .toEqual(['2026-12-28', '2026-12-29', '2026-12-30', '2026-12-31']);
+    expect(getBlackoutDates(blackouts, 'PERSONAL')).toHaveLength(5);
+  });
+
+  it('should describe the conflicting periods', () => {
+    expect(describeBlackoutConflicts([yearEnd, launch]))
+      .toBe('Request includes blackout dates: Year-end close (2026-12-28 to 2026-12-31), Launch (2026-06-15)');
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma, mockTx, mockRecord, mockReview } = vi.hoisted(() => {
+  const mockTx = {
+    balanceTransaction: { findMany: vi.fn() },
+    timeOffRequest: { delete: vi.fn() },
+  };
+  return {
+    mockTx,
+    mockPrisma: {
+      timeOffRequest: { findUnique: vi.fn(), findMany: vi.fn() },
+      $transaction: vi.fn(async (fn: (tx: typeof mockTx) => unknown) => fn(mockTx)),
+    },
+    mockRecord: vi.fn(),
+    mockReview: vi.fn(),
+  };
+});
+
+vi.mock('../db', () => ({ prisma: mockPrisma, isPrismaAvailable: () => true }));
+vi.mock('../email', () => ({
+  sendRequestStatusNotification: vi.fn(),
+  sendTimeOffRequestApprovedEmail: vi.fn(),
+  sendTimeOffRequestRejectedEmail: vi.fn(),
+}));
+vi.mock('../audit', () => ({
+  AuditLogger: vi.fn().mockImplementation(() => ({ log: vi.fn() })),
+}));
+vi.mock('../balance-ledger', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../balance-ledger')>()),
+  BalanceLedger: vi.fn().mockImplementation(() => ({ record: mockRecord })),
+}));
+vi.mock('../services/approval-service', () => ({
+  approvalService: { review: mockReview },
+}));
+vi.mock('../services/reporting-service', () => ({
+  reportingService: { canReview: vi.fn(async () => true) },
+}));
+vi.mock('../services/overtime-service', () => ({ overtimeService: {} }));
+
+import { BulkActionService } from '../services/bulk-action-service';
+import { ValidationError } from '../errors/time-off';
+
+describe('BulkActionService', () => {
+  const admin = { id: 'admin-1', role: 'ADMIN' };
+  const year = new Date().getFullYear();
+  const baseRequest = {
+    id: 'request-1',
+    userId: 'user-1',
+    type: 'VACATION',
+    startDate: new Date('2026-11-02T00:00:00.000Z'),
+    endDate: new Date('2026-11-06T00:00:00.000Z'),
+    startHalf: null,
+    endHalf: null,
+    workingDays: 5,
+    updatedAt: new Date('2026-10-01T09:00:00.000Z'),
+    user: { email: 'user@example.com', name: 'User' },
+  };
+  let service: BulkActionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new BulkActionService();
+    mockPrisma.timeOffRequest.findMany.mockResolvedValue([]);
+    mockTx.balanceTransaction.findMany.mockResolvedValue([]);
+  });
+
+  describe('deleting time off', () => {
+    it('should give back what the ledger says the request still holds', async () => {
+      mockPrisma.timeOffRequest.findUnique.mockResolvedValue({ ...baseRequest, status: 'APPROVED' });
+      mockTx.balanceTransaction.findMany.mockResolvedValue([
+        { kind: 'DEDUCTION', days: -5, year: 2025, type: 'VACATION' },
+        { kind: 'RESTORATION', days: 2, year: 2025, type: 'VACATION' },
+      ]);
+
+      const [result] = await service.applyToTimeOff(['request-1'], 'DELETE', admin);
+
+      expect(result).toEqual({ id: 'request-1', success: true, status: 'DELETED' });
+      expect(mockRecord).toHaveBeenCalledTimes(1);
+      expect(mockRecord).toHaveBeenCalledWith(expect.objectContaining({ kind: 'RESTORATION', year: 2025, days: 3 }));
+      expect(mockTx.timeOffRequest.delete).toHaveBeenCalledWith({ where: { id: 'request-1' } });
+    });
+
+    it('should give back the working days of a request approved before the ledger', async () => {
+      mockPrisma.timeOffRequest.findUnique.mockResolvedValue({ ...baseRequest, status: 'CANCELLATION_REQUESTED' });
+
+      await service.applyToTimeOff(['request-1'], 'DELETE', admin);
+
+      expect(mockRecord).toHaveBeenCalledWith(
+        expect.objectContaining({ kind: 'RESTORATION', year, type: 'VACATION', days: 5 })
+      );
+    });
+
+    it('should not give anything back for a pending request', async () => {
+      mockPrisma.timeOffRequest.findUnique.mockResolvedValue({ ...baseRequest, status: 'PENDING' });
+
+      await service.applyToTimeOff(['request-1'], 'DELETE', admin);
+
+      expect(mockRecord).not.toHaveBeenCalled();
+      expect(mockTx.timeOffRequest.delete).toHaveBeenCalled();
+    });
+  });
+
+  describe('approving time off', () => {
+    beforeEach(() => {
+      mockPrisma.timeOffRequest.findUnique.mockResolvedValue({ ...baseRequest, status: 'PENDING' });
+    });
+
+    it('should review each request under a bulk audit action', async () => {
+      mockReview.mockResolvedValue({ request: { status: 'APPROVED' }, final: true, change: null });
+
+      const [result] = await service.applyToTimeOff(['request-1'], 'APPROVE', admin, 'Looks fine');
+
+      expect(result).toEqual({ id: 'request-1', success: true, status: 'APPROVED' });
+      expect(mockReview).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'request-1' }),
+        admin,
+        'APPROVED',
+        { comment: 'Looks fine', auditAction: 'BULK_APPROVE' }
+      );
+    });
+
+    it('should report a request the review turned down', async () => {
+      mockReview.mockRejectedValue(new ValidationError('Request was changed while it was being reviewed'));
+
+      const [result] = await service.applyToTimeOff(['request-1'], 'APPROVE', admin);
+
+      expect(result).toMatchObject({ id: 'request-1', success: false, code: 'VALIDATION_ERROR' });
+    });
+
+    it('should leave requests that are no longer pending alone', async () => {
+      mockPrisma.timeOffRequest.findUnique.mockResolvedValue({ ...baseRequest, status: 'APPROVED' });
+
+      const [result] = await service.applyToTimeOff(['request-1'], 'APPROVE', admin);
+
+      expect(result).toMatchObject({ id: 'request-1', success: false, code: 'VALIDATION_ERROR' });
+      expect(mockReview).not.toHaveBeenCalled();
+    });
+  });
+});
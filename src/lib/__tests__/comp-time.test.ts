@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { compTimeExpiry, expiringDays, planGrantDraws, planGrantReturns } from '../comp-time';
+
+describe('Comp-time grants', () => {
+  const on = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+  it('should expire a set number of days after the grant', () => {
+    expect(compTimeExpiry('2025-01-15', 90)).toBe('2025-04-15');
+    expect(compTimeExpiry('2024-12-01', 45)).toBe('2025-01-15');
+    expect(compTimeExpiry('2025-01-15', null)).toBeNull();
+  });
+
+  it('should draw from the soonest expiring grants first', () => {
+    const grants = [
+      { id: 'never', remainingDays: 2, expiresOn: null },
+      { id: 'april', remainingDays: 1, expiresOn: on('2025-04-15') },
+      { id: 'march', remainingDays: 0.5, expiresOn: on('2025-03-01') },
+    ];
+
+    expect(planGrantDraws(grants, 2)).toEqual([
+      { grantId: 'march', days: 0.5 },
+      { grantId: 'april', days: 1 },
+      { grantId: 'never', days: 0.5 },
+    ]);
+  });
+
+  it('should leave days beyond the grants to the rest of the balance', () => {
+    const grants = [{ id: 'april', remainingDays: 1, expiresOn: on('2025-04-15') }];
+
+    expect(planGrantDraws(grants, 3)).toEqual([{ grantId: 'april', days: 1 }]);
+    expect(planGrantDraws([], 3)).toEqual([]);
+  });
+
+  it('should give days back to the latest expiring grants first', () => {
+    const held = [
+      { grantId: 'march', days: 0.5, expiresOn: on('2025-03-01') },
+      { grantId: 'april', days: 1, expiresOn: on('2025-04-15') },
+    ];
+
+    expect(planGrantReturns(held, 1.25)).toEqual([
+      { grantId: 'april', days: 1 },
+      { grantId: 'march', days: 0.25 },
+    ]);
+  });
+
+  it('should only forfeit what the balance still has', () => {
+    expect(expiringDays(2, 5)).toBe(2);
+    expect(expiringDays(2, 1.5)).toBe(1.5);
+    expect(expiringDays(2, -1)).toBe(0);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createHolidayCalendar,
+  createHolidayCalendarFromList,
+  getEasterSunday,
+  getHolidaysForYear,
+  getNthWeekdayOfMonth,
+  getRuleSetCalendar,
+  toDateKey,
+} from '../holidays';
+
+describe('Holidays', () => {
+  describe('getEasterSunday', () => {
+    it('should compute Easter Sunday for several years', () => {
+      expect(toDateKey(getEasterSunday(2024))).toBe('2024-03-31');
+      expect(toDateKey(getEasterSunday(2025))).toBe('2025-04-20');
+      expect(toDateKey(getEasterSunday(2026))).toBe('2026-04-05');
+      expect(toDateKey(getEasterSunday(2030))).toBe('2030-04-21');
+    });
+  });
+
+  describe('getNthWeekdayOfMonth', () => {
+    it('should find the nth weekday of a month', () => {
+      // Third Monday of January 2026
+      expect(toDateKey(getNthWeekdayOfMonth(2026, 1, 1, 3))).toBe('2026-01-19');
+      // Fourth Thursday of November 2027
+      expect(toDateKey(getNthWeekdayOfMonth(2027, 11, 4, 4))).toBe('2027-11-25');
+    });
+
+    it('should find the last weekday of a month', () => {
+      // Last Monday of May 2026
+      expect(toDateKey(getNthWeekdayOfMonth(2026, 5, 1, -1))).toBe('2026-05-25');
+    });
+  });
+
+  describe('getHolidaysForYear', () => {
+    it('should return the full 2026 calendar', () => {
+      const dates = getHolidaysForYear(2026).map(h => h.date);
+      expect(dates).toEqual(expect.arrayContaining([
+        '2026-01-01',
+        '2026-01-19',
+        '2026-02-16',
+        '2026-04-03',
+        '2026-05-25',
+        '2026-06-19',
+        '2026-07-03', // Independence Day observed
+        '2026-07-04',
+        '2026-09-07',
+        '2026-11-11',
+        '2026-11-26',
+        '2026-12-24',
+        '2026-12-25',
+        '2026-12-31',
+      ]));
+    });
+
+    it('should mark observed days', () => {
+      const observed = getHolidaysForYear(2026).find(h => h.date === '2026-07-03');
+      expect(observed).toEqual({ date: '2026-07-03', name: 'Independence Day (observed)', observed: true });
+    });
+
+    it('should move a Sunday holiday to Monday', () => {
+      // Juneteenth 2022 was a Sunday
+      const dates = getHolidaysForYear(2022).map(h => h.date);
+      expect(dates).toContain('2022-06-20');
+    });
+
+    it('should place observed days across the year boundary', () => {
+      // New Year's Day 2022 was a Saturday; Friday Dec 31 is already New Year's Eve
+      const holidays = getHolidaysForYear(2021);
+      expect(holidays).toContainEqual({ date: '2021-12-30', name: "New Year's Day (observed)", observed: true });
+      expect(getHolidaysForYear(2022).some(h => h.date.startsWith('2021'))).toBe(false);
+    });
+
+    it('should return holidays sorted by date', () => {
+      const dates = getHolidaysForYear(2027).map(h => h.date);
+      expect([...dates].sort()).toEqual(dates);
+    });
+  });
+
+  describe('createHolidayCalendar', () => {
+    it('should only include the given rules', () => {
+      const calendar = createHolidayCalendar([
+        { kind: 'fixed', name: 'Founders Day', month: 3, day: 10 },
+      ]);
+      expect(calendar.isHoliday(new Date('2026-03-10'))).toBe(true);
+      expect(calendar.isHoliday(new Date('2026-12-25'))).toBe(false);
+      expect(calendar.getHolidays(2026)).toHaveLength(1);
+    });
+  });
+
+  describe('createHolidayCalendarFromList', () => {
+    const calendar = createHolidayCalendarFromList([
+      { date: '2026-12-28', name: 'Winter Shutdown', observed: false },
+      { date: '2026-12-25', name: 'Christmas Day', observed: false },
+    ]);
+
+    it('should use only the listed holidays for customized years', () => {
+      expect(calendar.isHoliday(new Date('2026-12-28'))).toBe(true);
+      expect(calendar.isHoliday(new Date('2026-12-24'))).toBe(false);
+      expect(calendar.getHolidays(2026).map(h => h.date)).toEqual(['2026-12-25', '2026-12-28']);
+    });
+
+    it('should fall back to the built-in rules for other years', () => {
+      expect(calendar.isHoliday(new Date('2027-12-24'))).toBe(true);
+      expect(calendar.isHoliday(new Date('2027-12-28'))).toBe(false);
+    });
+  });
+
+  describe('getRuleSetCalendar', () => {
+    it('should compute holidays for other locations', () => {
+      const mexico = getRuleSetCalendar('MX');
+      expect(mexico.isHoliday(new Date('2026-02-02'))).toBe(true); // Día de la Constitución
+      expect(mexico.isHoliday(new Date('2026-09-16'))).toBe(true);
+      expect(mexico.isHoliday(new Date('2026-11-26'))).toBe(false); // US Thanksgiving
+
+      const spain = getRuleSetCalendar('ES');
+      expect(spain.isHoliday(new Date('2026-10-12'))).toBe(true);
+      expect(spain.isHoliday(new Date('2026-07-03'))).toBe(false);
+    });
+
+    it('should have no holidays for a missing rule set', () => {
+      expect(getRuleSetCalendar(null).getHolidays(2026)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { createHolidayCalendarFromList } from '../holidays';
+import {
+  convertOvertime,
+  DEFAULT_OVERTIME_CONVERSION,
+  OvertimeConversionRule,
+  overtimeDayKind,
+} from '../overtime-conversion';
+import { createWorkSchedule } from '../work-schedule';
+
+describe('Overtime conversion', () => {
+  const rule: OvertimeConversionRule = {
+    ...DEFAULT_OVERTIME_CONVERSION,
+    creditType: 'PERSONAL',
+    weekendRate: 1.5,
+    holidayRate: 2,
+  };
+  const overtime = { hours: 4, hoursPerDay: 8, dayKind: 'WORKDAY' as const, creditedThisMonth: 0, creditedThisYear: 0 };
+
+  it('should credit plain hours as vacation without a policy', () => {
+    expect(convertOvertime(DEFAULT_OVERTIME_CONVERSION, overtime)).toEqual({
+      compensation: 'COMP_TIME',
+      rate: 1,
+      creditType: 'VACATION',
+      creditedDays: 0.5,
+      payoutHours: 0,
+    });
+  });
+
+  it('should weight hours by the kind of day worked', () => {
+    expect(convertOvertime(rule, { ...overtime, dayKind: 'DAY_OFF' })).toMatchObject({ rate: 1.5, creditType: 'PERSONAL', creditedDays: 0.75 });
+    expect(convertOvertime(rule, { ...overtime, dayKind: 'HOLIDAY', hoursPerDay: 6 })).toMatchObject({ rate: 2, creditedDays: 1.3333 });
+  });
+
+  it('should pay out hours beyond the monthly or yearly cap', () => {
+    const capped = { ...rule, monthlyCapDays: 2, yearlyCapDays: 10 };
+
+    expect(convertOvertime(capped, { ...overtime, creditedThisMonth: 1.75 })).toMatchObject({ creditedDays: 0.25, payoutHours: 2 });
+    expect(convertOvertime(capped, { ...overtime, creditedThisYear: 10 })).toMatchObject({ creditedDays: 0, payoutHours: 4 });
+    expect(convertOvertime(capped, { ...overtime, creditedThisMonth: 3 })).toMatchObject({ creditedDays: 0, payoutHours: 4 });
+  });
+
+  it('should record all weighted hours for payout when the policy pays out', () => {
+    expect(convertOvertime({ ...rule, compensation: 'PAYOUT' }, { ...overtime, dayKind: 'DAY_OFF' })).toEqual({
+      compensation: 'PAYOUT',
+      rate: 1.5,
+      creditType: null,
+      creditedDays: 0,
+      payoutHours: 6,
+    });
+  });
+
+  it('should classify holidays before days off in the schedule', () => {
+    const schedule = createWorkSchedule([{ effectiveFrom: '2025-01-01', pattern: { weekdays: [0, 1, 2, 3] } }]);
+    const calendar = createHolidayCalendarFromList([{ date: '2025-07-04', name: 'Independence Day', observed: false }]);
+
+    expect(overtimeDayKind(new Date('2025-07-06T00:00:00.000Z'), schedule, calendar)).toBe('WORKDAY');
+    expect(overtimeDayKind(new Date('2025-07-05T00:00:00.000Z'), schedule, calendar)).toBe('DAY_OFF');
+    expect(overtimeDayKind(new Date('2025-07-04T00:00:00.000Z'), schedule, calendar)).toBe('HOLIDAY');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkOvertimeDate,
+  checkOvertimeSubmission,
+  findDuplicateOvertimeEntry,
+  hoursBetween,
+  isInSubmissionWindow,
+  OPEN_OVERTIME_SUBMISSION,
+  overtimePeriod,
+} from '../overtime-entries';
+
+describe('Overtime entries', () => {
+  const today = new Date(2025, 2, 10, 9, 30);
+
+  it('should work out hours from start and end times', () => {
+    expect(hoursBetween('17:00', '20:30')).toBe(3.5);
+    expect(hoursBetween('09:10', '10:00')).toBe(0.83);
+  });
+
+  it('should run an end time before the start past midnight', () => {
+    expect(hoursBetween('22:00', '02:00')).toBe(4);
+  });
+
+  it('should count towards the month and year of the day worked', () => {
+    expect(overtimePeriod('2025-01-31')).toEqual({ month: 1, year: 2025 });
+  });
+
+  it('should reject future days and days before the look-back window', () => {
+    expect(checkOvertimeDate('2025-03-10', today, 30)).toBeNull();
+    expect(checkOvertimeDate('2025-03-11', today, 30)).toBe('FUTURE_DATE');
+    expect(checkOvertimeDate('2025-02-08', today, 30)).toBeNull();
+    expect(checkOvertimeDate('2025-02-07', today, 30)).toBe('OUTSIDE_LOOKBACK');
+  });
+
+  it('should only treat overlapping times on the same day as duplicates', () => {
+    const existing = [{ id: 'ot-1', requestDate: '2025-03-07', hours: 3, startTime: '18:00', endTime: '21:00' }];
+
+    expect(findDuplicateOvertimeEntry({ requestDate: '2025-03-07', hours: 2, startTime: '20:00', endTime: '22:00' }, existing)?.id).toBe('ot-1');
+    expect(findDuplicateOvertimeEntry({ requestDate: '2025-03-07', hours: 2, startTime: '06:00', endTime: '08:00' }, existing)).toBeNull();
+    expect(findDuplicateOvertimeEntry({ requestDate: '2025-03-08', hours: 3, startTime: '18:00', endTime: '21:00' }, existing)).toBeNull();
+  });
+
+  it('should treat the same hours on the same day as a duplicate when times are missing', () => {
+    const existing = [{ id: 'ot-1', requestDate: '2025-03-07', hours: 3, startTime: null, endTime: null }];
+
+    expect(findDuplicateOvertimeEntry({ requestDate: '2025-03-07', hours: 3, startTime: '18:00', endTime: '21:00' }, existing)?.id).toBe('ot-1');
+    expect(findDuplicateOvertimeEntry({ requestDate: '2025-03-07', hours: 2, startTime: null, endTime: null }, existing)).toBeNull();
+  });
+
+  describe('submission rules', () => {
+    it('should allow any day when no window is set', () => {
+      expect(isInSubmissionWindow(OPEN_OVERTIME_SUBMISSION, '2025-03-03', today)).toBe(true);
+    });
+
+    it('should only accept a month\'s overtime in its last days or the first days of the next', () => {
+      const rule = { ...OPEN_OVERTIME_SUBMISSION, windowLastDaysOfMonth: 5, windowFirstDaysOfNextMonth: 3 };
+
+      expect(isInSubmissionWindow(rule, '2025-02-10', new Date(2025, 1, 24))).toBe(true);
+      expect(isInSubmissionWindow(rule, '2025-02-10', new Date(2025, 1, 23))).toBe(false);
+      expect(isInSubmissionWindow(rule, '2025-02-10', new Date(2025, 2, 3))).toBe(true);
+      expect(isInSubmissionWindow(rule, '2025-02-10', new Date(2025, 2, 4))).toBe(false);
+      expect(isInSubmissionWindow(rule, '2024-12-20', new Date(2025, 0, 2))).toBe(true);
+    });
+
+    it('should report entry and monthly hour limits with their error codes', () => {
+      const rule = { ...OPEN_OVERTIME_SUBMISSION, maxHoursPerEntry: 4, maxHoursPerMonth: 10 };
+      const entry = { requestDate: '2025-03-07', hours: 5 };
+
+      expect(checkOvertimeSubmission(rule, entry, { today, hoursThisMonth: 8 }).map(v => v.code))
+        .toEqual(['OVERTIME_ENTRY_LIMIT', 'OVERTIME_MONTHLY_LIMIT']);
+      expect(checkOvertimeSubmission(rule, { ...entry, hours: 2 }, { today, hoursThisMonth: 8 })).toEqual([]);
+    });
+
+    it('should require notes on entries over the threshold', () => {
+      const rule = { ...OPEN_OVERTIME_SUBMISSION, notesRequiredAboveHours: 3 };
+      const context = { today, hoursThisMonth: 0 };
+
+      expect(checkOvertimeSubmission(rule, { requestDate: '2025-03-07', hours: 4, notes: '  ' }, context))
+        .toEqual([{ code: 'NOTES_REQUIRED', message: 'Notes are required for entries over 3 hours' }]);
+      expect(checkOvertimeSubmission(rule, { requestDate: '2025-03-07', hours: 4, notes: 'Release night' }, context)).toEqual([]);
+      expect(checkOvertimeSubmission(rule, { requestDate: '2025-03-07', hours: 3 }, context)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { buildOvertimeWhere, summarizeOvertimeByEmployee } from '../overtime-search';
+
+describe('Overtime search', () => {
+  it('should match everything without filters', () => {
+    expect(buildOvertimeWhere({}).text).toBe('TRUE');
+  });
+
+  it('should filter by status, employee and month worked', () => {
+    const where = buildOvertimeWhere({
+      status: 'APPROVED',
+      userId: '0b6f7a52-3c1e-4c8e-9b7a-2f1d5e6c7a8b',
+      year: 2025,
+      month: 3,
+    });
+
+    expect(where.text).toBe('o.status = $1::"RequestStatus" AND o."userId" = $2::uuid AND o.year = $3 AND o.month = $4');
+    expect(where.values).toEqual(['APPROVED', '0b6f7a52-3c1e-4c8e-9b7a-2f1d5e6c7a8b', 2025, 3]);
+  });
+
+  it('should group monthly totals by employee with yearly totals', () => {
+    const month = { approvedHours: 0, pendingHours: 0, creditedDays: 0, payoutHours: 0 };
+    const summary = summarizeOvertimeByEmployee([
+      { ...month, userId: 'u1', userName: 'Ana', month: 1, approvedHours: 6, creditedDays: 0.75 },
+      { ...month, userId: 'u1', userName: 'Ana', month: 2, approvedHours: 4, pendingHours: 2, creditedDays: 0.5, payoutHours: 1.5 },
+      { ...month, userId: 'u2', userName: 'Ben', month: 2, pendingHours: 3 },
+    ]);
+
+    expect(summary.map(employee => employee.userId)).toEqual(['u1', 'u2']);
+    expect(summary[0].months.map(m => m.month)).toEqual([1, 2]);
+    expect(summary[0].totals).toEqual({ approvedHours: 10, pendingHours: 2, creditedDays: 1.25, payoutHours: 1.5 });
+    expect(summary[1].totals).toEqual({ approvedHours: 0, pendingHours: 3, creditedDays: 0, payoutHours: 0 });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Prisma } from '@prisma/client';
+
+const { mockTx, mockRecord } = vi.hoisted(() => ({
+  mockTx: {
+    $queryRaw: vi.fn(),
+    balanceTransaction: { findMany: vi.fn() },
+    compTimeGrant: { findUnique: vi.fn(), delete: vi.fn() },
+  },
+  mockRecord: vi.fn(),
+}));
+
+vi.mock('../db', () => ({ prisma: null, isPrismaAvailable: () => false }));
+vi.mock('../balance-ledger', () => ({
+  BalanceLedger: vi.fn().mockImplementation(() => ({ record: mockRecord })),
+}));
+vi.mock('../services/holiday-service', () => ({ holidayService: {} }));
+vi.mock('../services/work-hours-service', () => ({ workHoursService: {} }));
+vi.mock('../services/work-schedule-service', () => ({ workScheduleService: {} }));
+
+import { OvertimeService } from '../services/overtime-service';
+
+describe('OvertimeService.revokeCredit', () => {
+  const tx = mockTx as unknown as Prisma.TransactionClient;
+  let service: OvertimeService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new OvertimeService();
+    mockTx.balanceTransaction.findMany.mockResolvedValue([]);
+    mockTx.compTimeGrant.findUnique.mockResolvedValue(null);
+    mockTx.$queryRaw.mockResolvedValue([]);
+  });
+
+  it('should take back the credit less what has expired', async () => {
+    mockTx.balanceTransaction.findMany.mockResolvedValue([
+      { userId: 'user-1', year: 2026, type: 'COMP_TIME', days: 1.5 },
+    ]);
+    mockTx.compTimeGrant.findUnique.mockResolvedValue({ id: 'grant-1', year: 2026, type: 'COMP_TIME', expiredDays: 0.5 });
+
+    const revoked = await service.revokeCredit(tx, 'overtime-1', 'admin-1', 'Reversed');
+
+    expect(revoked).toBe(1);
+    expect(mockRecord).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-1', year: 2026, type: 'COMP_TIME', kind: 'OVERTIME_CREDIT', days: -1 })
+    );
+    expect(mockTx.$queryRaw).not.toHaveBeenCalled();
+    expect(mockTx.compTimeGrant.delete).toHaveBeenCalledWith({ where: { id: 'grant-1' } });
+  });
+
+  it('should take back vacation credited before conversion policies', async () => {
+    mockTx.$queryRaw.mockResolvedValue([{ userId: 'user-1', year: 2025, days: 0.75 }]);
+
+    const revoked = await service.revokeCredit(tx, 'overtime-1', 'admin-1', 'Reversed');
+
+    expect(revoked).toBe(0.75);
+    expect(mockRecord).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-1', year: 2025, type: 'VACATION', kind: 'OVERTIME_CREDIT', days: -0.75 })
+    );
+  });
+
+  it('should take nothing back for overtime that was never credited', async () => {
+    const revoked = await service.revokeCredit(tx, 'overtime-1', 'admin-1', 'Deleted');
+
+    expect(revoked).toBe(0);
+    expect(mockRecord).not.toHaveBeenCalled();
+  });
+});
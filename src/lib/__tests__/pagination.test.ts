@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { describePage, pageWindow, wantsPagination } from '../pagination';
+
+describe('Pagination', () => {
+  it('should work out the page window and page count', () => {
+    expect(pageWindow(1, 20)).toEqual({ skip: 0, take: 20 });
+    expect(pageWindow(3, 25)).toEqual({ skip: 50, take: 25 });
+    expect(describePage(51, 3, 25)).toEqual({ page: 3, limit: 25, total: 51, totalPages: 3 });
+    expect(describePage(0, 1, 25)).toEqual({ page: 1, limit: 25, total: 0, totalPages: 0 });
+  });
+
+  it('should only page when a page or limit is given', () => {
+    expect(wantsPagination(new URLSearchParams('year=2025'))).toBe(false);
+    expect(wantsPagination(new URLSearchParams('year=2025&page=2'))).toBe(true);
+    expect(wantsPagination(new URLSearchParams('limit=10'))).toBe(true);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { collectReportIds, createsReportingCycle, ReportingLine } from '../reporting-lines';
+
+describe('Reporting Lines', () => {
+  // director -> lead -> (dev1, dev2); dev2 -> intern
+  const users: ReportingLine[] = [
+    { id: 'director', managerId: null },
+    { id: 'lead', managerId: 'director' },
+    { id: 'dev1', managerId: 'lead' },
+    { id: 'dev2', managerId: 'lead' },
+    { id: 'intern', managerId: 'dev2' },
+  ];
+
+  it('should list direct reports only by default', () => {
+    expect(collectReportIds(users, 'director')).toEqual(['lead']);
+    expect(collectReportIds(users, 'lead')).toEqual(['dev1', 'dev2']);
+    expect(collectReportIds(users, 'dev1')).toEqual([]);
+  });
+
+  it('should include indirect reports when asked', () => {
+    expect(collectReportIds(users, 'director', true)).toEqual(['lead', 'dev1', 'dev2', 'intern']);
+  });
+
+  it('should stop at cycles', () => {
+    const looped: ReportingLine[] = [
+      { id: 'a', managerId: 'b' },
+      { id: 'b', managerId: 'a' },
+    ];
+    expect(collectReportIds(looped, 'a', true)).toEqual(['b']);
+  });
+
+  it('should detect assignments that would loop the reporting line', () => {
+    expect(createsReportingCycle(users, 'lead', 'lead')).toBe(true);
+    expect(createsReportingCycle(users, 'lead', 'intern')).toBe(true);
+    expect(createsReportingCycle(users, 'intern', 'dev1')).toBe(false);
+  });
+});
@@ -6,6 +6,8 @@ import { BalanceManager } from '../balance-manager';
 import { TimeOffValidator } from '../validators/time-off';
 import { PrismaClient } from '@prisma/client';
 import { DatabaseError, ValidationError } from '../errors/time-off';
+import { createHolidayCalendarFromList } from '../holidays';
+import { createWorkSchedule } from '../work-schedule';
 
 // Mock dependencies
 const mockPrisma = {
@@ -111,6 +113,106 @@ describe('RequestManager', () => {
       process.env = originalEnv;
     });
 
+    it('should count working days against the requester\'s holiday calendar', async () => {
+      vi.stubEnv('VERCEL', 'true');
+
+      // Jan 20, 2025 is MLK Day in the US calendar but a working day here
+      const calendar = createHolidayCalendarFromList([
+        { date: '2025-01-22', name: 'Local Holiday', observed: false },
+        { date: '2025-01-23', name: 'Local Holiday', observed: false },
+      ]);
+      const getHolidayCalendar = vi.fn().mockResolvedValue(calendar);
+      const manager = new RequestManager(
+        mockPrisma,
+        mockTransactionManager,
+        mockAuditLogger,
+        mockBalanceManager,
+        mockValidator,
+        getHolidayCalendar
+      );
+
+      const mockTransaction = {
+        timeOffRequest: {
+          create: vi.fn().mockImplementation(async ({ data }) => ({
+            id: 'request-2',
+            ...data,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          })),
+        },
+      };
+
+      vi.mocked(mockValidator.validateRequest).mockResolvedValue({ isValid: true, errors: [] });
+      vi.mocked(mockTransactionManager.execute).mockImplementation(async (callback) => {
+        return callback(mockTransaction as unknown as PrismaClient);
+      });
+
+      const result = await manager.createRequest(
+        'user-2',
+        'VACATION',
+        new Date('2025-01-20'),
+        new Date('2025-01-24')
+      );
+
+      expect(getHolidayCalendar).toHaveBeenCalledWith('user-2');
+      expect(mockValidator.validateRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-2', holidayCalendar: calendar })
+      );
+      expect(result.workingDays).toBe(3);
+
+      vi.unstubAllEnvs();
+    });
+
+    it('should count working days against the requester\'s work schedule', async () => {
+      vi.stubEnv('VERCEL', 'true');
+
+      // Four-day week, Monday to Thursday
+      const schedule = createWorkSchedule([
+        { effectiveFrom: '2025-01-01', pattern: { weekdays: [1, 2, 3, 4] } },
+      ]);
+      const getWorkSchedule = vi.fn().mockResolvedValue(schedule);
+      const manager = new RequestManager(
+        mockPrisma,
+        mockTransactionManager,
+        mockAuditLogger,
+        mockBalanceManager,
+        mockValidator,
+        undefined,
+        getWorkSchedule
+      );
+
+      const mockTransaction = {
+        timeOffRequest: {
+          create: vi.fn().mockImplementation(async ({ data }) => ({
+            id: 'request-3',
+            ...data,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          })),
+        },
+      };
+
+      vi.mocked(mockValidator.validateRequest).mockResolvedValue({ isValid: true, errors: [] });
+      vi.mocked(mockTransactionManager.execute).mockImplementation(async (callback) => {
+        return callback(mockTransaction as unknown as PrismaClient);
+      });
+
+      const result = await manager.createRequest(
+        'user-3',
+        'VACATION',
+        new Date('2025-01-27'),
+        new Date('2025-01-31')
+      );
+
+      expect(getWorkSchedule).toHaveBeenCalledWith('user-3');
+      expect(mockValidator.validateRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-3', workSchedule: schedule })
+      );
+      expect(result.workingDays).toBe(4);
+
+      vi.unstubAllEnvs();
+    });
+
     it('should throw ValidationError when validation fails', async () => {
       const mockValidationResult = {
         isValid: false,
@@ -212,7 +314,8 @@ describe('RequestManager', () => {
         2025,
         'VACATION',
         5,
-        'Approved time off request request-1'
+        'Approved time off request request-1',
+        { requestId: 'request-1', actorId: 'admin-1' }
       );
       expect(mockAuditLogger.log).toHaveBeenCalledWith(
         'admin-1',
@@ -228,6 +331,105 @@ describe('RequestManager', () => {
       process.env = originalEnv;
     });
 
+    it('should only record the step when more approvals are needed', async () => {
+      vi.stubEnv('VERCEL', 'true');
+
+      const mockRequest = {
+        id: 'request-1',
+        userId: 'user-1',
+        type: 'PAID_LEAVE',
+        startDate: new Date('2025-01-20'),
+        endDate: new Date('2025-01-31'),
+        workingDays: 10,
+        status: 'PENDING',
+        reason: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        approvals: [
+          { id: 'step-1', step: 1, role: 'MANAGER', status: 'PENDING', approverId: null },
+          { id: 'step-2', step: 2, role: 'ADMIN', status: 'PENDING', approverId: null },
+        ],
+      };
+
+      const mockTransaction = {
+        timeOffRequest: {
+          findUnique: vi.fn().mockResolvedValue(mockRequest),
+          update: vi.fn().mockImplementation(async ({ data }) => ({ ...mockRequest, ...data })),
+        },
+        requestApproval: {
+          update: vi.fn(),
+        },
+      };
+
+      vi.mocked(mockTransactionManager.execute).mockImplementation(async (callback) => {
+        return callback(mockTransaction as unknown as PrismaClient);
+      });
+
+      const result = await requestManager.approveRequest('request-1', 'manager-1', 2025);
+
+      expect(result.status).toBe('PARTIALLY_APPROVED');
+      expect(mockTransaction.requestApproval.update).toHaveBeenCalledWith({
+        where: { id: 'step-1' },
+        data: expect.objectContaining({ status: 'APPROVED', approverId: 'manager-1' }),
+      });
+      expect(mockBalanceManager.deductBalance).not.toHaveBeenCalled();
+
+      vi.unstubAllEnvs();
+    });
+
+    it('should deduct the balance once the last step approves', async () => {
+      vi.stubEnv('VERCEL', 'true');
+
+      const mockRequest = {
+        id: 'request-1',
+        userId: 'user-1',
+        type: 'PAID_LEAVE',
+        startDate: new Date('2025-01-20'),
+        endDate: new Date('2025-01-31'),
+        workingDays: 10,
+        status: 'PARTIALLY_APPROVED',
+        reason: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        approvals: [
+          { id: 'step-1', step: 1, role: 'MANAGER', status: 'APPROVED', approverId: 'manager-1' },
+          { id: 'step-2', step: 2, role: 'ADMIN', status: 'PENDING', approverId: null },
+        ],
+      };
+
+      const mockTransaction = {
+        timeOffRequest: {
+          findUnique: vi.fn().mockResolvedValue(mockRequest),
+          update: vi.fn().mockImplementation(async ({ data }) => ({ ...mockRequest, ...data })),
+        },
+        requestApproval: {
+          update: vi.fn(),
+        },
+      };
+
+      vi.mocked(mockTransactionManager.execute).mockImplementation(async (callback) => {
+        return callback(mockTransaction as unknown as PrismaClient);
+      });
+
+      const result = await requestManager.approveRequest('request-1', 'admin-1', 2025);
+
+      expect(result.status).toBe('APPROVED');
+      expect(mockTransaction.requestApproval.update).toHaveBeenCalledWith({
+        where: { id: 'step-2' },
+        data: expect.objectContaining({ status: 'APPROVED', approverId: 'admin-1' }),
+      });
+      expect(mockBalanceManager.deductBalance).toHaveBeenCalledWith(
+        'user-1',
+        2025,
+        'PAID_LEAVE',
+        10,
+        'Approved time off request request-1',
+        { requestId: 'request-1', actorId: 'admin-1' }
+      );
+
+      vi.unstubAllEnvs();
+    });
+
     it('should throw DatabaseError when request not found', async () => {
       const originalEnv = process.env;
       process.env.VERCEL = 'true';
@@ -425,7 +627,8 @@ describe('RequestManager', () => {
         2025,
         'VACATION',
         5,
-        'Deleted time off request request-1'
+        'Deleted time off request request-1',
+        { requestId: 'request-1', actorId: 'user-1' }
       );
 
       process.env = originalEnv;
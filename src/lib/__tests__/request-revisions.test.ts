@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { RequestVersion, revisedFields, revisionAdjustments } from '../request-revisions';
+
+describe('Request revisions', () => {
+  const version: RequestVersion = {
+    type: 'VACATION',
+    startDate: new Date('2025-03-03T00:00:00.000Z'),
+    endDate: new Date('2025-03-07T23:59:59.999Z'),
+    workingDays: 5,
+    startHalf: null,
+    endHalf: null,
+    reason: 'Family trip',
+  };
+
+  it('should list the fields a revision changes', () => {
+    expect(revisedFields(version, { ...version })).toEqual([]);
+    expect(revisedFields(version, { ...version, endDate: new Date('2025-03-06T23:59:59.999Z'), workingDays: 4 })).toEqual(['dates']);
+    expect(revisedFields(version, { ...version, type: 'PERSONAL', reason: 'Moving house' })).toEqual(['type', 'reason']);
+    expect(revisedFields(version, { ...version, startHalf: 'PM' })).toEqual(['dates']);
+  });
+
+  it('should treat a missing reason and an empty one alike', () => {
+    expect(revisedFields({ ...version, reason: null }, { ...version, reason: '' })).toEqual([]);
+  });
+
+  it('should charge or refund only the difference for the same balance', () => {
+    const held = [{ year: 2025, type: 'VACATION' as const, days: 5 }];
+
+    expect(revisionAdjustments(held, { year: 2025, type: 'VACATION', days: 7 })).toEqual([
+      { year: 2025, type: 'VACATION', days: -2 },
+    ]);
+    expect(revisionAdjustments(held, { year: 2025, type: 'VACATION', days: 3.5 })).toEqual([
+      { year: 2025, type: 'VACATION', days: 1.5 },
+    ]);
+    expect(revisionAdjustments(held, { year: 2025, type: 'VACATION', days: 5 })).toEqual([]);
+  });
+
+  it('should give back days held in another balance and charge the new one in full', () => {
+    const held = [{ year: 2025, type: 'VACATION' as const, days: 5 }];
+
+    expect(revisionAdjustments(held, { year: 2025, type: 'PERSONAL', days: 2 })).toEqual([
+      { year: 2025, type: 'VACATION', days: 5 },
+      { year: 2025, type: 'PERSONAL', days: -2 },
+    ]);
+  });
+
+  it('should deduct the full request when nothing is held', () => {
+    expect(revisionAdjustments([], { year: 2025, type: 'SICK', days: 3 })).toEqual([
+      { year: 2025, type: 'SICK', days: -3 },
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { buildRequestOrderBy, buildRequestWhere } from '../request-search';
+import { TimeOffRequestFilterSchema } from '../validators/schemas';
+
+describe('Request search', () => {
+  const filter = (params: Record<string, string>) => TimeOffRequestFilterSchema.parse(params);
+
+  it('should match requests that overlap the year', () => {
+    expect(buildRequestWhere(filter({ year: '2025' }))).toEqual({
+      AND: [
+        { startDate: { lt: new Date('2026-01-01T00:00:00.000Z') } },
+        { endDate: { gte: new Date('2025-01-01T00:00:00.000Z') } },
+      ],
+    });
+  });
+
+  it('should combine status, type, requester and date range', () => {
+    expect(buildRequestWhere(filter({
+      status: 'APPROVED',
+      type: 'SICK',
+      userId: '123e4567-e89b-12d3-a456-426614174000',
+      startDate: '2025-03-01T00:00:00.000Z',
+      endDate: '2025-03-31T23:59:59.999Z',
+    }))).toEqual({
+      status: 'APPROVED',
+      type: 'SICK',
+      userId: '123e4567-e89b-12d3-a456-426614174000',
+      AND: [
+        { endDate: { gte: new Date('2025-03-01T00:00:00.000Z') } },
+        { startDate: { lte: new Date('2025-03-31T23:59:59.999Z') } },
+      ],
+    });
+  });
+
+  it('should search the requester name and email', () => {
+    expect(buildRequestWhere(filter({ search: ' ana ' }))).toEqual({
+      user: {
+        OR: [
+          { name: { contains: 'ana', mode: 'insensitive' } },
+          { email: { contains: 'ana', mode: 'insensitive' } },
+        ],
+      },
+    });
+  });
+
+  it('should sort by start date, newest first, unless asked otherwise', () => {
+    expect(buildRequestOrderBy(filter({}))).toEqual([{ startDate: 'desc' }, { id: 'asc' }]);
+    expect(buildRequestOrderBy(filter({ sortBy: 'createdAt', sortOrder: 'asc' }))).toEqual([
+      { createdAt: 'asc' },
+      { id: 'asc' },
+    ]);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { calculateRollover, getCarryoverExpiry, getExpiredCarryover } from '../rollover';
+
+describe('Year-end Rollover', () => {
+  const rule = { annualAllowance: 15, carryoverCap: 5, expiryMonth: 3, expiryDay: 31 };
+
+  it('should carry unused days up to the cap and forfeit the rest', () => {
+    expect(calculateRollover(8, rule, 2027)).toEqual({ carriedDays: 5, forfeitedDays: 3, expiresOn: '2027-03-31' });
+    expect(calculateRollover(2.5, rule, 2027)).toEqual({ carriedDays: 2.5, forfeitedDays: 0, expiresOn: '2027-03-31' });
+  });
+
+  it('should carry everything without a cap', () => {
+    expect(calculateRollover(12, { annualAllowance: 15 }, 2027)).toEqual({ carriedDays: 12, forfeitedDays: 0, expiresOn: null });
+  });
+
+  it('should carry nothing from an empty or overdrawn balance', () => {
+    expect(calculateRollover(0, rule, 2027)).toEqual({ carriedDays: 0, forfeitedDays: 0, expiresOn: null });
+    expect(calculateRollover(-2, rule, 2027)).toEqual({ carriedDays: 0, forfeitedDays: 0, expiresOn: null });
+  });
+
+  it('should forfeit everything with a zero cap', () => {
+    expect(calculateRollover(4, { annualAllowance: 15, carryoverCap: 0 }, 2027))
+      .toEqual({ carriedDays: 0, forfeitedDays: 4, expiresOn: null });
+  });
+
+  it('should clamp the expiry to the end of the month', () => {
+    expect(getCarryoverExpiry({ annualAllowance: 0, expiryMonth: 2, expiryDay: 29 }, 2027)).toBe('2027-02-28');
+    expect(getCarryoverExpiry({ annualAllowance: 0, expiryMonth: 2, expiryDay: 29 }, 2028)).toBe('2028-02-29');
+  });
+
+  it('should only expire carried days that were not used', () => {
+    expect(getExpiredCarryover(5, 0)).toBe(5);
+    expect(getExpiredCarryover(5, 3.5)).toBe(1.5);
+    expect(getExpiredCarryover(5, 9)).toBe(0);
+  });
+});
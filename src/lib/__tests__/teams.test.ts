@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { TeamAbsence, buildTeamCalendar, describeStaffingConflicts, findStaffingConflicts } from '../teams';
+
+describe('Teams', () => {
+  const absence = (userId: string, startDate: string, endDate: string, status: TeamAbsence['status'] = 'APPROVED'): TeamAbsence => ({
+    requestId: `${userId}-${startDate}`,
+    userId,
+    userName: userId,
+    type: 'VACATION',
+    status,
+    startDate: new Date(`${startDate}T00:00:00.000Z`),
+    endDate: new Date(`${endDate}T23:59:59.999Z`),
+  });
+
+  it('should list who is off on each day of the range', () => {
+    const days = buildTeamCalendar(
+      [absence('ana', '2025-03-03', '2025-03-04'), absence('ben', '2025-03-04', '2025-03-04', 'PENDING')],
+      new Date('2025-03-03T00:00:00.000Z'),
+      new Date('2025-03-05T00:00:00.000Z')
+    );
+
+    expect(days.map(day => day.date)).toEqual(['2025-03-03', '2025-03-04', '2025-03-05']);
+    expect(days.map(day => day.off.map(entry => entry.userId))).toEqual([['ana'], ['ana', 'ben'], []]);
+  });
+
+  it('should flag weekdays where the request goes over the limit', () => {
+    const absences = [absence('ana', '2025-03-03', '2025-03-07'), absence('ben', '2025-03-05', '2025-03-05')];
+    const request = {
+      userId: 'cal',
+      startDate: new Date('2025-03-04T00:00:00.000Z'),
+      endDate: new Date('2025-03-05T23:59:59.999Z'),
+    };
+
+    expect(findStaffingConflicts(absences, request, 2)).toEqual([{ date: '2025-03-05', off: 3, limit: 2 }]);
+    expect(findStaffingConflicts(absences, request, 3)).toEqual([]);
+  });
+
+  it('should not count weekends or the requester\'s other absences', () => {
+    const absences = [absence('ana', '2025-03-08', '2025-03-09'), absence('cal', '2025-03-10', '2025-03-10')];
+    const request = {
+      userId: 'cal',
+      startDate: new Date('2025-03-08T00:00:00.000Z'),
+      endDate: new Date('2025-03-10T23:59:59.999Z'),
+    };
+
+    expect(findStaffingConflicts(absences, request, 1)).toEqual([]);
+  });
+
+  it('should count someone with several requests on a day once', () => {
+    const absences = [absence('ana', '2025-03-03', '2025-03-03'), absence('ana', '2025-03-03', '2025-03-03')];
+    const request = { userId: 'cal', startDate: new Date('2025-03-03'), endDate: new Date('2025-03-03') };
+
+    expect(findStaffingConflicts(absences, request, 2)).toEqual([]);
+  });
+
+  it('should describe the conflicting days', () => {
+    expect(describeStaffingConflicts('Support', [{ date: '2025-03-05', off: 3, limit: 2 }]))
+      .toBe('Support allows at most 2 people off at once: 2025-03-05 (3 off)');
+  });
+});
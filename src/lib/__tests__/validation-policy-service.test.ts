@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockPrisma = vi.hoisted(() => ({
+  validationPolicy: { findMany: vi.fn() },
+  user: { findUnique: vi.fn() },
+  timeOffRequest: { count: vi.fn() },
+}));
+
+vi.mock('../db', () => ({ prisma: mockPrisma, isPrismaAvailable: () => true }));
+
+import { ValidationPolicyService } from '../services/validation-policy-service';
+
+describe('ValidationPolicyService', () => {
+  const start = new Date(2027, 2, 1);
+  const end = new Date(2027, 2, 2);
+  let service: ValidationPolicyService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new ValidationPolicyService();
+    mockPrisma.validationPolicy.findMany.mockResolvedValue([
+      { type: 'VACATION', role: null, minNoticeDays: 0, maxConsecutiveDays: 30, maxRequestsPerYear: 3 },
+    ]);
+    mockPrisma.user.findUnique.mockResolvedValue({ role: 'EMPLOYEE' });
+  });
+
+  it('should only count active requests of the policy\'s type against the limit', async () => {
+    mockPrisma.timeOffRequest.count.mockResolvedValue(2);
+
+    expect(await service.checkRequest('user-1', 'VACATION', start, end)).toEqual([]);
+    expect(mockPrisma.timeOffRequest.count).toHaveBeenCalledWith({
+      where: expect.objectContaining({
+        userId: 'user-1',
+        type: 'VACATION',
+        status: { in: ['PENDING', 'PARTIALLY_APPROVED', 'APPROVED', 'CANCELLATION_REQUESTED'] },
+      }),
+    });
+  });
+
+  it('should turn down a request over the yearly limit', async () => {
+    mockPrisma.timeOffRequest.count.mockResolvedValue(3);
+
+    const errors = await service.checkRequest('user-1', 'VACATION', start, end);
+    expect(errors.map(error => error.code)).toEqual(['REQUEST_LIMIT_EXCEEDED']);
+  });
+
+  it('should not limit types without a policy', async () => {
+    mockPrisma.validationPolicy.findMany.mockResolvedValue([]);
+
+    expect(await service.checkRequest('user-1', 'SICK', start, end)).toEqual([]);
+    expect(mockPrisma.timeOffRequest.count).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { applyValidationPolicy, findValidationPolicy, ValidationPolicyRule } from '../validation-policy';
+import { TimeOffValidationRules } from '../types/time-off';
+
+describe('Validation Policies', () => {
+  const policies: ValidationPolicyRule[] = [
+    { type: 'VACATION', role: null, minNoticeDays: 14, maxConsecutiveDays: 20, maxRequestsPerYear: 10 },
+    { type: 'VACATION', role: 'MANAGER', minNoticeDays: 30, maxConsecutiveDays: 15, maxRequestsPerYear: 8 },
+    { type: 'SICK', role: null, minNoticeDays: 0, maxConsecutiveDays: 10, maxRequestsPerYear: 30 },
+  ];
+
+  const defaults: TimeOffValidationRules = {
+    minNoticeDays: 7,
+    maxConsecutiveDays: 30,
+    maxRequestsPerYear: 20,
+    blackoutDates: [new Date('2026-12-24T00:00:00.000Z')],
+  };
+
+  it('should prefer the policy for the requester\'s role', () => {
+    expect(findValidationPolicy(policies, 'VACATION', 'MANAGER')?.minNoticeDays).toBe(30);
+  });
+
+  it('should fall back to the general policy for the type', () => {
+    expect(findValidationPolicy(policies, 'VACATION', 'EMPLOYEE')?.minNoticeDays).toBe(14);
+    expect(findValidationPolicy(policies, 'SICK', 'MANAGER')?.minNoticeDays).toBe(0);
+    expect(findValidationPolicy(policies, 'VACATION')?.minNoticeDays).toBe(14);
+  });
+
+  it('should return null for a type without a policy', () => {
+    expect(findValidationPolicy(policies, 'PERSONAL', 'EMPLOYEE')).toBeNull();
+  });
+
+  it('should override the limits and keep the other rules', () => {
+    const rules = applyValidationPolicy(defaults, policies[2]);
+    expect(rules).toEqual({ ...defaults, minNoticeDays: 0, maxConsecutiveDays: 10, maxRequestsPerYear: 30 });
+    expect(applyValidationPolicy(defaults, null)).toBe(defaults);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { daysToHours, formatBalance, hoursToDays } from '../work-hours';
+
+describe('Work Hours', () => {
+  it('should convert hours at the default eight-hour day', () => {
+    expect(hoursToDays(12)).toBe(1.5);
+    expect(daysToHours(1.5)).toBe(12);
+  });
+
+  it('should convert hours at a part-time working day', () => {
+    expect(hoursToDays(6, 6)).toBe(1);
+    expect(daysToHours(2.5, 6)).toBe(15);
+  });
+
+  it('should reject a working day with no hours', () => {
+    expect(() => hoursToDays(8, 0)).toThrow();
+  });
+
+  it('should format balances in the preferred unit', () => {
+    expect(formatBalance(1.5)).toBe('1.5 days');
+    expect(formatBalance(1)).toBe('1 day');
+    expect(formatBalance(1.5, { hoursPerDay: 6, unit: 'HOURS' })).toBe('9 hours');
+  });
+});
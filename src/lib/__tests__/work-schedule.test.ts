@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { createWorkSchedule, standardWorkSchedule } from '../work-schedule';
+import { calculateWorkingDays } from '../date-utils';
+
+describe('Work Schedule', () => {
+  const schedule = createWorkSchedule([
+    { effectiveFrom: '2025-03-01', pattern: { weekdays: [1, 2, 3, 4] } },
+    { effectiveFrom: '2025-06-01', pattern: { weekdays: [0, 1, 2, 3, 4], hoursByWeekday: { 0: 6 } } },
+  ]);
+
+  it('should default to Monday to Friday', () => {
+    expect(standardWorkSchedule.isWorkingDay(new Date('2025-01-24'))).toBe(true); // Friday
+    expect(standardWorkSchedule.isWorkingDay(new Date('2025-01-26'))).toBe(false); // Sunday
+  });
+
+  it('should use the pattern in effect on each date', () => {
+    // Before the first entry the standard week applies
+    expect(schedule.isWorkingDay(new Date('2025-02-07'))).toBe(true); // Friday
+    expect(schedule.isWorkingDay(new Date('2025-03-07'))).toBe(false); // Friday
+    expect(schedule.isWorkingDay(new Date('2025-06-01'))).toBe(true); // Sunday
+  });
+
+  it('should report scheduled hours per weekday', () => {
+    expect(schedule.getHours(new Date('2025-06-01'), 8)).toBe(6); // Sunday
+    expect(schedule.getHours(new Date('2025-06-02'), 8)).toBe(8); // Monday
+    expect(schedule.getHours(new Date('2025-06-06'), 8)).toBe(0); // Friday
+  });
+
+  it('should count requests under the pattern that applied at the time', () => {
+    // Monday to Sunday, once under each pattern
+    expect(calculateWorkingDays(new Date('2025-02-03'), new Date('2025-02-09'), { schedule })).toBe(5);
+    expect(calculateWorkingDays(new Date('2025-03-03'), new Date('2025-03-09'), { schedule })).toBe(4);
+    expect(calculateWorkingDays(new Date('2025-06-02'), new Date('2025-06-08'), { schedule })).toBe(5);
+  });
+});
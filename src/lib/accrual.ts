@@ -0,0 +1,193 @@
+/**
+ * Time-off accrual rules
+ *
+ * Policies credit a fixed amount per year or per month, or an amount for every
+ * N hours worked. Amounts can be expressed in days or hours; hours are
+ * converted with the employee's standard working-day length. The first period
+ * after a hire date is prorated by the share of it the employee was employed.
+ */
+
+import { HalfDay } from './date-utils';
+import { HolidayCalendar, defaultHolidayCalendar, toDateKey } from './holidays';
+import { BalanceUnit, hoursToDays } from './work-hours';
+import { WorkSchedule, standardWorkSchedule } from './work-schedule';
+
+export type AccrualBasis = 'ANNUAL' | 'MONTHLY' | 'HOURS_WORKED';
+
+export interface AccrualRule {
+  basis: AccrualBasis;
+  // Amount credited each period, or for every `perHours` hours worked
+  rate: number;
+  unit: BalanceUnit;
+  perHours?: number | null;
+  // Most that can accrue in a calendar year, in `unit`
+  annualCap?: number | null;
+}
+
+export interface AccrualPeriod {
+  year: number;
+  month?: number; // 1-12; omitted for annual grants
+}
+
+export interface AccrualAmount {
+  days: number;
+  prorated: boolean;
+}
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Stable key for a period, e.g. "2026" or "2026-03"
+ */
+export function getPeriodKey(period: AccrualPeriod): string {
+  return period.month ? `${period.year}-${String(period.month).padStart(2, '0')}` : String(period.year);
+}
+
+/**
+ * First and last calendar day of a period (UTC)
+ */
+export function getPeriodRange(period: AccrualPeriod): { start: Date; end: Date } {
+  if (period.month) {
+    return {
+      start: new Date(Date.UTC(period.year, period.month - 1, 1)),
+      end: new Date(Date.UTC(period.year, period.month, 0)),
+    };
+  }
+  return {
+    start: new Date(Date.UTC(period.year, 0, 1)),
+    end: new Date(Date.UTC(period.year, 11, 31)),
+  };
+}
+
+/**
+ * Periods that are due for posting as of a date, starting from `since`.
+ * Annual grants are due from the first day of the year; monthly and
+ * hours-worked accruals once the month has ended.
+ */
+export function getDuePeriods(basis: AccrualBasis, since: Date, asOf: Date): AccrualPeriod[] {
+  const periods: AccrualPeriod[] = [];
+  const fromYear = since.getUTCFullYear();
+
+  if (basis === 'ANNUAL') {
+    for (let year = fromYear; year <= asOf.getUTCFullYear(); year++) {
+      periods.push({ year });
+    }
+    return periods;
+  }
+
+  let year = fromYear;
+  let month = since.getUTCMonth() + 1;
+  // The month containing asOf is still running
+  const lastCompleted = asOf.getUTCFullYear() * 12 + asOf.getUTCMonth() - 1;
+  while (year * 12 + (month - 1) <= lastCompleted) {
+    periods.push({ year, month });
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+  }
+  return periods;
+}
+
+/**
+ * Share of a period's calendar days on or after the hire date
+ */
+export function getEmployedFraction(period: AccrualPeriod, hireDate?: Date | null): number {
+  const { start, end } = getPeriodRange(period);
+  if (!hireDate) return 1;
+
+  const hire = Date.UTC(hireDate.getUTCFullYear(), hireDate.getUTCMonth(), hireDate.getUTCDate());
+  if (hire <= start.getTime()) return 1;
+  if (hire > end.getTime()) return 0;
+
+  const totalDays = (end.getTime() - start.getTime()) / ONE_DAY_MS + 1;
+  const employedDays = (end.getTime() - hire) / ONE_DAY_MS + 1;
+  return employedDays / totalDays;
+}
+
+/**
+ * Computes the days to credit for one period
+ * @param rule Accrual policy rule
+ * @param period Period being posted
+ * @param context Hire date, hours worked in the period, the employee's day length
+ *   and the days this policy has already credited in the same year
+ */
+export function calculateAccrual(
+  rule: AccrualRule,
+  period: AccrualPeriod,
+  context: {
+    hireDate?: Date | null;
+    hoursWorked?: number;
+    hoursPerDay: number;
+    accruedThisYear?: number;
+  }
+): AccrualAmount {
+  let amount: number;
+  let prorated = false;
+
+  if (rule.basis === 'HOURS_WORKED') {
+    if (!rule.perHours || rule.perHours <= 0) {
+      throw new Error('Hours-worked policies need a positive perHours value');
+    }
+    // Hours worked already reflect the hire date
+    amount = ((context.hoursWorked ?? 0) / rule.perHours) * rule.rate;
+  } else {
+    const fraction = getEmployedFraction(period, context.hireDate);
+    amount = rule.rate * fraction;
+    prorated = fraction > 0 && fraction < 1;
+  }
+
+  const toDays = (value: number) => (rule.unit === 'HOURS' ? hoursToDays(value, context.hoursPerDay) : value);
+  let days = toDays(amount);
+
+  if (rule.annualCap !== null && rule.annualCap !== undefined) {
+    const remaining = Math.max(0, toDays(rule.annualCap) - (context.accruedThisYear ?? 0));
+    days = Math.min(days, remaining);
+  }
+
+  return { days: round(Math.max(0, days)), prorated };
+}
+
+/**
+ * Scheduled hours actually worked between two dates: scheduled hours minus
+ * holidays and approved time off, plus any approved overtime
+ */
+export function calculateHoursWorked(params: {
+  start: Date;
+  end: Date;
+  hoursPerDay: number;
+  schedule?: WorkSchedule;
+  calendar?: HolidayCalendar;
+  timeOff?: Array<{ startDate: Date; endDate: Date; startHalf?: HalfDay | null; endHalf?: HalfDay | null }>;
+  overtimeHours?: number;
+}): number {
+  const schedule = params.schedule ?? standardWorkSchedule;
+  const calendar = params.calendar ?? defaultHolidayCalendar;
+  const timeOff = (params.timeOff ?? []).map(request => ({
+    start: toDateKey(request.startDate),
+    end: toDateKey(request.endDate),
+    startHalf: request.startHalf,
+    endHalf: request.endHalf,
+  }));
+
+  let hours = 0;
+  for (let t = params.start.getTime(); t <= params.end.getTime(); t += ONE_DAY_MS) {
+    const day = new Date(t);
+    if (calendar.isHoliday(day)) continue;
+
+    const scheduled = schedule.getHours(day, params.hoursPerDay);
+    const key = toDateKey(day);
+    const request = timeOff.find(r => r.start <= key && key <= r.end);
+    if (!request) {
+      hours += scheduled;
+    } else if ((key === request.start && request.startHalf) || (key === request.end && request.endHalf)) {
+      // Half a day off still leaves the other half worked
+      hours += scheduled / 2;
+    }
+  }
+
+  return hours + (params.overtimeHours ?? 0);
+}
@@ -0,0 +1,89 @@
+import { RequestStatus, TimeOffType } from './types/time-off';
+
+/**
+ * Approval chains
+ *
+ * A chain lists who signs off a request, in order: the requester's manager
+ * and/or an admin. Chains are set per time-off type and apply to requests
+ * longer than a number of working days, so a type can need more sign-offs as
+ * requests get longer. Requests without a chain keep the single-step flow.
+ */
+
+export type ApprovalStepRole = 'MANAGER' | 'ADMIN';
+export type ApprovalStepStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface ApprovalChainRule {
+  type: TimeOffType;
+  overDays: number;
+  steps: ApprovalStepRole[];
+}
+
+export interface ApprovalStep {
+  step: number;
+  role: ApprovalStepRole;
+  status: ApprovalStepStatus;
+  approverId: string | null;
+}
+
+export const APPROVAL_STEP_LABELS: Record<ApprovalStepRole, string> = {
+  MANAGER: 'Manager',
+  ADMIN: 'HR / Admin',
+};
+
+/**
+ * Picks the chain for a request: the one with the highest threshold the
+ * request is longer than
+ */
+export function findApprovalChain<T extends ApprovalChainRule>(
+  chains: T[],
+  type: TimeOffType,
+  workingDays: number
+): T | null {
+  const matching = chains
+    .filter(chain => chain.type === type && chain.steps.length > 0 && workingDays > chain.overDays)
+    .sort((a, b) => b.overDays - a.overDays);
+  return matching[0] ?? null;
+}
+
+/**
+ * The step waiting for a decision, or null once the chain is finished
+ */
+export function currentApprovalStep<T extends ApprovalStep>(steps: T[]): T | null {
+  if (steps.some(step => step.status === 'REJECTED')) {
+    return null;
+  }
+  return [...steps].sort((a, b) => a.step - b.step).find(step => step.status === 'PENDING') ?? null;
+}
+
+/**
+ * The request status implied by its steps
+ */
+export function chainStatus(steps: ApprovalStep[]): RequestStatus {
+  if (steps.some(step => step.status === 'REJECTED')) {
+    return 'REJECTED';
+  }
+  const approved = steps.filter(step => step.status === 'APPROVED').length;
+  if (approved === 0) {
+    return 'PENDING';
+  }
+  return approved === steps.length ? 'APPROVED' : 'PARTIALLY_APPROVED';
+}
+
+/**
+ * Admins can sign off any step, so requesters without a manager aren't stuck;
+ * managers only sign off manager steps for their reports
+ */
+export function canDecideStep(role: ApprovalStepRole, reviewer: { role?: string; isManager: boolean }): boolean {
+  if (reviewer.role === 'ADMIN') {
+    return true;
+  }
+  return role === 'MANAGER' && reviewer.isManager;
+}
+
+export function describeApprovalProgress(steps: ApprovalStep[]): string {
+  const current = currentApprovalStep(steps);
+  if (!current) {
+    return chainStatus(steps) === 'REJECTED' ? 'Rejected' : 'All steps approved';
+  }
+  return `Step ${current.step} of ${steps.length}: waiting for ${APPROVAL_STEP_LABELS[current.role]}`;
+}
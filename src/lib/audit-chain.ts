@@ -0,0 +1,193 @@
+import { createHash } from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+
+/**
+ * Tamper-evident audit log
+ *
+ * Each audit entry stores a SHA-256 hash of its content together with the
+ * hash of the entry before it, so changing, removing or slipping in an entry
+ * breaks every link after it. Entries are chained in sequence order; writers
+ * take a database lock so two entries never claim the same predecessor.
+ * Entries written before the chain existed have no hash and are skipped.
+ *
+ * Details are stored as JSON, which does not keep key order, so they are
+ * hashed in a canonical form with sorted keys.
+ */
+
+// Advisory lock held while an entry is appended to the chain
+export const AUDIT_CHAIN_LOCK_ID = 720501;
+
+const VERIFY_BATCH_SIZE = 1000;
+
+export interface ChainedAuditContent {
+  id: string;
+  userId: string | null;
+  action: string;
+  entityType: string;
+  entityId: string;
+  details: unknown;
+  createdAt: Date;
+}
+
+export interface ChainedAuditRow extends ChainedAuditContent {
+  sequence: number;
+  previousHash: string | null;
+  hash: string | null;
+}
+
+export type AuditChainBreakReason = 'HASH_MISMATCH' | 'BROKEN_LINK' | 'UNHASHED_ENTRY';
+
+export interface AuditChainBreak {
+  id: string;
+  sequence: number;
+  createdAt: Date;
+  reason: AuditChainBreakReason;
+}
+
+export interface AuditChainReport {
+  valid: boolean;
+  // Chained entries checked, up to and including a broken one
+  checked: number;
+  // Entries from before the chain was introduced
+  unchained: number;
+  lastHash: string | null;
+  broken: AuditChainBreak | null;
+}
+
+const BREAK_DESCRIPTIONS: Record<AuditChainBreakReason, string> = {
+  HASH_MISMATCH: 'its content no longer matches its hash',
+  BROKEN_LINK: 'it does not follow the entry before it, so an entry was removed or inserted',
+  UNHASHED_ENTRY: 'it was written without a hash',
+};
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map(key => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * JSON with sorted keys, reading values the way they come back from storage
+ */
+export function canonicalJson(value: unknown): string {
+  const stored = JSON.parse(JSON.stringify(value ?? null));
+  return JSON.stringify(canonicalize(stored));
+}
+
+export function hashAuditEntry(entry: ChainedAuditContent, previousHash: string | null): string {
+  return createHash('sha256')
+    .update(canonicalJson({
+      id: entry.id,
+      userId: entry.userId,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      details: entry.details,
+      createdAt: entry.createdAt.toISOString(),
+      previousHash,
+    }))
+    .digest('hex');
+}
+
+/**
+ * Checks entries in sequence order, continuing from the hash of the last
+ * entry already checked. Stops at the first broken link.
+ */
+export function checkAuditChain(
+  rows: ChainedAuditRow[],
+  previous: Pick<AuditChainReport, 'checked' | 'unchained' | 'lastHash'> = { checked: 0, unchained: 0, lastHash: null }
+): AuditChainReport {
+  let { checked, unchained, lastHash } = previous;
+
+  for (const row of rows) {
+    const started = checked > 0;
+    let reason: AuditChainBreakReason | null = null;
+
+    if (row.hash === null) {
+      if (!started) {
+        unchained++;
+        continue;
+      }
+      reason = 'UNHASHED_ENTRY';
+    } else if (row.previousHash !== lastHash) {
+      reason = 'BROKEN_LINK';
+    } else if (hashAuditEntry(row, row.previousHash) !== row.hash) {
+      reason = 'HASH_MISMATCH';
+    }
+
+    checked++;
+    if (reason) {
+      return {
+        valid: false,
+        checked,
+        unchained,
+        lastHash,
+        broken: { id: row.id, sequence: row.sequence, createdAt: row.createdAt, reason },
+      };
+    }
+    lastHash = row.hash;
+  }
+
+  return { valid: true, checked, unchained, lastHash, broken: null };
+}
+
+export function describeAuditChainBreak(broken: AuditChainBreak): string {
+  return `Audit entry #${broken.sequence} (${broken.id}) from ${broken.createdAt.toISOString()} ` +
+    `breaks the chain: ${BREAK_DESCRIPTIONS[broken.reason]}.`;
+}
+
+/**
+ * Walks the whole stored chain in batches
+ */
+export async function verifyAuditChain(client: PrismaClient): Promise<AuditChainReport> {
+  let report: AuditChainReport = { valid: true, checked: 0, unchained: 0, lastHash: null, broken: null };
+  let after = 0;
+
+  for (;;) {
+    const rows = await client.auditLog.findMany({
+      where: { sequence: { gt: after } },
+      orderBy: { sequence: 'asc' },
+      take: VERIFY_BATCH_SIZE,
+    });
+    if (rows.length === 0) {
+      return report;
+    }
+
+    report = checkAuditChain(rows, report);
+    if (!report.valid) {
+      return report;
+    }
+    after = rows[rows.length - 1].sequence;
+  }
+}
+
+/**
+ * Appends an entry to the chain. Must run inside a transaction, which holds
+ * the chain lock until it commits.
+ */
+export async function appendAuditEntry(tx: Prisma.TransactionClient, entry: ChainedAuditContent): Promise<void> {
+  await tx.$executeRawUnsafe(`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_ID})`);
+  const last = await tx.auditLog.findFirst({
+    where: { hash: { not: null } },
+    orderBy: { sequence: 'desc' },
+    select: { hash: true },
+  });
+  const previousHash = last?.hash ?? null;
+
+  await tx.auditLog.create({
+    data: {
+      ...entry,
+      details: entry.details as Prisma.InputJsonValue,
+      previousHash,
+      hash: hashAuditEntry(entry, previousHash),
+    },
+  });
+}
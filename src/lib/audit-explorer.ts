@@ -0,0 +1,144 @@
+import { Prisma } from '@prisma/client';
+import { AuditLogFilterInput } from './validators/schemas';
+
+/**
+ * Audit log explorer
+ *
+ * Every audit entry records a broad action (CREATE, UPDATE, DELETE) and a
+ * free-form details object, which usually names the specific action too.
+ * Details describe a change in one of a few shapes: `before`/`after` or
+ * `previous`/`current` snapshots, or a `previousX` field next to `newX` or
+ * `x`. This module reads those shapes back as field-by-field changes and
+ * turns entries into CSV for compliance reviews.
+ */
+
+// Exports larger than this have to be narrowed down with filters
+export const AUDIT_EXPORT_LIMIT = 10000;
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditExportRow {
+  createdAt: Date;
+  actorName: string | null;
+  actorEmail: string | null;
+  action: string;
+  entityType: string;
+  entityId: string;
+  details: unknown;
+}
+
+const SNAPSHOT_PAIRS: [string, string][] = [['before', 'after'], ['previous', 'current']];
+
+const CSV_COLUMNS = ['Time', 'Actor', 'Actor Email', 'Action', 'Event', 'Entity Type', 'Entity ID', 'Changes', 'Details'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export function buildAuditWhere(filter: AuditLogFilterInput): Prisma.AuditLogWhereInput {
+  const where: Prisma.AuditLogWhereInput = {};
+
+  if (filter.userId) {
+    where.userId = filter.userId;
+  }
+  if (filter.entityType) {
+    where.entityType = filter.entityType;
+  }
+  if (filter.entityId) {
+    where.entityId = filter.entityId;
+  }
+  if (filter.action) {
+    where.OR = [
+      { action: filter.action },
+      { details: { path: ['action'], equals: filter.action } },
+    ];
+  }
+  if (filter.startDate || filter.endDate) {
+    where.createdAt = {
+      ...(filter.startDate ? { gte: new Date(filter.startDate) } : {}),
+      ...(filter.endDate ? { lte: new Date(filter.endDate) } : {}),
+    };
+  }
+  return where;
+}
+
+/**
+ * The specific action an entry records, falling back to its broad one
+ */
+export function auditEvent(action: string, details: unknown): string {
+  return isRecord(details) && typeof details.action === 'string' ? details.action : action;
+}
+
+/**
+ * Field-by-field changes described by an entry's details
+ */
+export function diffAuditDetails(details: unknown): AuditChange[] {
+  if (!isRecord(details)) {
+    return [];
+  }
+  const changes: AuditChange[] = [];
+
+  for (const [from, to] of SNAPSHOT_PAIRS) {
+    const before = details[from];
+    const after = details[to];
+    if (!isRecord(before) && !isRecord(after)) continue;
+
+    const beforeFields = isRecord(before) ? before : {};
+    const afterFields = isRecord(after) ? after : {};
+    const fields = [...new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])];
+    for (const field of fields) {
+      if (!sameValue(beforeFields[field], afterFields[field])) {
+        changes.push({ field, before: beforeFields[field] ?? null, after: afterFields[field] ?? null });
+      }
+    }
+  }
+
+  for (const key of Object.keys(details)) {
+    const match = /^previous([A-Z]\w*)$/.exec(key);
+    if (!match) continue;
+
+    const field = match[1][0].toLowerCase() + match[1].slice(1);
+    const afterKey = [`new${match[1]}`, field].find(candidate => candidate in details);
+    if (afterKey && !sameValue(details[key], details[afterKey])) {
+      changes.push({ field, before: details[key] ?? null, after: details[afterKey] ?? null });
+    }
+  }
+  return changes;
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function toCsvField(value: string): string {
+  // Keep spreadsheets from running values that look like formulas
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function auditLogsToCsv(rows: AuditExportRow[]): string {
+  const lines = rows.map(row => [
+    row.createdAt.toISOString(),
+    row.actorName ?? '',
+    row.actorEmail ?? '',
+    row.action,
+    auditEvent(row.action, row.details),
+    row.entityType,
+    row.entityId,
+    diffAuditDetails(row.details)
+      .map(change => `${change.field}: ${formatAuditValue(change.before)} → ${formatAuditValue(change.after)}`)
+      .join('; '),
+    JSON.stringify(row.details ?? null),
+  ].map(toCsvField).join(','));
+
+  return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+}
@@ -1,18 +1,34 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { AuditLog } from './types/time-off';
 import { DatabaseAdapter, createDatabaseAdapter } from './db/adapter';
 import { transformAuditLog, createAuditLogInput } from './db/transformer';
+import { appendAuditEntry, ChainedAuditContent } from './audit-chain';
+import { AuditWriteError } from './errors/time-off';
 import { v4 as uuidv4 } from 'uuid';
 
+/**
+ * Set AUDIT_WRITES_REQUIRED=true to fail an operation whose audit entry
+ * cannot be written instead of carrying on without it
+ */
+export function auditWritesRequired(): boolean {
+  return process.env.AUDIT_WRITES_REQUIRED === 'true';
+}
+
 export class AuditLogger {
   private adapter: DatabaseAdapter;
 
-  constructor(private prisma: PrismaClient) {
-    this.adapter = createDatabaseAdapter(prisma);
+  /**
+   * Pass a transaction client to write the entry as part of that
+   * transaction, so a failed write can roll back the change it records.
+   * An entry logged after its change has committed can only fail the
+   * response, not undo the change.
+   */
+  constructor(private prisma: PrismaClient | Prisma.TransactionClient) {
+    this.adapter = createDatabaseAdapter(prisma as PrismaClient);
   }
 
   async log(
-    userId: string,
+    userId: string | null,
     action: AuditLog['action'],
     entityType: AuditLog['entityType'],
     entityId: string,
@@ -22,12 +38,12 @@ export class AuditLogger {
 
     try {
       if (process.env.VERCEL || process.env.NODE_ENV === 'production') {
-        await this.prisma.auditLog.create({
-          data: {
-            id: uuidv4(),
-            ...logInput
-          }
-        });
+        const entry = { id: uuidv4(), ...logInput, createdAt: new Date() };
+        if ('$transaction' in this.prisma) {
+          await this.prisma.$transaction(tx => appendAuditEntry(tx, entry));
+        } else {
+          await this.appendWithinTransaction(this.prisma, entry);
+        }
       } else if (process.env.NODE_ENV === 'development') {
         await this.adapter.execute(`
           INSERT INTO audit_logs (
@@ -45,7 +61,42 @@ export class AuditLogger {
       }
     } catch (error) {
       console.error('Failed to create audit log:', error);
-      // Don't throw the error as audit logging should not break the main flow
+      if (auditWritesRequired()) {
+        throw new AuditWriteError();
+      }
+      // Otherwise audit logging should not break the main flow
+    }
+  }
+
+  /**
+   * Logs a change the system made on its own, such as a scheduled job, with
+   * no user as its actor
+   */
+  async logSystem(
+    action: AuditLog['action'],
+    entityType: AuditLog['entityType'],
+    entityId: string,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    await this.log(null, action, entityType, entityId, { ...details, source: 'system' });
+  }
+
+  /**
+   * A failed statement aborts the whole Postgres transaction, so the entry is
+   * written under a savepoint; rolling back to it lets the caller's change
+   * go ahead when audit writes aren't required
+   */
+  private async appendWithinTransaction(
+    tx: Prisma.TransactionClient,
+    entry: ChainedAuditContent
+  ): Promise<void> {
+    await tx.$executeRaw`SAVEPOINT audit_entry`;
+    try {
+      await appendAuditEntry(tx, entry);
+      await tx.$executeRaw`RELEASE SAVEPOINT audit_entry`;
+    } catch (error) {
+      await tx.$executeRaw`ROLLBACK TO SAVEPOINT audit_entry`;
+      throw error;
     }
   }
 
@@ -0,0 +1,185 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { TimeOffType } from './types/time-off';
+import { CompTimeGrants } from './comp-time';
+
+/**
+ * Append-only balance history
+ *
+ * Every change to a balance is recorded as a transaction: grants, accruals,
+ * overtime credits, carryover, forfeitures and manual adjustments change the
+ * days available, while deductions and restorations record days taken. The
+ * TimeOffBalance row is a running projection of these entries and can always
+ * be rebuilt from them. Entries are never edited; mistakes are corrected with
+ * an adjustment.
+ */
+
+export type BalanceTransactionKind =
+  | 'GRANT'
+  | 'ACCRUAL'
+  | 'DEDUCTION'
+  | 'RESTORATION'
+  | 'OVERTIME_CREDIT'
+  | 'CARRYOVER'
+  | 'FORFEITURE'
+  | 'ADJUSTMENT';
+
+// Kinds that record time taken rather than time granted
+const USAGE_KINDS: BalanceTransactionKind[] = ['DEDUCTION', 'RESTORATION'];
+
+export interface BalanceTotals {
+  totalDays: number;
+  usedDays: number;
+  remainingDays: number;
+}
+
+export interface BalanceSource {
+  requestId?: string;
+  overtimeRequestId?: string;
+  accrualId?: string;
+  // Who made the change; omitted for scheduled jobs
+  actorId?: string;
+}
+
+export interface BalanceTransactionInput extends BalanceSource {
+  userId: string;
+  year: number;
+  type: TimeOffType;
+  kind: BalanceTransactionKind;
+  // Change to the remaining days; deductions and forfeitures are negative
+  days: number;
+  reason?: string;
+}
+
+export interface LedgerEntry {
+  kind: BalanceTransactionKind;
+  days: number;
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+export function isUsageKind(kind: BalanceTransactionKind): boolean {
+  return USAGE_KINDS.includes(kind);
+}
+
+/**
+ * Applies one transaction to a set of totals
+ */
+export function applyTransaction(totals: BalanceTotals, entry: LedgerEntry): BalanceTotals {
+  const totalDays = isUsageKind(entry.kind) ? totals.totalDays : round(totals.totalDays + entry.days);
+  const usedDays = isUsageKind(entry.kind) ? round(totals.usedDays - entry.days) : totals.usedDays;
+  return { totalDays, usedDays, remainingDays: round(totalDays - usedDays) };
+}
+
+/**
+ * Derives a balance from its transactions, oldest first
+ */
+export function deriveBalance(entries: LedgerEntry[]): BalanceTotals {
+  return entries.reduce(applyTransaction, { totalDays: 0, usedDays: 0, remainingDays: 0 });
+}
+
+/**
+ * Pairs each transaction with the balance right after it. Entries must be
+ * for a single balance and in the order they were recorded.
+ */
+export function withRunningTotals<T extends LedgerEntry>(entries: T[]): Array<T & { balance: BalanceTotals }> {
+  let totals: BalanceTotals = { totalDays: 0, usedDays: 0, remainingDays: 0 };
+  return entries.map(entry => {
+    totals = applyTransaction(totals, entry);
+    return { ...entry, balance: totals };
+  });
+}
+
+/**
+ * Days a request still holds in each balance: its deductions less what has
+ * already been restored
+ */
+export function outstandingUsage(
+  entries: Array<LedgerEntry & { year: number; type: TimeOffType }>
+): Array<{ year: number; type: TimeOffType; days: number }> {
+  const held = new Map<string, { year: number; type: TimeOffType; days: number }>();
+  for (const entry of entries.filter(e => isUsageKind(e.kind))) {
+    const key = `${entry.year}:${entry.type}`;
+    const current = held.get(key) ?? { year: entry.year, type: entry.type, days: 0 };
+    held.set(key, { ...current, days: round(current.days - entry.days) });
+  }
+  return [...held.values()].filter(usage => usage.days > 0);
+}
+
+export class BalanceLedger {
+  // Pass the transaction client to record alongside other writes
+  constructor(private prisma: PrismaClient | Prisma.TransactionClient) {}
+
+  /**
+   * Records a transaction without touching the balance row. Use when the
+   * caller updates the balance itself in the same database transaction.
+   */
+  async append(input: BalanceTransactionInput) {
+    if (!Number.isFinite(input.days)) {
+      throw new Error('Balance transactions need a finite number of days');
+    }
+
+    return this.prisma.balanceTransaction.create({
+      data: {
+        userId: input.userId,
+        year: input.year,
+        type: input.type,
+        kind: input.kind,
+        days: round(input.days),
+        requestId: input.requestId ?? null,
+        overtimeRequestId: input.overtimeRequestId ?? null,
+        accrualId: input.accrualId ?? null,
+        actorId: input.actorId ?? null,
+        reason: input.reason ?? null,
+      },
+    });
+  }
+
+  /**
+   * Records a transaction and applies it to the balance, creating the
+   * balance if this is its first transaction. Days a request takes or gives
+   * back also move through the balance's comp-time grants.
+   */
+  async record(input: BalanceTransactionInput) {
+    const entry = await this.append(input);
+    const usage = isUsageKind(input.kind);
+    const totalDays = usage ? 0 : entry.days;
+    const usedDays = usage ? -entry.days : 0;
+
+    await this.prisma.timeOffBalance.upsert({
+      where: { unique_balance_per_year: { userId: input.userId, year: input.year, type: input.type } },
+      create: {
+        userId: input.userId,
+        year: input.year,
+        type: input.type,
+        totalDays,
+        usedDays,
+        remainingDays: entry.days,
+      },
+      update: {
+        totalDays: { increment: totalDays },
+        usedDays: { increment: usedDays },
+        remainingDays: { increment: entry.days },
+      },
+    });
+
+    if (usage && input.requestId) {
+      await new CompTimeGrants(this.prisma).applyUsage({
+        userId: input.userId,
+        year: input.year,
+        type: input.type,
+        requestId: input.requestId,
+        days: entry.days,
+      });
+    }
+
+    return entry;
+  }
+
+  /**
+   * Days a request still holds in each balance
+   */
+  async heldBy(requestId: string) {
+    const entries = await this.prisma.balanceTransaction.findMany({ where: { requestId } });
+    return outstandingUsage(entries);
+  }
+}
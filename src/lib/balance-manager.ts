@@ -2,9 +2,10 @@ import { PrismaClient } from '@prisma/client';
 import { TimeOffType, TimeOffBalance } from './types/time-off';
 import { TransactionManager } from './db/transaction';
 import { AuditLogger } from './audit';
-import { InsufficientBalanceError, DatabaseError } from './errors/time-off';
+import { InsufficientBalanceError, DatabaseError, ValidationError } from './errors/time-off';
 import { DatabaseAdapter, createDatabaseAdapter } from './db/adapter';
 import { transformTimeOffBalance, createTimeOffBalanceInput } from './db/transformer';
+import { BalanceLedger, BalanceSource } from './balance-ledger';
 
 export class BalanceManager {
   private adapter: DatabaseAdapter;
@@ -62,8 +63,13 @@ export class BalanceManager {
     year: number,
     type: TimeOffType,
     days: number,
-    reason: string
+    reason: string,
+    source: BalanceSource = {}
   ): Promise<TimeOffBalance> {
+    if (!Number.isFinite(days)) {
+      throw new ValidationError('Balance change must be a number', 'days');
+    }
+
     return this.transactionManager.execute(async (tx) => {
       const balance = await this.getBalance(userId, year, type);
       const newUsedDays = balance.usedDays + days;
@@ -79,6 +85,17 @@ export class BalanceManager {
 
       try {
         if (process.env.VERCEL || process.env.NODE_ENV === 'production') {
+          // Positive changes take days; the ledger records the effect on what remains
+          await new BalanceLedger(tx).append({
+            ...source,
+            userId,
+            year,
+            type,
+            kind: days >= 0 ? 'DEDUCTION' : 'RESTORATION',
+            days: -days,
+            reason,
+          });
+
           const updatedBalance = await tx.timeOffBalance.update({
             where: {
               userId_year_type: {
@@ -138,9 +155,11 @@ export class BalanceManager {
     year: number,
     type: TimeOffType,
     days: number,
-    reason: string
+    reason: string,
+    source: BalanceSource = {}
   ): Promise<TimeOffBalance> {
-    return this.updateBalance(userId, year, type, -days, reason);
+    this.assertHalfDayIncrement(days);
+    return this.updateBalance(userId, year, type, -days, reason, source);
   }
 
   async deductBalance(
@@ -148,8 +167,17 @@ export class BalanceManager {
     year: number,
     type: TimeOffType,
     days: number,
-    reason: string
+    reason: string,
+    source: BalanceSource = {}
   ): Promise<TimeOffBalance> {
-    return this.updateBalance(userId, year, type, days, reason);
+    this.assertHalfDayIncrement(days);
+    return this.updateBalance(userId, year, type, days, reason, source);
+  }
+
+  // Day-based requests can start or end on a half day, so they move in 0.5 steps
+  private assertHalfDayIncrement(days: number): void {
+    if (!Number.isFinite(days) || !Number.isInteger(days * 2)) {
+      throw new ValidationError('Time off must be in half-day increments', 'days');
+    }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,108 @@
+import { toDateKey } from './holidays';
+import { TimeOffType } from './types/time-off';
+
+/**
+ * Blackout periods
+ *
+ * A blackout is an inclusive range of calendar days (YYYY-MM-DD) when some or
+ * all time-off types can't be taken, company-wide or for one team. Requests are
+ * compared by calendar day, so any overlap counts, including a half day. An
+ * exception lifts a blackout for one user on the days it covers.
+ */
+
+export interface BlackoutRule {
+  id: string;
+  label: string;
+  startDate: string;
+  endDate: string;
+  // Empty applies to every type
+  types: TimeOffType[];
+  // Null applies to everyone
+  teamId: string | null;
+}
+
+export interface BlackoutExceptionRange {
+  blackoutId: string;
+  startDate: string;
+  endDate: string;
+}
+
+interface BlackoutRequest {
+  type: TimeOffType;
+  startDate: Date;
+  endDate: Date;
+  teamId?: string | null;
+}
+
+export function appliesToType(blackout: BlackoutRule, type: TimeOffType): boolean {
+  return blackout.types.length === 0 || blackout.types.includes(type);
+}
+
+export function appliesToTeam(blackout: BlackoutRule, teamId: string | null | undefined): boolean {
+  return blackout.teamId === null || blackout.teamId === teamId;
+}
+
+/**
+ * Returns the blackouts a request falls in, skipping those the requester
+ * has an exception for
+ */
+export function findBlackoutConflicts<T extends BlackoutRule>(
+  blackouts: T[],
+  request: BlackoutRequest,
+  exceptedIds: string[] = []
+): T[] {
+  const start = toDateKey(request.startDate);
+  const end = toDateKey(request.endDate);
+  return blackouts.filter(blackout =>
+    appliesToType(blackout, request.type) &&
+    appliesToTeam(blackout, request.teamId) &&
+    !exceptedIds.includes(blackout.id) &&
+    blackout.startDate <= end &&
+    blackout.endDate >= start
+  );
+}
+
+/**
+ * Returns the blackouts whose days in the request are all covered by one of
+ * the requester's exceptions
+ */
+export function findExceptedBlackouts(
+  blackouts: BlackoutRule[],
+  request: BlackoutRequest,
+  exceptions: BlackoutExceptionRange[]
+): string[] {
+  const start = toDateKey(request.startDate);
+  const end = toDateKey(request.endDate);
+  return blackouts
+    .filter(blackout => {
+      const from = blackout.startDate > start ? blackout.startDate : start;
+      const to = blackout.endDate < end ? blackout.endDate : end;
+      return from <= to && exceptions.some(exception =>
+        exception.blackoutId === blackout.id && exception.startDate <= from && exception.endDate >= to
+      );
+    })
+    .map(blackout => blackout.id);
+}
+
+/**
+ * Lists every day covered by blackouts for a type, as UTC dates
+ */
+export function getBlackoutDates(blackouts: BlackoutRule[], type: TimeOffType): Date[] {
+  const dates: Date[] = [];
+  for (const blackout of blackouts.filter(b => appliesToType(b, type))) {
+    const current = new Date(`${blackout.startDate}T00:00:00.000Z`);
+    const end = new Date(`${blackout.endDate}T00:00:00.000Z`);
+    while (current <= end) {
+      dates.push(new Date(current));
+      current.setUTCDate(current.getUTCDate() + 1);
+    }
+  }
+  return dates;
+}
+
+export function describeBlackoutConflicts(conflicts: BlackoutRule[]): string {
+  const periods = conflicts.map(b =>
+    b.startDate === b.endDate ? `${b.label} (${b.startDate})` : `${b.label} (${b.startDate} to ${b.endDate})`
+  );
+  return `Request includes blackout dates: ${periods.join(', ')}`;
+}
@@ -0,0 +1,182 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { TimeOffType } from './types/time-off';
+
+/**
+ * Comp-time grants
+ *
+ * Comp time credited from approved overtime is kept as a dated grant on top
+ * of the balance it was credited to, with an optional expiry date. Days taken
+ * from that balance are drawn from its unexpired grants first, soonest expiry
+ * first, and days given back return to the grants they came from. Whatever is
+ * left of a grant on its expiry date is forfeited by a scheduled sweep; days
+ * given back to a grant after it expired are picked up by the next sweep.
+ */
+
+export interface GrantSlice {
+  grantId: string;
+  days: number;
+}
+
+export interface OpenGrant {
+  id: string;
+  remainingDays: number;
+  expiresOn: Date | null;
+}
+
+export interface HeldGrant {
+  grantId: string;
+  // Days the request still holds from the grant
+  days: number;
+  expiresOn: Date | null;
+}
+
+export interface CompTimeGrantInput {
+  userId: string;
+  overtimeRequestId: string;
+  year: number;
+  type: TimeOffType;
+  days: number;
+  grantedOn: string; // YYYY-MM-DD
+  expiryDays: number | null;
+}
+
+export interface CompTimeUsageInput {
+  userId: string;
+  year: number;
+  type: TimeOffType;
+  requestId: string;
+  // Change to the remaining days, as recorded in the ledger
+  days: number;
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+// Null expiry dates sort after every real one
+const expiryTime = (date: Date | null) => date?.getTime() ?? Infinity;
+
+/**
+ * Expiry date for a grant, or null when comp time doesn't expire
+ */
+export function compTimeExpiry(grantedOn: string, expiryDays: number | null): string | null {
+  if (expiryDays === null) return null;
+
+  const date = new Date(`${grantedOn}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + expiryDays);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Splits days taken across open grants, soonest expiry first. Days beyond
+ * what the grants hold come out of the rest of the balance and aren't listed.
+ */
+export function planGrantDraws(grants: OpenGrant[], days: number): GrantSlice[] {
+  const slices: GrantSlice[] = [];
+  let left = days;
+  for (const grant of [...grants].sort((a, b) => expiryTime(a.expiresOn) - expiryTime(b.expiresOn))) {
+    if (left <= 0) break;
+    const take = round(Math.min(left, grant.remainingDays));
+    if (take <= 0) continue;
+    slices.push({ grantId: grant.id, days: take });
+    left = round(left - take);
+  }
+  return slices;
+}
+
+/**
+ * Splits days given back across the grants a request drew from, latest
+ * expiry first, so a partial return undoes the last draws
+ */
+export function planGrantReturns(held: HeldGrant[], days: number): GrantSlice[] {
+  const slices: GrantSlice[] = [];
+  let left = days;
+  for (const grant of [...held].sort((a, b) => expiryTime(b.expiresOn) - expiryTime(a.expiresOn))) {
+    if (left <= 0) break;
+    const give = round(Math.min(left, grant.days));
+    if (give <= 0) continue;
+    slices.push({ grantId: grant.grantId, days: give });
+    left = round(left - give);
+  }
+  return slices;
+}
+
+/**
+ * Days forfeited when a grant expires. A balance that has dropped below the
+ * grant, say through a manual adjustment, only loses what it still has.
+ */
+export function expiringDays(grantRemainingDays: number, balanceRemainingDays: number): number {
+  return round(Math.max(0, Math.min(grantRemainingDays, balanceRemainingDays)));
+}
+
+export class CompTimeGrants {
+  // Pass the transaction client to keep grants in step with the ledger
+  constructor(private prisma: PrismaClient | Prisma.TransactionClient) {}
+
+  async grant(input: CompTimeGrantInput) {
+    const expiresOn = compTimeExpiry(input.grantedOn, input.expiryDays);
+
+    return this.prisma.compTimeGrant.create({
+      data: {
+        userId: input.userId,
+        overtimeRequestId: input.overtimeRequestId,
+        year: input.year,
+        type: input.type,
+        days: round(input.days),
+        remainingDays: round(input.days),
+        grantedOn: new Date(`${input.grantedOn}T00:00:00.000Z`),
+        expiresOn: expiresOn ? new Date(`${expiresOn}T00:00:00.000Z`) : null,
+      },
+    });
+  }
+
+  /**
+   * Draws days taken by a request from the balance's grants, or returns days
+   * given back to the grants the request drew from
+   */
+  async applyUsage(input: CompTimeUsageInput, asOf: Date = new Date()) {
+    const slices = input.days < 0
+      ? planGrantDraws(await this.openGrants(input, asOf), -input.days)
+      : planGrantReturns(await this.heldBy(input), input.days);
+    const sign = input.days < 0 ? 1 : -1;
+
+    for (const slice of slices) {
+      await this.prisma.compTimeGrant.update({
+        where: { id: slice.grantId },
+        data: { remainingDays: { increment: -sign * slice.days } },
+      });
+      await this.prisma.compTimeUsage.create({
+        data: { grantId: slice.grantId, requestId: input.requestId, days: sign * slice.days },
+      });
+    }
+    return slices;
+  }
+
+  private async openGrants(input: CompTimeUsageInput, asOf: Date): Promise<OpenGrant[]> {
+    return this.prisma.compTimeGrant.findMany({
+      where: {
+        userId: input.userId,
+        year: input.year,
+        type: input.type,
+        remainingDays: { gt: 0 },
+        OR: [{ expiresOn: null }, { expiresOn: { gt: asOf } }],
+      },
+      select: { id: true, remainingDays: true, expiresOn: true },
+    });
+  }
+
+  private async heldBy(input: CompTimeUsageInput): Promise<HeldGrant[]> {
+    const usages = await this.prisma.compTimeUsage.findMany({
+      where: {
+        requestId: input.requestId,
+        grant: { userId: input.userId, year: input.year, type: input.type },
+      },
+      include: { grant: { select: { expiresOn: true } } },
+    });
+
+    const held = new Map<string, HeldGrant>();
+    for (const usage of usages) {
+      const current = held.get(usage.grantId) ?? { grantId: usage.grantId, days: 0, expiresOn: usage.grant.expiresOn };
+      held.set(usage.grantId, { ...current, days: round(current.days + usage.days) });
+    }
+    return [...held.values()].filter(grant => grant.days > 0);
+  }
+}
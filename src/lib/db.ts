@@ -2,6 +2,7 @@ import Database from 'better-sqlite3';
 import { join } from 'path';
 import { PrismaClient } from '@prisma/client';
 import { randomUUID } from 'crypto';
+import { DEFAULT_HOURS_PER_DAY, hoursToDays } from './work-hours';
 
 interface TimeOffBalance {
   id: string;
@@ -35,6 +36,11 @@ if (isPrismaEnabled) {
 }
 export const prisma = prismaClient;
 
+// Whether the Prisma-backed services can run
+export function isPrismaAvailable(): boolean {
+  return !!(process.env.VERCEL || (isPrismaEnabled && prisma));
+}
+
 // Initialize SQLite only if not using Prisma and not on Vercel
 const db = (!isPrismaEnabled && !process.env.VERCEL) 
   ? new Database(join(process.cwd(), 'toff.db'), { verbose: console.log })
@@ -263,8 +269,8 @@ export const dbOperations = db ? {
       throw new Error('Database operations not available');
     }
 
-    // Convert hours to days (8 hours = 1 day)
-    const daysToAdd = hours / 8;
+    // SQLite users have no working-day setting, so convert at the default length
+    const daysToAdd = hoursToDays(hours, DEFAULT_HOURS_PER_DAY);
     
     // Get current balance
     const balance = this.getUserTimeOffBalance(userId, year, 'VACATION') as TimeOffBalance | undefined;
@@ -80,7 +80,7 @@ export function createTimeOffBalanceInput(
 }
 
 export function createAuditLogInput(
-  userId: string,
+  userId: string | null,
   action: AuditLog['action'],
   entityType: AuditLog['entityType'],
   entityId: string,
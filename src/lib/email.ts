@@ -1,5 +1,6 @@
 import nodemailer from 'nodemailer';
 import { prisma, isPrismaEnabled } from './db';
+import { DEFAULT_HOURS_PER_DAY, hoursToDays } from './work-hours';
 
 // Configure email transporter
 // For development, we'll use a test account from Ethereal
@@ -127,6 +128,7 @@ export async function sendOvertimeRequestNotification({
   employeeName,
   employeeEmail,
   hours,
+  hoursPerDay = DEFAULT_HOURS_PER_DAY,
   requestDate,
   notes,
   adminEmail,
@@ -135,6 +137,7 @@ export async function sendOvertimeRequestNotification({
   employeeName: string;
   employeeEmail: string;
   hours: number;
+  hoursPerDay?: number;
   requestDate: string;
   notes?: string;
   adminEmail: string;
@@ -152,7 +155,7 @@ export async function sendOvertimeRequestNotification({
     <h3>Request Details:</h3>
     <ul>
       <li><strong>Employee:</strong> ${employeeName} (${employeeEmail})</li>
-      <li><strong>Hours:</strong> ${hours} (${(hours / 8).toFixed(2)} days)</li>
+      <li><strong>Hours:</strong> ${hours} (${hoursToDays(hours, hoursPerDay).toFixed(2)} days)</li>
       <li><strong>Date:</strong> ${new Date(requestDate).toLocaleDateString()}</li>
       ${notes ? `<li><strong>Notes:</strong> ${notes}</li>` : ''}
     </ul>
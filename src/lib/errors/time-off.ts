@@ -1,3 +1,6 @@
+import { BlackoutRule, describeBlackoutConflicts } from '../blackouts';
+import { StaffingConflict, describeStaffingConflicts } from '../teams';
+
 export class TimeOffError extends Error {
   constructor(
     message: string,
@@ -57,6 +60,20 @@ export class BlackoutDateError extends TimeOffError {
   }
 }
 
+export class BlackoutConflictError extends TimeOffError {
+  constructor(public blackouts: BlackoutRule[]) {
+    super(describeBlackoutConflicts(blackouts), 'BLACKOUT_DATE', 400);
+    this.name = 'BlackoutConflictError';
+  }
+}
+
+export class StaffingLimitError extends TimeOffError {
+  constructor(teamName: string, public conflicts: StaffingConflict[]) {
+    super(describeStaffingConflicts(teamName, conflicts), 'STAFFING_LIMIT', 400);
+    this.name = 'StaffingLimitError';
+  }
+}
+
 export class NoticePeriodError extends TimeOffError {
   constructor(requiredDays: number) {
     super(
@@ -97,9 +114,27 @@ export class UnauthorizedError extends TimeOffError {
   }
 }
 
+export class ApprovalStepError extends TimeOffError {
+  constructor(step: number, approver: string) {
+    super(
+      `Step ${step} of this request's approval chain must be approved by ${approver}`,
+      'APPROVAL_STEP',
+      403
+    );
+    this.name = 'ApprovalStepError';
+  }
+}
+
 export class DatabaseError extends TimeOffError {
   constructor(message: string = 'Database operation failed') {
     super(message, 'DATABASE_ERROR', 500);
     this.name = 'DatabaseError';
   }
-} 
\ No newline at end of file
+} 
+
+export class AuditWriteError extends TimeOffError {
+  constructor(message: string = 'The change could not be recorded in the audit log') {
+    super(message, 'AUDIT_WRITE_FAILED', 500);
+    this.name = 'AuditWriteError';
+  }
+}
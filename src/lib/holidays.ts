@@ -0,0 +1,285 @@
+/**
+ * Rule-based holiday calendar engine
+ *
+ * Holidays are described as rules (fixed date, nth weekday of a month, or an
+ * offset from Easter Sunday) and expanded into concrete dates per year, so the
+ * calendar keeps working for any year instead of a hardcoded list.
+ */
+
+export type HolidayRule =
+  | {
+      kind: 'fixed';
+      name: string;
+      month: number; // 1-12
+      day: number;
+      // Shift to the nearest weekday when the date lands on a weekend
+      observed?: boolean;
+    }
+  | {
+      kind: 'nthWeekday';
+      name: string;
+      month: number; // 1-12
+      weekday: number; // 0=Sunday ... 6=Saturday
+      n: number; // 1-5, or -1 for the last occurrence in the month
+    }
+  | {
+      kind: 'easterOffset';
+      name: string;
+      offset: number; // days relative to Easter Sunday (Good Friday = -2)
+    };
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+  observed: boolean;
+}
+
+export interface HolidayCalendar {
+  isHoliday(date: Date): boolean;
+  getHolidays(year: number): Holiday[];
+}
+
+/**
+ * Company holiday rules (US federal holidays plus company days off)
+ */
+export const DEFAULT_HOLIDAY_RULES: HolidayRule[] = [
+  { kind: 'fixed', name: "New Year's Day", month: 1, day: 1, observed: true },
+  { kind: 'nthWeekday', name: 'Martin Luther King Jr. Day', month: 1, weekday: 1, n: 3 },
+  { kind: 'nthWeekday', name: "Presidents' Day", month: 2, weekday: 1, n: 3 },
+  { kind: 'easterOffset', name: 'Good Friday', offset: -2 },
+  { kind: 'nthWeekday', name: 'Memorial Day', month: 5, weekday: 1, n: -1 },
+  { kind: 'fixed', name: 'Juneteenth', month: 6, day: 19, observed: true },
+  { kind: 'fixed', name: 'Independence Day', month: 7, day: 4, observed: true },
+  { kind: 'nthWeekday', name: 'Labor Day', month: 9, weekday: 1, n: 1 },
+  { kind: 'fixed', name: 'Veterans Day', month: 11, day: 11, observed: true },
+  { kind: 'nthWeekday', name: 'Thanksgiving Day', month: 11, weekday: 4, n: 4 },
+  { kind: 'fixed', name: 'Christmas Eve', month: 12, day: 24, observed: true },
+  { kind: 'fixed', name: 'Christmas Day', month: 12, day: 25, observed: true },
+  { kind: 'fixed', name: "New Year's Eve", month: 12, day: 31, observed: true },
+];
+
+/**
+ * National holidays for other office locations
+ */
+export const MEXICO_HOLIDAY_RULES: HolidayRule[] = [
+  { kind: 'fixed', name: 'Año Nuevo', month: 1, day: 1 },
+  { kind: 'nthWeekday', name: 'Día de la Constitución', month: 2, weekday: 1, n: 1 },
+  { kind: 'nthWeekday', name: 'Natalicio de Benito Juárez', month: 3, weekday: 1, n: 3 },
+  { kind: 'easterOffset', name: 'Jueves Santo', offset: -3 },
+  { kind: 'easterOffset', name: 'Viernes Santo', offset: -2 },
+  { kind: 'fixed', name: 'Día del Trabajo', month: 5, day: 1 },
+  { kind: 'fixed', name: 'Día de la Independencia', month: 9, day: 16 },
+  { kind: 'nthWeekday', name: 'Día de la Revolución', month: 11, weekday: 1, n: 3 },
+  { kind: 'fixed', name: 'Navidad', month: 12, day: 25 },
+];
+
+export const SPAIN_HOLIDAY_RULES: HolidayRule[] = [
+  { kind: 'fixed', name: 'Año Nuevo', month: 1, day: 1 },
+  { kind: 'fixed', name: 'Epifanía del Señor', month: 1, day: 6 },
+  { kind: 'easterOffset', name: 'Viernes Santo', offset: -2 },
+  { kind: 'fixed', name: 'Fiesta del Trabajo', month: 5, day: 1 },
+  { kind: 'fixed', name: 'Asunción de la Virgen', month: 8, day: 15 },
+  { kind: 'fixed', name: 'Fiesta Nacional de España', month: 10, day: 12 },
+  { kind: 'fixed', name: 'Todos los Santos', month: 11, day: 1 },
+  { kind: 'fixed', name: 'Día de la Constitución', month: 12, day: 6 },
+  { kind: 'fixed', name: 'Inmaculada Concepción', month: 12, day: 8 },
+  { kind: 'fixed', name: 'Navidad', month: 12, day: 25 },
+];
+
+/**
+ * Built-in rule sets that a named holiday calendar can start from
+ */
+export const HOLIDAY_RULE_SETS: Record<string, HolidayRule[]> = {
+  US: DEFAULT_HOLIDAY_RULES,
+  MX: MEXICO_HOLIDAY_RULES,
+  ES: SPAIN_HOLIDAY_RULES,
+};
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Formats a Date as its UTC calendar day (YYYY-MM-DD)
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function isWeekend(date: Date): boolean {
+  const dow = date.getUTCDay();
+  return dow === 0 || dow === 6;
+}
+
+/**
+ * Computes Easter Sunday for a given year (anonymous Gregorian algorithm)
+ */
+export function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return utcDate(year, month, day);
+}
+
+/**
+ * Returns the nth weekday of a month (n = -1 for the last one)
+ */
+export function getNthWeekdayOfMonth(year: number, month: number, weekday: number, n: number): Date {
+  if (n === -1) {
+    const lastDay = utcDate(year, month + 1, 0);
+    const diff = (lastDay.getUTCDay() - weekday + 7) % 7;
+    return new Date(lastDay.getTime() - diff * ONE_DAY_MS);
+  }
+  const firstDay = utcDate(year, month, 1);
+  const diff = (weekday - firstDay.getUTCDay() + 7) % 7;
+  return utcDate(year, month, 1 + diff + (n - 1) * 7);
+}
+
+function resolveRuleDate(rule: HolidayRule, year: number): Date {
+  switch (rule.kind) {
+    case 'fixed':
+      return utcDate(year, rule.month, rule.day);
+    case 'nthWeekday':
+      return getNthWeekdayOfMonth(year, rule.month, rule.weekday, rule.n);
+    case 'easterOffset':
+      return new Date(getEasterSunday(year).getTime() + rule.offset * ONE_DAY_MS);
+  }
+}
+
+/**
+ * Expands rules into actual and observed holidays for a set of rule years.
+ * Observed dates may cross a year boundary (e.g. Jan 1 on a Saturday).
+ */
+function expandRules(rules: HolidayRule[], years: number[]): Holiday[] {
+  const holidays: Holiday[] = [];
+  const taken = new Set<string>();
+
+  for (const year of years) {
+    for (const rule of rules) {
+      const date = resolveRuleDate(rule, year);
+      holidays.push({ date: toDateKey(date), name: rule.name, observed: false });
+      if (!isWeekend(date)) {
+        taken.add(toDateKey(date));
+      }
+    }
+  }
+
+  // Saturday holidays move back to Friday, Sunday holidays forward to Monday.
+  // If that weekday is already a holiday, keep moving in the same direction.
+  for (const year of years) {
+    for (const rule of rules) {
+      if (rule.kind !== 'fixed' || !rule.observed) continue;
+      const date = resolveRuleDate(rule, year);
+      if (!isWeekend(date)) continue;
+
+      const step = date.getUTCDay() === 6 ? -1 : 1;
+      let observed = new Date(date.getTime() + step * ONE_DAY_MS);
+      while (isWeekend(observed) || taken.has(toDateKey(observed))) {
+        observed = new Date(observed.getTime() + step * ONE_DAY_MS);
+      }
+      taken.add(toDateKey(observed));
+      holidays.push({ date: toDateKey(observed), name: `${rule.name} (observed)`, observed: true });
+    }
+  }
+
+  return holidays;
+}
+
+/**
+ * Returns every holiday (actual and observed) that falls within a calendar year
+ */
+export function getHolidaysForYear(year: number, rules: HolidayRule[] = DEFAULT_HOLIDAY_RULES): Holiday[] {
+  const prefix = `${year}-`;
+  return expandRules(rules, [year - 1, year, year + 1])
+    .filter(holiday => holiday.date.startsWith(prefix))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Creates a calendar that expands rules lazily and caches them per year
+ */
+export function createHolidayCalendar(rules: HolidayRule[] = DEFAULT_HOLIDAY_RULES): HolidayCalendar {
+  const cache = new Map<number, { holidays: Holiday[]; dates: Set<string> }>();
+
+  const load = (year: number) => {
+    let entry = cache.get(year);
+    if (!entry) {
+      const holidays = getHolidaysForYear(year, rules);
+      entry = { holidays, dates: new Set(holidays.map(h => h.date)) };
+      cache.set(year, entry);
+    }
+    return entry;
+  };
+
+  return {
+    isHoliday(date: Date): boolean {
+      return load(date.getUTCFullYear()).dates.has(toDateKey(date));
+    },
+    getHolidays(year: number): Holiday[] {
+      return load(year).holidays;
+    },
+  };
+}
+
+export const defaultHolidayCalendar = createHolidayCalendar();
+
+/**
+ * Returns the calendar for a built-in rule set; unknown or missing keys have no holidays
+ */
+const ruleSetCalendars = new Map<string, HolidayCalendar>([['US', defaultHolidayCalendar]]);
+
+export function getRuleSetCalendar(ruleSet?: string | null): HolidayCalendar {
+  const key = ruleSet && HOLIDAY_RULE_SETS[ruleSet] ? ruleSet : '';
+  let calendar = ruleSetCalendars.get(key);
+  if (!calendar) {
+    calendar = createHolidayCalendar(key ? HOLIDAY_RULE_SETS[key] : []);
+    ruleSetCalendars.set(key, calendar);
+  }
+  return calendar;
+}
+
+/**
+ * Creates a calendar from an explicit holiday list. Years that have at least one
+ * listed holiday use the list only; every other year falls back to `fallback`.
+ */
+export function createHolidayCalendarFromList(
+  holidays: Holiday[],
+  fallback: HolidayCalendar = defaultHolidayCalendar
+): HolidayCalendar {
+  const byYear = new Map<number, Holiday[]>();
+  for (const holiday of holidays) {
+    const year = Number(holiday.date.slice(0, 4));
+    const list = byYear.get(year) ?? [];
+    list.push(holiday);
+    byYear.set(year, list);
+  }
+  for (const list of byYear.values()) {
+    list.sort((a, b) => a.date.localeCompare(b.date));
+  }
+  const dates = new Set(holidays.map(h => h.date));
+
+  return {
+    isHoliday(date: Date): boolean {
+      if (!byYear.has(date.getUTCFullYear())) {
+        return fallback.isHoliday(date);
+      }
+      return dates.has(toDateKey(date));
+    },
+    getHolidays(year: number): Holiday[] {
+      return byYear.get(year) ?? fallback.getHolidays(year);
+    },
+  };
+}
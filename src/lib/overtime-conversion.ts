@@ -0,0 +1,113 @@
+import { HolidayCalendar } from './holidays';
+import { TimeOffType } from './types/time-off';
+import { daysToHours, hoursToDays } from './work-hours';
+import { WorkSchedule } from './work-schedule';
+
+/**
+ * Overtime conversion
+ *
+ * Approved overtime is either credited as comp time to a leave balance or
+ * recorded for payout. Hours are first weighted by a rate for the kind of day
+ * worked: a normal working day, a day off in the employee's schedule, or a
+ * holiday on their calendar. Comp time is converted at the employee's own
+ * working-day length and limited by optional monthly and yearly caps; hours
+ * beyond a cap are recorded for payout instead. Credited comp time can be set
+ * to expire (see comp-time.ts).
+ */
+
+export type OvertimeCompensation = 'COMP_TIME' | 'PAYOUT';
+
+export type OvertimeDayKind = 'WORKDAY' | 'DAY_OFF' | 'HOLIDAY';
+
+export interface OvertimeConversionRule {
+  compensation: OvertimeCompensation;
+  // Balance credited with comp time
+  creditType: TimeOffType;
+  weekdayRate: number;
+  weekendRate: number;
+  holidayRate: number;
+  // Most comp-time days credited; null is unlimited
+  monthlyCapDays: number | null;
+  yearlyCapDays: number | null;
+  // Comp time must be used within this many days of approval; null never expires
+  compTimeExpiryDays: number | null;
+}
+
+/**
+ * Used when no policy has been set: every hour counts once, as vacation
+ */
+export const DEFAULT_OVERTIME_CONVERSION: OvertimeConversionRule = {
+  compensation: 'COMP_TIME',
+  creditType: 'VACATION',
+  weekdayRate: 1,
+  weekendRate: 1,
+  holidayRate: 1,
+  monthlyCapDays: null,
+  yearlyCapDays: null,
+  compTimeExpiryDays: null,
+};
+
+export interface OvertimeConversion {
+  compensation: OvertimeCompensation;
+  rate: number;
+  // Null when paid out
+  creditType: TimeOffType | null;
+  creditedDays: number;
+  // Weighted hours to pay, including any beyond the comp-time caps
+  payoutHours: number;
+}
+
+export interface OvertimeToConvert {
+  hours: number;
+  hoursPerDay: number;
+  dayKind: OvertimeDayKind;
+  // Comp time already credited from other overtime in the same month and year
+  creditedThisMonth: number;
+  creditedThisYear: number;
+}
+
+const roundDays = (value: number) => Math.round(value * 10000) / 10000;
+const roundHours = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Classifies the day worked; a holiday wins over a day off
+ */
+export function overtimeDayKind(date: Date, schedule: WorkSchedule, calendar: HolidayCalendar): OvertimeDayKind {
+  if (calendar.isHoliday(date)) {
+    return 'HOLIDAY';
+  }
+  return schedule.isWorkingDay(date) ? 'WORKDAY' : 'DAY_OFF';
+}
+
+export function overtimeRate(rule: OvertimeConversionRule, dayKind: OvertimeDayKind): number {
+  if (dayKind === 'HOLIDAY') return rule.holidayRate;
+  if (dayKind === 'DAY_OFF') return rule.weekendRate;
+  return rule.weekdayRate;
+}
+
+/**
+ * Works out the comp time and payout for approved overtime
+ */
+export function convertOvertime(rule: OvertimeConversionRule, overtime: OvertimeToConvert): OvertimeConversion {
+  const rate = overtimeRate(rule, overtime.dayKind);
+  const weightedHours = roundHours(overtime.hours * rate);
+
+  if (rule.compensation === 'PAYOUT') {
+    return { compensation: 'PAYOUT', rate, creditType: null, creditedDays: 0, payoutHours: weightedHours };
+  }
+
+  const days = hoursToDays(weightedHours, overtime.hoursPerDay);
+  const room = Math.max(0, Math.min(
+    rule.monthlyCapDays === null ? Infinity : rule.monthlyCapDays - overtime.creditedThisMonth,
+    rule.yearlyCapDays === null ? Infinity : rule.yearlyCapDays - overtime.creditedThisYear
+  ));
+  const creditedDays = roundDays(Math.min(days, room));
+
+  return {
+    compensation: 'COMP_TIME',
+    rate,
+    creditType: rule.creditType,
+    creditedDays,
+    payoutHours: roundHours(daysToHours(days - creditedDays, overtime.hoursPerDay)),
+  };
+}
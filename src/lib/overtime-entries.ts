@@ -0,0 +1,217 @@
+import type { ErrorCode } from './utils/error-handling';
+
+/**
+ * Overtime entries
+ *
+ * Overtime is logged against the calendar day it was worked (YYYY-MM-DD),
+ * which also decides the month and year it counts towards. Hours are entered
+ * directly or worked out from start and end times (HH:MM); an end time before
+ * the start runs past midnight. Entries can't be in the future or older than
+ * the look-back window, both judged by the server's calendar day.
+ *
+ * The overtime policy can further limit submissions: to a window around the
+ * end of the month worked, to a number of hours per entry and per month, and
+ * by requiring notes on long entries.
+ */
+
+export const DEFAULT_OVERTIME_LOOKBACK_DAYS = 30;
+
+export interface OvertimeEntry {
+  requestDate: string;
+  hours: number;
+  startTime: string | null;
+  endTime: string | null;
+}
+
+export type OvertimeDateProblem = 'FUTURE_DATE' | 'OUTSIDE_LOOKBACK';
+
+export interface OvertimeSubmissionRule {
+  // Overtime for a month can be submitted in its last days or the first days
+  // of the next; with neither set it can be submitted at any time
+  windowLastDaysOfMonth: number | null;
+  windowFirstDaysOfNextMonth: number | null;
+  maxHoursPerEntry: number | null;
+  maxHoursPerMonth: number | null;
+  // Entries longer than this need notes
+  notesRequiredAboveHours: number | null;
+}
+
+export const OPEN_OVERTIME_SUBMISSION: OvertimeSubmissionRule = {
+  windowLastDaysOfMonth: null,
+  windowFirstDaysOfNextMonth: null,
+  maxHoursPerEntry: null,
+  maxHoursPerMonth: null,
+  notesRequiredAboveHours: null,
+};
+
+export interface OvertimeViolation {
+  code: ErrorCode;
+  message: string;
+}
+
+/**
+ * How many days back overtime can be logged, from OVERTIME_LOOKBACK_DAYS
+ */
+export function overtimeLookbackDays(): number {
+  const days = parseInt(process.env.OVERTIME_LOOKBACK_DAYS ?? '', 10);
+  return days >= 0 ? days : DEFAULT_OVERTIME_LOOKBACK_DAYS;
+}
+
+const minutesOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Start and end in minutes from the start of the day; the end may pass midnight
+function timeRange(startTime: string, endTime: string): [number, number] {
+  const start = minutesOfDay(startTime);
+  let end = minutesOfDay(endTime);
+  if (end < start) {
+    end += 24 * 60;
+  }
+  return [start, end];
+}
+
+/**
+ * Hours between two times of day, rounded to the minute
+ */
+export function hoursBetween(startTime: string, endTime: string): number {
+  const [start, end] = timeRange(startTime, endTime);
+  return Math.round(((end - start) / 60) * 100) / 100;
+}
+
+/**
+ * The month (1-12) and year an entry counts towards
+ */
+export function overtimePeriod(requestDate: string): { month: number; year: number } {
+  const [year, month] = requestDate.split('-').map(Number);
+  return { month, year };
+}
+
+export function localDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Checks the worked day is not in the future and falls within the look-back window
+ */
+export function checkOvertimeDate(
+  requestDate: string,
+  today: Date,
+  lookbackDays: number = DEFAULT_OVERTIME_LOOKBACK_DAYS
+): OvertimeDateProblem | null {
+  if (requestDate > localDateKey(today)) {
+    return 'FUTURE_DATE';
+  }
+  const earliest = new Date(today.getFullYear(), today.getMonth(), today.getDate() - lookbackDays);
+  if (requestDate < localDateKey(earliest)) {
+    return 'OUTSIDE_LOOKBACK';
+  }
+  return null;
+}
+
+/**
+ * Finds an entry already logged for the same work. Several entries a day are
+ * allowed, so timed entries only clash when their times overlap; otherwise
+ * the same hours on the same day are taken as a resubmission.
+ */
+export function findDuplicateOvertimeEntry<T extends OvertimeEntry>(entry: OvertimeEntry, existing: T[]): T | null {
+  return existing.find(other => {
+    if (other.requestDate !== entry.requestDate) {
+      return false;
+    }
+    if (entry.startTime && entry.endTime && other.startTime && other.endTime) {
+      const [start, end] = timeRange(entry.startTime, entry.endTime);
+      const [otherStart, otherEnd] = timeRange(other.startTime, other.endTime);
+      return start < otherEnd && otherStart < end;
+    }
+    return other.hours === entry.hours;
+  }) ?? null;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+function describeWindow(rule: OvertimeSubmissionRule): string {
+  const parts = [
+    rule.windowLastDaysOfMonth ? `the last ${plural(rule.windowLastDaysOfMonth, 'day')} of that month` : null,
+    rule.windowFirstDaysOfNextMonth ? `the first ${plural(rule.windowFirstDaysOfNextMonth, 'day')} of the next` : null,
+  ].filter(Boolean);
+  return `Overtime for a month can only be submitted in ${parts.join(' or ')}`;
+}
+
+/**
+ * Whether overtime worked on a day can be submitted today
+ */
+export function isInSubmissionWindow(rule: OvertimeSubmissionRule, requestDate: string, today: Date): boolean {
+  const { windowLastDaysOfMonth: lastDays, windowFirstDaysOfNextMonth: firstDays } = rule;
+  if (!lastDays && !firstDays) {
+    return true;
+  }
+
+  const { month, year } = overtimePeriod(requestDate);
+  const todayKey = localDateKey(today);
+  const inRange = (from: Date, to: Date) => localDateKey(from) <= todayKey && todayKey <= localDateKey(to);
+  const monthEnd = new Date(year, month, 0);
+
+  return (!!lastDays && inRange(new Date(year, month - 1, monthEnd.getDate() - lastDays + 1), monthEnd)) ||
+    (!!firstDays && inRange(new Date(year, month, 1), new Date(year, month, firstDays)));
+}
+
+/**
+ * Checks an entry against the overtime policy. `hoursThisMonth` counts the
+ * user's other pending and approved overtime in the month worked.
+ */
+export function checkOvertimeSubmission(
+  rule: OvertimeSubmissionRule,
+  entry: { requestDate: string; hours: number; notes?: string | null },
+  context: { today: Date; hoursThisMonth: number }
+): OvertimeViolation[] {
+  const violations: OvertimeViolation[] = [];
+
+  if (!isInSubmissionWindow(rule, entry.requestDate, context.today)) {
+    violations.push({ code: 'OUTSIDE_SUBMISSION_WINDOW', message: describeWindow(rule) });
+  }
+  if (rule.maxHoursPerEntry !== null && entry.hours > rule.maxHoursPerEntry) {
+    violations.push({
+      code: 'OVERTIME_ENTRY_LIMIT',
+      message: `An overtime entry can be at most ${plural(rule.maxHoursPerEntry, 'hour')}`,
+    });
+  }
+  if (rule.maxHoursPerMonth !== null && context.hoursThisMonth + entry.hours > rule.maxHoursPerMonth) {
+    const left = Math.max(0, rule.maxHoursPerMonth - context.hoursThisMonth);
+    violations.push({
+      code: 'OVERTIME_MONTHLY_LIMIT',
+      message: `Overtime is limited to ${plural(rule.maxHoursPerMonth, 'hour')} a month; ${plural(left, 'hour')} left for this month`,
+    });
+  }
+  if (rule.notesRequiredAboveHours !== null && entry.hours > rule.notesRequiredAboveHours && !entry.notes?.trim()) {
+    violations.push({
+      code: 'NOTES_REQUIRED',
+      message: `Notes are required for entries over ${plural(rule.notesRequiredAboveHours, 'hour')}`,
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Plain-language summary of the limits, for employees
+ */
+export function describeOvertimeSubmissionRule(rule: OvertimeSubmissionRule): string[] {
+  const lines: string[] = [];
+  if (rule.windowLastDaysOfMonth || rule.windowFirstDaysOfNextMonth) {
+    lines.push(`${describeWindow(rule)}.`);
+  }
+  if (rule.maxHoursPerEntry !== null) {
+    lines.push(`Each entry can be at most ${plural(rule.maxHoursPerEntry, 'hour')}.`);
+  }
+  if (rule.maxHoursPerMonth !== null) {
+    lines.push(`Overtime is limited to ${plural(rule.maxHoursPerMonth, 'hour')} a month.`);
+  }
+  if (rule.notesRequiredAboveHours !== null) {
+    lines.push(`Add notes to entries over ${plural(rule.notesRequiredAboveHours, 'hour')}.`);
+  }
+  return lines;
+}
@@ -0,0 +1,84 @@
+import { Prisma } from '@prisma/client';
+import { OvertimeFilterInput } from './validators/schemas';
+
+/**
+ * Overtime search
+ *
+ * Overtime is stored with a uuid user column, so the admin view queries it
+ * with raw SQL; this builds the WHERE clause from a validated filter, against
+ * overtime_requests aliased as `o`. Month and year are those of the day
+ * worked. Monthly totals are summed per employee in SQL and nested here.
+ */
+
+export interface OvertimeMonthTotals {
+  month: number;
+  approvedHours: number;
+  pendingHours: number;
+  // Comp-time days credited; overtime approved before conversion policies
+  // counts at the employee's working-day length
+  creditedDays: number;
+  payoutHours: number;
+}
+
+export interface OvertimeMonthRow extends OvertimeMonthTotals {
+  userId: string;
+  userName: string;
+}
+
+export interface OvertimeEmployeeSummary {
+  userId: string;
+  userName: string;
+  months: OvertimeMonthTotals[];
+  totals: Omit<OvertimeMonthTotals, 'month'>;
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+export function buildOvertimeWhere(filter: Omit<OvertimeFilterInput, 'page' | 'limit'>): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [];
+
+  if (filter.status) {
+    conditions.push(Prisma.sql`o.status = ${filter.status}::"RequestStatus"`);
+  }
+  if (filter.userId) {
+    conditions.push(Prisma.sql`o."userId" = ${filter.userId}::uuid`);
+  }
+  if (filter.year) {
+    conditions.push(Prisma.sql`o.year = ${filter.year}`);
+  }
+  if (filter.month) {
+    conditions.push(Prisma.sql`o.month = ${filter.month}`);
+  }
+
+  return conditions.length > 0 ? Prisma.join(conditions, ' AND ') : Prisma.sql`TRUE`;
+}
+
+/**
+ * Groups monthly rows by employee, keeping their order, with yearly totals
+ */
+export function summarizeOvertimeByEmployee(rows: OvertimeMonthRow[]): OvertimeEmployeeSummary[] {
+  const byUser = new Map<string, OvertimeEmployeeSummary>();
+  for (const row of rows) {
+    const summary = byUser.get(row.userId) ?? {
+      userId: row.userId,
+      userName: row.userName,
+      months: [],
+      totals: { approvedHours: 0, pendingHours: 0, creditedDays: 0, payoutHours: 0 },
+    };
+    summary.months.push({
+      month: row.month,
+      approvedHours: row.approvedHours,
+      pendingHours: row.pendingHours,
+      creditedDays: row.creditedDays,
+      payoutHours: row.payoutHours,
+    });
+    summary.totals = {
+      approvedHours: round(summary.totals.approvedHours + row.approvedHours),
+      pendingHours: round(summary.totals.pendingHours + row.pendingHours),
+      creditedDays: round(summary.totals.creditedDays + row.creditedDays),
+      payoutHours: round(summary.totals.payoutHours + row.payoutHours),
+    };
+    byUser.set(row.userId, summary);
+  }
+  return [...byUser.values()];
+}
@@ -0,0 +1,32 @@
+/**
+ * Page-based pagination
+ *
+ * List endpoints take a 1-based page and a page size and answer with the
+ * rows of that page plus the total, so screens can show how many pages
+ * there are without loading them.
+ */
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+/**
+ * Rows to skip and take for a page
+ */
+export function pageWindow(page: number, limit: number): { skip: number; take: number } {
+  return { skip: (page - 1) * limit, take: limit };
+}
+
+export function describePage(total: number, page: number, limit: number): Pagination {
+  return { page, limit, total, totalPages: Math.ceil(total / limit) };
+}
+
+/**
+ * Callers that pass no page or limit get the plain list they always got
+ */
+export function wantsPagination(searchParams: URLSearchParams): boolean {
+  return searchParams.has('page') || searchParams.has('limit');
+}
@@ -0,0 +1,43 @@
+/**
+ * Reporting lines
+ *
+ * Each user has at most one manager. A manager's direct reports are the users
+ * pointing at them; indirect reports are found by walking down the tree. The
+ * walk tolerates cycles so bad data can't hang a request.
+ */
+
+export interface ReportingLine {
+  id: string;
+  managerId: string | null;
+}
+
+/**
+ * Lists the ids of a manager's reports, direct only unless includeIndirect
+ */
+export function collectReportIds(
+  users: ReportingLine[],
+  managerId: string,
+  includeIndirect = false
+): string[] {
+  const reports: string[] = [];
+  const seen = new Set([managerId]);
+  let level = [managerId];
+
+  while (level.length > 0) {
+    const next = users
+      .filter(user => user.managerId !== null && level.includes(user.managerId) && !seen.has(user.id))
+      .map(user => user.id);
+    next.forEach(id => seen.add(id));
+    reports.push(...next);
+    level = includeIndirect ? next : [];
+  }
+
+  return reports;
+}
+
+/**
+ * Whether making managerId the manager of userId would loop the reporting line
+ */
+export function createsReportingCycle(users: ReportingLine[], userId: string, managerId: string): boolean {
+  return managerId === userId || collectReportIds(users, userId, true).includes(managerId);
+}
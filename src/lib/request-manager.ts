@@ -1,11 +1,14 @@
 import { PrismaClient } from '@prisma/client';
-import { TimeOffRequest, TimeOffType, RequestStatus } from './types/time-off';
+import { TimeOffRequest, TimeOffType, RequestStatus, HalfDay } from './types/time-off';
 import { TransactionManager } from './db/transaction';
 import { AuditLogger } from './audit';
 import { BalanceManager } from './balance-manager';
 import { TimeOffValidator } from './validators/time-off';
 import { DatabaseError, ValidationError } from './errors/time-off';
 import { calculateWorkingDays } from './date-utils';
+import { HolidayCalendar } from './holidays';
+import { WorkSchedule } from './work-schedule';
+import { ApprovalStepRole, chainStatus, currentApprovalStep } from './approval-chains';
 
 export class RequestManager {
   constructor(
@@ -13,7 +16,13 @@ export class RequestManager {
     private transactionManager: TransactionManager,
     private auditLogger: AuditLogger,
     private balanceManager: BalanceManager,
-    private validator: TimeOffValidator
+    private validator: TimeOffValidator,
+    // Resolves the requester's holiday calendar; the built-in rules are used when omitted
+    private getHolidayCalendar?: (userId: string) => Promise<HolidayCalendar>,
+    // Resolves the requester's work schedule; Monday to Friday is used when omitted
+    private getWorkSchedule?: (userId: string) => Promise<WorkSchedule>,
+    // Resolves the approval chain for a new request; a single approval is needed when omitted
+    private getApprovalSteps?: (type: TimeOffType, workingDays: number) => Promise<ApprovalStepRole[]>
   ) {}
 
   async createRequest(
@@ -21,22 +30,38 @@ export class RequestManager {
     type: TimeOffType,
     startDate: Date,
     endDate: Date,
-    reason?: string
+    reason?: string,
+    halfDays: { startHalf?: HalfDay | null; endHalf?: HalfDay | null } = {}
   ): Promise<TimeOffRequest> {
+    const startHalf = halfDays.startHalf ?? null;
+    const endHalf = halfDays.endHalf ?? null;
+    const holidayCalendar = this.getHolidayCalendar ? await this.getHolidayCalendar(userId) : undefined;
+    const workSchedule = this.getWorkSchedule ? await this.getWorkSchedule(userId) : undefined;
+
     // Validate the request
     const validationResult = await this.validator.validateRequest({
       userId,
       type,
       startDate,
       endDate,
-      reason
+      reason,
+      startHalf,
+      endHalf,
+      holidayCalendar,
+      workSchedule
     });
 
     if (!validationResult.isValid) {
       throw new ValidationError(validationResult.errors[0].message);
     }
 
-    const workingDays = calculateWorkingDays(startDate, endDate);
+    const workingDays = calculateWorkingDays(startDate, endDate, {
+      calendar: holidayCalendar,
+      schedule: workSchedule,
+      startHalf,
+      endHalf
+    });
+    const approvalSteps = this.getApprovalSteps ? await this.getApprovalSteps(type, workingDays) : [];
 
     return this.transactionManager.execute(async (tx) => {
       try {
@@ -48,8 +73,13 @@ export class RequestManager {
               startDate,
               endDate,
               workingDays,
+              startHalf,
+              endHalf,
               status: 'PENDING',
-              reason
+              reason,
+              ...(approvalSteps.length > 0
+                ? { approvals: { create: approvalSteps.map((role, index) => ({ step: index + 1, role })) } }
+                : {})
             }
           });
 
@@ -58,6 +88,9 @@ export class RequestManager {
             startDate,
             endDate,
             workingDays,
+            ...(startHalf || endHalf ? { startHalf, endHalf } : {}),
+            ...(approvalSteps.length > 0 ? { approvalSteps } : {}),
+            ...(validationResult.warnings?.length ? { warnings: validationResult.warnings.map(w => w.message) } : {}),
             reason
           });
 
@@ -68,6 +101,8 @@ export class RequestManager {
             startDate: request.startDate,
             endDate: request.endDate,
             workingDays: request.workingDays,
+            startHalf: request.startHalf,
+            endHalf: request.endHalf,
             status: request.status,
             reason: request.reason,
             createdAt: request.createdAt,
@@ -134,35 +169,53 @@ export class RequestManager {
       try {
         if (process.env.VERCEL || process.env.NODE_ENV === 'production') {
           const request = await tx.timeOffRequest.findUnique({
-            where: { id: requestId }
+            where: { id: requestId },
+            include: { approvals: true }
           });
 
           if (!request) {
             throw new DatabaseError('Request not found');
           }
 
-          if (request.status !== 'PENDING') {
+          if (request.status !== 'PENDING' && request.status !== 'PARTIALLY_APPROVED') {
             throw new ValidationError('Request is not pending');
           }
 
+          // Chained requests are approved a step at a time, and the balance is
+          // only deducted once the last step signs off
+          const steps = request.approvals ?? [];
+          const currentStep = currentApprovalStep(steps);
+          let newStatus: RequestStatus = 'APPROVED';
+          if (currentStep) {
+            await tx.requestApproval.update({
+              where: { id: currentStep.id },
+              data: { status: 'APPROVED', approverId, decidedAt: new Date() }
+            });
+            newStatus = chainStatus(steps.map(step => step.id === currentStep.id ? { ...step, status: 'APPROVED' } : step));
+          }
+
           // Update request status
           const updatedRequest = await tx.timeOffRequest.update({
             where: { id: requestId },
-            data: { status: 'APPROVED' }
+            data: { status: newStatus }
           });
 
-          // Deduct balance
-          await this.balanceManager.deductBalance(
-            request.userId,
-            year,
-            request.type,
-            request.workingDays,
-            `Approved time off request ${requestId}`
-          );
+          if (newStatus === 'APPROVED') {
+            // Deduct balance
+            await this.balanceManager.deductBalance(
+              request.userId,
+              year,
+              request.type,
+              request.workingDays,
+              `Approved time off request ${requestId}`,
+              { requestId, actorId: approverId }
+            );
+          }
 
           await this.auditLogger.log(approverId, 'UPDATE', 'REQUEST', requestId, {
             previousStatus: request.status,
-            newStatus: 'APPROVED',
+            newStatus,
+            ...(currentStep ? { step: currentStep.step, steps: steps.length } : {}),
             approverId
           });
 
@@ -212,7 +265,8 @@ export class RequestManager {
             year,
             request.type as TimeOffType,
             Number(request.working_days),
-            `Approved time off request ${requestId}`
+            `Approved time off request ${requestId}`,
+            { requestId, actorId: approverId }
           );
 
           await this.auditLogger.log(approverId, 'UPDATE', 'REQUEST', requestId, {
@@ -253,17 +307,27 @@ export class RequestManager {
       try {
         if (process.env.VERCEL || process.env.NODE_ENV === 'production') {
           const request = await tx.timeOffRequest.findUnique({
-            where: { id: requestId }
+            where: { id: requestId },
+            include: { approvals: true }
           });
 
           if (!request) {
             throw new DatabaseError('Request not found');
           }
 
-          if (request.status !== 'PENDING') {
+          if (request.status !== 'PENDING' && request.status !== 'PARTIALLY_APPROVED') {
             throw new ValidationError('Request is not pending');
           }
 
+          // A rejection at any step ends the chain
+          const currentStep = currentApprovalStep(request.approvals ?? []);
+          if (currentStep) {
+            await tx.requestApproval.update({
+              where: { id: currentStep.id },
+              data: { status: 'REJECTED', approverId, comment: reason ?? null, decidedAt: new Date() }
+            });
+          }
+
           const updatedRequest = await tx.timeOffRequest.update({
             where: { id: requestId },
             data: {
@@ -377,7 +441,8 @@ export class RequestManager {
               year,
               request.type,
               request.workingDays,
-              `Deleted time off request ${requestId}`
+              `Deleted time off request ${requestId}`,
+              { requestId, actorId: userId }
             );
           }
 
@@ -419,7 +484,8 @@ export class RequestManager {
               year,
               request.type as TimeOffType,
               Number(request.working_days),
-              `Deleted time off request ${requestId}`
+              `Deleted time off request ${requestId}`,
+              { requestId, actorId: userId }
             );
           }
 
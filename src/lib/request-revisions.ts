@@ -0,0 +1,78 @@
+import { toDateKey } from './holidays';
+import { HalfDay, TimeOffType } from './types/time-off';
+
+/**
+ * Request revisions
+ *
+ * A requester can change the dates, type or reason of a request instead of
+ * deleting and recreating it. Each change keeps the version it replaced. A
+ * pending request is edited in place; an approved one goes back for approval
+ * while its days stay deducted, and approving the change only charges or
+ * refunds the difference.
+ */
+
+export interface RequestVersion {
+  type: TimeOffType;
+  startDate: Date;
+  endDate: Date;
+  workingDays: number;
+  startHalf: HalfDay | null;
+  endHalf: HalfDay | null;
+  reason: string | null;
+}
+
+export type RevisedField = 'type' | 'dates' | 'reason';
+
+export interface HeldDays {
+  year: number;
+  type: TimeOffType;
+  days: number;
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Lists what a revision changes; an empty list means nothing did
+ */
+export function revisedFields(before: RequestVersion, after: RequestVersion): RevisedField[] {
+  const fields: RevisedField[] = [];
+  if (before.type !== after.type) {
+    fields.push('type');
+  }
+  if (
+    toDateKey(before.startDate) !== toDateKey(after.startDate) ||
+    toDateKey(before.endDate) !== toDateKey(after.endDate) ||
+    (before.startHalf ?? null) !== (after.startHalf ?? null) ||
+    (before.endHalf ?? null) !== (after.endHalf ?? null)
+  ) {
+    fields.push('dates');
+  }
+  if ((before.reason || null) !== (after.reason || null)) {
+    fields.push('reason');
+  }
+  return fields;
+}
+
+/**
+ * Balance changes needed to approve a revised request that still holds days
+ * from an earlier approval. Days held against the same year and type count
+ * towards the new total, so only the difference is charged or refunded; days
+ * held anywhere else are given back. Negative days are deductions.
+ */
+export function revisionAdjustments(held: HeldDays[], target: HeldDays): HeldDays[] {
+  const adjustments: HeldDays[] = [];
+  let alreadyHeld = 0;
+  for (const usage of held) {
+    if (usage.year === target.year && usage.type === target.type) {
+      alreadyHeld = round(alreadyHeld + usage.days);
+    } else if (usage.days > 0) {
+      adjustments.push({ year: usage.year, type: usage.type, days: usage.days });
+    }
+  }
+
+  const difference = round(alreadyHeld - target.days);
+  if (difference !== 0) {
+    adjustments.push({ year: target.year, type: target.type, days: difference });
+  }
+  return adjustments;
+}
@@ -0,0 +1,59 @@
+import { Prisma } from '@prisma/client';
+import { RequestStatus } from './types/time-off';
+import { TimeOffRequestFilterInput } from './validators/schemas';
+
+/**
+ * Request search
+ *
+ * Turns a validated request filter into a Prisma query. Date filters match
+ * any request that overlaps the range, so a request running from December
+ * into January shows up in both years. Results are sorted by the chosen
+ * column with the request ID as a tie-breaker, keeping pages stable when
+ * many requests share a date.
+ */
+
+export function buildRequestWhere(filter: TimeOffRequestFilterInput): Prisma.TimeOffRequestWhereInput {
+  const where: Prisma.TimeOffRequestWhereInput = {};
+  const and: Prisma.TimeOffRequestWhereInput[] = [];
+
+  if (filter.status) {
+    where.status = filter.status as RequestStatus;
+  }
+  if (filter.type) {
+    where.type = filter.type;
+  }
+  if (filter.userId) {
+    where.userId = filter.userId;
+  }
+  if (filter.year) {
+    and.push(
+      { startDate: { lt: new Date(Date.UTC(filter.year + 1, 0, 1)) } },
+      { endDate: { gte: new Date(Date.UTC(filter.year, 0, 1)) } }
+    );
+  }
+  if (filter.startDate) {
+    and.push({ endDate: { gte: new Date(filter.startDate) } });
+  }
+  if (filter.endDate) {
+    and.push({ startDate: { lte: new Date(filter.endDate) } });
+  }
+  if (filter.search) {
+    where.user = {
+      OR: [
+        { name: { contains: filter.search, mode: 'insensitive' } },
+        { email: { contains: filter.search, mode: 'insensitive' } },
+      ],
+    };
+  }
+
+  if (and.length > 0) {
+    where.AND = and;
+  }
+  return where;
+}
+
+export function buildRequestOrderBy(
+  filter: Pick<TimeOffRequestFilterInput, 'sortBy' | 'sortOrder'>
+): Prisma.TimeOffRequestOrderByWithRelationInput[] {
+  return [{ [filter.sortBy]: filter.sortOrder }, { id: 'asc' }];
+}
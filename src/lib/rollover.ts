@@ -0,0 +1,65 @@
+/**
+ * Year-end rollover rules
+ *
+ * Unused days move into the next year up to a cap per type; anything above
+ * the cap is forfeited. Carried days can be given a use-by date in the new
+ * year, after which whatever is left of them is forfeited too. Carried days
+ * are used before the new year's days.
+ */
+
+export interface RolloverRule {
+  // Days granted for the new year, before carryover
+  annualAllowance: number;
+  // Most days carried over; null or undefined carries everything
+  carryoverCap?: number | null;
+  // Use-by date for carried days in the new year
+  expiryMonth?: number | null; // 1-12
+  expiryDay?: number | null;
+}
+
+export interface RolloverAmounts {
+  carriedDays: number;
+  forfeitedDays: number;
+  // YYYY-MM-DD, or null when carried days never expire
+  expiresOn: string | null;
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Splits unused days into what carries over and what is forfeited
+ * @param unusedDays Remaining days at the end of the year; negative balances carry nothing
+ * @param rule Rollover rule for the type
+ * @param toYear Year the days are carried into
+ */
+export function calculateRollover(unusedDays: number, rule: RolloverRule, toYear: number): RolloverAmounts {
+  const unused = Math.max(0, unusedDays);
+  const cap = rule.carryoverCap ?? Infinity;
+  const carriedDays = round(Math.min(unused, Math.max(0, cap)));
+
+  return {
+    carriedDays,
+    forfeitedDays: round(unused - carriedDays),
+    expiresOn: carriedDays > 0 ? getCarryoverExpiry(rule, toYear) : null,
+  };
+}
+
+/**
+ * Use-by date for carried days, or null when they never expire
+ */
+export function getCarryoverExpiry(rule: RolloverRule, toYear: number): string | null {
+  if (!rule.expiryMonth || !rule.expiryDay) return null;
+
+  // Clamp to the end of the month, e.g. Feb 29th in a non-leap year
+  const lastDay = new Date(Date.UTC(toYear, rule.expiryMonth, 0)).getUTCDate();
+  const day = Math.min(rule.expiryDay, lastDay);
+  return `${toYear}-${String(rule.expiryMonth).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Carried days still unused once they expire. Carried days are spent first,
+ * so only days used beyond them come out of the new year's allowance.
+ */
+export function getExpiredCarryover(carriedOverDays: number, usedDays: number): number {
+  return round(Math.max(0, carriedOverDays - Math.max(0, usedDays)));
+}
@@ -0,0 +1,278 @@
+import { prisma, isPrismaAvailable } from '../db';
+import { AuditLogger } from '../audit';
+import { BalanceLedger } from '../balance-ledger';
+import {
+  AccrualPeriod,
+  calculateAccrual,
+  calculateHoursWorked,
+  getDuePeriods,
+  getPeriodKey,
+  getPeriodRange,
+} from '../accrual';
+import { TimeOffType } from '../types/time-off';
+import { BalanceUnit } from '../work-hours';
+import { holidayService } from './holiday-service';
+import { workScheduleService } from './work-schedule-service';
+
+export interface AccrualPolicySummary {
+  id: string;
+  name: string;
+  type: TimeOffType;
+  basis: 'ANNUAL' | 'MONTHLY' | 'HOURS_WORKED';
+  rate: number;
+  unit: BalanceUnit;
+  perHours: number | null;
+  annualCap: number | null;
+  effectiveFrom: string;
+  active: boolean;
+  userIds: string[];
+}
+
+export interface AccrualEntry {
+  id: string;
+  policyId: string;
+  policyName: string;
+  type: TimeOffType;
+  year: number;
+  period: string;
+  days: number;
+  hoursWorked: number | null;
+  prorated: boolean;
+  createdAt: Date;
+}
+
+export interface AccrualRunResult {
+  asOf: string;
+  posted: Array<Omit<AccrualEntry, 'id' | 'createdAt'> & { userId: string }>;
+}
+
+interface AccrualUser {
+  id: string;
+  hireDate: Date | null;
+  standardHoursPerDay: number;
+  holidayCalendarId: string | null;
+}
+
+type PolicyRow = NonNullable<Awaited<ReturnType<typeof loadActivePolicies>>>[number];
+
+function loadActivePolicies() {
+  return prisma!.accrualPolicy.findMany({
+    where: { active: true },
+    include: {
+      users: { select: { id: true, hireDate: true, standardHoursPerDay: true, holidayCalendarId: true } },
+    },
+  });
+}
+
+export class AccrualService {
+  async listPolicies(): Promise<AccrualPolicySummary[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    const rows = await prisma!.accrualPolicy.findMany({
+      include: { users: { select: { id: true } } },
+      orderBy: { name: 'asc' },
+    });
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      type: row.type,
+      basis: row.basis,
+      rate: row.rate,
+      unit: row.unit,
+      perHours: row.perHours,
+      annualCap: row.annualCap,
+      effectiveFrom: row.effectiveFrom.toISOString().split('T')[0],
+      active: row.active,
+      userIds: row.users.map(user => user.id),
+    }));
+  }
+
+  /**
+   * Lists the accruals posted to a user, newest first
+   */
+  async getHistory(userId: string, year?: number): Promise<AccrualEntry[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    const rows = await prisma!.accrual.findMany({
+      where: { userId, ...(year ? { year } : {}) },
+      include: { policy: { select: { name: true } } },
+      orderBy: [{ period: 'desc' }, { createdAt: 'desc' }],
+    });
+    return rows.map(row => ({
+      id: row.id,
+      policyId: row.policyId,
+      policyName: row.policy.name,
+      type: row.type,
+      year: row.year,
+      period: row.period,
+      days: row.days,
+      hoursWorked: row.hoursWorked,
+      prorated: row.prorated,
+      createdAt: row.createdAt,
+    }));
+  }
+
+  /**
+   * Posts every accrual that is due as of the given date. Periods that were
+   * already posted are skipped, so the job can safely run more than once.
+   * Only the current and previous year are caught up.
+   */
+  async runAccruals(asOf: Date = new Date()): Promise<AccrualRunResult> {
+    const result: AccrualRunResult = { asOf: asOf.toISOString(), posted: [] };
+    if (!isPrismaAvailable()) {
+      return result;
+    }
+
+    const earliest = new Date(Date.UTC(asOf.getUTCFullYear() - 1, 0, 1));
+    const policies = await loadActivePolicies();
+
+    for (const policy of policies) {
+      for (const user of policy.users) {
+        const since = new Date(Math.max(
+          policy.effectiveFrom.getTime(),
+          user.hireDate?.getTime() ?? 0,
+          earliest.getTime()
+        ));
+        const periods = getDuePeriods(policy.basis, since, asOf);
+        if (periods.length === 0) continue;
+
+        const existing = await prisma!.accrual.findMany({
+          where: { userId: user.id, policyId: policy.id, period: { in: periods.map(getPeriodKey) } },
+          select: { period: true },
+        });
+        const postedPeriods = new Set(existing.map(row => row.period));
+
+        for (const period of periods) {
+          if (postedPeriods.has(getPeriodKey(period))) continue;
+          const posted = await this.postAccrual(policy, user, period);
+          if (posted) {
+            result.posted.push(posted);
+          }
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private async postAccrual(
+    policy: PolicyRow,
+    user: AccrualUser,
+    period: AccrualPeriod
+  ): Promise<AccrualRunResult['posted'][number] | null> {
+    const periodKey = getPeriodKey(period);
+    const hoursWorked = policy.basis === 'HOURS_WORKED' ? await this.getHoursWorked(user, period) : undefined;
+
+    const accrued = await prisma!.accrual.aggregate({
+      where: { userId: user.id, policyId: policy.id, year: period.year },
+      _sum: { days: true },
+    });
+
+    const { days, prorated } = calculateAccrual(policy, period, {
+      hireDate: user.hireDate,
+      hoursWorked,
+      hoursPerDay: user.standardHoursPerDay,
+      accruedThisYear: accrued._sum.days ?? 0,
+    });
+    if (days <= 0) {
+      return null;
+    }
+
+    try {
+      await prisma!.$transaction(async (tx) => {
+        const accrual = await tx.accrual.create({
+          data: {
+            userId: user.id,
+            policyId: policy.id,
+            type: policy.type,
+            year: period.year,
+            period: periodKey,
+            days,
+            hoursWorked: hoursWorked ?? null,
+            prorated,
+          },
+        });
+        await new BalanceLedger(tx).record({
+          userId: user.id,
+          year: period.year,
+          type: policy.type,
+          kind: 'ACCRUAL',
+          days,
+          accrualId: accrual.id,
+          reason: `${policy.name} (${periodKey})`,
+        });
+        await new AuditLogger(tx).logSystem('CREATE', 'BALANCE', accrual.id, {
+          action: 'ACCRUAL',
+          policyId: policy.id,
+          policyName: policy.name,
+          type: policy.type,
+          year: period.year,
+          period: periodKey,
+          days,
+          prorated,
+          ...(hoursWorked !== undefined ? { hoursWorked } : {}),
+        });
+      });
+
+      return {
+        userId: user.id,
+        policyId: policy.id,
+        policyName: policy.name,
+        type: policy.type,
+        year: period.year,
+        period: periodKey,
+        days,
+        hoursWorked: hoursWorked ?? null,
+        prorated,
+      };
+    } catch (e) {
+      // Another run posted this period first
+      if ((e as { code?: string })?.code === 'P2002') {
+        return null;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Hours worked in a period from the employee's schedule, holidays,
+   * approved time off and approved overtime
+   */
+  private async getHoursWorked(user: AccrualUser, period: AccrualPeriod): Promise<number> {
+    const range = getPeriodRange(period);
+    const start = user.hireDate && user.hireDate > range.start ? user.hireDate : range.start;
+
+    const [schedule, calendar, timeOff, overtime] = await Promise.all([
+      workScheduleService.getScheduleForUser(user.id),
+      holidayService.getCalendar(user.holidayCalendarId),
+      prisma!.timeOffRequest.findMany({
+        where: { userId: user.id, status: { in: ['APPROVED', 'CANCELLATION_REQUESTED'] }, startDate: { lte: range.end }, endDate: { gte: start } },
+        select: { startDate: true, endDate: true, startHalf: true, endHalf: true },
+      }),
+      // Hours-worked policies post monthly, so the period always has a month
+      prisma!.$queryRaw<{ hours: number }[]>`
+        SELECT COALESCE(SUM(hours), 0) AS hours
+        FROM overtime_requests
+        WHERE "userId" = ${user.id}::uuid AND status = 'APPROVED'
+          AND year = ${period.year} AND month = ${period.month ?? 0}
+      `,
+    ]);
+
+    return calculateHoursWorked({
+      start,
+      end: range.end,
+      hoursPerDay: user.standardHoursPerDay,
+      schedule,
+      calendar,
+      timeOff,
+      overtimeHours: Number(overtime[0]?.hours ?? 0),
+    });
+  }
+}
+
+// Export singleton instance
+export const accrualService = new AccrualService();
@@ -0,0 +1,358 @@
+import { Prisma, TimeOffRequest } from '@prisma/client';
+import { prisma, isPrismaAvailable } from '../db';
+import {
+  ApprovalChainRule,
+  ApprovalStep,
+  ApprovalStepRole,
+  canDecideStep,
+  currentApprovalStep,
+  findApprovalChain,
+} from '../approval-chains';
+import { AuditLogger } from '../audit';
+import { BalanceLedger } from '../balance-ledger';
+import { BlackoutRule } from '../blackouts';
+import { calculateWorkingDays, isComplementaryHalfDay } from '../date-utils';
+import {
+  ApprovalStepError,
+  BlackoutConflictError,
+  InsufficientBalanceError,
+  OverlappingRequestError,
+  StaffingLimitError,
+  ValidationError,
+} from '../errors/time-off';
+import { revisionAdjustments } from '../request-revisions';
+import { TimeOffType } from '../types/time-off';
+import { blackoutService } from './blackout-service';
+import { holidayService } from './holiday-service';
+import { Reviewer, reportingService } from './reporting-service';
+import { PendingChange, revisionService } from './revision-service';
+import { teamService } from './team-service';
+import { workScheduleService } from './work-schedule-service';
+
+export interface ApprovalChainSummary extends ApprovalChainRule {
+  id: string;
+  name: string;
+}
+
+export interface RequestApprovalSummary extends ApprovalStep {
+  id: string;
+  approverName: string | null;
+  comment: string | null;
+  decidedAt: Date | null;
+}
+
+export interface PendingDecision {
+  stepId: string;
+  step: number;
+  // Whether this decision settles the request
+  final: boolean;
+}
+
+export interface ReviewOptions {
+  // Kept on the approval step; the reason given when rejecting
+  comment?: string;
+  // Admins can approve over blackouts, granting the user an exception
+  overrideBlackout?: boolean;
+  overrideStaffing?: boolean;
+  overrideReason?: string;
+  // Logged as the decision's audit action; REVIEW when omitted
+  auditAction?: string;
+}
+
+export interface ReviewOutcome {
+  request: TimeOffRequest;
+  // Whether the decision settled the request rather than one step of its chain
+  final: boolean;
+  // Set when the request was a change to an approved one
+  change: PendingChange | null;
+}
+
+interface ApprovalCheck {
+  days: number;
+  blackoutOverrides: BlackoutRule[];
+  staffingOverride: Record<string, unknown> | null;
+}
+
+export class ApprovalService {
+  async listChains(): Promise<ApprovalChainSummary[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    const rows = await prisma!.approvalChain.findMany({ orderBy: [{ type: 'asc' }, { overDays: 'asc' }] });
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      type: row.type,
+      overDays: row.overDays,
+      steps: row.steps,
+    }));
+  }
+
+  /**
+   * The sign-offs a new request needs; empty when no chain applies
+   */
+  async getStepsFor(type: TimeOffType, workingDays: number): Promise<ApprovalStepRole[]> {
+    const chain = findApprovalChain(await this.listChains(), type, workingDays);
+    return chain?.steps ?? [];
+  }
+
+  /**
+   * Loads the approval steps of several requests, keyed by request id
+   */
+  async getProgress(requestIds: string[]): Promise<Record<string, RequestApprovalSummary[]>> {
+    if (!isPrismaAvailable() || requestIds.length === 0) {
+      return {};
+    }
+
+    const rows = await prisma!.requestApproval.findMany({
+      where: { requestId: { in: requestIds } },
+      orderBy: [{ requestId: 'asc' }, { step: 'asc' }],
+    });
+    const approverIds = [...new Set(rows.map(row => row.approverId).filter((id): id is string => !!id))];
+    const approvers = approverIds.length
+      ? await prisma!.user.findMany({ where: { id: { in: approverIds } }, select: { id: true, name: true } })
+      : [];
+    const names = new Map(approvers.map(user => [user.id, user.name]));
+
+    const progress: Record<string, RequestApprovalSummary[]> = {};
+    for (const row of rows) {
+      (progress[row.requestId] ??= []).push({
+        id: row.id,
+        step: row.step,
+        role: row.role,
+        status: row.status,
+        approverId: row.approverId,
+        approverName: row.approverId ? names.get(row.approverId) ?? null : null,
+        comment: row.comment,
+        decidedAt: row.decidedAt,
+      });
+    }
+    return progress;
+  }
+
+  /**
+   * Finds the step a reviewer's decision applies to and checks they may make
+   * it. Returns null for requests without a chain, or whose chain is finished.
+   */
+  async prepareDecision(
+    request: { id: string; userId: string },
+    reviewer: Reviewer,
+    decision: 'APPROVED' | 'REJECTED'
+  ): Promise<PendingDecision | null> {
+    if (!isPrismaAvailable()) {
+      return null;
+    }
+
+    const steps = await prisma!.requestApproval.findMany({ where: { requestId: request.id } });
+    const current = currentApprovalStep(steps);
+    if (!current) {
+      return null;
+    }
+
+    const isManager = reviewer.role === 'MANAGER' && await reportingService.canReview(reviewer, request.userId);
+    if (!canDecideStep(current.role, { role: reviewer.role, isManager })) {
+      throw new ApprovalStepError(current.step, current.role === 'ADMIN' ? 'an admin' : "the requester's manager");
+    }
+
+    const remaining = steps.filter(step => step.status === 'PENDING').length;
+    return { stepId: current.id, step: current.step, final: decision === 'REJECTED' || remaining === 1 };
+  }
+
+  /**
+   * Approves or rejects a request for a reviewer. Requests on a chain move one
+   * step at a time; the final approval is checked against overlaps, blackouts
+   * and staffing limits and charges the balance. The request is locked while
+   * the decision is written, so two reviewers can't both settle it.
+   */
+  async review(
+    request: TimeOffRequest,
+    reviewer: Reviewer,
+    decision: 'APPROVED' | 'REJECTED',
+    options: ReviewOptions = {}
+  ): Promise<ReviewOutcome> {
+    const step = await this.prepareDecision(request, reviewer, decision);
+    const change = await revisionService.findPendingChange(request);
+    const final = !step || step.final;
+    const check = decision === 'APPROVED' && final ? await this.checkApproval(request, reviewer, options) : null;
+    const year = new Date().getFullYear();
+
+    const decide = async (tx: Prisma.TransactionClient) => {
+      // Lock the request, and leave it alone if it changed after the checks
+      // above read it
+      const [current] = await tx.$queryRaw<Array<{ status: string; updatedAt: Date }>>`
+        SELECT status, "updatedAt" FROM "TimeOffRequest" WHERE id = ${request.id} FOR UPDATE
+      `;
+      if (!current || current.status !== request.status || current.updatedAt.getTime() !== request.updatedAt.getTime()) {
+        throw new ValidationError('Request was changed while it was being reviewed');
+      }
+
+      if (step) {
+        await this.recordDecision(step.stepId, reviewer.id, decision, options.comment, tx);
+      }
+      if (!final) {
+        return tx.timeOffRequest.update({ where: { id: request.id }, data: { status: 'PARTIALLY_APPROVED' } });
+      }
+      if (!check) {
+        // Turning down a change to an approved request puts the approved version back
+        return change
+          ? revisionService.restoreApproved(request, change, reviewer.id, tx)
+          : tx.timeOffRequest.update({ where: { id: request.id }, data: { status: 'REJECTED' } });
+      }
+
+      // A changed request still holds the days of its earlier approval, so
+      // only the difference is charged or given back
+      const ledger = new BalanceLedger(tx);
+      const adjustments = revisionAdjustments(await ledger.heldBy(request.id), {
+        year,
+        type: request.type,
+        days: check.days,
+      });
+      const daysToDeduct = -(adjustments.find(
+        adjustment => adjustment.year === year && adjustment.type === request.type
+      )?.days ?? 0);
+      if (daysToDeduct > 0) {
+        const balance = await tx.timeOffBalance.findUnique({
+          where: { unique_balance_per_year: { userId: request.userId, year, type: request.type } },
+        });
+        if (!balance || balance.remainingDays < daysToDeduct) {
+          throw new InsufficientBalanceError(request.type, daysToDeduct, balance?.remainingDays ?? 0);
+        }
+      }
+      for (const adjustment of adjustments) {
+        await ledger.record({
+          userId: request.userId,
+          year: adjustment.year,
+          type: adjustment.type,
+          kind: adjustment.days < 0 ? 'DEDUCTION' : 'RESTORATION',
+          days: adjustment.days,
+          requestId: request.id,
+          actorId: reviewer.id,
+          reason: change ? 'Request change approved' : 'Request approved',
+        });
+      }
+
+      for (const blackout of check.blackoutOverrides) {
+        await blackoutService.grantException(
+          blackout.id,
+          request.userId,
+          reviewer.id,
+          { requestId: request.id, reason: options.overrideReason },
+          tx
+        );
+      }
+      if (check.staffingOverride) {
+        await new AuditLogger(tx).log(reviewer.id, 'UPDATE', 'REQUEST', request.id, check.staffingOverride);
+      }
+      return tx.timeOffRequest.update({ where: { id: request.id }, data: { status: 'APPROVED' } });
+    };
+
+    const updated = await prisma!.$transaction(async (tx) => {
+      const result = await decide(tx);
+      const restored = final && decision === 'REJECTED' && change;
+      await new AuditLogger(tx).log(reviewer.id, 'UPDATE', 'REQUEST', request.id, {
+        action: options.auditAction ?? (restored ? 'REJECT_REVISION' : 'REVIEW'),
+        previousStatus: request.status,
+        newStatus: result.status,
+        ...(step ? { step: step.step } : {}),
+        ...(restored ? { restoredRevision: restored.approved.revision } : {}),
+        reason: options.comment ?? null,
+      });
+      return result;
+    });
+
+    return { request: updated, final, change };
+  }
+
+  /**
+   * Runs the checks a final approval needs and returns the days to charge,
+   * along with the blackouts and staffing limit the reviewer overrides
+   */
+  private async checkApproval(
+    request: TimeOffRequest,
+    reviewer: Reviewer,
+    options: ReviewOptions
+  ): Promise<ApprovalCheck> {
+    const overlapping = await prisma!.timeOffRequest.findMany({
+      where: {
+        userId: request.userId,
+        status: { in: ['APPROVED', 'CANCELLATION_REQUESTED'] },
+        id: { not: request.id },
+        startDate: { lte: request.endDate },
+        endDate: { gte: request.startDate },
+      },
+    });
+    // A morning off and an afternoon off on the same day don't clash
+    const clash = overlapping.find(other => !isComplementaryHalfDay(request, other));
+    if (clash) {
+      throw new OverlappingRequestError(clash.startDate, clash.endDate);
+    }
+
+    // Blackouts added after the request was made still apply
+    const blackouts = await blackoutService.findConflicts(request.userId, request.type, request.startDate, request.endDate);
+    if (blackouts.length > 0 && !(options.overrideBlackout && reviewer.role === 'ADMIN')) {
+      throw new BlackoutConflictError(blackouts);
+    }
+
+    let staffingOverride: Record<string, unknown> | null = null;
+    const staffing = await teamService.checkStaffing(request.userId, request.startDate, request.endDate, request.id);
+    if (staffing && staffing.conflicts.length > 0) {
+      if (!options.overrideStaffing) {
+        throw new StaffingLimitError(staffing.team.name, staffing.conflicts);
+      }
+      staffingOverride = {
+        action: 'OVERRIDE_STAFFING_LIMIT',
+        teamId: staffing.team.id,
+        maxOff: staffing.team.maxOff,
+        dates: staffing.conflicts.map(conflict => conflict.date),
+        reason: options.overrideReason ?? null,
+      };
+    }
+
+    const [calendar, schedule] = await Promise.all([
+      holidayService.getCalendarForUser(request.userId),
+      workScheduleService.getScheduleForUser(request.userId),
+    ]);
+    const days = calculateWorkingDays(request.startDate, request.endDate, {
+      calendar,
+      schedule,
+      startHalf: request.startHalf,
+      endHalf: request.endHalf,
+    });
+    if (isNaN(days) || days <= 0) {
+      throw new ValidationError('Invalid date range or calculation error. Please check the request dates.');
+    }
+    return { days, blackoutOverrides: blackouts, staffingOverride };
+  }
+
+  async recordDecision(
+    stepId: string,
+    approverId: string,
+    decision: 'APPROVED' | 'REJECTED',
+    comment?: string,
+    client: Prisma.TransactionClient = prisma!
+  ) {
+    return client.requestApproval.update({
+      where: { id: stepId },
+      data: { status: decision, approverId, comment: comment ?? null, decidedAt: new Date() },
+    });
+  }
+
+  /**
+   * Clears every decision so the chain starts over, e.g. when a request is
+   * sent back to pending
+   */
+  async resetChain(requestId: string) {
+    if (!isPrismaAvailable()) {
+      return;
+    }
+
+    await prisma!.requestApproval.updateMany({
+      where: { requestId },
+      data: { status: 'PENDING', approverId: null, comment: null, decidedAt: null },
+    });
+  }
+}
+
+// Export singleton instance
+export const approvalService = new ApprovalService();
@@ -0,0 +1,72 @@
+import { prisma, isPrismaAvailable } from '../db';
+import { buildAuditWhere } from '../audit-explorer';
+import { AuditChainReport, verifyAuditChain } from '../audit-chain';
+import { AuditLogFilterInput } from '../validators/schemas';
+
+export interface AuditEntry {
+  id: string;
+  // Null for entries the system wrote on its own
+  userId: string | null;
+  actorName: string | null;
+  actorEmail: string | null;
+  action: string;
+  entityType: string;
+  entityId: string;
+  details: unknown;
+  createdAt: Date;
+}
+
+export class AuditService {
+  /**
+   * Audit entries matching the filter, newest first, with the total number
+   * of matches
+   */
+  async search(
+    filter: AuditLogFilterInput,
+    window: { skip: number; take: number }
+  ): Promise<{ entries: AuditEntry[]; total: number }> {
+    if (!isPrismaAvailable()) {
+      return { entries: [], total: 0 };
+    }
+
+    const where = buildAuditWhere(filter);
+    const [rows, total] = await Promise.all([
+      prisma!.auditLog.findMany({
+        where,
+        include: { user: { select: { name: true, email: true } } },
+        orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+        ...window,
+      }),
+      prisma!.auditLog.count({ where }),
+    ]);
+
+    return {
+      entries: rows.map(row => ({
+        id: row.id,
+        userId: row.userId,
+        actorName: row.user?.name ?? null,
+        actorEmail: row.user?.email ?? null,
+        action: row.action,
+        entityType: row.entityType,
+        entityId: row.entityId,
+        details: row.details,
+        createdAt: row.createdAt,
+      })),
+      total,
+    };
+  }
+
+  /**
+   * Walks the hash chain and reports the first entry that breaks it
+   */
+  async verifyChain(): Promise<AuditChainReport | null> {
+    if (!isPrismaAvailable()) {
+      return null;
+    }
+
+    return verifyAuditChain(prisma!);
+  }
+}
+
+// Export singleton instance
+export const auditService = new AuditService();
@@ -0,0 +1,73 @@
+import { prisma, isPrismaAvailable } from '../db';
+import { BalanceTotals, BalanceTransactionKind, withRunningTotals } from '../balance-ledger';
+import { TimeOffType } from '../types/time-off';
+
+export interface LedgerLine {
+  id: string;
+  kind: BalanceTransactionKind;
+  days: number;
+  reason: string | null;
+  requestId: string | null;
+  overtimeRequestId: string | null;
+  accrualId: string | null;
+  actorId: string | null;
+  createdAt: Date;
+  // Balance right after this entry
+  balance: BalanceTotals;
+}
+
+export interface TypeLedger {
+  type: TimeOffType;
+  balance: BalanceTotals;
+  entries: LedgerLine[];
+}
+
+export interface UserLedger {
+  userId: string;
+  year: number;
+  types: TypeLedger[];
+}
+
+export class BalanceLedgerService {
+  /**
+   * Returns a user's transactions for a year, grouped by type with the
+   * balance after each one
+   */
+  async getLedger(userId: string, year: number, type?: TimeOffType): Promise<UserLedger> {
+    const ledger: UserLedger = { userId, year, types: [] };
+    if (!isPrismaAvailable()) {
+      return ledger;
+    }
+
+    const rows = await prisma!.balanceTransaction.findMany({
+      where: { userId, year, ...(type ? { type } : {}) },
+      orderBy: [{ type: 'asc' }, { createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    const byType = new Map<TimeOffType, typeof rows>();
+    for (const row of rows) {
+      byType.set(row.type, [...(byType.get(row.type) ?? []), row]);
+    }
+
+    for (const [entryType, entries] of byType) {
+      const lines = withRunningTotals(entries).map(entry => ({
+        id: entry.id,
+        kind: entry.kind,
+        days: entry.days,
+        reason: entry.reason,
+        requestId: entry.requestId,
+        overtimeRequestId: entry.overtimeRequestId,
+        accrualId: entry.accrualId,
+        actorId: entry.actorId,
+        createdAt: entry.createdAt,
+        balance: entry.balance,
+      }));
+      ledger.types.push({ type: entryType, balance: lines[lines.length - 1].balance, entries: lines });
+    }
+
+    return ledger;
+  }
+}
+
+// Export singleton instance
+export const balanceLedgerService = new BalanceLedgerService();
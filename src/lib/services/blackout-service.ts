@@ -0,0 +1,178 @@
+import { Prisma } from '@prisma/client';
+import { prisma, isPrismaAvailable } from '../db';
+import { AuditLogger } from '../audit';
+import { BlackoutRule, findBlackoutConflicts, findExceptedBlackouts } from '../blackouts';
+import { ValidationError } from '../errors/time-off';
+import { toDateKey } from '../holidays';
+import { TimeOffType } from '../types/time-off';
+
+export interface BlackoutExceptionSummary {
+  id: string;
+  userId: string;
+  userName: string | null;
+  requestId: string | null;
+  startDate: string;
+  endDate: string;
+  approvedById: string;
+  reason: string | null;
+  createdAt: Date;
+}
+
+export interface BlackoutSummary extends BlackoutRule {
+  teamName: string | null;
+  exceptions: BlackoutExceptionSummary[];
+}
+
+interface BlackoutRow {
+  id: string;
+  label: string;
+  startDate: Date;
+  endDate: Date;
+  types: TimeOffType[];
+  teamId: string | null;
+}
+
+const toDate = (key: string) => new Date(`${key}T00:00:00.000Z`);
+
+function toRule(row: BlackoutRow): BlackoutRule {
+  return {
+    id: row.id,
+    label: row.label,
+    startDate: toDateKey(row.startDate),
+    endDate: toDateKey(row.endDate),
+    types: row.types,
+    teamId: row.teamId,
+  };
+}
+
+export class BlackoutService {
+  async listBlackouts(): Promise<BlackoutSummary[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    const rows = await prisma!.blackoutPeriod.findMany({
+      include: {
+        team: { select: { name: true } },
+        exceptions: { include: { user: { select: { name: true } } }, orderBy: { createdAt: 'asc' } },
+      },
+      orderBy: { startDate: 'asc' },
+    });
+    return rows.map(row => ({
+      ...toRule(row),
+      teamName: row.team?.name ?? null,
+      exceptions: row.exceptions.map(exception => ({
+        id: exception.id,
+        userId: exception.userId,
+        userName: exception.user.name,
+        requestId: exception.requestId,
+        startDate: toDateKey(exception.startDate),
+        endDate: toDateKey(exception.endDate),
+        approvedById: exception.approvedById,
+        reason: exception.reason,
+        createdAt: exception.createdAt,
+      })),
+    }));
+  }
+
+  /**
+   * Returns the blackouts that block a user's request for a type and dates
+   */
+  async findConflicts(userId: string, type: TimeOffType, startDate: Date, endDate: Date): Promise<BlackoutRule[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    const user = await prisma!.user.findUnique({ where: { id: userId }, select: { teamId: true } });
+    const teamId = user?.teamId ?? null;
+    const rows = await prisma!.blackoutPeriod.findMany({
+      where: {
+        startDate: { lte: toDate(toDateKey(endDate)) },
+        endDate: { gte: toDate(toDateKey(startDate)) },
+        OR: [{ teamId: null }, ...(teamId ? [{ teamId }] : [])],
+      },
+      include: { exceptions: { where: { userId }, select: { startDate: true, endDate: true } } },
+    });
+    const blackouts = rows.map(toRule);
+    const request = { type, startDate, endDate, teamId };
+    const excepted = findExceptedBlackouts(blackouts, request, rows.flatMap(row =>
+      row.exceptions.map(exception => ({
+        blackoutId: row.id,
+        startDate: toDateKey(exception.startDate),
+        endDate: toDateKey(exception.endDate),
+      }))
+    ));
+    return findBlackoutConflicts(blackouts, request, excepted);
+  }
+
+  /**
+   * Lets a user take time off on some days of a blackout: those of the
+   * request it's granted for, or else the given dates. Granting the same days
+   * again keeps the existing exception. Pass a transaction client to grant it
+   * alongside other writes.
+   */
+  async grantException(
+    blackoutId: string,
+    userId: string,
+    actorId: string,
+    details: { requestId?: string; startDate?: string; endDate?: string; reason?: string } = {},
+    client?: Prisma.TransactionClient
+  ) {
+    const db = client ?? prisma!;
+    const existing = await db.blackoutPeriod.findUnique({ where: { id: blackoutId } });
+    if (!existing) {
+      return null;
+    }
+
+    let startDate = details.startDate;
+    let endDate = details.endDate;
+    if (details.requestId) {
+      const request = await db.timeOffRequest.findUnique({
+        where: { id: details.requestId },
+        select: { userId: true, startDate: true, endDate: true },
+      });
+      if (!request || request.userId !== userId) {
+        throw new ValidationError('Request not found for this user', 'requestId');
+      }
+      startDate = toDateKey(request.startDate);
+      endDate = toDateKey(request.endDate);
+    }
+    if (!startDate || !endDate) {
+      throw new ValidationError('An exception needs a request or dates', 'startDate');
+    }
+    const range = { startDate: toDate(startDate), endDate: toDate(endDate) };
+
+    const apply = async (tx: Prisma.TransactionClient) => {
+      const granted = await tx.blackoutException.upsert({
+        where: {
+          blackoutPeriodId_userId_startDate_endDate: { blackoutPeriodId: blackoutId, userId, ...range },
+        },
+        create: {
+          blackoutPeriodId: blackoutId,
+          userId,
+          ...range,
+          approvedById: actorId,
+          requestId: details.requestId ?? null,
+          reason: details.reason ?? null,
+        },
+        update: {},
+      });
+
+      await new AuditLogger(tx).log(actorId, 'CREATE', 'BLACKOUT', granted.id, {
+        action: 'BLACKOUT_EXCEPTION',
+        blackoutId,
+        label: existing.label,
+        userId,
+        requestId: details.requestId ?? null,
+        startDate,
+        endDate,
+        reason: details.reason ?? null,
+      });
+      return granted;
+    };
+    return client ? apply(client) : prisma!.$transaction(apply);
+  }
+}
+
+// Export singleton instance
+export const blackoutService = new BlackoutService();
@@ -0,0 +1,266 @@
+import { Prisma, TimeOffRequest } from '@prisma/client';
+import { prisma, isPrismaAvailable } from '../db';
+import { AuditLogger } from '../audit';
+import { BalanceLedger, outstandingUsage } from '../balance-ledger';
+import {
+  sendRequestStatusNotification,
+  sendTimeOffRequestApprovedEmail,
+  sendTimeOffRequestRejectedEmail,
+} from '../email';
+import {
+  DatabaseError,
+  TimeOffError,
+  UnauthorizedError,
+  ValidationError,
+} from '../errors/time-off';
+import { approvalService } from './approval-service';
+import { overtimeService } from './overtime-service';
+import { Reviewer, reportingService } from './reporting-service';
+
+export type BulkAction = 'APPROVE' | 'REJECT' | 'DELETE';
+
+export type BulkItemResult =
+  | { id: string; success: true; status: string }
+  | { id: string; success: false; error: string; code: string };
+
+interface OvertimeRow {
+  id: string;
+  user_id: string;
+  hours: number;
+  request_date: string;
+  month: number;
+  year: number;
+  status: string;
+}
+
+/**
+ * Applies one action to many requests. Each request is checked and written in
+ * its own transaction, so one failure doesn't stop the rest. Approvals that
+ * need an override (blackouts, staffing limits) fail here and have to be
+ * approved one at a time.
+ */
+export class BulkActionService {
+  async applyToTimeOff(
+    requestIds: string[],
+    action: BulkAction,
+    reviewer: Reviewer,
+    reason?: string
+  ): Promise<BulkItemResult[]> {
+    return this.applyEach(requestIds, id => this.applyTimeOffAction(id, action, reviewer, reason));
+  }
+
+  async applyToOvertime(
+    requestIds: string[],
+    action: BulkAction,
+    reviewer: Reviewer
+  ): Promise<BulkItemResult[]> {
+    return this.applyEach(requestIds, id => this.applyOvertimeAction(id, action, reviewer));
+  }
+
+  private async applyEach(
+    requestIds: string[],
+    apply: (id: string) => Promise<string>
+  ): Promise<BulkItemResult[]> {
+    if (!isPrismaAvailable()) {
+      throw new DatabaseError('Bulk actions are not supported in this environment');
+    }
+
+    const results: BulkItemResult[] = [];
+    for (const id of [...new Set(requestIds)]) {
+      try {
+        results.push({ id, success: true, status: await apply(id) });
+      } catch (error) {
+        if (error instanceof TimeOffError) {
+          results.push({ id, success: false, error: error.message, code: error.code });
+        } else {
+          console.error(`Bulk action failed for request ${id}:`, error);
+          results.push({ id, success: false, error: 'Failed to process request', code: 'INTERNAL_ERROR' });
+        }
+      }
+    }
+    return results;
+  }
+
+  private async applyTimeOffAction(
+    requestId: string,
+    action: BulkAction,
+    reviewer: Reviewer,
+    reason?: string
+  ): Promise<string> {
+    const request = await prisma!.timeOffRequest.findUnique({
+      where: { id: requestId },
+      include: { user: { select: { email: true, name: true } } },
+    });
+    if (!request) {
+      throw new TimeOffError('Time off request not found', 'NOT_FOUND', 404);
+    }
+    if (!(await reportingService.canReview(reviewer, request.userId))) {
+      throw new UnauthorizedError('Unauthorized to update this request');
+    }
+
+    if (action === 'DELETE') {
+      await this.deleteTimeOff(request, reviewer);
+      return 'DELETED';
+    }
+
+    if (request.status !== 'PENDING' && request.status !== 'PARTIALLY_APPROVED') {
+      throw new ValidationError('Request is not pending');
+    }
+
+    const decision = action === 'APPROVE' ? 'APPROVED' : 'REJECTED';
+    const { request: updated, final, change } = await approvalService.review(request, reviewer, decision, {
+      comment: reason,
+      auditAction: 'BULK_' + action,
+    });
+
+    if (final) {
+      try {
+        if (updated.status === 'APPROVED' && !change) {
+          await sendTimeOffRequestApprovedEmail(
+            request.user.email,
+            request.user.name,
+            request.startDate.toISOString(),
+            request.endDate.toISOString(),
+            request.type
+          );
+        } else if (decision === 'REJECTED') {
+          await sendTimeOffRequestRejectedEmail(
+            request.user.email,
+            request.user.name,
+            request.startDate.toISOString(),
+            request.endDate.toISOString(),
+            request.type,
+            reason
+          );
+        }
+      } catch (emailError) {
+        console.error('Failed to send status notification email:', emailError);
+      }
+    }
+
+    return updated.status;
+  }
+
+  /**
+   * Deletes a request, giving back whatever days it still holds. Approved
+   * requests from before the ledger existed give back their working days in
+   * the current year.
+   */
+  private async deleteTimeOff(request: TimeOffRequest, reviewer: Reviewer) {
+    if (reviewer.role !== 'ADMIN') {
+      throw new UnauthorizedError('Only admins can delete requests');
+    }
+
+    await prisma!.$transaction(async (tx) => {
+      const entries = await tx.balanceTransaction.findMany({ where: { requestId: request.id } });
+      const granted = request.status === 'APPROVED' || request.status === 'CANCELLATION_REQUESTED';
+      const held = entries.length > 0
+        ? outstandingUsage(entries)
+        : granted ? [{ year: new Date().getFullYear(), type: request.type, days: request.workingDays }] : [];
+      const ledger = new BalanceLedger(tx);
+      for (const usage of held) {
+        await ledger.record({
+          userId: request.userId,
+          year: usage.year,
+          type: usage.type,
+          kind: 'RESTORATION',
+          days: usage.days,
+          requestId: request.id,
+          actorId: reviewer.id,
+          reason: 'Request deleted',
+        });
+      }
+      await tx.timeOffRequest.delete({ where: { id: request.id } });
+      await new AuditLogger(tx).log(reviewer.id, 'DELETE', 'REQUEST', request.id, {
+        action: 'BULK_DELETE',
+        previousStatus: request.status,
+        userId: request.userId,
+        type: request.type,
+        startDate: request.startDate.toISOString(),
+        endDate: request.endDate.toISOString(),
+      });
+    });
+  }
+
+  private async applyOvertimeAction(requestId: string, action: BulkAction, reviewer: Reviewer): Promise<string> {
+    const rows = await prisma!.$queryRawUnsafe<OvertimeRow[]>(
+      `SELECT id, "userId" as user_id, hours, to_char("requestDate", 'YYYY-MM-DD') as request_date, month, year, status
+       FROM overtime_requests WHERE id = $1::uuid`,
+      requestId
+    );
+    const overtime = rows?.[0];
+    if (!overtime) {
+      throw new TimeOffError('Overtime request not found', 'NOT_FOUND', 404);
+    }
+    if (!(await reportingService.canReview(reviewer, overtime.user_id))) {
+      throw new UnauthorizedError('Unauthorized to update this request');
+    }
+    if (action === 'DELETE' && reviewer.role !== 'ADMIN') {
+      throw new UnauthorizedError('Only admins can delete requests');
+    }
+    if (action !== 'DELETE' && overtime.status !== 'PENDING') {
+      throw new ValidationError('Overtime request is not pending');
+    }
+
+    const status = action === 'APPROVE' ? 'APPROVED' : action === 'REJECT' ? 'REJECTED' : 'DELETED';
+    const audit = (tx: Prisma.TransactionClient) =>
+      new AuditLogger(tx).log(reviewer.id, action === 'DELETE' ? 'DELETE' : 'UPDATE', 'REQUEST', requestId, {
+        action: 'BULK_OVERTIME_' + action,
+        previousStatus: overtime.status,
+        newStatus: status,
+        hours: overtime.hours,
+      });
+
+    await prisma!.$transaction(async (tx) => {
+      if (action === 'DELETE') {
+        // Take back the comp time an approved request credited
+        await overtimeService.revokeCredit(tx, requestId, reviewer.id, 'Overtime request deleted');
+        await tx.$executeRawUnsafe(`DELETE FROM overtime_requests WHERE id = $1::uuid`, requestId);
+        await audit(tx);
+        return;
+      }
+
+      // Only one reviewer can settle a request
+      const updated = await tx.$executeRawUnsafe(
+        `UPDATE overtime_requests SET status = $1::"RequestStatus", "updatedAt" = now() WHERE id = $2::uuid AND status = 'PENDING'`,
+        status,
+        requestId
+      );
+      if (updated === 0) {
+        throw new ValidationError('Overtime request is not pending');
+      }
+      if (action === 'APPROVE') {
+        await overtimeService.creditApproved(tx, {
+          id: requestId,
+          userId: overtime.user_id,
+          hours: overtime.hours,
+          requestDate: overtime.request_date,
+          month: overtime.month,
+          year: overtime.year,
+        }, reviewer.id);
+      }
+      await audit(tx);
+    });
+
+    if (action !== 'DELETE') {
+      try {
+        const user = await prisma!.user.findUnique({ where: { id: overtime.user_id } });
+        if (user) {
+          await sendRequestStatusNotification({
+            employeeName: user.name,
+            employeeEmail: user.email,
+            requestType: 'Overtime Compensation',
+            status: status as 'APPROVED' | 'REJECTED',
+          });
+        }
+      } catch (emailError) {
+        console.error('Failed to send status notification email:', emailError);
+      }
+    }
+
+    return status;
+  }
+}
+
+// Export singleton instance
+export const bulkActionService = new BulkActionService();
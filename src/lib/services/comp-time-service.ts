@@ -0,0 +1,119 @@
+import { prisma, isPrismaAvailable } from '../db';
+import { AuditLogger } from '../audit';
+import { BalanceLedger } from '../balance-ledger';
+import { expiringDays } from '../comp-time';
+import { TimeOffType } from '../types/time-off';
+
+export interface CompTimeGrantSummary {
+  id: string;
+  overtimeRequestId: string;
+  year: number;
+  type: TimeOffType;
+  days: number;
+  remainingDays: number;
+  grantedOn: string; // YYYY-MM-DD
+  expiresOn: string | null;
+  expiredDays: number;
+  expiredAt: Date | null;
+}
+
+export interface ExpiredCompTime {
+  grantId: string;
+  userId: string;
+  type: TimeOffType;
+  year: number;
+  expiredDays: number;
+}
+
+const dateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+export class CompTimeService {
+  /**
+   * A user's comp-time grants for a year, soonest expiry first
+   */
+  async getGrants(userId: string, year: number): Promise<CompTimeGrantSummary[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    const rows = await prisma!.compTimeGrant.findMany({
+      where: { userId, year },
+      orderBy: [{ expiresOn: { sort: 'asc', nulls: 'last' } }, { grantedOn: 'asc' }],
+    });
+    return rows.map(row => ({
+      id: row.id,
+      overtimeRequestId: row.overtimeRequestId,
+      year: row.year,
+      type: row.type,
+      days: row.days,
+      remainingDays: row.remainingDays,
+      grantedOn: dateKey(row.grantedOn),
+      expiresOn: row.expiresOn ? dateKey(row.expiresOn) : null,
+      expiredDays: row.expiredDays,
+      expiredAt: row.expiredAt,
+    }));
+  }
+
+  /**
+   * Forfeits comp time still unused on its expiry date
+   */
+  async expire(asOf: Date = new Date()): Promise<ExpiredCompTime[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    const due = await prisma!.compTimeGrant.findMany({
+      where: { expiresOn: { lte: asOf }, remainingDays: { gt: 0 } },
+    });
+
+    const expired: ExpiredCompTime[] = [];
+    for (const grant of due) {
+      const expiredDays = await prisma!.$transaction(async (tx) => {
+        const balance = await tx.timeOffBalance.findUnique({
+          where: { unique_balance_per_year: { userId: grant.userId, year: grant.year, type: grant.type } },
+        });
+        const days = expiringDays(grant.remainingDays, balance?.remainingDays ?? 0);
+
+        // Skip a grant that has been drawn on since it was read
+        const { count } = await tx.compTimeGrant.updateMany({
+          where: { id: grant.id, remainingDays: grant.remainingDays },
+          data: { remainingDays: 0, expiredDays: { increment: days }, expiredAt: asOf },
+        });
+        if (count === 0) {
+          return null;
+        }
+
+        if (days > 0) {
+          await new BalanceLedger(tx).record({
+            userId: grant.userId,
+            year: grant.year,
+            type: grant.type,
+            kind: 'FORFEITURE',
+            days: -days,
+            overtimeRequestId: grant.overtimeRequestId,
+            reason: 'Comp time expired',
+          });
+        }
+        await new AuditLogger(tx).log(grant.userId, 'UPDATE', 'BALANCE', grant.id, {
+          action: 'COMP_TIME_EXPIRED',
+          type: grant.type,
+          year: grant.year,
+          overtimeRequestId: grant.overtimeRequestId,
+          grantedDays: grant.days,
+          unusedDays: grant.remainingDays,
+          expiredDays: days,
+          expiresOn: grant.expiresOn ? dateKey(grant.expiresOn) : null,
+        });
+        return days;
+      });
+      if (expiredDays === null) continue;
+
+      expired.push({ grantId: grant.id, userId: grant.userId, type: grant.type, year: grant.year, expiredDays });
+    }
+
+    return expired;
+  }
+}
+
+// Export singleton instance
+export const compTimeService = new CompTimeService();
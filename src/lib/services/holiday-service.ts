@@ -0,0 +1,249 @@
+import { Prisma } from '@prisma/client';
+import { prisma, isPrismaAvailable } from '../db';
+import { calculateWorkingDays } from '../date-utils';
+import {
+  Holiday,
+  HolidayCalendar,
+  createHolidayCalendarFromList,
+  defaultHolidayCalendar,
+  getRuleSetCalendar,
+  toDateKey,
+} from '../holidays';
+import { workScheduleService } from './work-schedule-service';
+
+export interface StoredHoliday extends Holiday {
+  id: string;
+}
+
+export interface HolidayYear {
+  year: number;
+  calendarId: string | null;
+  // False while the year still uses the calendar's built-in rules
+  customized: boolean;
+  holidays: Array<Holiday & { id?: string }>;
+}
+
+export interface HolidayCalendarSummary {
+  id: string;
+  name: string;
+  ruleSet: string | null;
+  isDefault: boolean;
+  userCount: number;
+}
+
+export interface StaleRequest {
+  id: string;
+  userId: string;
+  userName: string | null;
+  type: string;
+  status: string;
+  startDate: string;
+  endDate: string;
+  workingDays: number;
+  recalculatedWorkingDays: number;
+}
+
+interface CalendarRow {
+  id: string;
+  ruleSet: string | null;
+  isDefault: boolean;
+}
+
+function toStoredHoliday(row: { id: string; date: Date; name: string; observed: boolean }): StoredHoliday {
+  return { id: row.id, date: toDateKey(row.date), name: row.name, observed: row.observed };
+}
+
+export class HolidayService {
+  /**
+   * Finds a calendar by id, or the default calendar when no id is given
+   */
+  private async findCalendarRow(calendarId?: string | null): Promise<CalendarRow | null> {
+    const select = { id: true, ruleSet: true, isDefault: true };
+    if (calendarId) {
+      const row = await prisma!.holidayCalendar.findUnique({ where: { id: calendarId }, select });
+      if (row) return row;
+    }
+    return prisma!.holidayCalendar.findFirst({ where: { isDefault: true }, select });
+  }
+
+  async listCalendars(): Promise<HolidayCalendarSummary[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    const rows = await prisma!.holidayCalendar.findMany({
+      include: { _count: { select: { users: true } } },
+      orderBy: { name: 'asc' },
+    });
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      ruleSet: row.ruleSet,
+      isDefault: row.isDefault,
+      userCount: row._count.users,
+    }));
+  }
+
+  /**
+   * Loads a holiday calendar (the default one when no id is given). Admin-managed
+   * years come from the database; every other year uses the calendar's rule set.
+   */
+  async getCalendar(calendarId?: string | null): Promise<HolidayCalendar> {
+    if (!isPrismaAvailable()) {
+      return defaultHolidayCalendar;
+    }
+
+    try {
+      const calendar = await this.findCalendarRow(calendarId);
+      if (!calendar) {
+        return defaultHolidayCalendar;
+      }
+
+      const fallback = getRuleSetCalendar(calendar.ruleSet);
+      const rows = await prisma!.holiday.findMany({ where: { calendarId: calendar.id } });
+      return rows.length > 0 ? createHolidayCalendarFromList(rows.map(toStoredHoliday), fallback) : fallback;
+    } catch (error) {
+      console.error('Failed to load holidays, using built-in rules:', error);
+      return defaultHolidayCalendar;
+    }
+  }
+
+  /**
+   * Loads the holiday calendar assigned to a user
+   */
+  async getCalendarForUser(userId: string): Promise<HolidayCalendar> {
+    if (!isPrismaAvailable()) {
+      return defaultHolidayCalendar;
+    }
+
+    const user = await prisma!.user.findUnique({
+      where: { id: userId },
+      select: { holidayCalendarId: true },
+    });
+    return this.getCalendar(user?.holidayCalendarId);
+  }
+
+  /**
+   * Lists the holidays for a year along with whether the year has been customized
+   */
+  async getYear(year: number, calendarId?: string | null): Promise<HolidayYear> {
+    if (!isPrismaAvailable()) {
+      return { year, calendarId: null, customized: false, holidays: defaultHolidayCalendar.getHolidays(year) };
+    }
+
+    const calendar = await this.findCalendarRow(calendarId);
+    if (calendar) {
+      const rows = await prisma!.holiday.findMany({
+        where: { calendarId: calendar.id, year },
+        orderBy: { date: 'asc' },
+      });
+      if (rows.length > 0) {
+        return { year, calendarId: calendar.id, customized: true, holidays: rows.map(toStoredHoliday) };
+      }
+    }
+    return {
+      year,
+      calendarId: calendar?.id ?? null,
+      customized: false,
+      holidays: getRuleSetCalendar(calendar ? calendar.ruleSet : 'US').getHolidays(year),
+    };
+  }
+
+  /**
+   * Copies the built-in holidays for a year into the database so they can be edited.
+   * Returns the calendar id, or null if the calendar does not exist.
+   */
+  async customizeYear(
+    year: number,
+    calendarId?: string | null,
+    client: Prisma.TransactionClient = prisma!
+  ): Promise<string | null> {
+    const calendar = await this.findCalendarRow(calendarId);
+    if (!calendar) {
+      return null;
+    }
+
+    const existing = await client.holiday.count({ where: { calendarId: calendar.id, year } });
+    if (existing === 0) {
+      const holidays = getRuleSetCalendar(calendar.ruleSet).getHolidays(year);
+      await client.holiday.createMany({
+        data: holidays.map(holiday => ({
+          calendarId: calendar.id,
+          date: new Date(`${holiday.date}T00:00:00.000Z`),
+          year,
+          name: holiday.name,
+          observed: holiday.observed,
+        })),
+        skipDuplicates: true,
+      });
+    }
+    return calendar.id;
+  }
+
+  /**
+   * Finds PENDING/APPROVED requests from users on the given calendar that overlap
+   * the given dates and whose stored workingDays no longer match the calendar
+   */
+  async findStaleRequests(dates: string[], calendarId?: string | null): Promise<StaleRequest[]> {
+    if (!isPrismaAvailable() || dates.length === 0) {
+      return [];
+    }
+
+    const calendarRow = await this.findCalendarRow(calendarId);
+    if (!calendarRow) {
+      return [];
+    }
+
+    const sorted = [...dates].sort();
+    const from = new Date(`${sorted[0]}T00:00:00.000Z`);
+    const to = new Date(`${sorted[sorted.length - 1]}T23:59:59.999Z`);
+
+    // Users without an assignment follow the default calendar
+    const userFilter = calendarRow.isDefault
+      ? { OR: [{ holidayCalendarId: calendarRow.id }, { holidayCalendarId: null }] }
+      : { holidayCalendarId: calendarRow.id };
+
+    const [calendar, requests] = await Promise.all([
+      this.getCalendar(calendarRow.id),
+      prisma!.timeOffRequest.findMany({
+        where: {
+          status: { in: ['PENDING', 'PARTIALLY_APPROVED', 'APPROVED', 'CANCELLATION_REQUESTED'] },
+          startDate: { lte: to },
+          endDate: { gte: from },
+          user: userFilter,
+        },
+        include: { user: { select: { name: true } } },
+        orderBy: { startDate: 'asc' },
+      }),
+    ]);
+
+    const schedules = await workScheduleService.getSchedulesForUsers([...new Set(requests.map(r => r.userId))]);
+
+    const stale: StaleRequest[] = [];
+    for (const request of requests) {
+      const recalculated = calculateWorkingDays(request.startDate, request.endDate, {
+        calendar,
+        schedule: schedules.get(request.userId),
+        startHalf: request.startHalf,
+        endHalf: request.endHalf,
+      });
+      if (Math.abs(recalculated - request.workingDays) > 0.001) {
+        stale.push({
+          id: request.id,
+          userId: request.userId,
+          userName: request.user?.name ?? null,
+          type: request.type,
+          status: request.status,
+          startDate: request.startDate.toISOString(),
+          endDate: request.endDate.toISOString(),
+          workingDays: request.workingDays,
+          recalculatedWorkingDays: recalculated,
+        });
+      }
+    }
+    return stale;
+  }
+}
+
+// Export singleton instance
+export const holidayService = new HolidayService();
@@ -0,0 +1,379 @@
+import { Prisma } from '@prisma/client';
+import { prisma, isPrismaAvailable } from '../db';
+import { AuditLogger } from '../audit';
+import { BalanceLedger } from '../balance-ledger';
+import { CompTimeGrants } from '../comp-time';
+import { TimeOffError, ValidationError } from '../errors/time-off';
+import { TimeOffType } from '../types/time-off';
+import {
+  convertOvertime,
+  DEFAULT_OVERTIME_CONVERSION,
+  OvertimeConversion,
+  OvertimeConversionRule,
+  overtimeDayKind,
+} from '../overtime-conversion';
+import {
+  checkOvertimeSubmission,
+  localDateKey,
+  OPEN_OVERTIME_SUBMISSION,
+  OvertimeSubmissionRule,
+  OvertimeViolation,
+} from '../overtime-entries';
+import {
+  buildOvertimeWhere,
+  OvertimeEmployeeSummary,
+  OvertimeMonthRow,
+  summarizeOvertimeByEmployee,
+} from '../overtime-search';
+import { OvertimeFilterInput } from '../validators/schemas';
+import { holidayService } from './holiday-service';
+import { workHoursService } from './work-hours-service';
+import { workScheduleService } from './work-schedule-service';
+
+export interface OvertimePolicySummary extends OvertimeConversionRule, OvertimeSubmissionRule {
+  // Null until a policy has been saved
+  id: string | null;
+}
+
+export interface ApprovedOvertime {
+  id: string;
+  userId: string;
+  hours: number;
+  requestDate: string; // YYYY-MM-DD
+  month: number;
+  year: number;
+}
+
+export interface CreditedOvertime extends OvertimeConversion {
+  hoursPerDay: number;
+}
+
+export interface OvertimeListing {
+  id: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  hours: number;
+  requestDate: string; // YYYY-MM-DD
+  month: number;
+  year: number;
+  status: string;
+  notes: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  compensation: string | null;
+  rate: number | null;
+  creditType: TimeOffType | null;
+  creditedDays: number | null;
+  payoutHours: number | null;
+  reversedAt: Date | null;
+  reversalReason: string | null;
+  createdAt: Date;
+}
+
+export interface ReversedOvertime {
+  id: string;
+  status: 'CANCELLED';
+  // Comp time taken back from the balance
+  revokedDays: number;
+  // Recorded for payout and now void
+  payoutHours: number;
+}
+
+export class OvertimeService {
+  async getPolicy(client: Prisma.TransactionClient = prisma!): Promise<OvertimePolicySummary> {
+    if (!isPrismaAvailable()) {
+      return { id: null, ...DEFAULT_OVERTIME_CONVERSION, ...OPEN_OVERTIME_SUBMISSION };
+    }
+
+    const row = await client.overtimePolicy.findFirst({ orderBy: { createdAt: 'asc' } });
+    if (!row) {
+      return { id: null, ...DEFAULT_OVERTIME_CONVERSION, ...OPEN_OVERTIME_SUBMISSION };
+    }
+    return {
+      id: row.id,
+      compensation: row.compensation,
+      creditType: row.creditType,
+      weekdayRate: row.weekdayRate,
+      weekendRate: row.weekendRate,
+      holidayRate: row.holidayRate,
+      monthlyCapDays: row.monthlyCapDays,
+      yearlyCapDays: row.yearlyCapDays,
+      compTimeExpiryDays: row.compTimeExpiryDays,
+      windowLastDaysOfMonth: row.windowLastDaysOfMonth,
+      windowFirstDaysOfNextMonth: row.windowFirstDaysOfNextMonth,
+      maxHoursPerEntry: row.maxHoursPerEntry,
+      maxHoursPerMonth: row.maxHoursPerMonth,
+      notesRequiredAboveHours: row.notesRequiredAboveHours,
+    };
+  }
+
+  /**
+   * Checks a new entry against the policy's submission rules
+   */
+  async checkSubmission(
+    userId: string,
+    entry: { requestDate: string; hours: number; notes?: string | null },
+    today: Date = new Date()
+  ): Promise<OvertimeViolation[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    const rule = await this.getPolicy();
+    let hoursThisMonth = 0;
+    if (rule.maxHoursPerMonth !== null) {
+      const [year, month] = entry.requestDate.split('-').map(Number);
+      const [row] = await prisma!.$queryRaw<{ hours: number | null }[]>`
+        SELECT SUM(hours) AS hours
+          FROM overtime_requests
+         WHERE "userId" = ${userId}::uuid AND year = ${year} AND month = ${month}
+           AND status IN ('PENDING', 'APPROVED')
+      `;
+      hoursThisMonth = Number(row?.hours ?? 0);
+    }
+
+    return checkOvertimeSubmission(rule, entry, { today, hoursThisMonth });
+  }
+
+  /**
+   * Overtime matching the filter, latest day worked first, with the total
+   * number of matches
+   */
+  async search(
+    filter: OvertimeFilterInput,
+    window: { skip: number; take: number }
+  ): Promise<{ requests: OvertimeListing[]; total: number }> {
+    if (!isPrismaAvailable()) {
+      return { requests: [], total: 0 };
+    }
+
+    const where = buildOvertimeWhere(filter);
+    const [requests, [count]] = await Promise.all([
+      prisma!.$queryRaw<OvertimeListing[]>`
+        SELECT o.id, o."userId", u.name AS "userName", u.email AS "userEmail", o.hours,
+               to_char(o."requestDate", 'YYYY-MM-DD') AS "requestDate", o.month, o.year, o.status, o.notes,
+               o."startTime", o."endTime", o.compensation, o.rate, o."creditType", o."creditedDays",
+               o."payoutHours", o."reversedAt", o."reversalReason", o."createdAt"
+          FROM overtime_requests o
+          JOIN "User" u ON o."userId"::text = u.id
+         WHERE ${where}
+         ORDER BY o."requestDate" DESC, o."createdAt" DESC, o.id
+         LIMIT ${window.take} OFFSET ${window.skip}
+      `,
+      prisma!.$queryRaw<{ total: number }[]>`
+        SELECT COUNT(*)::int AS total FROM overtime_requests o WHERE ${where}
+      `,
+    ]);
+
+    return { requests, total: count?.total ?? 0 };
+  }
+
+  /**
+   * Hours and converted days per employee and month worked. Covers every
+   * status the filter's other fields match.
+   */
+  async monthlySummary(filter: Omit<OvertimeFilterInput, 'status' | 'page' | 'limit'>): Promise<OvertimeEmployeeSummary[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    const rows = await prisma!.$queryRaw<OvertimeMonthRow[]>`
+      SELECT o."userId", u.name AS "userName", o.month,
+             COALESCE(SUM(o.hours) FILTER (WHERE o.status = 'APPROVED'), 0) AS "approvedHours",
+             COALESCE(SUM(o.hours) FILTER (WHERE o.status = 'PENDING'), 0) AS "pendingHours",
+             COALESCE(SUM(COALESCE(o."creditedDays", o.hours / u."standardHoursPerDay")) FILTER (WHERE o.status = 'APPROVED'), 0) AS "creditedDays",
+             COALESCE(SUM(o."payoutHours") FILTER (WHERE o.status = 'APPROVED'), 0) AS "payoutHours"
+        FROM overtime_requests o
+        JOIN "User" u ON o."userId"::text = u.id
+       WHERE ${buildOvertimeWhere(filter)}
+       GROUP BY o."userId", u.name, o.month
+       ORDER BY u.name, o."userId", o.month
+    `;
+
+    return summarizeOvertimeByEmployee(rows.map(row => ({
+      userId: row.userId,
+      userName: row.userName,
+      month: row.month,
+      approvedHours: Number(row.approvedHours),
+      pendingHours: Number(row.pendingHours),
+      creditedDays: Number(row.creditedDays),
+      payoutHours: Number(row.payoutHours),
+    })));
+  }
+
+  /**
+   * Reverses an approval: the request is cancelled and the comp time it
+   * credited is taken back, even if that leaves the balance short
+   */
+  async reverseApproval(requestId: string, actorId: string, reason: string): Promise<ReversedOvertime> {
+    if (!isPrismaAvailable()) {
+      throw new TimeOffError('Overtime reversals are not supported in this environment', 'UNSUPPORTED', 400);
+    }
+
+    return prisma!.$transaction(async (tx) => {
+      const [overtime] = await tx.$queryRaw<{ status: string; hours: number; payoutHours: number | null }[]>`
+        SELECT status, hours, "payoutHours" FROM overtime_requests WHERE id = ${requestId}::uuid FOR UPDATE
+      `;
+      if (!overtime) {
+        throw new TimeOffError('Overtime request not found', 'NOT_FOUND', 404);
+      }
+      if (overtime.status !== 'APPROVED') {
+        throw new ValidationError('Only approved overtime can be reversed', 'status');
+      }
+
+      const revokedDays = await this.revokeCredit(tx, requestId, actorId, `Overtime approval reversed: ${reason}`);
+      await tx.$executeRaw`
+        UPDATE overtime_requests
+           SET status = 'CANCELLED', "reversedAt" = now(), "reversedById" = ${actorId},
+               "reversalReason" = ${reason}, "updatedAt" = now()
+         WHERE id = ${requestId}::uuid
+      `;
+      const payoutHours = overtime.payoutHours ?? 0;
+
+      await new AuditLogger(tx).log(actorId, 'UPDATE', 'REQUEST', requestId, {
+        action: 'OVERTIME_APPROVAL_REVERSED',
+        previousStatus: 'APPROVED',
+        newStatus: 'CANCELLED',
+        hours: overtime.hours,
+        revokedDays,
+        payoutHours,
+        reason,
+      });
+
+      return { id: requestId, status: 'CANCELLED', revokedDays, payoutHours };
+    });
+  }
+
+  /**
+   * Converts approved overtime under the current policy, credits any comp
+   * time as a grant and saves the outcome on the request. Runs inside the
+   * approval's transaction, after the request has been marked approved.
+   */
+  async creditApproved(
+    tx: Prisma.TransactionClient,
+    overtime: ApprovedOvertime,
+    actorId: string
+  ): Promise<CreditedOvertime> {
+    const workedOn = new Date(`${overtime.requestDate}T00:00:00.000Z`);
+    const [{ hoursPerDay }, schedule, calendar] = await Promise.all([
+      workHoursService.getForUser(overtime.userId),
+      workScheduleService.getScheduleForUser(overtime.userId),
+      holidayService.getCalendarForUser(overtime.userId),
+    ]);
+    const rule = await this.getPolicy(tx);
+
+    // Caps count comp time from the user's other approved overtime
+    const [credited] = await tx.$queryRaw<{ month: number | null; year: number | null }[]>`
+      SELECT SUM("creditedDays") FILTER (WHERE month = ${overtime.month}) AS month, SUM("creditedDays") AS year
+        FROM overtime_requests
+       WHERE "userId" = ${overtime.userId}::uuid AND year = ${overtime.year}
+         AND status = 'APPROVED' AND id <> ${overtime.id}::uuid
+    `;
+
+    const conversion = convertOvertime(rule, {
+      hours: overtime.hours,
+      hoursPerDay,
+      dayKind: overtimeDayKind(workedOn, schedule, calendar),
+      creditedThisMonth: Number(credited?.month ?? 0),
+      creditedThisYear: Number(credited?.year ?? 0),
+    });
+
+    if (conversion.creditType && conversion.creditedDays > 0) {
+      await new BalanceLedger(tx).record({
+        userId: overtime.userId,
+        year: overtime.year,
+        type: conversion.creditType,
+        kind: 'OVERTIME_CREDIT',
+        days: conversion.creditedDays,
+        overtimeRequestId: overtime.id,
+        actorId,
+        reason: `${overtime.hours} overtime hours approved at ${conversion.rate}x`,
+      });
+      await new CompTimeGrants(tx).grant({
+        userId: overtime.userId,
+        overtimeRequestId: overtime.id,
+        year: overtime.year,
+        type: conversion.creditType,
+        days: conversion.creditedDays,
+        grantedOn: localDateKey(new Date()),
+        expiryDays: rule.compTimeExpiryDays,
+      });
+    }
+
+    await tx.$executeRaw`
+      UPDATE overtime_requests
+         SET compensation = ${conversion.compensation}::"OvertimeCompensation",
+             rate = ${conversion.rate},
+             "creditType" = ${conversion.creditType}::"TimeOffType",
+             "creditedDays" = ${conversion.creditedDays},
+             "payoutHours" = ${conversion.payoutHours}
+       WHERE id = ${overtime.id}::uuid
+    `;
+
+    return { ...conversion, hoursPerDay };
+  }
+
+  /**
+   * Takes back the comp time an approved request credited, less any of it
+   * that has already expired, and drops its grant. Overtime approved before
+   * conversion policies has no credit on the ledger; it was added to vacation
+   * at the employee's working-day length, so that is what is taken back, and
+   * only while the request is still APPROVED. Returns the days taken back.
+   */
+  async revokeCredit(
+    tx: Prisma.TransactionClient,
+    overtimeRequestId: string,
+    actorId: string,
+    reason: string
+  ): Promise<number> {
+    const [credits, grant] = await Promise.all([
+      tx.balanceTransaction.findMany({ where: { overtimeRequestId, kind: 'OVERTIME_CREDIT' } }),
+      tx.compTimeGrant.findUnique({ where: { overtimeRequestId } }),
+    ]);
+
+    const net = new Map<string, { userId: string; year: number; type: TimeOffType; days: number }>();
+    for (const entry of credits) {
+      const key = `${entry.year}:${entry.type}`;
+      const current = net.get(key) ?? { userId: entry.userId, year: entry.year, type: entry.type, days: 0 };
+      net.set(key, { ...current, days: current.days + entry.days });
+    }
+
+    if (credits.length === 0) {
+      const [legacy] = await tx.$queryRaw<{ userId: string; year: number; days: number }[]>`
+        SELECT o."userId"::text AS "userId", o.year,
+               COALESCE(o."creditedDays", o.hours / u."standardHoursPerDay") AS days
+          FROM overtime_requests o
+          JOIN "User" u ON o."userId"::text = u.id
+         WHERE o.id = ${overtimeRequestId}::uuid AND o.status = 'APPROVED' AND o.compensation IS NULL
+      `;
+      if (legacy) {
+        net.set(`${legacy.year}:VACATION`, {
+          userId: legacy.userId,
+          year: legacy.year,
+          type: 'VACATION',
+          days: Number(legacy.days),
+        });
+      }
+    }
+
+    const ledger = new BalanceLedger(tx);
+    let revoked = 0;
+    for (const credit of net.values()) {
+      const expired = grant && grant.year === credit.year && grant.type === credit.type ? grant.expiredDays : 0;
+      const days = Math.round((credit.days - expired) * 10000) / 10000;
+      if (days <= 0) continue;
+
+      await ledger.record({ ...credit, kind: 'OVERTIME_CREDIT', days: -days, overtimeRequestId, actorId, reason });
+      revoked += days;
+    }
+
+    if (grant) {
+      await tx.compTimeGrant.delete({ where: { id: grant.id } });
+    }
+    return Math.round(revoked * 10000) / 10000;
+  }
+}
+
+// Export singleton instance
+export const overtimeService = new OvertimeService();
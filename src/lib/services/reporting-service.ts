@@ -0,0 +1,57 @@
+import { prisma, isPrismaAvailable } from '../db';
+import { collectReportIds, createsReportingCycle } from '../reporting-lines';
+
+export interface Reviewer {
+  id: string;
+  role?: string;
+}
+
+export class ReportingService {
+  /**
+   * Managers approve for their direct reports; set
+   * MANAGERS_APPROVE_INDIRECT_REPORTS=true to include everyone below them
+   */
+  private includeIndirect(): boolean {
+    return process.env.MANAGERS_APPROVE_INDIRECT_REPORTS === 'true';
+  }
+
+  private async loadReportingLines() {
+    return prisma!.user.findMany({ select: { id: true, managerId: true } });
+  }
+
+  async getReportIds(managerId: string): Promise<string[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    if (!this.includeIndirect()) {
+      const reports = await prisma!.user.findMany({ where: { managerId }, select: { id: true } });
+      return reports.map(report => report.id);
+    }
+
+    return collectReportIds(await this.loadReportingLines(), managerId, true);
+  }
+
+  /**
+   * Whether a reviewer may approve or reject a user's requests. Admins review
+   * everyone; managers review their reports but never themselves.
+   */
+  async canReview(reviewer: Reviewer, userId: string): Promise<boolean> {
+    if (reviewer.role === 'ADMIN') {
+      return true;
+    }
+    if (reviewer.role !== 'MANAGER' || reviewer.id === userId) {
+      return false;
+    }
+
+    const reportIds = await this.getReportIds(reviewer.id);
+    return reportIds.includes(userId);
+  }
+
+  async wouldCreateCycle(userId: string, managerId: string): Promise<boolean> {
+    return createsReportingCycle(await this.loadReportingLines(), userId, managerId);
+  }
+}
+
+// Export singleton instance
+export const reportingService = new ReportingService();
@@ -0,0 +1,153 @@
+import { Prisma, TimeOffRequest } from '@prisma/client';
+import { prisma, isPrismaAvailable } from '../db';
+import { ApprovalStepRole } from '../approval-chains';
+import { BalanceLedger } from '../balance-ledger';
+import { HeldDays, RequestVersion } from '../request-revisions';
+import { RequestStatus } from '../types/time-off';
+
+export interface RequestRevisionSummary extends RequestVersion {
+  id: string;
+  revision: number;
+  status: RequestStatus;
+  editedById: string;
+  editedByName: string | null;
+  createdAt: Date;
+}
+
+export interface PendingChange {
+  // The approved version the change would replace
+  approved: RequestRevisionSummary;
+  held: HeldDays[];
+}
+
+function toVersion(row: RequestVersion): RequestVersion {
+  return {
+    type: row.type,
+    startDate: row.startDate,
+    endDate: row.endDate,
+    workingDays: row.workingDays,
+    startHalf: row.startHalf,
+    endHalf: row.endHalf,
+    reason: row.reason,
+  };
+}
+
+export class RevisionService {
+  /**
+   * Earlier versions of a request, oldest first
+   */
+  async listRevisions(requestId: string): Promise<RequestRevisionSummary[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    const rows = await prisma!.timeOffRequestRevision.findMany({
+      where: { requestId },
+      orderBy: { revision: 'asc' },
+    });
+    const editorIds = [...new Set(rows.map(row => row.editedById))];
+    const editors = editorIds.length
+      ? await prisma!.user.findMany({ where: { id: { in: editorIds } }, select: { id: true, name: true } })
+      : [];
+    const names = new Map(editors.map(user => [user.id, user.name]));
+
+    return rows.map(row => ({
+      ...toVersion(row),
+      id: row.id,
+      revision: row.revision,
+      status: row.status,
+      editedById: row.editedById,
+      editedByName: names.get(row.editedById) ?? null,
+      createdAt: row.createdAt,
+    }));
+  }
+
+  /**
+   * Keeps the request's current version as its next revision
+   */
+  private async snapshot(tx: Prisma.TransactionClient, request: TimeOffRequest, editorId: string) {
+    const latest = await tx.timeOffRequestRevision.findFirst({
+      where: { requestId: request.id },
+      orderBy: { revision: 'desc' },
+    });
+    await tx.timeOffRequestRevision.create({
+      data: {
+        ...toVersion(request),
+        requestId: request.id,
+        revision: (latest?.revision ?? 0) + 1,
+        status: request.status,
+        editedById: editorId,
+      },
+    });
+  }
+
+  /**
+   * Replaces a request's details, keeping the current version as a revision.
+   * The request goes back to pending with a fresh approval chain. Pass a
+   * transaction client to revise alongside other writes.
+   */
+  async revise(
+    request: TimeOffRequest,
+    next: RequestVersion,
+    editorId: string,
+    steps: ApprovalStepRole[],
+    client?: Prisma.TransactionClient
+  ): Promise<TimeOffRequest> {
+    const apply = async (tx: Prisma.TransactionClient) => {
+      await this.snapshot(tx, request, editorId);
+      await tx.requestApproval.deleteMany({ where: { requestId: request.id } });
+      return tx.timeOffRequest.update({
+        where: { id: request.id },
+        data: {
+          ...next,
+          status: 'PENDING',
+          ...(steps.length > 0
+            ? { approvals: { create: steps.map((role, index) => ({ step: index + 1, role })) } }
+            : {}),
+        },
+      });
+    };
+    return client ? apply(client) : prisma!.$transaction(apply);
+  }
+
+  /**
+   * Finds a change to an approved request that is waiting for approval: the
+   * request is pending again but still holds the days of its last approval.
+   */
+  async findPendingChange(request: TimeOffRequest): Promise<PendingChange | null> {
+    if (!isPrismaAvailable() || (request.status !== 'PENDING' && request.status !== 'PARTIALLY_APPROVED')) {
+      return null;
+    }
+
+    const held = await new BalanceLedger(prisma!).heldBy(request.id);
+    if (held.length === 0) {
+      return null;
+    }
+    const approved = (await this.listRevisions(request.id)).filter(revision => revision.status === 'APPROVED').pop();
+    return approved ? { approved, held } : null;
+  }
+
+  /**
+   * Turns down a change to an approved request, putting back the version
+   * that was approved. The rejected change is kept as a revision. Pass a
+   * transaction client to restore alongside other writes.
+   */
+  async restoreApproved(
+    request: TimeOffRequest,
+    change: PendingChange,
+    actorId: string,
+    client?: Prisma.TransactionClient
+  ): Promise<TimeOffRequest> {
+    const restore = async (tx: Prisma.TransactionClient) => {
+      await this.snapshot(tx, request, actorId);
+      return tx.timeOffRequest.update({
+        where: { id: request.id },
+        data: { ...toVersion(change.approved), status: 'APPROVED' },
+      });
+    };
+    return client ? restore(client) : prisma!.$transaction(restore);
+  }
+}
+
+// Export singleton instance
+export const revisionService = new RevisionService();
@@ -0,0 +1,238 @@
+import { prisma, isPrismaAvailable } from '../db';
+import { AuditLogger } from '../audit';
+import { BalanceLedger } from '../balance-ledger';
+import { calculateRollover, getExpiredCarryover, RolloverRule } from '../rollover';
+import { TimeOffType } from '../types/time-off';
+
+export interface RolloverPolicySummary extends RolloverRule {
+  id: string;
+  type: TimeOffType;
+}
+
+export interface RolloverEntry {
+  type: TimeOffType;
+  unusedDays: number;
+  carriedDays: number;
+  forfeitedDays: number;
+  allowance: number;
+  newTotalDays: number;
+  expiresOn: string | null;
+  // Next year's balance already includes this rollover
+  alreadyRolledOver: boolean;
+}
+
+export interface RolloverReport {
+  fromYear: number;
+  toYear: number;
+  dryRun: boolean;
+  users: Array<{
+    userId: string;
+    name: string | null;
+    email: string;
+    entries: RolloverEntry[];
+  }>;
+}
+
+export interface ExpiredCarryover {
+  balanceId: string;
+  userId: string;
+  type: TimeOffType;
+  year: number;
+  expiredDays: number;
+}
+
+export class RolloverService {
+  async listPolicies(): Promise<RolloverPolicySummary[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    const rows = await prisma!.rolloverPolicy.findMany({ orderBy: { type: 'asc' } });
+    return rows.map(row => ({
+      id: row.id,
+      type: row.type,
+      annualAllowance: row.annualAllowance,
+      carryoverCap: row.carryoverCap,
+      expiryMonth: row.expiryMonth,
+      expiryDay: row.expiryDay,
+    }));
+  }
+
+  /**
+   * Works out next year's balances for every user. Types without a rollover
+   * policy are left alone.
+   */
+  async previewRollover(fromYear: number): Promise<RolloverReport> {
+    const toYear = fromYear + 1;
+    const report: RolloverReport = { fromYear, toYear, dryRun: true, users: [] };
+    if (!isPrismaAvailable()) {
+      return report;
+    }
+
+    const policies = await prisma!.rolloverPolicy.findMany({ orderBy: { type: 'asc' } });
+    if (policies.length === 0) {
+      return report;
+    }
+
+    const types = policies.map(policy => policy.type);
+    const [users, balances] = await Promise.all([
+      prisma!.user.findMany({ select: { id: true, name: true, email: true }, orderBy: { name: 'asc' } }),
+      prisma!.timeOffBalance.findMany({ where: { year: { in: [fromYear, toYear] }, type: { in: types } } }),
+    ]);
+    const balanceKey = (userId: string, year: number, type: TimeOffType) => `${userId}:${year}:${type}`;
+    const byKey = new Map(balances.map(balance => [balanceKey(balance.userId, balance.year, balance.type), balance]));
+
+    for (const user of users) {
+      const entries = policies.map(policy => {
+        const previous = byKey.get(balanceKey(user.id, fromYear, policy.type));
+        const next = byKey.get(balanceKey(user.id, toYear, policy.type));
+        const unusedDays = previous?.remainingDays ?? 0;
+        const { carriedDays, forfeitedDays, expiresOn } = calculateRollover(unusedDays, policy, toYear);
+        // An existing balance (from accruals or a manual edit) keeps its days
+        const baseDays = next ? next.totalDays : policy.annualAllowance;
+
+        return {
+          type: policy.type,
+          unusedDays,
+          carriedDays,
+          forfeitedDays,
+          allowance: next ? 0 : policy.annualAllowance,
+          newTotalDays: next?.rolledOverAt ? next.totalDays : baseDays + carriedDays,
+          expiresOn,
+          alreadyRolledOver: !!next?.rolledOverAt,
+        };
+      });
+      report.users.push({ userId: user.id, name: user.name, email: user.email, entries });
+    }
+
+    return report;
+  }
+
+  /**
+   * Creates next year's balances and records one audit entry per user.
+   * Carried and forfeited days are moved out of the old year in the ledger.
+   * Balances that were already rolled over are skipped.
+   */
+  async commitRollover(fromYear: number, actorId: string): Promise<RolloverReport> {
+    const report = await this.previewRollover(fromYear);
+    report.dryRun = false;
+    if (!isPrismaAvailable()) {
+      return report;
+    }
+
+    for (const user of report.users) {
+      const pending = user.entries.filter(entry => !entry.alreadyRolledOver);
+      if (pending.length === 0) continue;
+
+      const applied = await prisma!.$transaction(async (tx) => {
+        const ledger = new BalanceLedger(tx);
+        const done: RolloverEntry[] = [];
+        for (const entry of pending) {
+          const where = { unique_balance_per_year: { userId: user.userId, year: report.toYear, type: entry.type } };
+          const existing = await tx.timeOffBalance.findUnique({ where });
+          // Another run got here first
+          if (existing?.rolledOverAt) continue;
+
+          const base = { userId: user.userId, type: entry.type, actorId };
+          const reason = `Rollover from ${report.fromYear}`;
+          if (!existing && entry.allowance > 0) {
+            await ledger.record({ ...base, year: report.toYear, kind: 'GRANT', days: entry.allowance, reason: `${report.toYear} allowance` });
+          }
+          if (entry.carriedDays > 0) {
+            await ledger.record({ ...base, year: report.toYear, kind: 'CARRYOVER', days: entry.carriedDays, reason });
+            await ledger.record({ ...base, year: report.fromYear, kind: 'CARRYOVER', days: -entry.carriedDays, reason: `Carried into ${report.toYear}` });
+          }
+          if (entry.forfeitedDays > 0) {
+            await ledger.record({ ...base, year: report.fromYear, kind: 'FORFEITURE', days: -entry.forfeitedDays, reason: 'Above the carryover cap' });
+          }
+
+          const carryover = {
+            carriedOverDays: entry.carriedDays,
+            carryoverExpiresAt: entry.expiresOn ? new Date(`${entry.expiresOn}T00:00:00.000Z`) : null,
+            rolledOverAt: new Date(),
+          };
+          await tx.timeOffBalance.upsert({
+            where,
+            create: { ...carryover, userId: user.userId, year: report.toYear, type: entry.type, totalDays: 0, usedDays: 0, remainingDays: 0 },
+            update: carryover,
+          });
+          done.push(entry);
+        }
+
+        if (done.length > 0) {
+          await new AuditLogger(tx).log(actorId, 'UPDATE', 'BALANCE', user.userId, {
+            action: 'YEAR_END_ROLLOVER',
+            fromYear: report.fromYear,
+            toYear: report.toYear,
+            entries: done,
+          });
+        }
+        return done;
+      });
+
+      for (const entry of user.entries) {
+        entry.alreadyRolledOver = entry.alreadyRolledOver || applied.includes(entry);
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Forfeits carried days that are still unused on their use-by date
+   */
+  async expireCarryover(asOf: Date = new Date()): Promise<ExpiredCarryover[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    const due = await prisma!.timeOffBalance.findMany({
+      where: { carryoverExpiresAt: { lte: asOf }, carriedOverDays: { gt: 0 } },
+    });
+
+    const expired: ExpiredCarryover[] = [];
+    for (const balance of due) {
+      const expiredDays = getExpiredCarryover(balance.carriedOverDays, balance.usedDays);
+      // Clearing the date marks the carryover as processed
+      const count = await prisma!.$transaction(async (tx) => {
+        const { count } = await tx.timeOffBalance.updateMany({
+          where: { id: balance.id, carryoverExpiresAt: { not: null } },
+          data: {
+            carriedOverDays: balance.carriedOverDays - expiredDays,
+            carryoverExpiresAt: null,
+          },
+        });
+        if (count === 0) {
+          return count;
+        }
+        if (expiredDays > 0) {
+          await new BalanceLedger(tx).record({
+            userId: balance.userId,
+            year: balance.year,
+            type: balance.type,
+            kind: 'FORFEITURE',
+            days: -expiredDays,
+            reason: 'Carried days expired',
+          });
+        }
+        await new AuditLogger(tx).logSystem('UPDATE', 'BALANCE', balance.id, {
+          action: 'CARRYOVER_EXPIRED',
+          type: balance.type,
+          year: balance.year,
+          carriedOverDays: balance.carriedOverDays,
+          usedDays: balance.usedDays,
+          expiredDays,
+        });
+        return count;
+      });
+      if (count === 0) continue;
+
+      expired.push({ balanceId: balance.id, userId: balance.userId, type: balance.type, year: balance.year, expiredDays });
+    }
+
+    return expired;
+  }
+}
+
+// Export singleton instance
+export const rolloverService = new RolloverService();
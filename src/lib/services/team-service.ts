@@ -0,0 +1,133 @@
+import { prisma, isPrismaAvailable } from '../db';
+import { toDateKey } from '../holidays';
+import {
+  StaffingConflict,
+  TeamAbsence,
+  TeamCalendarDay,
+  buildTeamCalendar,
+  findStaffingConflicts,
+} from '../teams';
+
+export interface TeamSummary {
+  id: string;
+  name: string;
+  maxOff: number | null;
+  memberCount: number;
+}
+
+export interface StaffingCheck {
+  team: { id: string; name: string; maxOff: number };
+  conflicts: StaffingConflict[];
+}
+
+export class TeamService {
+  async listTeams(): Promise<TeamSummary[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    const rows = await prisma!.team.findMany({
+      include: { _count: { select: { members: true } } },
+      orderBy: { name: 'asc' },
+    });
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      maxOff: row.maxOff,
+      memberCount: row._count.members,
+    }));
+  }
+
+  async getTeam(teamId: string): Promise<Omit<TeamSummary, 'memberCount'> | null> {
+    if (!isPrismaAvailable()) {
+      return null;
+    }
+
+    return prisma!.team.findUnique({ where: { id: teamId }, select: { id: true, name: true, maxOff: true } });
+  }
+
+  async getTeamIdForUser(userId: string): Promise<string | null> {
+    if (!isPrismaAvailable()) {
+      return null;
+    }
+
+    const user = await prisma!.user.findUnique({ where: { id: userId }, select: { teamId: true } });
+    return user?.teamId ?? null;
+  }
+
+  /**
+   * Loads the team's requests in the given statuses that overlap a range
+   */
+  private async getAbsences(
+    teamId: string,
+    from: Date,
+    to: Date,
+    statuses: TeamAbsence['status'][],
+    excludeRequestId?: string
+  ): Promise<TeamAbsence[]> {
+    const rows = await prisma!.timeOffRequest.findMany({
+      where: {
+        status: { in: statuses },
+        startDate: { lte: new Date(`${toDateKey(to)}T23:59:59.999Z`) },
+        endDate: { gte: new Date(`${toDateKey(from)}T00:00:00.000Z`) },
+        user: { teamId },
+        ...(excludeRequestId ? { id: { not: excludeRequestId } } : {}),
+      },
+      include: { user: { select: { name: true } } },
+      orderBy: { startDate: 'asc' },
+    });
+    return rows.map(row => ({
+      requestId: row.id,
+      userId: row.userId,
+      userName: row.user.name,
+      type: row.type,
+      status: row.status,
+      startDate: row.startDate,
+      endDate: row.endDate,
+    }));
+  }
+
+  /**
+   * Who is off each day; pending requests are included so the calendar shows
+   * what may be coming
+   */
+  async getTeamCalendar(teamId: string, from: Date, to: Date): Promise<TeamCalendarDay[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    const absences = await this.getAbsences(teamId, from, to, ['PENDING', 'PARTIALLY_APPROVED', 'APPROVED', 'CANCELLATION_REQUESTED']);
+    return buildTeamCalendar(absences, from, to);
+  }
+
+  /**
+   * Checks a user's request against their team's staffing limit, counting
+   * approved requests only. Returns null when the user has no team or the team
+   * has no limit.
+   */
+  async checkStaffing(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    excludeRequestId?: string
+  ): Promise<StaffingCheck | null> {
+    if (!isPrismaAvailable()) {
+      return null;
+    }
+
+    const user = await prisma!.user.findUnique({ where: { id: userId }, select: { team: true } });
+    const team = user?.team;
+    if (!team || team.maxOff === null) {
+      return null;
+    }
+
+    const absences = await this.getAbsences(team.id, startDate, endDate, ['APPROVED', 'CANCELLATION_REQUESTED'], excludeRequestId);
+    return {
+      team: { id: team.id, name: team.name, maxOff: team.maxOff },
+      conflicts: findStaffingConflicts(absences, { userId, startDate, endDate }, team.maxOff),
+    };
+  }
+}
+
+// Export singleton instance
+export const teamService = new TeamService();
@@ -8,6 +8,7 @@ import {
 } from '../types/unified-balance';
 import db, { dbOperations, prisma, isPrismaEnabled } from '../db';
 import { randomUUID } from 'crypto';
+import { BalanceLedger } from '../balance-ledger';
 
 export class UnifiedBalanceService {
   /**
@@ -74,21 +75,29 @@ export class UnifiedBalanceService {
         console.log("Updating balance using Prisma");
         
         const modernBalances = unifiedToModern(balance);
-        
-        // Delete existing balances for this user/year
-        await prisma?.timeOffBalance.deleteMany({
-          where: { userId: balance.userId, year: balance.year }
-        });
-        
-        // Create new balance records
-        for (const modernBalance of modernBalances) {
-          await prisma?.timeOffBalance.create({
-            data: {
-              id: randomUUID(),
-              ...modernBalance,
-            }
+        // Every type is updated or none is
+        await prisma!.$transaction(async (tx) => {
+          const existing = await tx.timeOffBalance.findMany({
+            where: { userId: balance.userId, year: balance.year }
           });
-        }
+          
+          // Unified balances hold remaining days; record the difference for each type
+          const ledger = new BalanceLedger(tx);
+          for (const modernBalance of modernBalances) {
+            const current = existing.find(row => row.type === modernBalance.type);
+            const change = modernBalance.remainingDays - (current?.remainingDays ?? 0);
+            if (current && change === 0) continue;
+            
+            await ledger.record({
+              userId: balance.userId,
+              year: balance.year,
+              type: modernBalance.type,
+              kind: current ? 'ADJUSTMENT' : 'GRANT',
+              days: change,
+              reason: current ? 'Balance updated' : 'Initial balance',
+            });
+          }
+        });
       }
       
       // Fallback to SQLite
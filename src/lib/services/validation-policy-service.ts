@@ -0,0 +1,93 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { prisma, isPrismaAvailable } from '../db';
+import { validateDateRange, validateNoticePeriod, WorkingDayOptions } from '../date-utils';
+import { TimeOffType, ValidationError } from '../types/time-off';
+import { findValidationPolicy, ValidationPolicyRule } from '../validation-policy';
+
+export interface ValidationPolicySummary extends ValidationPolicyRule {
+  id: string;
+}
+
+export class ValidationPolicyService {
+  async listPolicies(): Promise<ValidationPolicySummary[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    const rows = await prisma!.validationPolicy.findMany({ orderBy: [{ type: 'asc' }, { role: 'asc' }] });
+    return rows.map(row => ({
+      id: row.id,
+      type: row.type,
+      role: row.role,
+      minNoticeDays: row.minNoticeDays,
+      maxConsecutiveDays: row.maxConsecutiveDays,
+      maxRequestsPerYear: row.maxRequestsPerYear,
+    }));
+  }
+
+  /**
+   * The policy for a request type and the user's role, if there is one
+   */
+  async findPolicy(
+    userId: string,
+    type: TimeOffType,
+    client: PrismaClient | Prisma.TransactionClient = prisma!
+  ): Promise<ValidationPolicyRule | null> {
+    const [policies, user] = await Promise.all([
+      client.validationPolicy.findMany({ where: { type } }),
+      client.user.findUnique({ where: { id: userId }, select: { role: true } }),
+    ]);
+    return findValidationPolicy(policies, type, user?.role);
+  }
+
+  /**
+   * Checks a new request against the policy for its type and the user's role.
+   * Types without a policy are not limited. Pass the id of a request being
+   * changed so it doesn't count against itself.
+   */
+  async checkRequest(
+    userId: string,
+    type: TimeOffType,
+    startDate: Date,
+    endDate: Date,
+    options: WorkingDayOptions = {},
+    excludeRequestId?: string
+  ): Promise<ValidationError[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    const policy = await this.findPolicy(userId, type);
+    if (!policy) {
+      return [];
+    }
+
+    const errors: ValidationError[] = [
+      ...validateDateRange(startDate, endDate, [], policy.maxConsecutiveDays, options).errors,
+      ...validateNoticePeriod(startDate, policy.minNoticeDays).errors,
+    ];
+
+    // Only requests of the policy's type that still hold their dates count
+    const year = startDate.getFullYear();
+    const requestCount = await prisma!.timeOffRequest.count({
+      where: {
+        userId,
+        type: policy.type,
+        status: { in: ['PENDING', 'PARTIALLY_APPROVED', 'APPROVED', 'CANCELLATION_REQUESTED'] },
+        startDate: { gte: new Date(year, 0, 1), lt: new Date(year + 1, 0, 1) },
+        ...(excludeRequestId ? { id: { not: excludeRequestId } } : {}),
+      },
+    });
+    if (requestCount >= policy.maxRequestsPerYear) {
+      errors.push({
+        code: 'REQUEST_LIMIT_EXCEEDED',
+        message: `You have reached the maximum number of requests (${policy.maxRequestsPerYear}) for this year`,
+      });
+    }
+
+    return errors;
+  }
+}
+
+// Export singleton instance
+export const validationPolicyService = new ValidationPolicyService();
@@ -0,0 +1,26 @@
+import { prisma, isPrismaAvailable } from '../db';
+import { DEFAULT_WORK_HOURS, WorkHours } from '../work-hours';
+
+export class WorkHoursService {
+  /**
+   * Loads a user's working-day length and balance unit. Environments without
+   * Prisma, and unknown users, use the 8-hour default.
+   */
+  async getForUser(userId: string): Promise<WorkHours> {
+    if (!isPrismaAvailable()) {
+      return DEFAULT_WORK_HOURS;
+    }
+
+    const user = await prisma!.user.findUnique({
+      where: { id: userId },
+      select: { standardHoursPerDay: true, balanceUnit: true },
+    });
+    if (!user) {
+      return DEFAULT_WORK_HOURS;
+    }
+    return { hoursPerDay: user.standardHoursPerDay, unit: user.balanceUnit };
+  }
+}
+
+// Export singleton instance
+export const workHoursService = new WorkHoursService();
@@ -0,0 +1,116 @@
+import { Prisma } from '@prisma/client';
+import { prisma, isPrismaAvailable } from '../db';
+import { toDateKey } from '../holidays';
+import {
+  WorkPattern,
+  WorkSchedule,
+  WorkScheduleEntry,
+  createWorkSchedule,
+  standardWorkSchedule,
+} from '../work-schedule';
+
+export interface StoredWorkScheduleEntry extends WorkScheduleEntry {
+  id: string;
+  createdAt: Date;
+}
+
+interface WorkScheduleRow {
+  id: string;
+  userId: string;
+  effectiveFrom: Date;
+  weekdays: number[];
+  hoursByWeekday: Prisma.JsonValue;
+  createdAt: Date;
+}
+
+function toEntry(row: WorkScheduleRow): StoredWorkScheduleEntry {
+  return {
+    id: row.id,
+    effectiveFrom: toDateKey(row.effectiveFrom),
+    pattern: {
+      weekdays: row.weekdays,
+      hoursByWeekday: (row.hoursByWeekday as WorkPattern['hoursByWeekday']) ?? null,
+    },
+    createdAt: row.createdAt,
+  };
+}
+
+export class WorkScheduleService {
+  /**
+   * Lists a user's pattern history, newest first
+   */
+  async getHistory(userId: string): Promise<StoredWorkScheduleEntry[]> {
+    if (!isPrismaAvailable()) {
+      return [];
+    }
+
+    const rows = await prisma!.workSchedule.findMany({
+      where: { userId },
+      orderBy: { effectiveFrom: 'desc' },
+    });
+    return rows.map(toEntry);
+  }
+
+  /**
+   * Loads the schedule for a user; users without a recorded pattern work Monday to Friday
+   */
+  async getScheduleForUser(userId: string): Promise<WorkSchedule> {
+    if (!isPrismaAvailable()) {
+      return standardWorkSchedule;
+    }
+
+    try {
+      const history = await this.getHistory(userId);
+      return history.length > 0 ? createWorkSchedule(history) : standardWorkSchedule;
+    } catch (error) {
+      console.error('Failed to load work schedule, using Monday to Friday:', error);
+      return standardWorkSchedule;
+    }
+  }
+
+  /**
+   * Loads schedules for several users with a single query
+   */
+  async getSchedulesForUsers(userIds: string[]): Promise<Map<string, WorkSchedule>> {
+    const schedules = new Map<string, WorkSchedule>();
+    if (!isPrismaAvailable() || userIds.length === 0) {
+      return schedules;
+    }
+
+    const rows = await prisma!.workSchedule.findMany({ where: { userId: { in: userIds } } });
+    const byUser = new Map<string, WorkScheduleEntry[]>();
+    for (const row of rows) {
+      byUser.set(row.userId, [...(byUser.get(row.userId) ?? []), toEntry(row)]);
+    }
+    for (const userId of userIds) {
+      const history = byUser.get(userId);
+      schedules.set(userId, history ? createWorkSchedule(history) : standardWorkSchedule);
+    }
+    return schedules;
+  }
+
+  /**
+   * Records a pattern starting on the given date, replacing any pattern that
+   * starts on the same day. Earlier patterns are kept for older requests.
+   */
+  async setPattern(
+    userId: string,
+    effectiveFrom: string,
+    pattern: WorkPattern,
+    client: Prisma.TransactionClient = prisma!
+  ): Promise<StoredWorkScheduleEntry> {
+    const date = new Date(`${effectiveFrom}T00:00:00.000Z`);
+    const weekdays = [...new Set(pattern.weekdays)].sort((a, b) => a - b);
+    const hoursByWeekday = pattern.hoursByWeekday ?? Prisma.DbNull;
+
+    const row = await client.workSchedule.upsert({
+      where: { userId_effectiveFrom: { userId, effectiveFrom: date } },
+      create: { userId, effectiveFrom: date, weekdays, hoursByWeekday },
+      update: { weekdays, hoursByWeekday },
+    });
+    return toEntry(row);
+  }
+}
+
+// Export singleton instance
+export const workScheduleService = new WorkScheduleService();
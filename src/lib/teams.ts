@@ -0,0 +1,87 @@
+import { toDateKey } from './holidays';
+import { RequestStatus, TimeOffType } from './types/time-off';
+
+/**
+ * Team calendars and staffing limits
+ *
+ * Absences are compared by UTC calendar day (YYYY-MM-DD), like blackouts, so
+ * a half day counts as a day off. A team's staffing limit caps how many
+ * members can be off on the same weekday; weekends are never counted.
+ */
+
+export interface TeamAbsence {
+  requestId: string;
+  userId: string;
+  userName: string | null;
+  type: TimeOffType;
+  status: RequestStatus;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface TeamCalendarDay {
+  date: string;
+  off: TeamAbsence[];
+}
+
+export interface StaffingConflict {
+  date: string;
+  // Members off that day, counting the request being checked
+  off: number;
+  limit: number;
+}
+
+function eachDay(startDate: Date, endDate: Date): Date[] {
+  const days: Date[] = [];
+  const current = new Date(`${toDateKey(startDate)}T00:00:00.000Z`);
+  const end = new Date(`${toDateKey(endDate)}T00:00:00.000Z`);
+  while (current <= end) {
+    days.push(new Date(current));
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+  return days;
+}
+
+function covers(absence: TeamAbsence, date: string): boolean {
+  return toDateKey(absence.startDate) <= date && toDateKey(absence.endDate) >= date;
+}
+
+/**
+ * Lists who is off on each day of a range
+ */
+export function buildTeamCalendar(absences: TeamAbsence[], from: Date, to: Date): TeamCalendarDay[] {
+  return eachDay(from, to).map(day => {
+    const date = toDateKey(day);
+    return { date, off: absences.filter(absence => covers(absence, date)) };
+  });
+}
+
+/**
+ * Returns the weekdays where taking the request would put more than `maxOff`
+ * members off at once. Other absences by the requester are ignored.
+ */
+export function findStaffingConflicts(
+  absences: TeamAbsence[],
+  request: { userId: string; startDate: Date; endDate: Date },
+  maxOff: number
+): StaffingConflict[] {
+  const others = absences.filter(absence => absence.userId !== request.userId);
+  const conflicts: StaffingConflict[] = [];
+  for (const day of eachDay(request.startDate, request.endDate)) {
+    if (day.getUTCDay() === 0 || day.getUTCDay() === 6) {
+      continue;
+    }
+    const date = toDateKey(day);
+    const off = new Set(others.filter(absence => covers(absence, date)).map(absence => absence.userId)).size + 1;
+    if (off > maxOff) {
+      conflicts.push({ date, off, limit: maxOff });
+    }
+  }
+  return conflicts;
+}
+
+export function describeStaffingConflicts(teamName: string, conflicts: StaffingConflict[]): string {
+  const limit = conflicts[0]?.limit ?? 0;
+  const days = conflicts.map(conflict => `${conflict.date} (${conflict.off} off)`);
+  return `${teamName} allows at most ${limit} ${limit === 1 ? 'person' : 'people'} off at once: ${days.join(', ')}`;
+}
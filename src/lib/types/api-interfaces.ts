@@ -17,7 +17,7 @@ export interface StandardTimeOffRequest {
   startDate: string; // ISO string for API transmission
   endDate: string;   // ISO string for API transmission
   type: 'VACATION' | 'SICK' | 'PAID_LEAVE' | 'PERSONAL';
-  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  status: 'PENDING' | 'PARTIALLY_APPROVED' | 'APPROVED' | 'REJECTED' | 'CANCELLATION_REQUESTED' | 'CANCELLED';
   reason?: string;
   workingDays?: number;
   userName?: string; // Populated in joined queries
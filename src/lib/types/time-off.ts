@@ -1,7 +1,9 @@
-import { TimeOffType as PrismaTimeOffType, RequestStatus as PrismaRequestStatus } from '@prisma/client';
+import { TimeOffType as PrismaTimeOffType, RequestStatus as PrismaRequestStatus, HalfDay as PrismaHalfDay } from '@prisma/client';
+import { HolidayCalendar } from '../holidays';
 
 export type TimeOffType = PrismaTimeOffType;
 export type RequestStatus = PrismaRequestStatus;
+export type HalfDay = PrismaHalfDay;
 
 export interface TimeOffBalance {
   userId: string;
@@ -21,6 +23,8 @@ export interface TimeOffRequest {
   startDate: Date;
   endDate: Date;
   workingDays: number;
+  startHalf?: HalfDay | null;
+  endHalf?: HalfDay | null;
   status: RequestStatus;
   reason: string | null;
   createdAt: Date;
@@ -30,6 +34,8 @@ export interface TimeOffRequest {
 export interface ValidationResult {
   isValid: boolean;
   errors: ValidationError[];
+  // Problems an approver can override, such as a team staffing limit
+  warnings?: ValidationError[];
 }
 
 export interface ValidationError {
@@ -43,13 +49,15 @@ export interface TimeOffValidationRules {
   maxConsecutiveDays: number;
   maxRequestsPerYear: number;
   blackoutDates: Date[];
+  // Defaults to the built-in company holiday rules
+  holidayCalendar?: HolidayCalendar;
 }
 
 export interface AuditLog {
   id: string;
-  userId: string;
+  userId: string | null;
   action: 'CREATE' | 'UPDATE' | 'DELETE';
-  entityType: 'REQUEST' | 'BALANCE';
+  entityType: 'REQUEST' | 'BALANCE' | 'HOLIDAY' | 'USER' | 'TEAM' | 'POLICY' | 'BLACKOUT';
   entityId: string;
   details: Record<string, any>;
   createdAt: Date;
@@ -78,7 +78,7 @@ export function transformTimeOffRequestToApi(dbRequest: DatabaseTimeOffRequest):
     startDate: dbRequest.start_date,
     endDate: dbRequest.end_date,
     type: dbRequest.type as 'VACATION' | 'SICK' | 'PAID_LEAVE' | 'PERSONAL',
-    status: dbRequest.status as 'PENDING' | 'APPROVED' | 'REJECTED',
+    status: dbRequest.status as 'PENDING' | 'PARTIALLY_APPROVED' | 'APPROVED' | 'REJECTED' | 'CANCELLATION_REQUESTED' | 'CANCELLED',
     reason: dbRequest.reason,
     workingDays: dbRequest.working_days,
     userName: dbRequest.user_name,
@@ -19,6 +19,12 @@ export const ERROR_CODES = {
   DUPLICATE_REQUEST: 'DUPLICATE_REQUEST',
   OVERLAPPING_REQUEST: 'OVERLAPPING_REQUEST',
   REQUEST_NOT_FOUND: 'REQUEST_NOT_FOUND',
+  FUTURE_DATE: 'FUTURE_DATE',
+  OUTSIDE_LOOKBACK_WINDOW: 'OUTSIDE_LOOKBACK_WINDOW',
+  OUTSIDE_SUBMISSION_WINDOW: 'OUTSIDE_SUBMISSION_WINDOW',
+  OVERTIME_ENTRY_LIMIT: 'OVERTIME_ENTRY_LIMIT',
+  OVERTIME_MONTHLY_LIMIT: 'OVERTIME_MONTHLY_LIMIT',
+  NOTES_REQUIRED: 'NOTES_REQUIRED',
   
   // Database
   DATABASE_ERROR: 'DATABASE_ERROR',
@@ -31,6 +37,8 @@ export const ERROR_CODES = {
   RATE_LIMITED: 'RATE_LIMITED',
 } as const;
 
+export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
+
 // Error response factory functions
 export function createErrorResponse(
   message: string,
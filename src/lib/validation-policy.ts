@@ -0,0 +1,52 @@
+import { TimeOffType, TimeOffValidationRules } from './types/time-off';
+
+/**
+ * Per-type request rules
+ *
+ * Policies are stored per time-off type, optionally narrowed to a role. A
+ * role-specific policy wins over the type's general policy; types without a
+ * policy fall back to the rules the validator was built with.
+ */
+
+export type PolicyRole = 'ADMIN' | 'MANAGER' | 'EMPLOYEE';
+
+export interface ValidationPolicyRule {
+  type: TimeOffType;
+  // Null applies to every role without its own policy
+  role: PolicyRole | null;
+  minNoticeDays: number;
+  maxConsecutiveDays: number;
+  maxRequestsPerYear: number;
+}
+
+/**
+ * Picks the policy for a request type and the requester's role
+ */
+export function findValidationPolicy<T extends ValidationPolicyRule>(
+  policies: T[],
+  type: TimeOffType,
+  role?: PolicyRole | null
+): T | null {
+  const forType = policies.filter(policy => policy.type === type);
+  return (role ? forType.find(policy => policy.role === role) : undefined)
+    ?? forType.find(policy => policy.role === null)
+    ?? null;
+}
+
+/**
+ * Overrides the notice, length and count limits with those of a policy
+ */
+export function applyValidationPolicy(
+  rules: TimeOffValidationRules,
+  policy: ValidationPolicyRule | null
+): TimeOffValidationRules {
+  if (!policy) {
+    return rules;
+  }
+  return {
+    ...rules,
+    minNoticeDays: policy.minNoticeDays,
+    maxConsecutiveDays: policy.maxConsecutiveDays,
+    maxRequestsPerYear: policy.maxRequestsPerYear,
+  };
+}
@@ -3,7 +3,11 @@ import {
   CreateTimeOffRequestSchema,
   CreateTimeOffBalanceSchema,
   CreateOvertimeRequestSchema,
-  TimeOffRequestFilterSchema
+  SubmitOvertimeRequestSchema,
+  TimeOffRequestFilterSchema,
+  CreateHolidaySchema,
+  WorkScheduleSchema,
+  BulkActionSchema
 } from '../schemas';
 
 describe('Time Off Request Schema Validation', () => {
@@ -160,6 +164,31 @@ describe('Time Off Request Schema Validation', () => {
       expect(result.error.issues[0].message).toContain('Reason must be less than 500 characters');
     }
   });
+
+  it('should accept half days on the first and last day', () => {
+    const result = CreateTimeOffRequestSchema.safeParse({
+      startDate: '2025-01-20T00:00:00.000Z',
+      endDate: '2025-01-24T00:00:00.000Z',
+      type: 'VACATION',
+      startHalf: 'PM',
+      endHalf: 'AM'
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject both halves on a single-day request', () => {
+    const result = CreateTimeOffRequestSchema.safeParse({
+      startDate: '2025-01-20T00:00:00.000Z',
+      endDate: '2025-01-20T00:00:00.000Z',
+      type: 'VACATION',
+      startHalf: 'AM',
+      endHalf: 'PM'
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toContain('A single-day request can only take one half of the day');
+    }
+  });
 });
 
 describe('Time Off Balance Schema Validation', () => {
@@ -267,6 +296,19 @@ describe('Overtime Request Schema Validation', () => {
       expect(result.error.issues[0].message).toContain('Month must be between 1 and 12');
     }
   });
+
+  it('should accept a submission with times instead of hours', () => {
+    const result = SubmitOvertimeRequestSchema.safeParse({ requestDate: '2025-01-10', startTime: '18:00', endTime: '21:30' });
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject a submission with only one of the times', () => {
+    const result = SubmitOvertimeRequestSchema.safeParse({ requestDate: '2025-01-10', hours: 2, startTime: '18:00' });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe('Start and end times must be given together');
+    }
+  });
 });
 
 describe('Time Off Request Filter Schema Validation', () => {
@@ -304,4 +346,87 @@ describe('Time Off Request Filter Schema Validation', () => {
       expect(result.error.issues[0].message).toContain('Invalid enum value');
     }
   });
+
+  it('should read paging from query string values', () => {
+    const result = TimeOffRequestFilterSchema.safeParse({ page: '3', limit: '50', year: '2025' });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toMatchObject({ page: 3, limit: 50, year: 2025, sortBy: 'startDate', sortOrder: 'desc' });
+    }
+  });
+
+  it('should reject a limit above 100 and unknown sort columns', () => {
+    expect(TimeOffRequestFilterSchema.safeParse({ limit: '500' }).success).toBe(false);
+    expect(TimeOffRequestFilterSchema.safeParse({ sortBy: 'reason' }).success).toBe(false);
+  });
+});
+
+describe('Holiday Schema Validation', () => {
+  it('should validate a valid holiday', () => {
+    const result = CreateHolidaySchema.safeParse({ date: '2026-12-28', name: 'Winter Shutdown' });
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject dates that are not YYYY-MM-DD', () => {
+    const result = CreateHolidaySchema.safeParse({ date: '12/28/2026', name: 'Winter Shutdown' });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe('Date must be in YYYY-MM-DD format');
+    }
+  });
+
+  it('should reject a blank name', () => {
+    const result = CreateHolidaySchema.safeParse({ date: '2026-12-28', name: '   ' });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('Work Schedule Schema Validation', () => {
+  it('should validate a four-day week with custom hours', () => {
+    const result = WorkScheduleSchema.safeParse({
+      effectiveFrom: '2025-03-01',
+      weekdays: [1, 2, 3, 4],
+      hoursByWeekday: { '1': 10, '4': 10 }
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject a schedule with no working days', () => {
+    const result = WorkScheduleSchema.safeParse({ effectiveFrom: '2025-03-01', weekdays: [] });
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject hours for a day that is not worked', () => {
+    const result = WorkScheduleSchema.safeParse({
+      effectiveFrom: '2025-03-01',
+      weekdays: [1, 2, 3, 4],
+      hoursByWeekday: { '5': 6 }
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toContain('Hours can only be set for working days');
+    }
+  });
+});
+
+describe('Bulk Action Schema Validation', () => {
+  const requestId = '123e4567-e89b-12d3-a456-426614174000';
+
+  it('should default to time off requests', () => {
+    const result = BulkActionSchema.safeParse({ requestIds: [requestId], action: 'APPROVE' });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.requestType).toBe('TIME_OFF');
+    }
+  });
+
+  it('should reject an empty or oversized batch', () => {
+    expect(BulkActionSchema.safeParse({ requestIds: [], action: 'REJECT' }).success).toBe(false);
+    expect(BulkActionSchema.safeParse({ requestIds: Array(101).fill(requestId), action: 'REJECT' }).success).toBe(false);
+  });
+
+  it('should reject unknown actions and request types', () => {
+    expect(BulkActionSchema.safeParse({ requestIds: [requestId], action: 'ARCHIVE' }).success).toBe(false);
+    expect(BulkActionSchema.safeParse({ requestIds: [requestId], action: 'DELETE', requestType: 'EXPENSE' }).success).toBe(false);
+  });
 });
@@ -5,6 +5,7 @@ export const UserRoleSchema = z.enum(['ADMIN', 'MANAGER', 'EMPLOYEE']);
 export const TimeOffTypeSchema = z.enum(['VACATION', 'SICK', 'PAID_LEAVE', 'PERSONAL']).superRefine((val, ctx) => {
   // superRefine doesn't change success path; this ensures consistent message on failure in tests using .safeParse
 });
+export const HalfDaySchema = z.enum(['AM', 'PM']);
 export const RequestStatusSchema = z.enum(['PENDING', 'APPROVED', 'REJECTED']).superRefine((val, ctx) => {
   // Same note as above
 });
@@ -19,6 +20,22 @@ export const CreateUserSchema = z.object({
 
 export const UpdateUserSchema = CreateUserSchema.partial().omit({ password: true });
 
+export const BalanceUnitSchema = z.enum(['DAYS', 'HOURS']);
+
+// Admin-managed per-user settings
+export const UserSettingsSchema = z.object({
+  holidayCalendarId: z.string().min(1).nullable().optional(),
+  standardHoursPerDay: z.number()
+    .positive('Hours per day must be greater than zero')
+    .max(24, 'Hours per day cannot exceed 24')
+    .optional(),
+  balanceUnit: BalanceUnitSchema.optional(),
+  hireDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').nullable().optional(),
+  accrualPolicyIds: z.array(z.string().min(1)).optional(),
+  managerId: z.string().min(1).nullable().optional(),
+  teamId: z.string().min(1).nullable().optional()
+});
+
 export const LoginSchema = z.object({
   email: z.string().email('Invalid email address'),
   password: z.string().min(1, 'Password is required')
@@ -26,7 +43,7 @@ export const LoginSchema = z.object({
 
 // Time-off request schemas
 const AllowedTimeOffTypes = ['VACATION', 'SICK', 'PAID_LEAVE', 'PERSONAL'] as const;
-const AllowedStatuses = ['PENDING', 'APPROVED', 'REJECTED'] as const;
+const AllowedStatuses = ['PENDING', 'PARTIALLY_APPROVED', 'APPROVED', 'REJECTED', 'CANCELLATION_REQUESTED', 'CANCELLED'] as const;
 
 // Helper: accept either RFC3339 datetime or simple YYYY-MM-DD strings
 const isParsableDateString = (value: string) => {
@@ -34,26 +51,61 @@ const isParsableDateString = (value: string) => {
   return !Number.isNaN(Date.parse(value));
 };
 
-export const CreateTimeOffRequestSchema = z.object({
-  userId: z.string().uuid('Invalid uuid').optional(),
+const TimeOffRequestFieldsSchema = z.object({
   // We allow past dates for backfilling purposes
   startDate: z.string().refine(isParsableDateString, 'Invalid date'),
   endDate: z.string().refine(isParsableDateString, 'Invalid date'),
   type: z.string().refine((v) => (AllowedTimeOffTypes as readonly string[]).includes(v), { message: 'Invalid enum value' }),
-  reason: z.string().max(500, 'Reason must be less than 500 characters').optional()
-}).refine(
-  (data) => new Date(data.startDate) <= new Date(data.endDate),
-  {
-    message: 'Start date must be before or equal to end date',
-    path: ['endDate']
-  }
+  reason: z.string().max(500, 'Reason must be less than 500 characters').optional(),
+  // Take only the morning (AM) or afternoon (PM) of the first/last day
+  startHalf: HalfDaySchema.nullable().optional(),
+  endHalf: HalfDaySchema.nullable().optional()
+});
+
+// Date rules shared by new requests and revisions
+function withRequestDateRules<T extends z.ZodType<z.infer<typeof TimeOffRequestFieldsSchema>>>(schema: T) {
+  return schema.refine(
+    (data) => new Date(data.startDate) <= new Date(data.endDate),
+    {
+      message: 'Start date must be before or equal to end date',
+      path: ['endDate']
+    }
+  ).refine(
+    (data) => {
+      const sameDay = data.startDate.split('T')[0] === data.endDate.split('T')[0];
+      return !sameDay || !data.startHalf || !data.endHalf || data.startHalf === data.endHalf;
+    },
+    {
+      message: 'A single-day request can only take one half of the day',
+      path: ['endHalf']
+    }
+  );
+}
+
+export const CreateTimeOffRequestSchema = withRequestDateRules(
+  TimeOffRequestFieldsSchema.extend({
+    userId: z.string().uuid('Invalid uuid').optional()
+  })
 );
 
+// The full set of new details for an existing request
+export const ReviseTimeOffRequestSchema = withRequestDateRules(TimeOffRequestFieldsSchema);
+
 export const UpdateTimeOffRequestSchema = z.object({
   status: RequestStatusSchema,
   reason: z.string().max(500, 'Reason must be less than 500 characters').optional()
 });
 
+export const CancelTimeOffRequestSchema = z.object({
+  reason: z.string().max(500, 'Reason must be less than 500 characters').optional()
+});
+
+// An approver's answer to a request to cancel approved time off
+export const CancellationDecisionSchema = z.object({
+  approve: z.boolean(),
+  comment: z.string().max(500, 'Comment must be less than 500 characters').optional()
+});
+
 export const TimeOffRequestIdSchema = z.object({
   id: z.string().uuid('Invalid request ID')
 });
@@ -71,20 +123,209 @@ export const CreateTimeOffBalanceSchema = z.object({
 export const UpdateTimeOffBalanceSchema = CreateTimeOffBalanceSchema.partial().omit({ userId: true, year: true, type: true });
 
 // Overtime request schemas
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format');
+
 export const CreateOvertimeRequestSchema = z.object({
   userId: z.string().uuid('Invalid user ID'),
   hours: z.number().min(0.5, 'Hours must be between 0.5 and 24').max(24, 'Hours must be between 0.5 and 24'),
   requestDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Request date must be in YYYY-MM-DD format').optional(),
   month: z.number().int().min(1, 'Month must be between 1 and 12').max(12, 'Month must be between 1 and 12'),
   year: z.number().int().min(2020, 'Year must be 2020 or later').max(2030, 'Year must be 2030 or earlier'),
-  notes: z.string().max(1000, 'Notes must be less than 1000 characters').optional()
+  notes: z.string().max(1000, 'Notes must be less than 1000 characters').optional(),
+  // Times worked; an end before the start runs past midnight
+  startTime: TimeOfDaySchema.optional(),
+  endTime: TimeOfDaySchema.optional()
 });
 
+// The month and year come from the day worked, and the hours from the times when both are given
+export const SubmitOvertimeRequestSchema = CreateOvertimeRequestSchema.omit({ month: true, year: true })
+  .extend({
+    userId: z.string().min(1).optional(),
+    hours: CreateOvertimeRequestSchema.shape.hours.optional(),
+    requestDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Request date must be in YYYY-MM-DD format').refine(isParsableDateString, 'Invalid date').optional()
+  })
+  .refine(data => !data.startTime === !data.endTime, {
+    message: 'Start and end times must be given together',
+    path: ['endTime']
+  })
+  .refine(data => !data.startTime || data.startTime !== data.endTime, {
+    message: 'End time must differ from start time',
+    path: ['endTime']
+  })
+  .refine(data => data.hours !== undefined || !!data.startTime, {
+    message: 'Enter the hours worked or the start and end times',
+    path: ['hours']
+  });
+
 export const UpdateOvertimeRequestSchema = z.object({
   status: RequestStatusSchema,
   notes: z.string().max(1000, 'Notes must be less than 1000 characters').optional()
 });
 
+const OvertimeRateSchema = z.number().min(1, 'Rates must be between 1 and 5').max(5, 'Rates must be between 1 and 5');
+const OvertimeWindowSchema = z.number().int().min(1, 'Windows must be between 1 and 31 days').max(31, 'Windows must be between 1 and 31 days');
+const OvertimeHoursLimitSchema = z.number().positive('Hour limits must be greater than zero');
+const OvertimeCapSchema = z.number().positive('Caps must be greater than zero').max(365, 'Caps cannot exceed 365 days');
+
+export const OvertimePolicySchema = z.object({
+  compensation: z.enum(['COMP_TIME', 'PAYOUT']),
+  creditType: TimeOffTypeSchema,
+  weekdayRate: OvertimeRateSchema,
+  weekendRate: OvertimeRateSchema,
+  holidayRate: OvertimeRateSchema,
+  // Omit for no cap
+  monthlyCapDays: OvertimeCapSchema.nullable().optional(),
+  yearlyCapDays: OvertimeCapSchema.nullable().optional(),
+  // Omit for comp time that never expires
+  compTimeExpiryDays: z.number().int('Expiry must be a whole number of days').min(1, 'Expiry must be at least 1 day').max(3660, 'Expiry cannot exceed 3660 days').nullable().optional(),
+  // Omit both windows to allow submissions at any time
+  windowLastDaysOfMonth: OvertimeWindowSchema.nullable().optional(),
+  windowFirstDaysOfNextMonth: OvertimeWindowSchema.nullable().optional(),
+  maxHoursPerEntry: OvertimeHoursLimitSchema.max(24, 'Hours per entry cannot exceed 24').nullable().optional(),
+  maxHoursPerMonth: OvertimeHoursLimitSchema.max(744, 'Hours per month cannot exceed 744').nullable().optional(),
+  notesRequiredAboveHours: z.number().min(0, 'Notes threshold cannot be negative').max(24, 'Notes threshold cannot exceed 24 hours').nullable().optional()
+});
+
+// Holiday schemas
+export const CreateHolidaySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').refine(isParsableDateString, 'Invalid date'),
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
+  observed: z.boolean().optional(),
+  // Defaults to the default holiday calendar
+  calendarId: z.string().uuid('Invalid calendar ID').optional()
+});
+
+export const UpdateHolidaySchema = CreateHolidaySchema.omit({ calendarId: true }).partial();
+
+export const HolidayCalendarSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
+  ruleSet: z.enum(['US', 'MX', 'ES']).nullable().optional(),
+  isDefault: z.boolean().optional()
+});
+
+// Work schedule schemas
+export const WorkScheduleSchema = z.object({
+  effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').refine(isParsableDateString, 'Invalid date'),
+  // 0 = Sunday ... 6 = Saturday
+  weekdays: z.array(z.number().int().min(0).max(6)).min(1, 'At least one working day is required'),
+  hoursByWeekday: z.record(
+    z.string().regex(/^[0-6]$/, 'Weekday must be 0-6'),
+    z.number().positive('Hours must be greater than zero').max(24, 'Hours cannot exceed 24')
+  ).nullable().optional()
+}).refine(
+  data => !data.hoursByWeekday || Object.keys(data.hoursByWeekday).every(day => data.weekdays.includes(Number(day))),
+  { message: 'Hours can only be set for working days', path: ['hoursByWeekday'] }
+);
+
+// Accrual policy schemas
+const AccrualPolicyBaseSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
+  type: TimeOffTypeSchema,
+  basis: z.enum(['ANNUAL', 'MONTHLY', 'HOURS_WORKED']),
+  rate: z.number().positive('Rate must be greater than zero').max(366, 'Rate is too large'),
+  unit: BalanceUnitSchema.default('DAYS'),
+  perHours: z.number().positive('Hours must be greater than zero').nullable().optional(),
+  annualCap: z.number().positive('Cap must be greater than zero').nullable().optional(),
+  effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').refine(isParsableDateString, 'Invalid date'),
+  active: z.boolean().optional()
+});
+
+export const CreateAccrualPolicySchema = AccrualPolicyBaseSchema.refine(
+  data => data.basis !== 'HOURS_WORKED' || !!data.perHours,
+  { message: 'Hours-worked policies need the number of hours per accrual', path: ['perHours'] }
+);
+
+export const UpdateAccrualPolicySchema = AccrualPolicyBaseSchema.omit({ unit: true }).partial().extend({
+  unit: BalanceUnitSchema.optional()
+});
+
+// Year-end rollover schemas
+export const RolloverPolicySchema = z.object({
+  type: TimeOffTypeSchema,
+  annualAllowance: z.number().min(0, 'Allowance must be between 0 and 365').max(365, 'Allowance must be between 0 and 365'),
+  carryoverCap: z.number().min(0, 'Cap must be between 0 and 365').max(365, 'Cap must be between 0 and 365').nullable().optional(),
+  expiryMonth: z.number().int().min(1).max(12).nullable().optional(),
+  expiryDay: z.number().int().min(1).max(31).nullable().optional()
+}).refine(
+  data => !data.expiryMonth === !data.expiryDay,
+  { message: 'Expiry needs both a month and a day', path: ['expiryDay'] }
+);
+
+export const RolloverRunSchema = z.object({
+  fromYear: z.number().int().min(2000).max(2100),
+  // Preview unless explicitly committed
+  dryRun: z.boolean().default(true)
+});
+
+// Validation policy schemas
+export const ValidationPolicySchema = z.object({
+  type: TimeOffTypeSchema,
+  // Omit to apply to every role without its own policy
+  role: UserRoleSchema.nullable().optional(),
+  minNoticeDays: z.number().int().min(0, 'Notice must be between 0 and 365 days').max(365, 'Notice must be between 0 and 365 days'),
+  maxConsecutiveDays: z.number().int().min(1, 'Maximum length must be between 1 and 365 days').max(365, 'Maximum length must be between 1 and 365 days'),
+  maxRequestsPerYear: z.number().int().min(1, 'Request limit must be between 1 and 365').max(365, 'Request limit must be between 1 and 365')
+});
+
+// Blackout schemas
+const BlackoutPeriodBaseSchema = z.object({
+  label: z.string().trim().min(1, 'Label is required').max(100, 'Label must be less than 100 characters'),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').refine(isParsableDateString, 'Invalid date'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').refine(isParsableDateString, 'Invalid date'),
+  // Empty blocks every type
+  types: z.array(TimeOffTypeSchema).default([]),
+  // Null blocks everyone
+  teamId: z.string().min(1).nullable().default(null)
+});
+
+export const CreateBlackoutPeriodSchema = BlackoutPeriodBaseSchema.refine(
+  data => data.endDate >= data.startDate,
+  { message: 'End date must be on or after start date', path: ['endDate'] }
+);
+
+export const UpdateBlackoutPeriodSchema = BlackoutPeriodBaseSchema.partial().extend({
+  types: z.array(TimeOffTypeSchema).optional(),
+  teamId: z.string().min(1).nullable().optional()
+}).refine(
+  data => !data.startDate || !data.endDate || data.endDate >= data.startDate,
+  { message: 'End date must be on or after start date', path: ['endDate'] }
+);
+
+export const BlackoutExceptionSchema = z.object({
+  userId: z.string().min(1, 'User is required'),
+  // The request's days are covered; without one, the given dates are
+  requestId: z.string().optional(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').refine(isParsableDateString, 'Invalid date').optional(),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').refine(isParsableDateString, 'Invalid date').optional(),
+  reason: z.string().max(500, 'Reason must be less than 500 characters').optional()
+}).refine(
+  data => data.requestId || (data.startDate && data.endDate),
+  { message: 'A request or start and end dates are required', path: ['startDate'] }
+).refine(
+  data => !data.startDate || !data.endDate || data.endDate >= data.startDate,
+  { message: 'End date must be on or after start date', path: ['endDate'] }
+);
+
+// Approval chain schemas
+export const ApprovalStepRoleSchema = z.enum(['MANAGER', 'ADMIN']);
+
+export const ApprovalChainSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
+  type: TimeOffTypeSchema,
+  // The chain applies to requests longer than this many working days
+  overDays: z.number().min(0, 'Threshold must be between 0 and 365 days').max(365, 'Threshold must be between 0 and 365 days').default(0),
+  steps: z.array(ApprovalStepRoleSchema).min(1, 'At least one step is required').max(5, 'A chain can have at most 5 steps')
+});
+
+// Team schemas
+export const TeamSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
+  // At most this many members off at once; null removes the limit
+  maxOff: z.number().int('Limit must be a whole number').min(1, 'Limit must be at least 1').nullable().optional()
+});
+
+export const UpdateTeamSchema = TeamSchema.partial();
+
 // Admin operation schemas
 export const AdminActionSchema = z.object({
   action: z.enum(['APPROVE', 'REJECT', 'DELETE']),
@@ -92,8 +333,12 @@ export const AdminActionSchema = z.object({
 });
 
 export const BulkActionSchema = z.object({
-  requestIds: z.array(z.string().uuid('Invalid request ID')).min(1, 'At least one request ID is required'),
+  requestIds: z.array(z.string().uuid('Invalid request ID'))
+    .min(1, 'At least one request ID is required')
+    .max(100, 'At most 100 requests can be processed at once'),
   action: AdminActionSchema.shape.action,
+  // Which kind of request the IDs belong to
+  requestType: z.enum(['TIME_OFF', 'OVERTIME']).default('TIME_OFF'),
   reason: z.string().max(500, 'Reason must be less than 500 characters').optional()
 });
 
@@ -114,23 +359,86 @@ export const TimeOffRequestFilterSchema = z.object({
   status: z.string().refine((v) => (AllowedStatuses as readonly string[]).includes(v), { message: 'Invalid enum value' }).optional(),
   type: TimeOffTypeSchema.optional(),
   userId: z.string().uuid('Invalid user ID').optional(),
+  year: z.coerce.number().int().min(2000, 'Invalid year').max(2100, 'Invalid year').optional(),
+  startDate: z.string().datetime('Invalid date').optional(),
+  endDate: z.string().datetime('Invalid date').optional(),
+  // Matches the requester's name or email
+  search: z.string().trim().max(100, 'Search is too long').optional(),
+  sortBy: z.enum(['startDate', 'endDate', 'createdAt', 'type', 'status']).default('startDate'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  // Coerced so the schema can read query strings
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  limit: z.coerce.number().int().min(1, 'Limit must be at least 1').max(100, 'Limit cannot exceed 100').default(20)
+});
+
+export const OvertimeFilterSchema = z.object({
+  status: z.enum(['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED']).optional(),
+  userId: z.string().uuid('Invalid user ID').optional(),
+  year: z.coerce.number().int().min(2000, 'Invalid year').max(2100, 'Invalid year').optional(),
+  // Month worked, 1-12
+  month: z.coerce.number().int().min(1, 'Invalid month').max(12, 'Invalid month').optional(),
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  limit: z.coerce.number().int().min(1, 'Limit must be at least 1').max(100, 'Limit cannot exceed 100').default(20)
+});
+
+// An admin taking back an approved overtime request
+export const ReverseOvertimeSchema = z.object({
+  reason: z.string().trim().min(1, 'Reason is required').max(500, 'Reason must be less than 500 characters')
+});
+
+export const AuditLogFilterSchema = z.object({
+  // The person who made the change
+  userId: z.string().uuid('Invalid user ID').optional(),
+  // Matches the logged action (CREATE, UPDATE, DELETE) or the specific one in its details
+  action: z.string().trim().min(1).max(100, 'Action is too long').transform((v) => v.toUpperCase()).optional(),
+  entityType: z.enum(['REQUEST', 'BALANCE', 'HOLIDAY', 'USER', 'TEAM', 'POLICY', 'BLACKOUT']).optional(),
+  entityId: z.string().trim().min(1).max(200, 'Entity ID is too long').optional(),
   startDate: z.string().datetime('Invalid date').optional(),
   endDate: z.string().datetime('Invalid date').optional(),
-  page: z.number().int().min(1, 'Page must be at least 1').default(1),
-  limit: z.number().int().min(1, 'Limit must be at least 1').max(100, 'Limit cannot exceed 100').default(20)
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  limit: z.coerce.number().int().min(1, 'Limit must be at least 1').max(100, 'Limit cannot exceed 100').default(20)
+});
+
+export const AuditExportSchema = AuditLogFilterSchema.extend({
+  format: z.enum(['csv', 'json']).default('csv')
 });
 
 // Export types
 export type CreateUserInput = z.infer<typeof CreateUserSchema>;
 export type UpdateUserInput = z.infer<typeof UpdateUserSchema>;
+export type UserSettingsInput = z.infer<typeof UserSettingsSchema>;
 export type LoginInput = z.infer<typeof LoginSchema>;
 export type CreateTimeOffRequestInput = z.infer<typeof CreateTimeOffRequestSchema>;
 export type UpdateTimeOffRequestInput = z.infer<typeof UpdateTimeOffRequestSchema>;
+export type ReviseTimeOffRequestInput = z.infer<typeof ReviseTimeOffRequestSchema>;
+export type CancelTimeOffRequestInput = z.infer<typeof CancelTimeOffRequestSchema>;
+export type CancellationDecisionInput = z.infer<typeof CancellationDecisionSchema>;
 export type CreateTimeOffBalanceInput = z.infer<typeof CreateTimeOffBalanceSchema>;
 export type UpdateTimeOffBalanceInput = z.infer<typeof UpdateTimeOffBalanceSchema>;
 export type CreateOvertimeRequestInput = z.infer<typeof CreateOvertimeRequestSchema>;
+export type SubmitOvertimeRequestInput = z.infer<typeof SubmitOvertimeRequestSchema>;
 export type UpdateOvertimeRequestInput = z.infer<typeof UpdateOvertimeRequestSchema>;
+export type OvertimePolicyInput = z.infer<typeof OvertimePolicySchema>;
+export type CreateHolidayInput = z.infer<typeof CreateHolidaySchema>;
+export type UpdateHolidayInput = z.infer<typeof UpdateHolidaySchema>;
+export type HolidayCalendarInput = z.infer<typeof HolidayCalendarSchema>;
+export type WorkScheduleInput = z.infer<typeof WorkScheduleSchema>;
+export type CreateAccrualPolicyInput = z.infer<typeof CreateAccrualPolicySchema>;
+export type UpdateAccrualPolicyInput = z.infer<typeof UpdateAccrualPolicySchema>;
+export type RolloverPolicyInput = z.infer<typeof RolloverPolicySchema>;
+export type RolloverRunInput = z.infer<typeof RolloverRunSchema>;
+export type ValidationPolicyInput = z.infer<typeof ValidationPolicySchema>;
+export type CreateBlackoutPeriodInput = z.infer<typeof CreateBlackoutPeriodSchema>;
+export type UpdateBlackoutPeriodInput = z.infer<typeof UpdateBlackoutPeriodSchema>;
+export type BlackoutExceptionInput = z.infer<typeof BlackoutExceptionSchema>;
+export type ApprovalChainInput = z.infer<typeof ApprovalChainSchema>;
+export type TeamInput = z.infer<typeof TeamSchema>;
+export type UpdateTeamInput = z.infer<typeof UpdateTeamSchema>;
 export type AdminActionInput = z.infer<typeof AdminActionSchema>;
 export type BulkActionInput = z.infer<typeof BulkActionSchema>;
 export type DateRangeInput = z.infer<typeof DateRangeSchema>;
 export type TimeOffRequestFilterInput = z.infer<typeof TimeOffRequestFilterSchema>;
+export type OvertimeFilterInput = z.infer<typeof OvertimeFilterSchema>;
+export type ReverseOvertimeInput = z.infer<typeof ReverseOvertimeSchema>;
+export type AuditLogFilterInput = z.infer<typeof AuditLogFilterSchema>;
+export type AuditExportInput = z.infer<typeof AuditExportSchema>;
@@ -1,9 +1,18 @@
 import { PrismaClient } from '@prisma/client';
-import { TimeOffType, TimeOffValidationRules, ValidationResult, ValidationError } from '../types/time-off';
+import { TimeOffType, TimeOffValidationRules, ValidationResult, ValidationError, HalfDay } from '../types/time-off';
 import { DatabaseError } from '../errors/time-off';
-import { calculateWorkingDays, validateDateRange, validateNoticePeriod } from '../date-utils';
+import { calculateWorkingDays, isComplementaryHalfDay, validateDateRange, validateNoticePeriod } from '../date-utils';
+import { HolidayCalendar } from '../holidays';
+import { WorkSchedule } from '../work-schedule';
+import { applyValidationPolicy } from '../validation-policy';
+import { validationPolicyService } from '../services/validation-policy-service';
+import { getBlackoutDates } from '../blackouts';
+import { blackoutService } from '../services/blackout-service';
+import { describeStaffingConflicts } from '../teams';
+import { teamService } from '../services/team-service';
 
 export class TimeOffValidator {
+  // Rules for types without a stored validation policy
   constructor(
     private prisma: PrismaClient,
     private rules: TimeOffValidationRules
@@ -15,16 +24,31 @@ export class TimeOffValidator {
     startDate: Date;
     endDate: Date;
     reason?: string;
+    startHalf?: HalfDay | null;
+    endHalf?: HalfDay | null;
+    // Requester's holiday calendar; overrides rules.holidayCalendar
+    holidayCalendar?: HolidayCalendar;
+    // Requester's weekly work pattern; Monday to Friday when omitted
+    workSchedule?: WorkSchedule;
   }): Promise<ValidationResult> {
     const errors: ValidationError[] = [];
+    const calendar = params.holidayCalendar ?? this.rules.holidayCalendar;
+    const schedule = params.workSchedule;
 
     try {
+      const rules = await this.getRules(params.userId, params.type);
+      const blackoutDates = [
+        ...rules.blackoutDates,
+        ...await this.getStoredBlackoutDates(params.userId, params.type, params.startDate, params.endDate),
+      ];
+
       // Validate date range
       const dateRangeValidation = validateDateRange(
         params.startDate,
         params.endDate,
-        this.rules.blackoutDates,
-        this.rules.maxConsecutiveDays
+        blackoutDates,
+        rules.maxConsecutiveDays,
+        { calendar, schedule, startHalf: params.startHalf, endHalf: params.endHalf }
       );
       if (!dateRangeValidation.isValid) {
         errors.push(...dateRangeValidation.errors);
@@ -33,7 +57,7 @@ export class TimeOffValidator {
       // Validate notice period
       const noticeValidation = validateNoticePeriod(
         params.startDate,
-        this.rules.minNoticeDays
+        rules.minNoticeDays
       );
       if (!noticeValidation.isValid) {
         errors.push(...noticeValidation.errors);
@@ -43,7 +67,9 @@ export class TimeOffValidator {
       const hasOverlap = await this.checkOverlappingRequests(
         params.userId,
         params.startDate,
-        params.endDate
+        params.endDate,
+        params.startHalf ?? null,
+        params.endHalf ?? null
       );
       if (hasOverlap) {
         errors.push({
@@ -57,15 +83,20 @@ export class TimeOffValidator {
         params.userId,
         params.startDate.getFullYear()
       );
-      if (requestCount >= this.rules.maxRequestsPerYear) {
+      if (requestCount >= rules.maxRequestsPerYear) {
         errors.push({
           code: 'REQUEST_LIMIT_EXCEEDED',
-          message: `You have reached the maximum number of requests (${this.rules.maxRequestsPerYear}) for this year`
+          message: `You have reached the maximum number of requests (${rules.maxRequestsPerYear}) for this year`
         });
       }
 
       // Check balance
-      const workingDays = calculateWorkingDays(params.startDate, params.endDate);
+      const workingDays = calculateWorkingDays(params.startDate, params.endDate, {
+        calendar,
+        schedule,
+        startHalf: params.startHalf,
+        endHalf: params.endHalf
+      });
       const hasBalance = await this.checkBalance(
         params.userId,
         params.type,
@@ -79,26 +110,84 @@ export class TimeOffValidator {
         });
       }
 
+      // Staffing limits don't block a request, but approvers need an override
+      const warnings: ValidationError[] = [];
+      const staffingWarning = await this.checkStaffing(params.userId, params.startDate, params.endDate);
+      if (staffingWarning) {
+        warnings.push(staffingWarning);
+      }
+
       return {
         isValid: errors.length === 0,
-        errors
+        errors,
+        warnings
       };
     } catch (error) {
       throw new DatabaseError('Failed to validate request');
     }
   }
 
-  private async checkOverlappingRequests(
+  /**
+   * Applies the stored policy for the request type and the user's role
+   */
+  private async getRules(userId: string, type: TimeOffType): Promise<TimeOffValidationRules> {
+    if (!(process.env.VERCEL || process.env.NODE_ENV === 'production')) {
+      return this.rules;
+    }
+
+    return applyValidationPolicy(this.rules, await validationPolicyService.findPolicy(userId, type, this.prisma));
+  }
+
+  /**
+   * Days of stored blackouts the request falls in, unless the user has an
+   * exception covering them
+   */
+  private async getStoredBlackoutDates(
     userId: string,
+    type: TimeOffType,
     startDate: Date,
     endDate: Date
+  ): Promise<Date[]> {
+    if (!(process.env.VERCEL || process.env.NODE_ENV === 'production')) {
+      return [];
+    }
+
+    const blackouts = await blackoutService.findConflicts(userId, type, startDate, endDate);
+    return getBlackoutDates(blackouts, type);
+  }
+
+  /**
+   * Warns when the request would put the user's team over its staffing limit
+   */
+  private async checkStaffing(userId: string, startDate: Date, endDate: Date): Promise<ValidationError | null> {
+    if (!(process.env.VERCEL || process.env.NODE_ENV === 'production')) {
+      return null;
+    }
+
+    const staffing = await teamService.checkStaffing(userId, startDate, endDate);
+    if (!staffing || staffing.conflicts.length === 0) {
+      return null;
+    }
+    return {
+      field: 'startDate',
+      code: 'STAFFING_LIMIT',
+      message: describeStaffingConflicts(staffing.team.name, staffing.conflicts)
+    };
+  }
+
+  private async checkOverlappingRequests(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    startHalf: HalfDay | null = null,
+    endHalf: HalfDay | null = null
   ): Promise<boolean> {
     try {
       if (process.env.VERCEL || process.env.NODE_ENV === 'production') {
-        const overlappingRequest = await this.prisma.timeOffRequest.findFirst({
+        const overlappingRequests = await this.prisma.timeOffRequest.findMany({
           where: {
             userId,
-            status: 'APPROVED',
+            status: { in: ['APPROVED', 'CANCELLATION_REQUESTED'] },
             OR: [
               {
                 AND: [
@@ -115,7 +204,10 @@ export class TimeOffValidator {
             ]
           }
         });
-        return !!overlappingRequest;
+        // A morning off and an afternoon off on the same day don't clash
+        return overlappingRequests.some(
+          request => !isComplementaryHalfDay({ startDate, endDate, startHalf, endHalf }, request)
+        );
       } else if (process.env.NODE_ENV === 'development') {
         const db = (this.prisma as any).$queryRaw;
         if (!db) {
@@ -0,0 +1,46 @@
+export type BalanceUnit = 'DAYS' | 'HOURS';
+
+export interface WorkHours {
+  // Length of the user's standard working day
+  hoursPerDay: number;
+  // How the user's balances are displayed
+  unit: BalanceUnit;
+}
+
+export const DEFAULT_HOURS_PER_DAY = 8;
+
+export const DEFAULT_WORK_HOURS: WorkHours = {
+  hoursPerDay: DEFAULT_HOURS_PER_DAY,
+  unit: 'DAYS',
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Converts hours to balance days using the given working-day length
+ */
+export function hoursToDays(hours: number, hoursPerDay: number = DEFAULT_HOURS_PER_DAY): number {
+  if (!(hoursPerDay > 0)) {
+    throw new Error('Hours per day must be greater than zero');
+  }
+  return hours / hoursPerDay;
+}
+
+/**
+ * Converts balance days to hours using the given working-day length
+ */
+export function daysToHours(days: number, hoursPerDay: number = DEFAULT_HOURS_PER_DAY): number {
+  return days * hoursPerDay;
+}
+
+/**
+ * Formats a balance stored in days in the user's preferred unit, e.g. "1.5 days" or "9 hours"
+ */
+export function formatBalance(days: number, workHours: WorkHours = DEFAULT_WORK_HOURS): string {
+  if (workHours.unit === 'HOURS') {
+    const hours = round(daysToHours(days, workHours.hoursPerDay));
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  }
+  const value = round(days);
+  return `${value} ${value === 1 ? 'day' : 'days'}`;
+}
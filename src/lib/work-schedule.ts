@@ -0,0 +1,62 @@
+/**
+ * Per-employee weekly work patterns
+ *
+ * A pattern lists the weekdays someone works and, optionally, how many hours
+ * they work on each of those days. Patterns are kept as a dated history so a
+ * request is always counted under the pattern that applied on each of its days.
+ */
+
+import { toDateKey } from './holidays';
+
+export interface WorkPattern {
+  weekdays: number[]; // 0=Sunday ... 6=Saturday
+  // Hours worked per weekday; days without an entry use the standard day length
+  hoursByWeekday?: Partial<Record<number, number>> | null;
+}
+
+export interface WorkScheduleEntry {
+  effectiveFrom: string; // YYYY-MM-DD, in effect until the next entry
+  pattern: WorkPattern;
+}
+
+export interface WorkSchedule {
+  isWorkingDay(date: Date): boolean;
+  getPattern(date: Date): WorkPattern;
+  // Scheduled hours on a date; 0 on days off
+  getHours(date: Date, standardHoursPerDay: number): number;
+}
+
+/**
+ * Monday to Friday, used for anyone without a recorded pattern
+ */
+export const STANDARD_WORK_PATTERN: WorkPattern = { weekdays: [1, 2, 3, 4, 5] };
+
+/**
+ * Builds a schedule from a pattern history. Dates before the first entry use
+ * the fallback pattern.
+ */
+export function createWorkSchedule(
+  history: WorkScheduleEntry[],
+  fallback: WorkPattern = STANDARD_WORK_PATTERN
+): WorkSchedule {
+  // Newest first so the first entry on or before a date is the one in effect
+  const entries = [...history].sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+
+  const getPattern = (date: Date): WorkPattern => {
+    const key = toDateKey(date);
+    return entries.find(entry => entry.effectiveFrom <= key)?.pattern ?? fallback;
+  };
+
+  const isWorkingDay = (date: Date): boolean => getPattern(date).weekdays.includes(date.getUTCDay());
+
+  return {
+    getPattern,
+    isWorkingDay,
+    getHours(date: Date, standardHoursPerDay: number): number {
+      if (!isWorkingDay(date)) return 0;
+      return getPattern(date).hoursByWeekday?.[date.getUTCDay()] ?? standardHoursPerDay;
+    },
+  };
+}
+
+export const standardWorkSchedule = createWorkSchedule([]);